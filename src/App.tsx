@@ -8,6 +8,7 @@ import EventPage from "./pages/EventPage";
 import NoticePage from "./pages/NoticePage";
 import OrgChartPage from "./pages/OrgChartPage";
 import EducationPage from "./pages/EducationPage";
+import CertificateVerifyPage from "./pages/CertificateVerifyPage";
 import Layout from "./components/Layout";
 
 export default function App() {
@@ -96,6 +97,16 @@ export default function App() {
         }
       />
 
+      {/* 수료증 확인 (관리자) */}
+      <Route
+        path="/certificates/verify"
+        element={
+          <Layout pageClassName="certificate-verify-page">
+            <CertificateVerifyPage />
+          </Layout>
+        }
+      />
+
       {/* 그 외 모든 경로도 대시보드로 */}
       <Route path="*" element={<Navigate to="/dashboard" replace />} />
     </Routes>
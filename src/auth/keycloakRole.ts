@@ -0,0 +1,23 @@
+// src/auth/keycloakRole.ts
+import keycloak from "../keycloak";
+import { normalizeRoles, pickPrimaryRole, type UserRole } from "./roles";
+
+/**
+ * Keycloak Role 기반 사용자 Role 계산
+ *
+ * - realm 레벨 Role: keycloak.realmAccess?.roles
+ * - client 레벨 Role: keycloak.resourceAccess?.[clientId]?.roles
+ *
+ * (주의) 환경에 따라 clientId가 web-app / ctrlf-frontend 등으로 다를 수 있으니 둘 다 탐색
+ */
+export function getKeycloakUserRole(): UserRole {
+  const realmRoles = keycloak.realmAccess?.roles ?? [];
+
+  const candidateClientIds = ["web-app", "ctrlf-frontend"];
+  const clientRoles = candidateClientIds.flatMap(
+    (cid) => keycloak.resourceAccess?.[cid]?.roles ?? []
+  );
+
+  const rawRoles = Array.from(new Set([...realmRoles, ...clientRoles]));
+  return pickPrimaryRole(normalizeRoles(rawRoles));
+}
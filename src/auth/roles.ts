@@ -30,7 +30,9 @@ export const ROLE_PRIORITY: UserRole[] = [
 export type Capability =
   | "OPEN_ADMIN_DASHBOARD"
   | "OPEN_REVIEWER_DESK"
-  | "OPEN_CREATOR_STUDIO";
+  | "OPEN_CREATOR_STUDIO"
+  | "OPEN_COMPLAINT_INBOX"
+  | "VERIFY_CERTIFICATES";
 
 /**
  * Keycloak raw role 문자열 배열을 프로젝트 표준 UserRole Set으로 정규화
@@ -89,7 +91,8 @@ export function pickPrimaryRole(roleSet: ReadonlySet<UserRole>): UserRole {
  * - SYSTEM_ADMIN: 관리자 대시보드만
  * - CONTENTS_REVIEWER: 검토 Desk만
  * - VIDEO_CREATOR: 제작 Studio만
- * - COMPLAINT_MANAGER: (현재 범위 밖) -> 기본적으로 오픈 권한 없음
+ * - COMPLAINT_MANAGER: 신고 처리함만
+ * - 수료증 진위 확인: SYSTEM_ADMIN
  */
 export function can(userRole: UserRole, capability: Capability): boolean {
   switch (capability) {
@@ -99,6 +102,10 @@ export function can(userRole: UserRole, capability: Capability): boolean {
       return userRole === "CONTENTS_REVIEWER";
     case "OPEN_CREATOR_STUDIO":
       return userRole === "VIDEO_CREATOR";
+    case "OPEN_COMPLAINT_INBOX":
+      return userRole === "COMPLAINT_MANAGER";
+    case "VERIFY_CERTIFICATES":
+      return userRole === "SYSTEM_ADMIN";
     default:
       return false;
   }
@@ -111,6 +118,8 @@ export function getChatHeaderTitle(userRole: UserRole): string {
   switch (userRole) {
     case "SYSTEM_ADMIN":
       return "chatbot (관리자)";
+    case "COMPLAINT_MANAGER":
+      return "chatbot (신고 담당자)";
     case "CONTENTS_REVIEWER":
       return "chatbot (검토자)";
     case "VIDEO_CREATOR":
@@ -7,8 +7,10 @@ import type { KeycloakTokenParsed } from "keycloak-js";
 // 헤더/사이드바 스타일은 기존 Dashboard.css 재사용
 import "../pages/Dashboard.css";
 import FloatingChatbotRoot from "./chatbot/FloatingChatbotRoot";
+import EduDeadlineReminders from "./chatbot/EduDeadlineReminders";
 
-import { normalizeRoles, pickPrimaryRole, type UserRole } from "../auth/roles";
+import { can, type UserRole } from "../auth/roles";
+import { getKeycloakUserRole } from "../auth/keycloakRole";
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -53,25 +55,8 @@ const Layout: React.FC<LayoutProps> = ({ children, pageClassName }) => {
   // Keycloak 로그인 여부
   const isAuthenticated = keycloak.authenticated === true;
 
-  /**
-   * Keycloak Role 기반 사용자 Role 계산
-   *
-   * - realm 레벨 Role: keycloak.realmAccess?.roles
-   * - client 레벨 Role: keycloak.resourceAccess?.[clientId]?.roles
-   *
-   * (주의) 환경에 따라 clientId가 web-app / ctrlf-frontend 등으로 다를 수 있으니 둘 다 탐색
-   */
-  const realmRoles = keycloak.realmAccess?.roles ?? [];
-
-  const candidateClientIds = ["web-app", "ctrlf-frontend"];
-  const clientRoles = candidateClientIds.flatMap(
-    (cid) => keycloak.resourceAccess?.[cid]?.roles ?? []
-  );
-
-  const rawRoles = Array.from(new Set([...realmRoles, ...clientRoles]));
-
-  const roleSet = normalizeRoles(rawRoles);
-  const userRole: UserRole = pickPrimaryRole(roleSet);
+  // Keycloak Role 기반 사용자 Role
+  const userRole: UserRole = getKeycloakUserRole();
 
   return (
     <div className={`dashboard-page ${pageClassName ?? ""}`}>
@@ -166,6 +151,14 @@ const Layout: React.FC<LayoutProps> = ({ children, pageClassName }) => {
           >
             교육
           </li>
+          {can(userRole, "VERIFY_CERTIFICATES") && (
+            <li
+              className={isActive("/certificates/verify") ? "active" : ""}
+              onClick={() => handleNavigate("/certificates/verify")}
+            >
+              수료증 확인
+            </li>
+          )}
         </ul>
       </aside>
 
@@ -181,6 +174,9 @@ const Layout: React.FC<LayoutProps> = ({ children, pageClassName }) => {
 
       {/* 로그인 + Role 기반 플로팅 챗봇 루트 */}
       {isAuthenticated && <FloatingChatbotRoot userRole={userRole} />}
+
+      {/* 필수 교육 마감 알림 */}
+      {isAuthenticated && <EduDeadlineReminders />}
     </div>
   );
 };
@@ -0,0 +1,266 @@
+// src/components/chatbot/ChatSettingsPanel.tsx
+import React, { useEffect, useState } from "react";
+import {
+  CHAT_DEFAULT_DOMAIN_OPTIONS,
+  CHAT_FONT_SIZE_OPTIONS,
+  CHAT_PANEL_PLACEMENT_OPTIONS,
+  EDU_REMINDER_OPTIONS,
+  updateChatPreferences,
+  useChatPreferences,
+} from "./chatPreferences";
+
+interface ChatSettingsPanelProps {
+  onClose: () => void;
+  /** 기본값으로 되돌리기 (저장값 삭제 + 패널 크기/아이콘 위치 정리는 상위에서) */
+  onReset: () => void;
+}
+
+/**
+ * 챗봇 환경설정 패널 (챗봇 창 안 오버레이)
+ * - 바꾸는 즉시 저장/적용 (별도 저장 버튼 없음)
+ * - 패널 위치/크기 설정은 다음에 패널을 열 때부터 적용
+ */
+const ChatSettingsPanel: React.FC<ChatSettingsPanelProps> = ({ onClose, onReset }) => {
+  const prefs = useChatPreferences();
+  const [confirmingReset, setConfirmingReset] = useState(false);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="cb-settings-backdrop"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="cb-settings-panel"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="cb-settings-title"
+      >
+        <header className="cb-settings-header">
+          <h3 id="cb-settings-title" className="cb-settings-title">
+            챗봇 설정
+          </h3>
+          <button
+            type="button"
+            className="cb-settings-close"
+            onClick={onClose}
+            aria-label="설정 닫기"
+          >
+            ✕
+          </button>
+        </header>
+
+        <div className="cb-settings-body">
+          <section className="cb-settings-section">
+            <h4 className="cb-settings-section-title">대화</h4>
+
+            <label className="cb-settings-row">
+              <span className="cb-settings-label">새 채팅 기본 주제</span>
+              <select
+                className="cb-settings-select"
+                value={prefs.defaultDomain ?? ""}
+                onChange={(e) => {
+                  const picked = CHAT_DEFAULT_DOMAIN_OPTIONS.find(
+                    (o) => (o.value ?? "") === e.target.value
+                  );
+                  updateChatPreferences({ defaultDomain: picked?.value ?? null });
+                }}
+              >
+                {CHAT_DEFAULT_DOMAIN_OPTIONS.map((o) => (
+                  <option key={o.value ?? "auto"} value={o.value ?? ""}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="cb-settings-row">
+              <span className="cb-settings-label">
+                답변을 받는 대로 표시
+                <small>끄면 답변이 완성된 뒤 한 번에 보여요.</small>
+              </span>
+              <input
+                type="checkbox"
+                className="cb-settings-toggle"
+                checked={prefs.streaming}
+                onChange={(e) => updateChatPreferences({ streaming: e.target.checked })}
+              />
+            </label>
+
+            <label className="cb-settings-row">
+              <span className="cb-settings-label">
+                Enter로 보내기
+                <small>
+                  {prefs.enterToSend
+                    ? "Shift+Enter로 줄을 바꿔요."
+                    : "Ctrl(⌘)+Enter로 보내고 Enter로 줄을 바꿔요."}
+                </small>
+              </span>
+              <input
+                type="checkbox"
+                className="cb-settings-toggle"
+                checked={prefs.enterToSend}
+                onChange={(e) => updateChatPreferences({ enterToSend: e.target.checked })}
+              />
+            </label>
+
+            <div className="cb-settings-row">
+              <span className="cb-settings-label" id="cb-settings-font">
+                글자 크기
+              </span>
+              <div className="cb-settings-segment" role="radiogroup" aria-labelledby="cb-settings-font">
+                {CHAT_FONT_SIZE_OPTIONS.map((o) => (
+                  <button
+                    key={o.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={prefs.fontSize === o.value}
+                    className={
+                      "cb-settings-segment-btn" + (prefs.fontSize === o.value ? " is-selected" : "")
+                    }
+                    onClick={() => updateChatPreferences({ fontSize: o.value })}
+                  >
+                    {o.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </section>
+
+          <section className="cb-settings-section">
+            <h4 className="cb-settings-section-title">창</h4>
+
+            <div className="cb-settings-row">
+              <span className="cb-settings-label" id="cb-settings-placement">
+                패널 여는 위치
+                <small>챗봇·교육·퀴즈 패널에 적용돼요.</small>
+              </span>
+              <div
+                className="cb-settings-segment"
+                role="radiogroup"
+                aria-labelledby="cb-settings-placement"
+              >
+                {CHAT_PANEL_PLACEMENT_OPTIONS.map((o) => (
+                  <button
+                    key={o.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={prefs.panelPlacement === o.value}
+                    className={
+                      "cb-settings-segment-btn" +
+                      (prefs.panelPlacement === o.value ? " is-selected" : "")
+                    }
+                    onClick={() => updateChatPreferences({ panelPlacement: o.value })}
+                  >
+                    {o.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="cb-settings-row">
+              <span className="cb-settings-label">
+                패널 크기 기억하기
+                <small>마지막으로 조절한 크기로 다시 열어요.</small>
+              </span>
+              <input
+                type="checkbox"
+                className="cb-settings-toggle"
+                checked={prefs.rememberPanelSize}
+                onChange={(e) =>
+                  updateChatPreferences({ rememberPanelSize: e.target.checked })
+                }
+              />
+            </label>
+          </section>
+
+          <section className="cb-settings-section">
+            <h4 className="cb-settings-section-title">교육 알림</h4>
+
+            <div className="cb-settings-row">
+              <span className="cb-settings-label" id="cb-settings-edu-reminders">
+                필수 교육 마감 알림
+                <small>이수하지 않은 필수 교육을 골라 둔 시점에 알려 드려요.</small>
+              </span>
+              <div
+                className="cb-settings-segment"
+                role="group"
+                aria-labelledby="cb-settings-edu-reminders"
+              >
+                {EDU_REMINDER_OPTIONS.map((o) => {
+                  const on = prefs.eduReminders.includes(o.value);
+                  return (
+                    <button
+                      key={o.value}
+                      type="button"
+                      aria-pressed={on}
+                      className={"cb-settings-segment-btn" + (on ? " is-selected" : "")}
+                      onClick={() =>
+                        updateChatPreferences({
+                          eduReminders: EDU_REMINDER_OPTIONS.map((x) => x.value).filter((v) =>
+                            v === o.value ? !on : prefs.eduReminders.includes(v)
+                          ),
+                        })
+                      }
+                    >
+                      {o.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </section>
+        </div>
+
+        <footer className="cb-settings-footer">
+          {confirmingReset ? (
+            <div className="cb-settings-reset-confirm" role="alert">
+              <span>모든 설정과 패널 크기, 아이콘 위치를 기본값으로 되돌릴까요?</span>
+              <div className="cb-settings-reset-actions">
+                <button
+                  type="button"
+                  className="cb-settings-btn"
+                  onClick={() => setConfirmingReset(false)}
+                >
+                  취소
+                </button>
+                <button
+                  type="button"
+                  className="cb-settings-btn cb-settings-btn-danger"
+                  onClick={() => {
+                    setConfirmingReset(false);
+                    onReset();
+                  }}
+                >
+                  되돌리기
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              className="cb-settings-btn"
+              onClick={() => setConfirmingReset(true)}
+            >
+              기본값으로 되돌리기
+            </button>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ChatSettingsPanel;
@@ -21,9 +21,15 @@ import feedbackGoodIcon from "../../assets/chat-good.png"; // 좋은 응답 아
 import feedbackBadIcon from "../../assets/chat-bad.png"; // 별로예요 아이콘
 
 import type {
+  ChatAction,
+  ChatAttachment,
   ChatDomain,
   ChatSession,
   ChatSource,
+  ChatMessageDeliveryStatus,
+  ChatFeedbackDetail,
+  ChatFeedbackReason,
+  ChatPiiDecision,
   FeedbackValue,
   ReportPayload,
   ChatServiceDomain,
@@ -31,14 +37,82 @@ import type {
   FaqItem,
 } from "../../types/chat";
 import { can, getChatHeaderTitle, type UserRole } from "../../auth/roles";
+import type { ChatSearchTarget } from "./chatHistorySearch";
+import { hasInlineCitations } from "./chatCitations";
+import {
+  copyToClipboard,
+  markdownToHtml,
+  parseInlineMarkdown,
+  parseMarkdownBlocks,
+  tableToHtml,
+  tableToTsv,
+  type MdInline,
+  type MdTable,
+} from "./chatMarkdown";
+import { describeSourceLocation, type SourceFollowUpRequest } from "./chatSourceDocument";
+import { CHAT_EXPORT_ACTION_OPTIONS, type ChatExportAction } from "./chatExport";
+import { getBranchInfoByMessageId, type ChatBranchInfo } from "./chatBranches";
+import {
+  CHAT_FEEDBACK_REASON_OPTIONS,
+  feedbackSourceKey,
+  summarizeFeedbackDetail,
+} from "./chatFeedback";
+import {
+  CHAT_SLASH_COMMANDS,
+  filterSlashArgOptions,
+  matchSlashCommands,
+  parseSlashInput,
+  type ChatSlashArgOption,
+  type ChatSlashCommand,
+} from "./chatSlashCommands";
+import {
+  PII_KIND_LABELS,
+  detectPii,
+  maskPii,
+  piiKindsOf,
+  splitByPii,
+  type PiiMatch,
+} from "./chatPii";
+import {
+  getQuizAvailableEducations,
+  type QuizAvailableEducation,
+} from "./educationServiceApi";
+import type { ReportScope } from "./reportApi";
+import {
+  registerChatActionHandlers,
+  resolveChatAction,
+  useChatActionRegistryVersion,
+} from "./chatActions";
+import { useStableEvent } from "./useStableEvent";
+import { useDictation, useReadAloud } from "./useChatSpeech";
+import {
+  CHAT_ATTACHMENT_ACCEPT,
+  MAX_CHAT_ATTACHMENTS,
+  formatAttachmentBytes,
+  getLocalChatAttachmentPreview,
+  releaseChatAttachmentPreview,
+  resolveChatAttachmentUrl,
+} from "./chatAttachments";
+import { useChatAttachments } from "./useChatAttachments";
+import { useChatPreferences } from "./chatPreferences";
 
 interface ChatWindowProps {
   activeSession: ChatSession | null;
-  onSendMessage: (text: string) => void;
+  // pii: 전송 전 개인정보가 감지됐을 때 사용자 선택 (가려서/그대로)
+  // attachments: 업로드가 끝난 첨부 이미지/문서
+  onSendMessage: (
+    text: string,
+    pii?: ChatPiiDecision,
+    attachments?: ChatAttachment[]
+  ) => void;
   isSending: boolean;
+
+  // 답변 대기·생성 중 "생성 중단" (ChatbotApp에서 질문 POST부터 AbortSignal로 처리)
+  onStopGenerating?: () => void;
   onChangeDomain: (domain: ChatDomain) => void;
   onOpenEduPanel?: () => void;
-  onOpenQuizPanel?: () => void;
+  // quizId: 슬래시 명령(/quiz <교육명>)으로 고른 교육
+  onOpenQuizPanel?: (quizId?: string) => void;
   onOpenAdminPanel?: () => void;
 
   // FAQ: API 기반 (home + top10)
@@ -52,12 +126,16 @@ interface ChatWindowProps {
   // 답변 기준 다시 시도 버튼
   onRetryFromMessage?: (
     sourceQuestion: string,
-    mode: "retry" | "variant"
+    mode: "retry" | "variant",
+    assistantMessageId?: string
   ) => void;
 
   // 피드백 업데이트 콜백 (세션 상태 업데이트는 상위에서)
   onFeedbackChange?: (messageId: string, value: FeedbackValue) => void;
 
+  // "별로예요" 상세 피드백(사유/출처/의견) 저장·수정
+  onFeedbackDetailSubmit?: (messageId: string, detail: ChatFeedbackDetail) => void;
+
   // 피드백 요청 중인 메시지 ID Set (in-flight 차단용)
   feedbackLoadingIds?: Set<string>;
 
@@ -72,6 +150,37 @@ interface ChatWindowProps {
 
   onOpenReviewerPanel?: () => void;
   onOpenCreatorPanel?: () => void;
+
+  // 내 신고 내역(mine) / 신고 처리함(inbox, COMPLAINT_MANAGER)
+  onOpenReportCenter?: (mode: ReportScope, reportId?: string) => void;
+
+  // 메시지 검색 결과에서 넘어온 이동 대상 (해당 메시지로 스크롤 + 잠깐 강조)
+  focusMessage?: ChatSearchTarget | null;
+
+  // 현재 세션 내보내기 (Markdown/HTML/JSON/인쇄)
+  onExportSession?: (action: ChatExportAction) => void;
+
+  // 인용 마커/출처 클릭 → 원문 문서 열기
+  onOpenSource?: (source: ChatSource) => void;
+
+  // 이전 질문 수정 → 해당 질문 앞에서 대화 분기
+  onEditUserMessage?: (messageId: string, nextText: string, pii?: ChatPiiDecision) => void;
+
+  // 대화 분기 전환 ("‹ 2/3 ›")
+  onSwitchBranch?: (afterMessageId: string | null, nextIndex: number) => void;
+
+  // 전송 대기열: 오프라인 표시 + 대기/실패 질문 재시도·삭제
+  isOffline?: boolean;
+  pendingOutboxCount?: number;
+  onRetryQueuedMessage?: (messageId: string) => void;
+  onDiscardQueuedMessage?: (messageId: string) => void;
+
+  // 슬래시 명령 /new
+  onNewChat?: () => void;
+
+  // 문서 뷰어에서 요청한 후속 질문 (개인정보 확인을 거쳐 현재 세션으로 전송 후 consumed 호출)
+  pendingFollowUp?: SourceFollowUpRequest | null;
+  onPendingFollowUpConsumed?: () => void;
 }
 
 // UI에서 사용하는 메시지 타입
@@ -83,14 +192,43 @@ interface UiChatMessage {
   kind?: "normal" | "reportSuggestion" | "reportReceipt";
   // 피드백 (좋아요/별로예요)
   feedback?: FeedbackValue;
+  // "별로예요" 상세 피드백
+  feedbackDetail?: ChatFeedbackDetail;
   // 서버 메시지 UUID (피드백/재시도에 필요)
   serverId?: string;
   // RAG 참조 문서 목록 (출처 정보)
   sources?: ChatSource[];
+  // 사용자가 생성을 중단한 부분 답변
+  stopped?: boolean;
+  // 전송 대기열 상태 (user 메시지)
+  deliveryStatus?: ChatMessageDeliveryStatus;
+  // 신고 접수 말풍선에 연결된 신고 id
+  reportId?: string;
+  // 답변 아래 후속 질문 칩
+  followUps?: string[];
+  // 답변 액션 (레지스트리에 handler가 있으면 버튼)
+  action?: ChatAction;
+  // 질문 첨부 (user 메시지)
+  attachments?: ChatAttachment[];
 }
 
 type FaqFilterDomain = ChatServiceDomain | null; // null = HOME(추천)
 
+/** 개인정보 확인을 띄운 전송 경로 */
+type PiiReviewSource = "input" | "edit" | "followUp" | "faq";
+
+type PiiReviewState = {
+  source: PiiReviewSource;
+  text: string;
+  matches: PiiMatch[];
+  /** 확인 후 실제 전송 */
+  send: (text: string, pii?: ChatPiiDecision) => void;
+  /** 수정하기 (입력창 밖 질문: 수정할 곳으로 되돌림, 없으면 취소) */
+  onEdit?: (text: string) => void;
+  /** 입력창 밖 질문이 나온 세션 */
+  sessionId?: string;
+};
+
 function toUpperKey(v: unknown): string {
   return String(v ?? "")
     .trim()
@@ -187,7 +325,7 @@ function toServiceDomain(s: string): ChatServiceDomain {
 }
 
 type RoleChip = {
-  key: "admin" | "reviewer" | "creator";
+  key: "admin" | "reviewer" | "creator" | "complaint";
   label: string;
   className: string;
   onClick: () => void;
@@ -195,223 +333,209 @@ type RoleChip = {
 
 /**
  * =========================
- * 최소 마크다운 렌더러 (라이브러리 없이)
+ * 답변 마크다운 렌더러 (라이브러리 없이)
+ * - 해석은 chatMarkdown.ts(parseMarkdownBlocks / parseInlineMarkdown)가 맡고,
+ *   여기서는 블록/인라인 노드를 React 요소로 그린다.
  * 지원:
- * - 헤딩: # ~ ######  (###. 형태도 대응)
- * - 굵게: **bold** / __bold__
- * - 인라인 코드: `code`
+ * - 헤딩 / 문단 / 구분선 / 인용문(중첩 2단계까지)
+ * - 목록: Unordered(- * • · ●), Ordered(1. / 1) — 시작 번호 유지)
+ * - 표: | a | b | + | --- | :---: | (열 정렬, 가로 스크롤)
  * - 펜스 코드블록: ```lang ... ```
- * - 인용문: > quote
- * - 구분선: --- / *** / ___ (공백 섞인 형태도 일부 대응)
- * - 목록:
- *   - Unordered: "- item" / "* item" / "• item" / "· item" / "● item"
- *   - Ordered: "1. item" / "1) item"
+ * - 인라인: **굵게** / ~~취소선~~ / `code` / [링크](https://...) / 맨 URL / 허용 목록 HTML 태그
+ * - 인용 마커: [1] / [1, 2] (ctx.sources가 있을 때만, 번호 범위 밖이면 일반 텍스트)
  *
  * 주의:
- * - XSS 방지: dangerouslySetInnerHTML 사용 안 함
- * - 스트리밍 중 미완성 토큰(**, `)은 그대로 텍스트로 표시되었다가
- *   닫히는 순간부터 자연스럽게 렌더링됨(깨짐 방지)
- * - “빈 줄이 껴 있는 목록(loose list)”도 같은 리스트로 유지해서
- *   <ol> 번호가 매 항목마다 1로 리셋되는 문제를 방지
+ * - XSS 방지: dangerouslySetInnerHTML 사용 안 함, 링크는 http(s)/mailto/tel만
+ * - 스트리밍 중 닫히지 않은 문법(``` / ** / [..](..)은 일반 텍스트로 두었다가 닫히면 다시 해석
+ * - 코드블록/표는 블록 단위 복사 버튼 제공 (표는 TSV + HTML)
  * =========================
  */
 
-function normalizeNewlines(s: string): string {
-  return s.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
-}
-
-function isBlankLine(line: string): boolean {
-  return line.trim().length === 0;
-}
-
-function isOrderedListLine(line: string): boolean {
-  // "1. item" / "1) item" 모두 허용
-  return /^\s*\d+[.)]\s+/.test(line);
-}
-
-function isUnorderedListLine(line: string): boolean {
-  // LLM이 흔히 섞는 bullet들도 같이 허용
-  return /^\s*([-*•·●])\s+/.test(line);
-}
+/** 인라인 인용 마커 렌더링 컨텍스트 (출처가 있는 assistant 답변에서만 전달) */
+type MarkdownRenderContext = {
+  sources: ChatSource[];
+  onOpenSource?: (source: ChatSource) => void;
+};
 
-function stripOrderedMarker(line: string): string {
-  return line.replace(/^\s*\d+[.)]\s+/, "");
-}
+const MONO_FONT_FAMILY =
+  "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', 'Courier New', monospace";
 
-function stripUnorderedMarker(line: string): string {
-  return line.replace(/^\s*([-*•·●])\s+/, "");
-}
+/** 복사 후 "복사됨" 표시 시간 */
+const COPIED_FEEDBACK_MS = 1500;
 
-function parseHeadingLine(
-  line: string
-): { level: 1 | 2 | 3 | 4 | 5 | 6; text: string } | null {
-  // "### 제목", "###. 제목" (LLM이 가끔 ###. 형태로 출력) 둘 다 대응
-  const m = /^\s{0,3}(#{1,6})\s*\.?\s+(.*)\s*$/.exec(line);
-  if (!m) return null;
-
-  const level = Math.min(6, Math.max(1, m[1].length)) as 1 | 2 | 3 | 4 | 5 | 6;
-  const text = (m[2] ?? "").trim();
-  if (!text) return null;
+/**
+ * 복사 버튼 (코드블록/표/답변 전체 공용)
+ * - getPayload는 클릭 시점에 호출 (스트리밍으로 내용이 바뀌어도 최신 내용 복사)
+ */
+const CopyButton: React.FC<{
+  getPayload: () => { plain: string; html?: string };
+  className: string;
+  label?: string;
+  ariaLabel: string;
+}> = ({ getPayload, className, label = "복사", ariaLabel }) => {
+  const [copied, setCopied] = useState(false);
+  const timerRef = useRef<number | null>(null);
 
-  return { level, text };
-}
+  useEffect(() => {
+    return () => {
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    };
+  }, []);
 
-function isHorizontalRuleLine(line: string): boolean {
-  // --- / *** / ___
-  // 공백 섞인 형태(- - -)도 일부 대응
-  const s = line.trim();
-  if (!s) return false;
-  if (/^(-\s*){3,}$/.test(s)) return true;
-  if (/^(\*\s*){3,}$/.test(s)) return true;
-  if (/^(_\s*){3,}$/.test(s)) return true;
-  return false;
-}
+  const handleClick = () => {
+    const { plain, html } = getPayload();
+    void copyToClipboard(plain, html).then((ok) => {
+      if (!ok) return;
+      setCopied(true);
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+      timerRef.current = window.setTimeout(() => {
+        timerRef.current = null;
+        setCopied(false);
+      }, COPIED_FEEDBACK_MS);
+    });
+  };
 
-function parseBlockquoteLine(line: string): string | null {
-  const m = /^\s{0,3}>\s?(.*)$/.exec(line);
-  if (!m) return null;
-  return m[1] ?? "";
-}
+  return (
+    <button
+      type="button"
+      className={`${className}${copied ? " is-copied" : ""}`}
+      onClick={handleClick}
+      title={ariaLabel}
+      aria-label={ariaLabel}
+    >
+      {copied ? "복사됨" : label}
+    </button>
+  );
+};
 
-function parseCodeFenceLine(line: string): { lang: string } | null {
-  const m = /^\s{0,3}```\s*([A-Za-z0-9_-]+)?\s*$/.exec(line);
-  if (!m) return null;
-  const lang = (m[1] ?? "").trim();
-  return { lang };
+function renderCitationMarker(
+  numbers: number[],
+  keyBase: string,
+  ctx: MarkdownRenderContext
+): React.ReactNode {
+  return (
+    <span key={keyBase} className="cb-cite-group">
+      {numbers.map((n) => {
+        const src = ctx.sources[n - 1];
+        const title = src.title || src.docId;
+        const location = describeSourceLocation(src);
+        return (
+          <sup key={`${keyBase}:${n}`} className="cb-cite">
+            <button
+              type="button"
+              className="cb-cite-btn"
+              onClick={() => ctx.onOpenSource?.(src)}
+              disabled={!ctx.onOpenSource}
+              aria-label={`출처 ${n}: ${title}${location ? ` (${location})` : ""}`}
+            >
+              {n}
+            </button>
+            <span className="cb-cite-tooltip" role="tooltip">
+              <span className="cb-cite-tooltip-title">{title}</span>
+              {location && (
+                <span className="cb-cite-tooltip-location">{location}</span>
+              )}
+              {src.snippet && (
+                <span className="cb-cite-tooltip-snippet">"{src.snippet}"</span>
+              )}
+            </span>
+          </sup>
+        );
+      })}
+    </span>
+  );
 }
 
-function findNextSpecial(
-  src: string,
-  from: number
-): { pos: number; kind: "code" | "bold"; marker: "`" | "**" | "__" } | null {
-  const pCode = src.indexOf("`", from);
-
-  const pBold1 = src.indexOf("**", from);
-  const pBold2 = src.indexOf("__", from);
-
-  let bestPos = -1;
-  let bestKind: "code" | "bold" = "code";
-  let bestMarker: "`" | "**" | "__" = "`";
-
-  if (pCode !== -1) {
-    bestPos = pCode;
-    bestKind = "code";
-    bestMarker = "`";
-  }
-
-  const considerBold = (p: number, marker: "**" | "__") => {
-    if (p === -1) return;
-    if (bestPos === -1 || p < bestPos) {
-      bestPos = p;
-      bestKind = "bold";
-      bestMarker = marker;
+function renderInlineNodes(
+  nodes: MdInline[],
+  keyBase: string,
+  ctx?: MarkdownRenderContext
+): React.ReactNode[] {
+  return nodes.map((node, idx) => {
+    const key = `${keyBase}:${idx}`;
+    switch (node.type) {
+      case "text":
+        return <React.Fragment key={key}>{node.text}</React.Fragment>;
+      case "br":
+        return <br key={key} />;
+      case "code":
+        return (
+          <code
+            key={key}
+            className="cb-md-code"
+            style={{
+              fontFamily: MONO_FONT_FAMILY,
+              fontSize: "0.92em",
+              padding: "0.08em 0.38em",
+              borderRadius: 6,
+              background: "rgba(0,0,0,0.06)",
+            }}
+          >
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return (
+          <strong key={key} className="cb-md-bold" style={{ fontWeight: 700 }}>
+            {renderInlineNodes(node.children, key, ctx)}
+          </strong>
+        );
+      case "em":
+        return <em key={key}>{renderInlineNodes(node.children, key, ctx)}</em>;
+      case "del":
+        return <del key={key}>{renderInlineNodes(node.children, key, ctx)}</del>;
+      case "u":
+        return <u key={key}>{renderInlineNodes(node.children, key, ctx)}</u>;
+      case "sup":
+        return <sup key={key}>{renderInlineNodes(node.children, key, ctx)}</sup>;
+      case "sub":
+        return <sub key={key}>{renderInlineNodes(node.children, key, ctx)}</sub>;
+      case "mark":
+        return <mark key={key}>{renderInlineNodes(node.children, key, ctx)}</mark>;
+      case "link":
+        return (
+          <a
+            key={key}
+            className="cb-md-link"
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            {renderInlineNodes(node.children, key, ctx)}
+          </a>
+        );
+      case "cite":
+        return ctx ? (
+          renderCitationMarker(node.numbers, `${key}:cite`, ctx)
+        ) : (
+          <React.Fragment key={key}>[{node.numbers.join(", ")}]</React.Fragment>
+        );
     }
-  };
-
-  considerBold(pBold1, "**");
-  considerBold(pBold2, "__");
-
-  if (bestPos === -1) return null;
-  return { pos: bestPos, kind: bestKind, marker: bestMarker };
+  });
 }
 
 function renderInlineMarkdownLite(
   text: string,
   keyBase: string,
-  depth = 0
+  ctx?: MarkdownRenderContext
 ): React.ReactNode {
-  const src = String(text ?? "");
-  if (!src) return null;
-
-  // 과도한 재귀 방지(이론상 필요 거의 없지만 안전장치)
-  if (depth > 6) return src;
-
-  const nodes: React.ReactNode[] = [];
-  let i = 0;
-  let key = 0;
-
-  while (i < src.length) {
-    const next = findNextSpecial(src, i);
-    if (!next) {
-      nodes.push(src.slice(i));
-      break;
-    }
-
-    const { pos, kind, marker } = next;
-    if (pos > i) nodes.push(src.slice(i, pos));
-
-    if (kind === "code" && marker === "`") {
-      const close = src.indexOf("`", pos + 1);
-      if (close === -1) {
-        // 닫힘이 없으면 남은 부분은 그대로 출력(스트리밍 중 미완성 방어)
-        nodes.push(src.slice(pos));
-        break;
-      }
-
-      const inner = src.slice(pos + 1, close);
-      nodes.push(
-        <code
-          key={`${keyBase}:c:${key++}`}
-          className="cb-md-code"
-          style={{
-            fontFamily:
-              "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', 'Courier New', monospace",
-            fontSize: "0.92em",
-            padding: "0.08em 0.38em",
-            borderRadius: 6,
-            background: "rgba(0,0,0,0.06)",
-          }}
-        >
-          {inner}
-        </code>
-      );
-      i = close + 1;
-      continue;
-    }
-
-    if (kind === "bold" && (marker === "**" || marker === "__")) {
-      const close = src.indexOf(marker, pos + marker.length);
-      if (close === -1) {
-        // 닫힘이 없으면 그대로 출력(스트리밍 중 미완성 방어)
-        nodes.push(src.slice(pos));
-        break;
-      }
-
-      const inner = src.slice(pos + marker.length, close);
-      nodes.push(
-        <strong
-          key={`${keyBase}:b:${key++}`}
-          className="cb-md-bold"
-          style={{ fontWeight: 700 }}
-        >
-          {renderInlineMarkdownLite(
-            inner,
-            `${keyBase}:binner:${key++}`,
-            depth + 1
-          )}
-        </strong>
-      );
-      i = close + marker.length;
-      continue;
-    }
-
-    // 이론상 도달하지 않음
-    nodes.push(src.slice(pos, pos + 1));
-    i = pos + 1;
-  }
-
-  return <>{nodes}</>;
+  const nodes = parseInlineMarkdown(text, ctx?.sources.length ?? 0);
+  if (nodes.length === 0) return null;
+  return <>{renderInlineNodes(nodes, keyBase, ctx)}</>;
 }
 
-function renderParagraphBlock(block: string, keyBase: string): React.ReactNode {
-  const lines = normalizeNewlines(block).split("\n");
+function renderParagraphBlock(
+  block: string,
+  keyBase: string,
+  ctx?: MarkdownRenderContext
+): React.ReactNode {
+  const lines = block.split("\n");
   // 문단 내부의 줄바꿈은 <br/>로 유지
   const out: React.ReactNode[] = [];
   for (let i = 0; i < lines.length; i += 1) {
-    const line = lines[i];
     out.push(
       <React.Fragment key={`${keyBase}:pl:${i}`}>
-        {renderInlineMarkdownLite(line, `${keyBase}:in:${i}`)}
+        {renderInlineMarkdownLite(lines[i], `${keyBase}:in:${i}`, ctx)}
         {i < lines.length - 1 ? <br /> : null}
       </React.Fragment>
     );
@@ -430,41 +554,36 @@ function renderParagraphBlock(block: string, keyBase: string): React.ReactNode {
   );
 }
 
-function renderListBlock(block: string, keyBase: string): React.ReactNode {
-  const lines = normalizeNewlines(block)
-    .split("\n")
-    .filter((l) => !isBlankLine(l));
-
-  const allOrdered = lines.length > 0 && lines.every(isOrderedListLine);
-  const allUnordered = lines.length > 0 && lines.every(isUnorderedListLine);
-
-  if (!allOrdered && !allUnordered) {
-    return renderParagraphBlock(block, keyBase);
-  }
-
-  const items = lines.map((l, idx) => {
-    const content = allOrdered
-      ? stripOrderedMarker(l)
-      : stripUnorderedMarker(l);
-    return (
-      <li
-        key={`${keyBase}:li:${idx}`}
-        className="cb-md-li"
-        style={{ margin: "4px 0" }}
-      >
-        {renderInlineMarkdownLite(content, `${keyBase}:li-in:${idx}`)}
-      </li>
-    );
-  });
+function renderListBlock(
+  ordered: boolean,
+  start: number,
+  listItems: string[],
+  keyBase: string,
+  ctx?: MarkdownRenderContext
+): React.ReactNode {
+  const items = listItems.map((content, idx) => (
+    <li
+      key={`${keyBase}:li:${idx}`}
+      className="cb-md-li"
+      style={{ margin: "4px 0" }}
+    >
+      {renderInlineMarkdownLite(content, `${keyBase}:li-in:${idx}`, ctx)}
+    </li>
+  ));
 
   const commonStyle: React.CSSProperties = {
     margin: "6px 0",
     paddingLeft: 18,
   };
 
-  if (allOrdered) {
+  if (ordered) {
     return (
-      <ol key={keyBase} className="cb-md-ol" style={commonStyle}>
+      <ol
+        key={keyBase}
+        className="cb-md-ol"
+        style={commonStyle}
+        start={start !== 1 ? start : undefined}
+      >
         {items}
       </ol>
     );
@@ -480,7 +599,8 @@ function renderListBlock(block: string, keyBase: string): React.ReactNode {
 function renderHeadingBlock(
   level: 1 | 2 | 3 | 4 | 5 | 6,
   text: string,
-  keyBase: string
+  keyBase: string,
+  ctx?: MarkdownRenderContext
 ): React.ReactNode {
   // 말풍선 안에서는 너무 과한 H1 느낌 대신 "섹션 타이틀" 톤으로 절제
   const fontSize =
@@ -503,7 +623,7 @@ function renderHeadingBlock(
         lineHeight: 1.25,
       }}
     >
-      {renderInlineMarkdownLite(text, `${keyBase}:h:${level}`)}
+      {renderInlineMarkdownLite(text, `${keyBase}:h:${level}`, ctx)}
     </div>
   );
 }
@@ -530,20 +650,26 @@ function renderCodeBlock(
   const label = lang ? lang.toUpperCase() : "";
   return (
     <div key={keyBase} className="cb-md-prewrap" style={{ margin: "10px 0" }}>
-      {label && (
-        <div
-          className="cb-md-code-label"
-          style={{
-            fontSize: "0.78em",
-            opacity: 0.7,
-            marginBottom: 6,
-            fontWeight: 700,
-            letterSpacing: 0.3,
-          }}
-        >
-          {label}
-        </div>
-      )}
+      <div className="cb-md-block-toolbar">
+        {label && (
+          <span
+            className="cb-md-code-label"
+            style={{
+              fontSize: "0.78em",
+              opacity: 0.7,
+              fontWeight: 700,
+              letterSpacing: 0.3,
+            }}
+          >
+            {label}
+          </span>
+        )}
+        <CopyButton
+          className="cb-md-copy-btn"
+          getPayload={() => ({ plain: code })}
+          ariaLabel="코드 복사"
+        />
+      </div>
       <pre
         className="cb-md-pre"
         style={{
@@ -553,8 +679,7 @@ function renderCodeBlock(
           background: "rgba(0,0,0,0.06)",
           overflowX: "auto",
           whiteSpace: "pre",
-          fontFamily:
-            "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', 'Courier New', monospace",
+          fontFamily: MONO_FONT_FAMILY,
           fontSize: "0.92em",
           lineHeight: 1.4,
         }}
@@ -565,10 +690,58 @@ function renderCodeBlock(
   );
 }
 
+function renderTableBlock(
+  table: MdTable,
+  keyBase: string,
+  ctx?: MarkdownRenderContext
+): React.ReactNode {
+  const cellStyle = (i: number): React.CSSProperties | undefined => {
+    const align = table.align[i];
+    return align ? { textAlign: align } : undefined;
+  };
+
+  return (
+    <div key={keyBase} className="cb-md-table-block">
+      <div className="cb-md-block-toolbar">
+        <CopyButton
+          className="cb-md-copy-btn"
+          getPayload={() => ({ plain: tableToTsv(table), html: tableToHtml(table) })}
+          ariaLabel="표 복사"
+        />
+      </div>
+      <div className="cb-md-table-scroll">
+        <table className="cb-md-table">
+          <thead>
+            <tr>
+              {table.header.map((cell, i) => (
+                <th key={`${keyBase}:th:${i}`} style={cellStyle(i)}>
+                  {renderInlineMarkdownLite(cell, `${keyBase}:th-in:${i}`, ctx)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row, r) => (
+              <tr key={`${keyBase}:tr:${r}`}>
+                {row.map((cell, i) => (
+                  <td key={`${keyBase}:td:${r}:${i}`} style={cellStyle(i)}>
+                    {renderInlineMarkdownLite(cell, `${keyBase}:td-in:${r}:${i}`, ctx)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 function renderBlockquoteBlock(
   content: string,
   keyBase: string,
-  depth: number
+  depth: number,
+  ctx?: MarkdownRenderContext
 ): React.ReactNode {
   return (
     <div
@@ -582,7 +755,7 @@ function renderBlockquoteBlock(
         borderRadius: 10,
       }}
     >
-      {renderMarkdownLite(content, `${keyBase}:inner`, depth + 1)}
+      {renderMarkdownLite(content, `${keyBase}:inner`, depth + 1, ctx)}
     </div>
   );
 }
@@ -590,221 +763,36 @@ function renderBlockquoteBlock(
 function renderMarkdownLite(
   text: string,
   keyBase = "md",
-  depth = 0
+  depth = 0,
+  ctx?: MarkdownRenderContext
 ): React.ReactNode {
   const src = String(text ?? "");
   if (!src) return null;
 
   // 재귀 안전장치(인용문 내부에서 다시 renderMarkdownLite 호출)
   if (depth > 2) {
-    return renderParagraphBlock(src, `${keyBase}:maxdepth`);
+    return renderParagraphBlock(src, `${keyBase}:maxdepth`, ctx);
   }
 
-  const lines = normalizeNewlines(src).split("\n");
-
-  const out: React.ReactNode[] = [];
-  let paraBuf: string[] = [];
-
-  let listBuf: string[] = [];
-  let listKind: "ordered" | "unordered" | null = null;
-
-  // loose list: 목록 중간의 빈 줄이 <ol>을 분리해 번호가 1로 리셋되는 문제 방지
-  let pendingListBlank = false;
-
-  // blockquote
-  let quoteBuf: string[] = [];
-
-  // fenced code
-  let inCodeFence = false;
-  let codeFenceLang = "";
-  let codeBuf: string[] = [];
-
-  let pIndex = 0;
-  let lIndex = 0;
-  let hIndex = 0;
-  let rIndex = 0;
-  let qIndex = 0;
-  let cIndex = 0;
-
-  const flushPara = () => {
-    if (paraBuf.length === 0) return;
-    out.push(
-      renderParagraphBlock(paraBuf.join("\n"), `${keyBase}:p:${pIndex++}`)
-    );
-    paraBuf = [];
-  };
-
-  const flushList = () => {
-    if (listBuf.length === 0) return;
-    out.push(renderListBlock(listBuf.join("\n"), `${keyBase}:l:${lIndex++}`));
-    listBuf = [];
-    listKind = null;
-    pendingListBlank = false;
-  };
-
-  const flushQuote = () => {
-    if (quoteBuf.length === 0) return;
-    out.push(
-      renderBlockquoteBlock(
-        quoteBuf.join("\n"),
-        `${keyBase}:q:${qIndex++}`,
-        depth
-      )
-    );
-    quoteBuf = [];
-  };
-
-  const flushCode = () => {
-    if (!inCodeFence) return;
-    out.push(
-      renderCodeBlock(
-        codeBuf.join("\n"),
-        codeFenceLang,
-        `${keyBase}:c:${cIndex++}`
-      )
-    );
-    inCodeFence = false;
-    codeFenceLang = "";
-    codeBuf = [];
-  };
-
-  for (const rawLine of lines) {
-    const line = rawLine;
-
-    // 1) fenced code 내부
-    if (inCodeFence) {
-      const fence = parseCodeFenceLine(line);
-      if (fence) {
-        // closing fence
-        flushCode();
-        continue;
-      }
-      codeBuf.push(line);
-      continue;
-    }
-
-    // 2) code fence 시작
-    const fenceStart = parseCodeFenceLine(line);
-    if (fenceStart) {
-      flushQuote();
-      flushList();
-      flushPara();
-
-      inCodeFence = true;
-      codeFenceLang = fenceStart.lang;
-      codeBuf = [];
-      continue;
-    }
-
-    // 3) 빈 줄 처리
-    if (isBlankLine(line)) {
-      // quote 진행 중이면 빈 줄도 유지(인용문 내부 문단 유지)
-      if (quoteBuf.length > 0) {
-        quoteBuf.push("");
-        continue;
-      }
-
-      // list 진행 중이면 일단 보류(다음 라인이 list이면 같은 리스트로 유지)
-      if (listKind !== null) {
-        pendingListBlank = true;
-        continue;
-      }
-
-      // 일반 문단 종료
-      flushPara();
-      continue;
-    }
-
-    // 4) list blank 보류 상태 처리
-    if (pendingListBlank && listKind !== null) {
-      const isOl = isOrderedListLine(line);
-      const isUl = isUnorderedListLine(line);
-      const kind: "ordered" | "unordered" | null = isOl
-        ? "ordered"
-        : isUl
-        ? "unordered"
-        : null;
-
-      if (!kind || kind !== listKind) {
-        flushList();
-      } else {
-        pendingListBlank = false;
-      }
-    }
-
-    // 5) 구분선
-    if (isHorizontalRuleLine(line)) {
-      flushQuote();
-      flushList();
-      flushPara();
-      out.push(renderHorizontalRule(`${keyBase}:hr:${rIndex++}`));
-      continue;
-    }
-
-    // 6) 인용문
-    const q = parseBlockquoteLine(line);
-    if (q !== null) {
-      flushList();
-      flushPara();
-      quoteBuf.push(q);
-      continue;
-    } else if (quoteBuf.length > 0) {
-      flushQuote();
-    }
-
-    // 7) 헤딩
-    const heading = parseHeadingLine(line);
-    if (heading) {
-      flushList();
-      flushPara();
-      out.push(
-        renderHeadingBlock(
-          heading.level,
-          heading.text,
-          `${keyBase}:h:${hIndex++}`
-        )
-      );
-      continue;
-    }
-
-    // 8) 리스트
-    const isOl = isOrderedListLine(line);
-    const isUl = isUnorderedListLine(line);
-
-    if (isOl || isUl) {
-      const kind: "ordered" | "unordered" = isOl ? "ordered" : "unordered";
-      flushPara();
-
-      if (listKind === null) {
-        listKind = kind;
-        listBuf.push(line);
-        pendingListBlank = false;
-        continue;
-      }
-
-      if (listKind === kind) {
-        listBuf.push(line);
-        pendingListBlank = false;
-        continue;
-      }
-
-      flushList();
-      listKind = kind;
-      listBuf.push(line);
-      pendingListBlank = false;
-      continue;
+  const out = parseMarkdownBlocks(src).map((block, idx) => {
+    const key = `${keyBase}:${block.type}:${idx}`;
+    switch (block.type) {
+      case "paragraph":
+        return renderParagraphBlock(block.text, key, ctx);
+      case "heading":
+        return renderHeadingBlock(block.level, block.text, key, ctx);
+      case "list":
+        return renderListBlock(block.ordered, block.start, block.items, key, ctx);
+      case "quote":
+        return renderBlockquoteBlock(block.text, key, depth, ctx);
+      case "code":
+        return renderCodeBlock(block.code, block.lang, key);
+      case "table":
+        return renderTableBlock(block, key, ctx);
+      case "hr":
+        return renderHorizontalRule(key);
     }
-
-    // 9) 일반 문단
-    flushList();
-    paraBuf.push(line);
-  }
-
-  // tail flush
-  flushCode();
-  flushQuote();
-  flushList();
-  flushPara();
+  });
 
   return (
     <div className="cb-md-root" style={{ margin: 0 }}>
@@ -817,11 +805,14 @@ function renderMarkdownLite(
  * 출처(Sources) 컴포넌트
  * - 접기/펼치기 기능
  * - 문서 제목, 조항 라벨, 스니펫 표시
+ * - 본문에 인용 마커가 없으면 "참고 근거"가 아니라 "관련 문서"로 표시
  */
-const SourcesSection: React.FC<{ sources: ChatSource[]; messageId: string }> = ({
-  sources,
-  messageId,
-}) => {
+const SourcesSection: React.FC<{
+  sources: ChatSource[];
+  messageId: string;
+  cited: boolean;
+  onOpenSource?: (source: ChatSource) => void;
+}> = ({ sources, messageId, cited, onOpenSource }) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
   if (!sources || sources.length === 0) return null;
@@ -853,7 +844,9 @@ const SourcesSection: React.FC<{ sources: ChatSource[]; messageId: string }> = (
         }}
       >
         <span style={{ fontSize: "0.9em" }}>📚</span>
-        <span>참고 근거 ({sources.length})</span>
+        <span>
+          {cited ? "참고 근거" : "관련 문서"} ({sources.length})
+        </span>
         <span style={{ fontSize: "0.8em", marginLeft: 2 }}>
           {isExpanded ? "▲" : "▼"}
         </span>
@@ -888,6 +881,9 @@ const SourcesSection: React.FC<{ sources: ChatSource[]; messageId: string }> = (
                   marginBottom: 2,
                 }}
               >
+                <span className="cb-source-index" aria-hidden="true">
+                  {idx + 1}
+                </span>
                 <span
                   style={{
                     fontSize: "0.8em",
@@ -915,6 +911,15 @@ const SourcesSection: React.FC<{ sources: ChatSource[]; messageId: string }> = (
                     p.{src.page}
                   </span>
                 )}
+                {onOpenSource && (
+                  <button
+                    type="button"
+                    className="cb-source-open-btn"
+                    onClick={() => onOpenSource(src)}
+                  >
+                    원문 보기
+                  </button>
+                )}
               </div>
 
               {src.articleLabel && (
@@ -953,10 +958,225 @@ const SourcesSection: React.FC<{ sources: ChatSource[]; messageId: string }> = (
   );
 };
 
+/**
+ * "별로예요" 상세 피드백 폼
+ * - 사유(복수 선택) / 잘못된 출처 선택 / 자유 의견
+ * - 모두 선택 사항: "건너뛰기"로 닫아도 "별로예요"는 이미 저장됨
+ */
+const FeedbackDetailForm: React.FC<{
+  sources?: ChatSource[];
+  initial?: ChatFeedbackDetail;
+  disabled?: boolean;
+  onSubmit: (detail: ChatFeedbackDetail) => void;
+  onCancel: () => void;
+}> = ({ sources, initial, disabled, onSubmit, onCancel }) => {
+  const [reasons, setReasons] = useState<ChatFeedbackReason[]>(initial?.reasons ?? []);
+  const [wrongKeys, setWrongKeys] = useState<string[]>(initial?.wrongSourceKeys ?? []);
+  const [comment, setComment] = useState(initial?.comment ?? "");
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const showSourcePicker =
+    !!sources?.length && (reasons.includes("wrong_source") || wrongKeys.length > 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = comment.trim();
+    onSubmit({
+      reasons,
+      ...(trimmed ? { comment: trimmed } : {}),
+      ...(showSourcePicker && wrongKeys.length > 0 ? { wrongSourceKeys: wrongKeys } : {}),
+      updatedAt: Date.now(),
+    });
+  };
+
+  return (
+    <form className="cb-feedback-form" onSubmit={handleSubmit}>
+      <div className="cb-feedback-form-title">어떤 점이 아쉬웠나요? (선택)</div>
+
+      <div className="cb-feedback-reasons" role="group" aria-label="사유">
+        {CHAT_FEEDBACK_REASON_OPTIONS.map((o) => (
+          <button
+            key={o.value}
+            type="button"
+            className={
+              "cb-feedback-reason" + (reasons.includes(o.value) ? " is-selected" : "")
+            }
+            aria-pressed={reasons.includes(o.value)}
+            onClick={() => setReasons((prev) => toggle(prev, o.value))}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+
+      {showSourcePicker && (
+        <fieldset className="cb-feedback-sources">
+          <legend>잘못된 출처를 골라 주세요</legend>
+          {sources!.map((src, idx) => {
+            const key = feedbackSourceKey(src);
+            return (
+              <label key={`${key}-${idx}`} className="cb-feedback-source">
+                <input
+                  type="checkbox"
+                  checked={wrongKeys.includes(key)}
+                  onChange={() => setWrongKeys((prev) => toggle(prev, key))}
+                />
+                <span>
+                  [{idx + 1}] {src.title || src.docId}
+                  {src.articleLabel ? ` · ${src.articleLabel}` : src.page ? ` · p.${src.page}` : ""}
+                </span>
+              </label>
+            );
+          })}
+        </fieldset>
+      )}
+
+      <textarea
+        className="cb-feedback-comment"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="자세한 내용을 남겨 주시면 답변 품질 개선에 반영됩니다."
+        maxLength={1000}
+        rows={2}
+      />
+
+      <div className="cb-feedback-form-actions">
+        <button type="button" className="cb-feedback-form-btn" onClick={onCancel}>
+          {initial ? "취소" : "건너뛰기"}
+        </button>
+        <button
+          type="submit"
+          className="cb-feedback-form-btn cb-feedback-form-btn-primary"
+          disabled={disabled}
+        >
+          {initial ? "수정" : "보내기"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/** 첨부만 보내고 질문을 비워 둔 경우의 기본 질문 */
+const ATTACHMENT_ONLY_QUESTION = "첨부한 파일을 확인해 주세요.";
+
+/** 첨부 열기: 팝업 차단을 피하려고 클릭 시점에 창을 먼저 연다 */
+function openChatAttachment(att: ChatAttachment) {
+  const win = window.open("", "_blank");
+
+  void (async () => {
+    try {
+      const url = await resolveChatAttachmentUrl(att);
+      if (win && !win.closed) {
+        win.opener = null;
+        win.location.href = url;
+      } else {
+        window.open(url, "_blank", "noopener");
+      }
+    } catch (e: unknown) {
+      console.warn("[ChatWindow] open attachment failed:", e);
+      win?.close();
+    }
+  })();
+}
+
+/**
+ * 이미지 썸네일 (방금 올린 파일은 로컬 미리보기, 아니면 presign URL을 받아서 표시)
+ * - 로컬 미리보기는 한 번 그려지면 해제한다(이후 다시 그릴 때는 presign URL)
+ */
+const AttachmentThumb: React.FC<{ attachment: ChatAttachment }> = ({ attachment }) => {
+  const [src, setSrc] = useState<string | null>(() =>
+    getLocalChatAttachmentPreview(attachment)
+  );
+  const [isLocal, setIsLocal] = useState(() => src !== null);
+  const [failed, setFailed] = useState(false);
+
+  const handleLoad = () => {
+    if (isLocal) releaseChatAttachmentPreview(attachment.objectKey);
+  };
+
+  const handleError = () => {
+    // 이미 해제된 로컬 미리보기면 presign URL로 다시 시도
+    if (isLocal) {
+      releaseChatAttachmentPreview(attachment.objectKey);
+      setIsLocal(false);
+      setSrc(null);
+      return;
+    }
+    setFailed(true);
+  };
+
+  useEffect(() => {
+    if (src) return;
+    let alive = true;
+    resolveChatAttachmentUrl(attachment)
+      .then((url) => {
+        if (alive) setSrc(url);
+      })
+      .catch((e: unknown) => {
+        console.warn("[ChatWindow] attachment preview failed:", e);
+        if (alive) setFailed(true);
+      });
+    return () => {
+      alive = false;
+    };
+  }, [attachment, src]);
+
+  return (
+    <button
+      type="button"
+      className="cb-chat-attach-thumb"
+      onClick={() => openChatAttachment(attachment)}
+      title={`${attachment.fileName} 열기`}
+      aria-label={`${attachment.fileName} 열기`}
+    >
+      {src && !failed ? (
+        <img src={src} alt={attachment.fileName} onLoad={handleLoad} onError={handleError} />
+      ) : (
+        <span className="cb-chat-attach-thumb-fallback">
+          {failed ? "미리보기 없음" : "불러오는 중…"}
+        </span>
+      )}
+    </button>
+  );
+};
+
+/** 질문 말풍선 아래 첨부 (이미지는 썸네일, 문서는 파일 칩) */
+const MessageAttachments: React.FC<{ attachments: ChatAttachment[] }> = ({ attachments }) => {
+  const images = attachments.filter((a) => a.fileType === "image");
+  const docs = attachments.filter((a) => a.fileType !== "image");
+
+  return (
+    <div className="cb-chat-attach-list">
+      {images.length > 0 && (
+        <div className="cb-chat-attach-thumbs">
+          {images.map((a) => (
+            <AttachmentThumb key={a.objectKey} attachment={a} />
+          ))}
+        </div>
+      )}
+      {docs.map((a) => (
+        <button
+          key={a.objectKey}
+          type="button"
+          className="cb-chat-attach-chip"
+          onClick={() => openChatAttachment(a)}
+          title={`${a.fileName} 열기`}
+        >
+          <span className="cb-chat-attach-chip-name">{a.fileName}</span>
+          <span className="cb-chat-attach-chip-size">{formatAttachmentBytes(a.size)}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
 const ChatWindow: React.FC<ChatWindowProps> = ({
   activeSession,
   onSendMessage,
   isSending,
+  onStopGenerating,
   onChangeDomain,
   onOpenEduPanel,
   onOpenQuizPanel,
@@ -967,17 +1187,38 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
   onFaqQuickSend,
   onRetryFromMessage,
   onFeedbackChange,
+  onFeedbackDetailSubmit,
   feedbackLoadingIds,
   retryLoadingMessageId,
   onReportSubmit,
   userRole,
   onOpenReviewerPanel,
   onOpenCreatorPanel,
+  onOpenReportCenter,
+  focusMessage,
+  onExportSession,
+  onOpenSource,
+  onEditUserMessage,
+  onSwitchBranch,
+  isOffline,
+  pendingOutboxCount = 0,
+  onRetryQueuedMessage,
+  onDiscardQueuedMessage,
+  onNewChat,
+  pendingFollowUp,
+  onPendingFollowUpConsumed,
 }) => {
   const [inputValue, setInputValue] = useState("");
   const inputRef = useRef<HTMLTextAreaElement | null>(null);
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
 
+  // 검색 이동: 메시지 row DOM 참조 + 이미 처리한 nonce
+  const messageRowRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  const handledFocusNonceRef = useRef<number | null>(null);
+  // 검색으로 이동한 뒤에는 다음 전송 전까지 하단 자동 스크롤을 멈춤
+  const holdAutoScrollRef = useRef(false);
+  const focusHighlightTimerRef = useRef<number | null>(null);
+
   // 전송이 끝난 뒤 입력창에 포커스를 “복구”하기 위한 플래그
   const refocusAfterSendRef = useRef(false);
 
@@ -996,12 +1237,35 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
   const [faqTop10Loading, setFaqTop10Loading] = useState(false);
   const [faqTop10Error, setFaqTop10Error] = useState<string | null>(null);
 
+  // 헤더 내보내기 메뉴
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+
   // 신고 모달 상태
   const [isReportModalOpen, setIsReportModalOpen] = useState(false);
   const [reportContent, setReportContent] = useState("");
   const [reportError, setReportError] = useState<string | null>(null);
   const reportTextareaRef = useRef<HTMLTextAreaElement | null>(null);
 
+  // 슬래시 명령 팔레트: 강조 항목 + Esc로 닫은 입력(입력이 바뀌면 다시 열림)
+  const [slashActiveIndex, setSlashActiveIndex] = useState(0);
+  const [slashDismissedInput, setSlashDismissedInput] = useState<string | null>(null);
+
+  // 전송 전 개인정보 확인
+  // - input: 입력창 전송 (입력이 바뀌면 자동으로 무효)
+  // - edit / followUp / faq: 질문 수정 저장, 후속 질문 칩, FAQ 바로 보내기 (세션이 바뀌면 무효)
+  const [piiReview, setPiiReview] = useState<PiiReviewState | null>(null);
+
+  // 사용자 설정 (글자 크기 / 전송 키)
+  const { fontSize, enterToSend } = useChatPreferences();
+
+  // 질문 첨부 (고르면 바로 업로드, 전송 시 object key만 함께 보냄)
+  const attachmentDraft = useChatAttachments();
+  const attachInputRef = useRef<HTMLInputElement | null>(null);
+
+  // /quiz 인자 후보 (처음 /quiz 를 입력할 때 한 번만 조회)
+  const [quizEducations, setQuizEducations] = useState<QuizAvailableEducation[]>([]);
+  const quizEducationsRequestedRef = useRef(false);
+
   // 세션/도메인 정보
   const currentDomain: ChatDomain = activeSession?.domain ?? "general";
   const isFaqDomain = currentDomain === "faq";
@@ -1038,15 +1302,242 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
   const isAdmin = can(userRole, "OPEN_ADMIN_DASHBOARD");
   const isReviewer = can(userRole, "OPEN_REVIEWER_DESK");
   const isCreator = can(userRole, "OPEN_CREATOR_STUDIO");
+  const isComplaintManager =
+    can(userRole, "OPEN_COMPLAINT_INBOX") && Boolean(onOpenReportCenter);
 
   // 홈 상단이 3카드(가운데 역할 카드 포함)인지
-  const hasMiddleRoleCard = isAdmin || isReviewer || isCreator;
+  const hasMiddleRoleCard = isAdmin || isReviewer || isCreator || isComplaintManager;
 
   // 원본 세션 메시지 → UI 타입으로 캐스팅
   const rawMessages = activeSession?.messages ?? [];
   const messages = rawMessages as UiChatMessage[];
   const hasMessages = messages.length > 0;
 
+  // 분기 tail의 첫 메시지 → "2/3" 표시 정보
+  const branchInfoById = useMemo(
+    () => getBranchInfoByMessageId(activeSession),
+    [activeSession]
+  );
+
+  // 질문 수정 중인 메시지 (세션이 바뀌면 자동으로 무효)
+  const [editing, setEditing] = useState<{
+    sessionId: string;
+    messageId: string;
+    draft: string;
+  } | null>(null);
+  const editingMessageId =
+    editing && editing.sessionId === activeSession?.id ? editing.messageId : null;
+
+  // "별로예요" 상세 피드백 폼이 열린 메시지 (세션이 바뀌면 자동으로 무효)
+  const [feedbackFormTarget, setFeedbackFormTarget] = useState<{
+    sessionId: string;
+    messageId: string;
+  } | null>(null);
+  const feedbackFormMessageId =
+    feedbackFormTarget && feedbackFormTarget.sessionId === activeSession?.id
+      ? feedbackFormTarget.messageId
+      : null;
+
+  const handleSubmitEdit = () => {
+    if (!editing || !onEditUserMessage) return;
+    const { sessionId, messageId } = editing;
+    const next = editing.draft.trim();
+    setEditing(null);
+    if (!next) return;
+
+    const send = (text: string, pii?: ChatPiiDecision) =>
+      onEditUserMessage(messageId, text, pii);
+    // 개인정보가 보이면 확인 후 전송 (수정하기: 수정 중이던 말풍선으로 되돌림)
+    if (
+      requestPiiReview("edit", next, send, (text) =>
+        setEditing({ sessionId, messageId, draft: text })
+      )
+    ) {
+      return;
+    }
+    send(next);
+  };
+
+  // "별로예요" 상세: 입력 폼 또는 저장된 내용 요약(수정 가능)
+  const renderFeedbackDetail = (msg: UiChatMessage) => {
+    if (!onFeedbackDetailSubmit || !msg.serverId || msg.feedback !== "down") return null;
+
+    const isLoading = feedbackLoadingIds?.has(msg.id) ?? false;
+
+    if (feedbackFormMessageId === msg.id) {
+      return (
+        <FeedbackDetailForm
+          key={msg.id}
+          sources={msg.sources}
+          initial={msg.feedbackDetail}
+          disabled={isLoading}
+          onCancel={() => setFeedbackFormTarget(null)}
+          onSubmit={(detail) => {
+            setFeedbackFormTarget(null);
+            onFeedbackDetailSubmit(msg.id, detail);
+          }}
+        />
+      );
+    }
+
+    const openForm = () => {
+      if (!activeSession) return;
+      setFeedbackFormTarget({ sessionId: activeSession.id, messageId: msg.id });
+    };
+
+    const summary = msg.feedbackDetail ? summarizeFeedbackDetail(msg.feedbackDetail) : "";
+
+    return (
+      <div className="cb-feedback-summary">
+        {summary ? (
+          <span className="cb-feedback-summary-text">남긴 의견: {summary}</span>
+        ) : (
+          <span className="cb-feedback-summary-text">아쉬운 점을 알려 주시겠어요?</span>
+        )}
+        <button
+          type="button"
+          className="cb-feedback-summary-btn"
+          onClick={openForm}
+          disabled={isLoading}
+        >
+          {summary ? "수정" : "의견 남기기"}
+        </button>
+      </div>
+    );
+  };
+
+  // ====== 답변 액션 버튼 (chatActions 레지스트리) ======
+  useChatActionRegistryVersion();
+  const [confirmActionMessageId, setConfirmActionMessageId] = useState<string | null>(null);
+
+  const renderMessageAction = (msg: UiChatMessage) => {
+    const resolved = resolveChatAction(msg.action);
+    if (!resolved) return null;
+
+    const { action, handler, label } = resolved;
+    const confirm = handler.confirm?.(action) ?? null;
+    const run = () => {
+      setConfirmActionMessageId(null);
+      handler.run(action);
+    };
+
+    if (confirm && confirmActionMessageId === msg.id) {
+      return (
+        <div className="cb-chat-action-confirm" role="group" aria-label={confirm.title}>
+          <div className="cb-chat-action-confirm-title">{confirm.title}</div>
+          {confirm.description && (
+            <div className="cb-chat-action-confirm-desc">{confirm.description}</div>
+          )}
+          <div className="cb-chat-action-confirm-buttons">
+            <button
+              type="button"
+              className="cb-chat-action-confirm-cancel"
+              onClick={() => setConfirmActionMessageId(null)}
+            >
+              취소
+            </button>
+            <button type="button" className="cb-chat-action-confirm-ok" onClick={run}>
+              {confirm.confirmLabel ?? "계속"}
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="cb-chat-action-row">
+        <button
+          type="button"
+          className="cb-chat-action-btn"
+          onClick={() => (confirm ? setConfirmActionMessageId(msg.id) : run())}
+          disabled={isSending}
+        >
+          {label}
+        </button>
+      </div>
+    );
+  };
+
+  // 후속 질문 칩: 누르면 입력창 내용과 상관없이 같은 세션으로 바로 전송
+  const handleFollowUpClick = (question: string) => {
+    if (isSending) return;
+
+    const send = (text: string, pii?: ChatPiiDecision) => {
+      refocusAfterSendRef.current = true;
+      onSendMessage(text, pii);
+    };
+    // 개인정보가 보이면 확인 후 전송 (수정하기: 입력창으로 옮겨 고치게 함)
+    if (
+      requestPiiReview("followUp", question, send, (text) => {
+        setInputValue(text);
+        inputRef.current?.focus();
+      })
+    ) {
+      return;
+    }
+    send(question);
+  };
+
+  // 문서 뷰어 후속 질문: 답변 생성 중이면 끝날 때까지 기다렸다가(isSending 변경 시 다시 확인) 칩과 같은 경로로 전송
+  const handledFollowUpNonceRef = useRef<number | null>(null);
+  const sendPendingFollowUp = useStableEvent((question: string) => handleFollowUpClick(question));
+  useEffect(() => {
+    if (!pendingFollowUp || isSending) return;
+    if (handledFollowUpNonceRef.current === pendingFollowUp.nonce) return;
+    handledFollowUpNonceRef.current = pendingFollowUp.nonce;
+
+    onPendingFollowUpConsumed?.();
+    sendPendingFollowUp(pendingFollowUp.text);
+  }, [pendingFollowUp, isSending, onPendingFollowUpConsumed, sendPendingFollowUp]);
+
+  const renderFollowUps = (msg: UiChatMessage) => {
+    if (!msg.followUps || msg.followUps.length === 0) return null;
+    return (
+      <div className="cb-followup-chips" role="group" aria-label="이어서 물어보기">
+        {msg.followUps.map((q) => (
+          <button
+            key={q}
+            type="button"
+            className="cb-followup-chip"
+            onClick={() => handleFollowUpClick(q)}
+            disabled={isSending}
+          >
+            {q}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const renderBranchSwitcher = (info: ChatBranchInfo | undefined) => {
+    if (!info || info.count < 2 || !onSwitchBranch) return null;
+    return (
+      <div className="cb-branch-switcher" aria-label="다른 답변 보기">
+        <button
+          type="button"
+          className="cb-branch-btn"
+          onClick={() => onSwitchBranch(info.afterMessageId, info.index - 1)}
+          disabled={isSending || info.index <= 0}
+          aria-label="이전 버전"
+        >
+          ‹
+        </button>
+        <span className="cb-branch-count">
+          {info.index + 1}/{info.count}
+        </span>
+        <button
+          type="button"
+          className="cb-branch-btn"
+          onClick={() => onSwitchBranch(info.afterMessageId, info.index + 1)}
+          disabled={isSending || info.index >= info.count - 1}
+          aria-label="다음 버전"
+        >
+          ›
+        </button>
+      </div>
+    );
+  };
+
   // Streaming UX: 마지막 메시지가 assistant면 별도 타이핑 버블을 띄우지 않음
   const hasAssistantTail = useMemo(() => {
     if (!messages.length) return false;
@@ -1072,8 +1563,54 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
   useEffect(() => {
     if (!messagesEndRef.current) return;
+    // 새 전송(질문/재시도/FAQ)이 시작되면 다시 하단 자동 스크롤
+    if (isSending) holdAutoScrollRef.current = false;
+    if (holdAutoScrollRef.current) return;
+    // 검색 이동 대상이 아직 처리 전(hydrate 대기 등)이면 하단으로 내리지 않음
+    if (focusMessage && handledFocusNonceRef.current !== focusMessage.nonce) return;
     messagesEndRef.current.scrollIntoView({ behavior: "smooth", block: "end" });
-  }, [scrollKey]);
+  }, [scrollKey, focusMessage, isSending]);
+
+  // 검색 결과 이동: 서버 세션은 hydrate 후 messages가 채워지면 그때 대상 메시지를 찾는다.
+  useEffect(() => {
+    if (!focusMessage) return;
+    if (handledFocusNonceRef.current === focusMessage.nonce) return;
+
+    const target = messages.find(
+      (m) =>
+        (!!focusMessage.messageId && m.id === focusMessage.messageId) ||
+        (!!focusMessage.serverMessageId && m.serverId === focusMessage.serverMessageId)
+    );
+    if (!target) return;
+
+    const el = messageRowRefs.current.get(target.id);
+    if (!el) return;
+
+    handledFocusNonceRef.current = focusMessage.nonce;
+    holdAutoScrollRef.current = true;
+
+    el.scrollIntoView({ behavior: "smooth", block: "center" });
+    el.classList.remove("cb-chat-bubble-row-focused");
+    // reflow 후 다시 붙여서 같은 메시지 재이동 시에도 애니메이션 재생
+    void el.offsetWidth;
+    el.classList.add("cb-chat-bubble-row-focused");
+
+    if (focusHighlightTimerRef.current != null) {
+      window.clearTimeout(focusHighlightTimerRef.current);
+    }
+    focusHighlightTimerRef.current = window.setTimeout(() => {
+      focusHighlightTimerRef.current = null;
+      el.classList.remove("cb-chat-bubble-row-focused");
+    }, 2400);
+  }, [focusMessage, messages]);
+
+  useEffect(() => {
+    return () => {
+      if (focusHighlightTimerRef.current != null) {
+        window.clearTimeout(focusHighlightTimerRef.current);
+      }
+    };
+  }, []);
 
   // textarea 자동 높이 조절
   useEffect(() => {
@@ -1099,6 +1636,14 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     focusChatInput();
   }, [isReportModalOpen, focusChatInput]);
 
+  // 내보내기 메뉴: 바깥 클릭 시 닫기
+  useEffect(() => {
+    if (!isExportMenuOpen) return;
+    const close = () => setIsExportMenuOpen(false);
+    window.addEventListener("click", close);
+    return () => window.removeEventListener("click", close);
+  }, [isExportMenuOpen]);
+
   // 신고 모달 열릴 때 textarea 포커스 + ESC 닫기
   useEffect(() => {
     if (!isReportModalOpen) return;
@@ -1123,27 +1668,107 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
   // ====== 공통 핸들러들 ======
 
+  const activePiiReview =
+    piiReview &&
+    !isSending &&
+    (piiReview.source === "input"
+      ? piiReview.text === inputValue.trim()
+      : piiReview.sessionId === activeSession?.id)
+      ? piiReview
+      : null;
+
+  const { take: takeAttachments } = attachmentDraft;
+  const sendInput = useCallback(
+    (text: string, pii?: ChatPiiDecision) => {
+      // 이번 요청이 끝나면 입력창으로 포커스를 “복구”해야 함
+      refocusAfterSendRef.current = true;
+
+      const attachments = takeAttachments();
+      onSendMessage(text, pii, attachments.length > 0 ? attachments : undefined);
+      setInputValue("");
+      setPiiReview(null);
+    },
+    [onSendMessage, takeAttachments]
+  );
+
+  // 첨부 업로드가 끝나기 전에는 보내지 않는다 (첨부만 있으면 기본 질문으로 전송)
+  const canSend =
+    !isSending &&
+    !attachmentDraft.uploading &&
+    (inputValue.trim().length > 0 || attachmentDraft.readyCount > 0);
+
   const handleSend = useCallback(() => {
+    if (!canSend) return;
     const trimmed = inputValue.trim();
-    if (!trimmed || isSending) return;
-
-    // 이번 요청이 끝나면 입력창으로 포커스를 “복구”해야 함
-    refocusAfterSendRef.current = true;
+    if (!trimmed) {
+      sendInput(ATTACHMENT_ONLY_QUESTION);
+      return;
+    }
 
-    onSendMessage(trimmed);
-    setInputValue("");
-  }, [inputValue, isSending, onSendMessage]);
+    // 개인정보로 보이는 내용이 있으면 서버로 보내기 전에 먼저 확인
+    const matches = detectPii(trimmed);
+    if (matches.length > 0) {
+      setPiiReview({ source: "input", text: trimmed, matches, send: sendInput });
+      return;
+    }
 
-  const handleInputKeyDown = useCallback(
-    (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-      if (e.key === "Enter" && !e.shiftKey) {
-        e.preventDefault();
-        handleSend();
-      }
+    sendInput(trimmed);
+  }, [canSend, inputValue, sendInput]);
+
+  /**
+   * 입력창 밖에서 보내는 질문(수정 저장 / 후속 질문 / FAQ)도 같은 개인정보 확인을 거친다
+   * @returns 확인창을 띄웠으면 true (호출부는 보내지 않고 기다린다)
+   */
+  const requestPiiReview = useCallback(
+    (
+      source: Exclude<PiiReviewSource, "input">,
+      text: string,
+      send: (text: string, pii?: ChatPiiDecision) => void,
+      onEdit?: (text: string) => void
+    ): boolean => {
+      const matches = detectPii(text);
+      if (matches.length === 0) return false;
+      setPiiReview({ source, text, matches, send, onEdit, sessionId: activeSession?.id });
+      return true;
     },
-    [handleSend]
+    [activeSession?.id]
   );
 
+  const handlePiiMaskAndSend = useCallback(() => {
+    if (!activePiiReview) return;
+    const { text, matches, send } = activePiiReview;
+    setPiiReview(null);
+    send(maskPii(text, matches), { action: "masked", kinds: piiKindsOf(matches) });
+  }, [activePiiReview]);
+
+  const handlePiiSendAsIs = useCallback(() => {
+    if (!activePiiReview) return;
+    const { text, matches, send } = activePiiReview;
+    setPiiReview(null);
+    send(text, { action: "sent_as_is", kinds: piiKindsOf(matches) });
+  }, [activePiiReview]);
+
+  // 수정하기: 확인창을 닫고 첫 번째 감지 위치를 선택해 둔다 (입력창 밖 질문은 각자 수정 화면으로)
+  const handlePiiEdit = useCallback(() => {
+    const review = activePiiReview;
+    setPiiReview(null);
+    if (!review) return;
+
+    if (review.source !== "input") {
+      review.onEdit?.(review.text);
+      return;
+    }
+
+    const first = review.matches[0];
+    const el = inputRef.current;
+    if (!el) return;
+    el.focus();
+    if (first) {
+      const lead = inputValue.length - inputValue.trimStart().length;
+      el.setSelectionRange(lead + first.start, lead + first.end);
+    }
+  }, [activePiiReview, inputValue]);
+
   const handleEduClick = useCallback(() => {
     if (isSending) return;
     onChangeDomain("edu");
@@ -1182,6 +1807,12 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     onOpenCreatorPanel?.();
   }, [isSending, isCreator, onOpenCreatorPanel]);
 
+  const handleOpenComplaintInbox = useCallback(() => {
+    if (isSending) return;
+    if (!isComplaintManager) return;
+    onOpenReportCenter?.("inbox");
+  }, [isSending, isComplaintManager, onOpenReportCenter]);
+
   // ===== 헤더에 표시할 "역할 칩" (관리자/검토/제작) =====
   const roleChips: RoleChip[] = useMemo(() => {
     const arr: RoleChip[] = [];
@@ -1209,72 +1840,629 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         onClick: handleOpenCreatorStudio,
       });
     }
-    return arr;
+    if (isComplaintManager) {
+      arr.push({
+        key: "complaint",
+        label: "신고함",
+        className: "cb-main-chip-role cb-main-chip-complaint",
+        onClick: handleOpenComplaintInbox,
+      });
+    }
+    return arr;
+  }, [
+    isAdmin,
+    isReviewer,
+    isCreator,
+    isComplaintManager,
+    handleOpenAdminDashboard,
+    handleOpenReviewerDesk,
+    handleOpenCreatorStudio,
+    handleOpenComplaintInbox,
+  ]);
+
+  const handleFaqChipClick = useCallback(() => {
+    if (isSending) return;
+    onChangeDomain("faq");
+  }, [isSending, onChangeDomain]);
+
+  const handleGoGeneral = useCallback(() => {
+    if (isSending) return;
+    onChangeDomain("general");
+  }, [isSending, onChangeDomain]);
+
+  // FAQ 추천 버튼 클릭 시: 같은 세션에 Q/A 추가
+  // - 질문 문구에 개인정보로 보이는 내용이 있으면 확인 후 추가 (FAQ는 정해진 문구라 가리기 없음)
+  const handleFaqSuggestionClick = useCallback(
+    (faqKey: number | string, question?: string) => {
+      if (isSending) return;
+      if (!onFaqQuickSend) return;
+      const send = () => onFaqQuickSend(faqKey);
+      if (question && requestPiiReview("faq", question, send)) return;
+      send();
+    },
+    [isSending, onFaqQuickSend, requestPiiReview]
+  );
+
+  // 신고 모달 열기
+  const handleOpenReportModal = useCallback(() => {
+    if (isSending) return;
+    setReportContent("");
+    setReportError(null);
+    setIsReportModalOpen(true);
+  }, [isSending]);
+
+  const handleCloseReportModal = useCallback(() => {
+    setIsReportModalOpen(false);
+  }, []);
+
+  // 답변 액션 OPEN_REPORT_FORM → 신고 모달 (액션에 내용이 있으면 미리 채움)
+  const openReportFormFromAction = useStableEvent((content?: string) => {
+    if (isSending) return;
+    setReportContent(content ?? "");
+    setReportError(null);
+    setIsReportModalOpen(true);
+  });
+
+  useEffect(
+    () =>
+      registerChatActionHandlers([
+        {
+          type: "OPEN_REPORT_FORM",
+          label: () => "신고하기",
+          confirm: () => ({
+            title: "신고 양식을 열까요?",
+            description: "신고 내용은 신고 담당자만 확인할 수 있어요.",
+            confirmLabel: "신고 양식 열기",
+          }),
+          run: (a) => openReportFormFromAction(a.reportContent),
+        },
+      ]),
+    [openReportFormFromAction]
+  );
+
+  const handleSubmitReportClick = useCallback(() => {
+    const trimmed = reportContent.trim();
+    if (!trimmed) {
+      setReportError("신고 내용을 입력해 주세요.");
+      reportTextareaRef.current?.focus();
+      return;
+    }
+
+    if (!onReportSubmit || !activeSession) {
+      setIsReportModalOpen(false);
+      return;
+    }
+
+    const payload: ReportPayload = {
+      sessionId: activeSession.id,
+      content: trimmed,
+      createdAt: Date.now(),
+    };
+
+    onReportSubmit(payload);
+    setIsReportModalOpen(false);
+    setReportContent("");
+    setReportError(null);
+  }, [reportContent, onReportSubmit, activeSession]);
+
+  // ====== 슬래시 명령 ======
+
+  // 연결된 핸들러가 있는 명령만 노출
+  const slashCommands = useMemo(
+    () =>
+      CHAT_SLASH_COMMANDS.filter((c) => {
+        switch (c.id) {
+          case "edu":
+            return !!onOpenEduPanel;
+          case "quiz":
+            return !!onOpenQuizPanel;
+          case "faq":
+            return !!onFaqQuickSend;
+          case "report":
+            return !!onReportSubmit;
+          case "reports":
+            return !!onOpenReportCenter;
+          case "export":
+            return !!onExportSession && hasMessages;
+          case "new":
+            return !!onNewChat;
+          default:
+            return true;
+        }
+      }),
+    [
+      onOpenEduPanel,
+      onOpenQuizPanel,
+      onFaqQuickSend,
+      onReportSubmit,
+      onOpenReportCenter,
+      onExportSession,
+      hasMessages,
+      onNewChat,
+    ]
+  );
+
+  // FAQ 후보: 추천(home) + 이미 불러온 도메인별 목록
+  const faqArgOptions = useMemo(() => {
+    const out: ChatSlashArgOption[] = [];
+    const seen = new Set<string>();
+    const push = (id: string | null, label: string, domain: ChatServiceDomain | null) => {
+      if (!id || seen.has(id)) return;
+      seen.add(id);
+      out.push({
+        key: `faq:${id}`,
+        label,
+        value: id,
+        description: domain ? FAQ_DOMAIN_LABELS[toUpperKey(domain)] ?? undefined : undefined,
+      });
+    };
+
+    for (const it of faqHomeItems ?? []) {
+      push(getFaqHomeId(it), getFaqHomeLabel(it), getFaqHomeDomain(it));
+    }
+    for (const list of Object.values(faqTop10ByDomain)) {
+      for (const it of list) push(getFaqItemId(it), getFaqItemQuestion(it), getFaqItemDomain(it));
+    }
+    return out;
+  }, [faqHomeItems, faqTop10ByDomain]);
+
+  const quizArgOptions = useMemo(
+    () =>
+      quizEducations.map((e) => ({
+        key: `quiz:${e.educationId}`,
+        label: e.title,
+        value: e.educationId,
+        description: e.passed ? "통과" : e.hasAttempted ? "응시함" : undefined,
+      })),
+    [quizEducations]
+  );
+
+  const exportArgOptions = useMemo(
+    () =>
+      CHAT_EXPORT_ACTION_OPTIONS.map((o) => ({
+        key: `export:${o.value}`,
+        label: o.label,
+        value: o.value,
+      })),
+    []
+  );
+
+  const getSlashArgOptions = useCallback(
+    (cmd: ChatSlashCommand): ChatSlashArgOption[] | null => {
+      if (cmd.id === "faq") return faqArgOptions;
+      if (cmd.id === "quiz") return quizArgOptions;
+      if (cmd.id === "export") return exportArgOptions;
+      return null;
+    },
+    [faqArgOptions, quizArgOptions, exportArgOptions]
+  );
+
+  const ensureQuizEducations = useCallback(() => {
+    if (quizEducationsRequestedRef.current) return;
+    quizEducationsRequestedRef.current = true;
+
+    void (async () => {
+      try {
+        setQuizEducations(await getQuizAvailableEducations());
+      } catch (e: unknown) {
+        // 후보가 없어도 /quiz 자체(패널 열기)는 동작
+        console.warn("[ChatWindow] quiz educations load failed:", e);
+        quizEducationsRequestedRef.current = false;
+      }
+    })();
+  }, []);
+
+  // 입력 변경 공통 처리 (팔레트 강조 초기화 + /quiz 후보 준비)
+  const updateInputValue = useCallback(
+    (next: string) => {
+      setInputValue(next);
+      setSlashActiveIndex(0);
+
+      const parsed = parseSlashInput(next, slashCommands);
+      if (parsed?.command?.id === "quiz" && parsed.hasArg) ensureQuizEducations();
+    },
+    [slashCommands, ensureQuizEducations]
+  );
+
+  // ====== 음성 입력(누르고 말하기) / 답변 읽어주기 ======
+  const [speechError, setSpeechError] = useState<string | null>(null);
+  const dictation = useDictation({ onText: updateInputValue, onError: setSpeechError });
+  const readAloud = useReadAloud({ onError: setSpeechError });
+  const { stop: stopReadAloud } = readAloud;
+
+  // 다른 세션으로 전환하면 읽던 답변은 중지
+  const speechSessionId = activeSession?.id;
+  useEffect(() => {
+    return () => stopReadAloud();
+  }, [speechSessionId, stopReadAloud]);
+
+  const handleDictationStart = () => {
+    if (isSending || dictation.listening) return;
+    setSpeechError(null);
+    dictation.start(inputValue);
+  };
+
+  const isDictationKey = (key: string) => key === " " || key === "Enter";
+
+  const slashInput = useMemo(
+    () => parseSlashInput(inputValue, slashCommands),
+    [inputValue, slashCommands]
+  );
+
+  /**
+   * 팔레트 내용
+   * - 명령어 입력 단계: 명령 후보
+   * - 인자 입력 단계: 인자 후보 (후보가 없는 명령은 인자 안내만)
+   */
+  const slashPalette = useMemo(() => {
+    if (!slashInput || isSending || slashDismissedInput === inputValue) return null;
+
+    if (!slashInput.hasArg) {
+      const commands = matchSlashCommands(slashInput.name, slashCommands);
+      if (commands.length === 0) return null;
+      return { mode: "command" as const, command: null, commands, options: [] };
+    }
+
+    const command = slashInput.command;
+    if (!command) return null;
+
+    const all = getSlashArgOptions(command);
+    const options = all ? filterSlashArgOptions(all, slashInput.arg) : [];
+    return { mode: "arg" as const, command, commands: [], options };
   }, [
-    isAdmin,
-    isReviewer,
-    isCreator,
-    handleOpenAdminDashboard,
-    handleOpenReviewerDesk,
-    handleOpenCreatorStudio,
+    slashInput,
+    isSending,
+    slashDismissedInput,
+    inputValue,
+    slashCommands,
+    getSlashArgOptions,
   ]);
 
-  const handleFaqChipClick = useCallback(() => {
-    if (isSending) return;
-    onChangeDomain("faq");
-  }, [isSending, onChangeDomain]);
-
-  const handleGoGeneral = useCallback(() => {
-    if (isSending) return;
-    onChangeDomain("general");
-  }, [isSending, onChangeDomain]);
+  const slashItemCount = slashPalette
+    ? slashPalette.mode === "command"
+      ? slashPalette.commands.length
+      : slashPalette.options.length
+    : 0;
+  const slashHighlight = slashItemCount > 0 ? Math.min(slashActiveIndex, slashItemCount - 1) : -1;
 
-  // FAQ 추천 버튼 클릭 시: 같은 세션에 Q/A 추가
-  const handleFaqSuggestionClick = useCallback(
-    (faqKey: number | string) => {
+  /** 명령 실행 (option: 팔레트에서 고른 인자 후보) */
+  const runSlashCommand = useCallback(
+    (cmd: ChatSlashCommand, arg: string, option?: ChatSlashArgOption) => {
       if (isSending) return;
-      if (!onFaqQuickSend) return;
-      onFaqQuickSend(faqKey);
+
+      setInputValue("");
+      setSlashActiveIndex(0);
+
+      const pick = () => {
+        if (option) return option;
+        const all = getSlashArgOptions(cmd);
+        return all && arg ? filterSlashArgOptions(all, arg, 1)[0] : undefined;
+      };
+
+      switch (cmd.id) {
+        case "policy":
+        case "security":
+        case "general":
+          onChangeDomain(cmd.id);
+          focusChatInput({ force: true });
+          return;
+        case "edu":
+          handleEduClick();
+          return;
+        case "quiz":
+          onChangeDomain("quiz");
+          onOpenQuizPanel?.(pick()?.value);
+          return;
+        case "faq": {
+          const faq = pick();
+          if (faq) handleFaqSuggestionClick(normalizeFaqKey(faq.value), faq.label);
+          else handleFaqChipClick();
+          return;
+        }
+        case "report":
+          setReportContent(arg);
+          setReportError(null);
+          setIsReportModalOpen(true);
+          return;
+        case "reports":
+          onOpenReportCenter?.("mine");
+          return;
+        case "export": {
+          const action = CHAT_EXPORT_ACTION_OPTIONS.find((o) => o.value === pick()?.value);
+          if (action) onExportSession?.(action.value);
+          else setIsExportMenuOpen(true);
+          return;
+        }
+        case "new":
+          onNewChat?.();
+          return;
+      }
     },
-    [isSending, onFaqQuickSend]
+    [
+      isSending,
+      getSlashArgOptions,
+      onChangeDomain,
+      focusChatInput,
+      handleEduClick,
+      onOpenQuizPanel,
+      handleFaqSuggestionClick,
+      handleFaqChipClick,
+      onOpenReportCenter,
+      onExportSession,
+      onNewChat,
+    ]
   );
 
-  // 신고 모달 열기
-  const handleOpenReportModal = useCallback(() => {
+  /** Tab: 명령어/인자 자동완성 */
+  const completeSlashCommand = useCallback(
+    (cmd: ChatSlashCommand, option?: ChatSlashArgOption) => {
+      if (option) updateInputValue(`/${cmd.name} ${option.label}`);
+      else updateInputValue(cmd.argHint ? `/${cmd.name} ` : `/${cmd.name}`);
+      inputRef.current?.focus();
+    },
+    [updateInputValue]
+  );
+
+  /** Enter/클릭: 인자 후보가 있는 명령은 인자 단계로, 나머지는 바로 실행 */
+  const selectSlashCommand = useCallback(
+    (cmd: ChatSlashCommand) => {
+      if (getSlashArgOptions(cmd)) completeSlashCommand(cmd);
+      else runSlashCommand(cmd, "");
+    },
+    [getSlashArgOptions, completeSlashCommand, runSlashCommand]
+  );
+
+  // "+" 버튼: 명령 팔레트 열기
+  const handleOpenSlashPalette = useCallback(() => {
     if (isSending) return;
-    setReportContent("");
-    setReportError(null);
-    setIsReportModalOpen(true);
-  }, [isSending]);
+    setSlashDismissedInput(null);
+    updateInputValue("/");
+    inputRef.current?.focus();
+  }, [isSending, updateInputValue]);
 
-  const handleCloseReportModal = useCallback(() => {
-    setIsReportModalOpen(false);
-  }, []);
+  const handleInputKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      if (e.nativeEvent.isComposing) return;
 
-  const handleSubmitReportClick = useCallback(() => {
-    const trimmed = reportContent.trim();
-    if (!trimmed) {
-      setReportError("신고 내용을 입력해 주세요.");
-      reportTextareaRef.current?.focus();
-      return;
-    }
+      if (activePiiReview && e.key === "Escape") {
+        e.preventDefault();
+        setPiiReview(null);
+        return;
+      }
 
-    if (!onReportSubmit || !activeSession) {
-      setIsReportModalOpen(false);
-      return;
+      if (slashPalette) {
+        if ((e.key === "ArrowDown" || e.key === "ArrowUp") && slashItemCount > 0) {
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setSlashActiveIndex((slashHighlight + step + slashItemCount) % slashItemCount);
+          return;
+        }
+
+        if (e.key === "Escape") {
+          e.preventDefault();
+          setSlashDismissedInput(inputValue);
+          return;
+        }
+
+        if (e.key === "Tab" && slashHighlight >= 0) {
+          e.preventDefault();
+          if (slashPalette.mode === "command") {
+            completeSlashCommand(slashPalette.commands[slashHighlight]);
+          } else {
+            completeSlashCommand(slashPalette.command, slashPalette.options[slashHighlight]);
+          }
+          return;
+        }
+
+        if (e.key === "Enter" && !e.shiftKey && slashHighlight >= 0) {
+          e.preventDefault();
+          if (slashPalette.mode === "command") {
+            selectSlashCommand(slashPalette.commands[slashHighlight]);
+          } else {
+            runSlashCommand(slashPalette.command, "", slashPalette.options[slashHighlight]);
+          }
+          return;
+        }
+      }
+
+      // 전송 키: 설정에 따라 Enter 또는 Ctrl(⌘)+Enter (그 외 Enter는 줄바꿈)
+      const isSendKey =
+        e.key === "Enter" && !e.shiftKey && (enterToSend || e.ctrlKey || e.metaKey);
+      if (isSendKey) {
+        e.preventDefault();
+        // 정확한 명령이면 실행, 모르는 "/..."는 일반 질문으로 전송
+        if (slashInput?.command) runSlashCommand(slashInput.command, slashInput.arg);
+        else handleSend();
+      }
+    },
+    [
+      activePiiReview,
+      slashPalette,
+      slashItemCount,
+      slashHighlight,
+      inputValue,
+      slashInput,
+      enterToSend,
+      completeSlashCommand,
+      selectSlashCommand,
+      runSlashCommand,
+      handleSend,
+    ]
+  );
+
+  const renderSlashPalette = () => {
+    if (!slashPalette) return null;
+
+    if (slashPalette.mode === "command") {
+      return (
+        <div className="cb-slash-palette" role="listbox" aria-label="명령어">
+          {slashPalette.commands.map((c, idx) => (
+            <button
+              key={c.id}
+              type="button"
+              role="option"
+              aria-selected={idx === slashHighlight}
+              className={
+                "cb-slash-item" + (idx === slashHighlight ? " cb-slash-item-active" : "")
+              }
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setSlashActiveIndex(idx)}
+              onClick={() => selectSlashCommand(c)}
+            >
+              <span className="cb-slash-name">/{c.name}</span>
+              {c.argHint && <span className="cb-slash-arg-hint">{c.argHint}</span>}
+              <span className="cb-slash-desc">{c.description}</span>
+            </button>
+          ))}
+          <div className="cb-slash-footer">↑↓ 이동 · Tab 완성 · Enter 실행 · Esc 닫기</div>
+        </div>
+      );
     }
 
-    const payload: ReportPayload = {
-      sessionId: activeSession.id,
-      content: trimmed,
-      createdAt: Date.now(),
-    };
+    const { command, options } = slashPalette;
+    return (
+      <div className="cb-slash-palette" role="listbox" aria-label={`/${command.name} 인자`}>
+        <div className="cb-slash-usage">
+          <span className="cb-slash-name">/{command.name}</span>
+          {command.argHint && <span className="cb-slash-arg-hint">{command.argHint}</span>}
+          <span className="cb-slash-desc">{command.description}</span>
+        </div>
+        {options.map((o, idx) => (
+          <button
+            key={o.key}
+            type="button"
+            role="option"
+            aria-selected={idx === slashHighlight}
+            className={
+              "cb-slash-item" + (idx === slashHighlight ? " cb-slash-item-active" : "")
+            }
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => setSlashActiveIndex(idx)}
+            onClick={() => runSlashCommand(command, "", o)}
+          >
+            <span className="cb-slash-option-label">{o.label}</span>
+            {o.description && <span className="cb-slash-desc">{o.description}</span>}
+          </button>
+        ))}
+        {options.length === 0 && getSlashArgOptions(command) && slashInput?.arg && (
+          <div className="cb-slash-empty">일치하는 항목이 없어요. Enter로 그대로 실행합니다.</div>
+        )}
+      </div>
+    );
+  };
 
-    onReportSubmit(payload);
-    setIsReportModalOpen(false);
-    setReportContent("");
-    setReportError(null);
-  }, [reportContent, onReportSubmit, activeSession]);
+  // 스크린샷 붙여넣기: 클립보드에 파일이 있으면 첨부로 받는다 (텍스트 붙여넣기는 그대로)
+  const handleInputPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    attachmentDraft.add(files);
+  };
+
+  const renderAttachmentDraft = () => {
+    const { items, notice } = attachmentDraft;
+    if (items.length === 0 && !notice) return null;
+
+    return (
+      <div className="cb-attach-draft">
+        {notice && (
+          <p className="cb-input-hint cb-input-hint-error" role="alert">
+            {notice}
+          </p>
+        )}
+        {items.length > 0 && (
+          <ul className="cb-attach-draft-list" aria-label="첨부 파일">
+            {items.map((it) => (
+              <li
+                key={it.id}
+                className={"cb-attach-draft-item" + (it.status === "error" ? " is-error" : "")}
+              >
+                <span className="cb-attach-draft-kind">
+                  {it.fileType === "image" ? "이미지" : "문서"}
+                </span>
+                <span className="cb-attach-draft-name" title={it.fileName}>
+                  {it.fileName}
+                </span>
+                <span className="cb-attach-draft-status">
+                  {it.status === "uploading"
+                    ? `업로드 중${it.percent !== null ? ` ${Math.round(it.percent)}%` : "…"}`
+                    : it.status === "error"
+                      ? it.error
+                      : formatAttachmentBytes(it.size)}
+                </span>
+                <button
+                  type="button"
+                  className="cb-attach-draft-remove"
+                  onClick={() => attachmentDraft.remove(it.id)}
+                  aria-label={`${it.fileName} 첨부 취소`}
+                  title="첨부 취소"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  const renderPiiReview = () => {
+    if (!activePiiReview) return null;
+
+    const { text, matches, source, onEdit } = activePiiReview;
+    // FAQ 질문은 정해진 문구라 가려서 보낼 수 없다
+    const canMask = source !== "faq";
+    const kindLabels = piiKindsOf(matches).map((k) => PII_KIND_LABELS[k]);
+
+    return (
+      <div className="cb-pii-review" role="alertdialog" aria-label="개인정보 확인">
+        <div className="cb-pii-title">개인정보로 보이는 내용이 있어요</div>
+        <p className="cb-pii-desc">
+          {kindLabels.join(", ")} 형식이 감지됐어요.
+          {canMask ? " 보내기 전에 가릴 수 있어요." : " 그대로 보낼지 확인해 주세요."}
+        </p>
+        <div className="cb-pii-preview">
+          {splitByPii(text, matches).map((part, idx) =>
+            part.kind ? (
+              <mark key={idx} className="cb-pii-mark" title={PII_KIND_LABELS[part.kind]}>
+                {part.text}
+              </mark>
+            ) : (
+              <React.Fragment key={idx}>{part.text}</React.Fragment>
+            )
+          )}
+        </div>
+        {canMask && (
+          <div className="cb-pii-masked">
+            <span className="cb-pii-masked-label">가린 뒤</span>
+            {maskPii(text, matches)}
+          </div>
+        )}
+        <div className="cb-pii-actions">
+          <button type="button" className="cb-pii-btn" onClick={handlePiiEdit}>
+            {source === "input" || onEdit ? "수정하기" : "취소"}
+          </button>
+          <button
+            type="button"
+            className={"cb-pii-btn" + (canMask ? "" : " cb-pii-btn-primary")}
+            onClick={handlePiiSendAsIs}
+          >
+            그대로 보내기
+          </button>
+          {canMask && (
+            <button
+              type="button"
+              className="cb-pii-btn cb-pii-btn-primary"
+              onClick={handlePiiMaskAndSend}
+            >
+              가려서 보내기
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
 
   // ====== FAQ: 도메인 top10 로딩 ======
   const loadFaqTop10 = useCallback(
@@ -1518,7 +2706,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                   className="cb-faq-suggestion-btn"
                   onClick={() => {
                     if (!faqId) return;
-                    handleFaqSuggestionClick(normalizeFaqKey(faqId));
+                    handleFaqSuggestionClick(normalizeFaqKey(faqId), it.label);
                   }}
                   disabled={disabled}
                   title={it.label}
@@ -1541,6 +2729,17 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     );
   };
 
+  // assistant 답변 본문: 출처가 있으면 모델/서버가 넣은 인용 마커([n])를 링크로 렌더링
+  // (스트리밍 중에는 sources가 아직 없으므로 일반 마크다운)
+  const renderAssistantContent = (msg: UiChatMessage, isStreaming: boolean) => {
+    const sources = msg.sources ?? [];
+    if (isStreaming || sources.length === 0) {
+      return renderMarkdownLite(msg.content, `m:${msg.id}`);
+    }
+
+    return renderMarkdownLite(msg.content, `m:${msg.id}`, 0, { sources, onOpenSource });
+  };
+
   // 공통 메시지 렌더링
   const renderMessages = () => {
     if (!messages.length && !isSending) return null;
@@ -1585,9 +2784,23 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           // 피드백/재시도는 “스트리밍 중인 마지막 답변”에는 노출/동작 금지
           const allowActions = isAssistant && !isStreaming;
 
+          const branchInfo = branchInfoById.get(msg.id);
+          const isEditing = isUser && editingMessageId === msg.id;
+          const deliveryStatus = isUser ? msg.deliveryStatus : undefined;
+          const canEdit =
+            isUser &&
+            msgKind === "normal" &&
+            !deliveryStatus &&
+            Boolean(onEditUserMessage) &&
+            !isSending;
+
           return (
             <div
               key={msg.id}
+              ref={(el) => {
+                if (el) messageRowRefs.current.set(msg.id, el);
+                else messageRowRefs.current.delete(msg.id);
+              }}
               className={`cb-chat-bubble-row ${
                 isUser ? "cb-chat-bubble-row-user" : "cb-chat-bubble-row-bot"
               }`}
@@ -1631,7 +2844,70 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     <span className="cb-chat-bubble-receipt-text">
                       {msg.content}
                     </span>
+                    {onOpenReportCenter && (
+                      <button
+                        type="button"
+                        className="cb-chat-bubble-receipt-link"
+                        onClick={() => onOpenReportCenter("mine", msg.reportId)}
+                      >
+                        신고 내역 보기
+                      </button>
+                    )}
                   </div>
+                ) : isEditing && editing ? (
+                  <form
+                    className="cb-chat-edit-form"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleSubmitEdit();
+                    }}
+                  >
+                    <textarea
+                      className="cb-chat-edit-input"
+                      value={editing.draft}
+                      autoFocus
+                      rows={Math.min(6, Math.max(2, editing.draft.split("\n").length))}
+                      onChange={(e) =>
+                        setEditing((prev) =>
+                          prev ? { ...prev, draft: e.target.value } : prev
+                        )
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key === "Escape") {
+                          e.preventDefault();
+                          setEditing(null);
+                        } else if (
+                          e.key === "Enter" &&
+                          !e.shiftKey &&
+                          !e.nativeEvent.isComposing
+                        ) {
+                          e.preventDefault();
+                          handleSubmitEdit();
+                        }
+                      }}
+                      aria-label="질문 수정"
+                    />
+                    <div className="cb-chat-edit-actions">
+                      <button
+                        type="button"
+                        className="cb-chat-edit-cancel"
+                        onClick={() => setEditing(null)}
+                      >
+                        취소
+                      </button>
+                      <button
+                        type="submit"
+                        className="cb-chat-edit-submit"
+                        disabled={
+                          isSending ||
+                          !editing.draft.trim() ||
+                          editing.draft.trim() === msg.content.trim()
+                        }
+                      >
+                        보내기
+                      </button>
+                    </div>
+                  </form>
                 ) : (
                   <>
                     <div
@@ -1669,8 +2945,13 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                         ) : (
                           <>
                             {isAssistant
-                              ? renderMarkdownLite(msg.content, `m:${msg.id}`)
+                              ? renderAssistantContent(msg, isStreaming)
                               : msg.content}
+                            {isAssistant && msg.stopped && !msg.content && (
+                              <span className="cb-chat-bubble-stopped-empty">
+                                답변 생성이 중단되었습니다.
+                              </span>
+                            )}
                             {isStreaming && (
                               <span
                                 className="cb-streaming-caret"
@@ -1680,13 +2961,75 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                           </>
                         )}
                       </div>
+                      {isUser && msg.attachments && msg.attachments.length > 0 && (
+                        <MessageAttachments attachments={msg.attachments} />
+                      )}
                     </div>
 
+                    {(branchInfo || canEdit || deliveryStatus) && isUser && (
+                      <div className="cb-chat-user-meta">
+                        {deliveryStatus === "pending" && (
+                          <span className="cb-chat-delivery cb-chat-delivery-pending">
+                            전송 대기 중
+                          </span>
+                        )}
+                        {deliveryStatus === "failed" && (
+                          <span className="cb-chat-delivery cb-chat-delivery-failed">
+                            전송 실패
+                          </span>
+                        )}
+                        {deliveryStatus && onRetryQueuedMessage && (
+                          <button
+                            type="button"
+                            className="cb-chat-delivery-btn"
+                            onClick={() => onRetryQueuedMessage(msg.id)}
+                            disabled={isOffline}
+                          >
+                            지금 보내기
+                          </button>
+                        )}
+                        {deliveryStatus && onDiscardQueuedMessage && (
+                          <button
+                            type="button"
+                            className="cb-chat-delivery-btn"
+                            onClick={() => onDiscardQueuedMessage(msg.id)}
+                          >
+                            삭제
+                          </button>
+                        )}
+                        {renderBranchSwitcher(branchInfo)}
+                        {canEdit && activeSession && (
+                          <button
+                            type="button"
+                            className="cb-chat-edit-btn"
+                            onClick={() =>
+                              setEditing({
+                                sessionId: activeSession.id,
+                                messageId: msg.id,
+                                draft: msg.content,
+                              })
+                            }
+                            title="질문 수정"
+                            aria-label="질문 수정"
+                          >
+                            수정
+                          </button>
+                        )}
+                      </div>
+                    )}
+
                     {/* 출처 정보 표시 (assistant 메시지에만) */}
                     {isAssistant && msg.sources && msg.sources.length > 0 && (
-                      <SourcesSection sources={msg.sources} messageId={msg.id} />
+                      <SourcesSection
+                        sources={msg.sources}
+                        messageId={msg.id}
+                        cited={hasInlineCitations(msg.content, msg.sources.length)}
+                        onOpenSource={onOpenSource}
+                      />
                     )}
 
+                    {allowActions && renderMessageAction(msg)}
+
                     {allowActions && (
                       <div className="cb-chat-bubble-actions">
                         {isErrorAssistant && (
@@ -1695,6 +3038,14 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                           </span>
                         )}
 
+                        {msg.stopped && (
+                          <span className="cb-chat-bubble-stopped-badge">
+                            중단됨
+                          </span>
+                        )}
+
+                        {renderBranchSwitcher(branchInfo)}
+
                         <div className="cb-chat-actions-icon-group">
                           <div className="cb-chat-feedback-group">
                             {(() => {
@@ -1745,6 +3096,13 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                       // 같은 버튼 재클릭 시 아무 동작 없음 (평가 해제 불가)
                                       if (feedback === "down") return;
                                       onFeedbackChange(msg.id, "down");
+                                      // 이어서 상세 사유(선택) 입력
+                                      if (onFeedbackDetailSubmit && activeSession) {
+                                        setFeedbackFormTarget({
+                                          sessionId: activeSession.id,
+                                          messageId: msg.id,
+                                        });
+                                      }
                                     }}
                                     title={!hasServerId ? "피드백 불가 (메시지 처리 중)" : "별로인 응답"}
                                     aria-label="별로인 응답이에요"
@@ -1771,7 +3129,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                               onClick={() => {
                                 // in-flight 차단: 이미 재시도 중이면 무시
                                 if (retryLoadingMessageId) return;
-                                onRetryFromMessage(sourceQuestion, "retry");
+                                onRetryFromMessage(sourceQuestion, "retry", msg.id);
                               }}
                               disabled={isSending || Boolean(retryLoadingMessageId)}
                               title={retryLoadingMessageId ? "재시도 중..." : "다시 시도"}
@@ -1784,9 +3142,44 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                               />
                             </button>
                           )}
+
+                          {msg.content.trim() && (
+                            <CopyButton
+                              className="cb-chat-bubble-icon-btn cb-chat-copy-btn"
+                              getPayload={() => ({
+                                plain: msg.content,
+                                html: markdownToHtml(msg.content),
+                              })}
+                              ariaLabel="답변 복사"
+                            />
+                          )}
+
+                          {readAloud.supported && msg.content.trim() && (() => {
+                            const speaking = readAloud.speakingId === msg.id;
+                            return (
+                              <button
+                                type="button"
+                                className={`cb-chat-bubble-icon-btn cb-chat-speak-btn${
+                                  speaking ? " is-speaking" : ""
+                                }`}
+                                onClick={() => {
+                                  setSpeechError(null);
+                                  readAloud.toggle(msg.id, msg.content);
+                                }}
+                                aria-pressed={speaking}
+                                aria-label={speaking ? "읽기 중지" : "읽어주기"}
+                                title={speaking ? "읽기 중지" : "읽어주기"}
+                              >
+                                {speaking ? "중지" : "읽어주기"}
+                              </button>
+                            );
+                          })()}
                         </div>
                       </div>
                     )}
+
+                    {allowActions && renderFeedbackDetail(msg)}
+                    {allowActions && renderFollowUps(msg)}
                   </>
                 )}
               </div>
@@ -1819,7 +3212,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
   return (
     <>
-      <main className="cb-main">
+      <main className={`cb-main cb-font-${fontSize}`}>
         <header className="cb-main-header">
           <div className="cb-main-header-row">
             <h2 className="cb-main-title">{headerTitle}</h2>
@@ -1881,10 +3274,50 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 </button>
               </div>
             )}
+
+            {hasMessages && onExportSession && (
+              <div className="cb-main-export" onClick={(e) => e.stopPropagation()}>
+                <button
+                  type="button"
+                  className="cb-main-export-btn"
+                  onClick={() => setIsExportMenuOpen((prev) => !prev)}
+                  aria-haspopup="menu"
+                  aria-expanded={isExportMenuOpen}
+                  title="대화 내보내기"
+                >
+                  내보내기
+                </button>
+                {isExportMenuOpen && (
+                  <div className="cb-main-export-menu" role="menu">
+                    {CHAT_EXPORT_ACTION_OPTIONS.map((o) => (
+                      <button
+                        key={o.value}
+                        type="button"
+                        role="menuitem"
+                        className="cb-main-export-menu-item"
+                        onClick={() => {
+                          setIsExportMenuOpen(false);
+                          onExportSession(o.value);
+                        }}
+                      >
+                        {o.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </header>
 
         <section className="cb-main-content">
+          {(isOffline || pendingOutboxCount > 0) && (
+            <div className="cb-outbox-banner" role="status" aria-live="polite">
+              {isOffline
+                ? "오프라인 상태입니다. 보낸 질문은 연결되면 자동으로 전송돼요."
+                : `전송 대기 중인 질문 ${pendingOutboxCount}개를 다시 보내는 중이에요.`}
+            </div>
+          )}
           <div className="cb-chat-scroll">
             {/* 홈 영역: 메시지가 없을 때만 환영 카드 + 퀴즈/교육(+역할) + FAQ 노출 */}
             {!hasMessages && (
@@ -1968,6 +3401,22 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     </button>
                   )}
 
+                  {isComplaintManager && (
+                    <button
+                      type="button"
+                      className="cb-feature-card cb-feature-card-role"
+                      onClick={handleOpenComplaintInbox}
+                      disabled={isSending}
+                    >
+                      <img
+                        src={adminIcon}
+                        alt="신고 처리함"
+                        className="cb-feature-icon"
+                      />
+                      <span className="cb-feature-label">신고함</span>
+                    </button>
+                  )}
+
                   <button
                     type="button"
                     className="cb-feature-card"
@@ -1985,9 +3434,12 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
             {renderMessages()}
 
-            {/* FAQ 도메인일 때: 스레드 하단에 카테고리 + 추천/top10 노출 */}
+            {/* FAQ 도메인일 때: 스레드 하단에 카테고리 + 추천/top10 노출 (입력창이 없어 확인창도 여기) */}
             {isFaqDomain && (
-              <div className="cb-faq-thread-section">{renderFaqSection()}</div>
+              <div className="cb-faq-thread-section">
+                {renderPiiReview()}
+                {renderFaqSection()}
+              </div>
             )}
 
             <div ref={messagesEndRef} />
@@ -2002,6 +3454,16 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 <p className="cb-input-hint">답변을 생성하고 있어요…</p>
               )}
 
+              {speechError && (
+                <p className="cb-input-hint cb-input-hint-error" role="alert">
+                  {speechError}
+                </p>
+              )}
+
+              {renderPiiReview() ?? renderSlashPalette()}
+
+              {renderAttachmentDraft()}
+
               <div
                 className={
                   "cb-input-pill" + (isSending ? " cb-input-pill-disabled" : "")
@@ -2011,28 +3473,93 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                   type="button"
                   className="cb-input-plus"
                   disabled={isSending}
+                  onClick={handleOpenSlashPalette}
+                  title="빠른 명령 (/)"
+                  aria-label="빠른 명령 열기"
                 >
                   +
                 </button>
+                <button
+                  type="button"
+                  className="cb-input-attach"
+                  disabled={isSending || attachmentDraft.items.length >= MAX_CHAT_ATTACHMENTS}
+                  onClick={() => attachInputRef.current?.click()}
+                  title={`이미지·문서 첨부 (최대 ${MAX_CHAT_ATTACHMENTS}개)`}
+                  aria-label="파일 첨부"
+                >
+                  <span className="cb-attach-icon" aria-hidden="true" />
+                </button>
+                <input
+                  ref={attachInputRef}
+                  type="file"
+                  multiple
+                  accept={CHAT_ATTACHMENT_ACCEPT}
+                  style={{ display: "none" }}
+                  onChange={(e) => {
+                    attachmentDraft.add(Array.from(e.target.files ?? []));
+                    e.target.value = "";
+                  }}
+                />
                 <textarea
                   ref={inputRef}
                   className="cb-input"
-                  placeholder=""
+                  placeholder={dictation.listening ? "듣고 있어요…" : ""}
                   aria-label="질문 입력"
                   value={inputValue}
-                  onChange={(e) => setInputValue(e.target.value)}
+                  onChange={(e) => updateInputValue(e.target.value)}
                   onKeyDown={handleInputKeyDown}
+                  onPaste={handleInputPaste}
                   disabled={isSending}
                   rows={1}
                 />
-                <button
-                  type="button"
-                  className="cb-input-send"
-                  onClick={handleSend}
-                  disabled={isSending || !inputValue.trim()}
-                >
-                  <span className="cb-send-icon">▶</span>
-                </button>
+                {dictation.supported && !isSending && (
+                  <button
+                    type="button"
+                    className={"cb-input-mic" + (dictation.listening ? " is-listening" : "")}
+                    onPointerDown={(e) => {
+                      if (e.button !== 0) return;
+                      e.preventDefault();
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                      handleDictationStart();
+                    }}
+                    onPointerUp={dictation.stop}
+                    onPointerCancel={dictation.stop}
+                    onKeyDown={(e) => {
+                      if (!isDictationKey(e.key) || e.repeat) return;
+                      e.preventDefault();
+                      handleDictationStart();
+                    }}
+                    onKeyUp={(e) => {
+                      if (isDictationKey(e.key)) dictation.stop();
+                    }}
+                    onBlur={dictation.stop}
+                    aria-pressed={dictation.listening}
+                    aria-label="누르고 말하기"
+                    title="누르고 있는 동안 말하면 입력돼요"
+                  >
+                    <span className="cb-mic-icon" aria-hidden="true" />
+                  </button>
+                )}
+                {isSending && onStopGenerating ? (
+                  <button
+                    type="button"
+                    className="cb-input-send cb-input-stop"
+                    onClick={onStopGenerating}
+                    title="답변 생성 중단"
+                    aria-label="답변 생성 중단"
+                  >
+                    <span className="cb-stop-icon" aria-hidden="true" />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="cb-input-send"
+                    onClick={handleSend}
+                    disabled={!canSend}
+                  >
+                    <span className="cb-send-icon">▶</span>
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -2119,6 +3646,22 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 <ul className="cb-report-guide-list">
                   <li>허위 신고 시 불이익이 발생할 수 있습니다.</li>
                   <li>제출 후 검토가 진행됩니다.</li>
+                  {onOpenReportCenter && (
+                    <li>
+                      처리 상태와 담당자 답변은{" "}
+                      <button
+                        type="button"
+                        className="cb-report-history-link"
+                        onClick={() => {
+                          handleCloseReportModal();
+                          onOpenReportCenter("mine");
+                        }}
+                      >
+                        내 신고 내역
+                      </button>
+                      에서 확인할 수 있습니다.
+                    </li>
+                  )}
                 </ul>
               </section>
             </div>
@@ -13,7 +13,67 @@ import {
   fetchFaqHome,
   fetchFaqList,
   submitReportToServer,
+  bindServerSessionIdToLocalSession,
+  getMappedServerSessionId,
+  getUserUuidFromKeycloak,
 } from "./chatApi";
+import type { ChatSearchTarget } from "./chatHistorySearch";
+import type { ChatOutboxEntry } from "./chatOutboxStore";
+import { isRetryableSendError, useChatOutbox } from "./useChatOutbox";
+import {
+  acceptTitleStamp,
+  createTitleStamp,
+  mergeRemoteSession,
+  postChatTabSync,
+  subscribeChatTabSync,
+  toShareableSession,
+  type ChatTabSyncMessage,
+} from "./chatTabSync";
+import {
+  discardActiveBranch,
+  foldServerRetryBranches,
+  getContextParentServerId,
+  isBranchTreeSettled,
+  removeBranchTrees,
+  restoreBranchTree,
+  saveBranchTree,
+  forkSessionAt,
+  switchSessionBranch,
+} from "./chatBranches";
+import {
+  downloadChatExport,
+  exportableMessages,
+  parseChatExportJson,
+  printChatExport,
+  type ChatExportAction,
+} from "./chatExport";
+import {
+  buildFeedbackCommentText,
+  isEmptyFeedbackDetail,
+  loadFeedbackDetails,
+  pickWrongSources,
+  saveFeedbackDetail,
+} from "./chatFeedback";
+import {
+  getSessionOrganization,
+  removeSessionOrganization,
+  resolveSessionOrganization,
+} from "./chatSessionOrganizer";
+import {
+  resolveSourceDocumentUrl,
+  type SourceFollowUpRequest,
+} from "./chatSourceDocument";
+import type { ReportScope } from "./reportApi";
+import { buildFollowUpQuestions } from "./chatFollowUps";
+import { runChatActionOnArrival } from "./chatActions";
+import { parseChatAttachments } from "./chatAttachments";
+import {
+  getChatPreferences,
+  getSavedChatPanelSize,
+  resetChatPreferences,
+  saveChatPanelSize,
+} from "./chatPreferences";
+import ChatSettingsPanel from "./ChatSettingsPanel";
 import keycloak from "../../keycloak";
 import {
   type ChatDomain,
@@ -28,9 +88,13 @@ import {
   type FaqHomeItem,
   type FaqItem,
   type ChatSendResult,
-  type PlayEducationVideoParams,
+  type ChatSource,
+  type ChatFeedbackDetail,
+  type ChatAttachment,
+  type ChatPiiDecision,
   fromChatServiceDomain,
   normalizeServiceDomain,
+  toChatServiceDomain,
 } from "../../types/chat";
 import {
   computePanelPosition,
@@ -56,8 +120,15 @@ interface ChatbotAppProps {
   onRequestFocus?: () => void;
   onOpenReviewerPanel?: () => void;
   onOpenCreatorPanel?: () => void;
-  /** AI 응답에서 영상 재생 액션이 감지되었을 때 호출 */
-  onPlayEducationVideo?: (params: PlayEducationVideoParams) => void;
+  /** 내 신고 내역(mine) / 신고 처리함(inbox) 패널 */
+  onOpenReportCenter?: (mode: ReportScope, reportId?: string) => void;
+  /** 답변 출처 → 문서 뷰어 패널 (없으면 새 창으로 원문 열기) */
+  onOpenSourceDocument?: (source: ChatSource) => void;
+  /** 문서 뷰어에서 요청한 후속 질문 (현재 세션으로 전송 후 consumed 호출) */
+  pendingFollowUp?: SourceFollowUpRequest | null;
+  onPendingFollowUpConsumed?: () => void;
+  /** 설정 초기화 후 (플로팅 아이콘 위치 되돌리기 등 상위 정리) */
+  onPreferencesReset?: () => void;
 }
 
 type Size = PanelSize;
@@ -85,11 +156,45 @@ type DragState = {
 
 type RetryMode = "retry" | "variant";
 
+type SendMessageOptions = {
+  /**
+   * 이 메시지 뒤에서 대화를 분기한 뒤 전송 (질문 수정/변형 재생성)
+   * - null이면 첫 메시지부터 분기, undefined면 분기 없이 이어서 전송
+   */
+  branchAfterMessageId?: string | null;
+  /** 말풍선에 보여줄 질문 (실제 전송 텍스트와 다를 때) */
+  displayContent?: string;
+  /** 전송 전 개인정보 감지 시 사용자 선택 (요청에 함께 기록) */
+  pii?: ChatPiiDecision;
+  /** 질문 첨부 (업로드 완료된 파일) */
+  attachments?: ChatAttachment[];
+};
+
 const MIN_WIDTH = 520;
 const MIN_HEIGHT = 480;
 const INITIAL_SIZE: Size = { width: 550, height: 550 };
 
-// 최대 세션 개수 (FIFO 기준)
+/** 처음 열 때 크기: 기억한 크기(설정) → 기본 크기, 화면보다 크면 줄인다 */
+function createInitialSize(): Size {
+  const base = getSavedChatPanelSize("chat") ?? INITIAL_SIZE;
+  if (typeof window === "undefined") return base;
+
+  const padding = 32;
+  const maxWidth = Math.max(MIN_WIDTH, window.innerWidth - padding * 2);
+  const maxHeight = Math.max(MIN_HEIGHT, window.innerHeight - padding * 2);
+  return {
+    width: Math.max(MIN_WIDTH, Math.min(maxWidth, base.width)),
+    height: Math.max(MIN_HEIGHT, Math.min(maxHeight, base.height)),
+  };
+}
+
+/** 설정의 패널 위치가 "화면 가운데"면 anchor 없이 계산 */
+function computeChatPanelPosition(anchor: Anchor | null, size: Size) {
+  const placement = getChatPreferences().panelPlacement;
+  return computePanelPosition(placement === "center" ? null : anchor, size);
+}
+
+// 최대 세션 개수 (FIFO 기준, 상단 고정 세션은 제외)
 const MAX_SESSIONS = 30;
 
 function asString(v: unknown): string {
@@ -294,6 +399,8 @@ type ServerHistoryMessage = {
   createdAt?: number | string;
   created_at?: number | string;
   timestamp?: number | string;
+  /** 질문 첨부 메타데이터 (parseChatAttachments로 검증) */
+  attachments?: unknown;
 };
 
 type ServerMessagesPage = {
@@ -383,6 +490,7 @@ async function fetchServerSessionHistory(serverSessionId: string): Promise<{
     content: string;
     createdAt: number;
     serverMessageId?: string;
+    attachments?: ChatAttachment[];
   }>;
 } | null> {
   const meta = (await fetchServerSessionMeta(serverSessionId)) ?? {
@@ -419,11 +527,14 @@ async function fetchServerSessionHistory(serverSessionId: string): Promise<{
             now + idx
           );
 
+          const attachments = parseChatAttachments(m.attachments);
+
           return {
             role,
             content,
             createdAt: created,
             serverMessageId: (m.id ?? m.messageId) as string | undefined,
+            ...(attachments ? { attachments } : {}),
           };
         });
 
@@ -501,11 +612,14 @@ async function fetchServerSessionHistory(serverSessionId: string): Promise<{
         now + idx
       );
 
+      const attachments = parseChatAttachments(m.attachments);
+
       return {
         role,
         content,
         createdAt: created,
         serverMessageId: (m.id ?? m.messageId) as string | undefined,
+        ...(attachments ? { attachments } : {}),
       };
     });
 
@@ -555,6 +669,11 @@ function getTokenParsedDomain(tokenParsed: unknown): unknown {
   return (tokenParsed as { domain?: unknown }).domain;
 }
 
+// 새 채팅 기본 도메인: 설정값 우선, 없으면 소속(토큰 domain) 기준
+function getDefaultUiDomain(): ChatDomain {
+  return getChatPreferences().defaultDomain ?? getDefaultUiDomainFromToken();
+}
+
 function getDefaultUiDomainFromToken(): ChatDomain {
   const parsed = keycloak?.tokenParsed as unknown;
   const d = getTokenParsedDomain(parsed);
@@ -573,7 +692,7 @@ function createInitialSession(): ChatSession {
     title: "새 채팅",
     createdAt: now,
     updatedAt: now,
-    domain: getDefaultUiDomainFromToken(),
+    domain: getDefaultUiDomain(),
     messages: [],
     serverId: undefined,
   };
@@ -626,14 +745,21 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
   onRequestFocus,
   onOpenReviewerPanel,
   onOpenCreatorPanel,
-  onPlayEducationVideo,
+  onOpenReportCenter,
+  onOpenSourceDocument,
+  pendingFollowUp,
+  onPendingFollowUpConsumed,
+  onPreferencesReset,
 }) => {
   // 패널 크기 + 위치
-  const [size, setSize] = useState<Size>(INITIAL_SIZE);
+  const [size, setSize] = useState<Size>(createInitialSize);
   const [panelPos, setPanelPos] = useState(() =>
-    computePanelPosition(anchor ?? null, INITIAL_SIZE)
+    computeChatPanelPosition(anchor ?? null, size)
   );
 
+  // 환경설정 패널
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
   // 사이드바 접힘 상태
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
 
@@ -652,6 +778,9 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
   // 검색어
   const [searchTerm, setSearchTerm] = useState("");
 
+  // 메시지 검색 결과 클릭 → ChatWindow에서 해당 메시지로 이동
+  const [searchFocus, setSearchFocus] = useState<ChatSearchTarget | null>(null);
+
   // 전송 중 상태
   const [isSending, setIsSending] = useState(false);
 
@@ -663,6 +792,9 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
   // 재시도 요청 중인 메시지 ID (in-flight 차단용)
   const [retryLoadingMessageId, setRetryLoadingMessageId] = useState<string | null>(null);
 
+  // 답변 대기/스트리밍 중의 "생성 중단" 컨트롤러 (질문 POST 전부터 설정)
+  const streamAbortRef = useRef<AbortController | null>(null);
+
   // 토스트 메시지 상태 (에러 알림용)
   const [toastMessage, setToastMessage] = useState<string | null>(null);
   const toastTimeoutRef = useRef<number | null>(null);
@@ -684,8 +816,8 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     dir: null,
     startX: 0,
     startY: 0,
-    startWidth: INITIAL_SIZE.width,
-    startHeight: INITIAL_SIZE.height,
+    startWidth: size.width,
+    startHeight: size.height,
     startTop: panelPos.top,
     startLeft: panelPos.left,
   });
@@ -716,6 +848,29 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     }
   }, [activeSessionId, sessions]);
 
+  // 분기가 있는(있었던) 세션은 분기 구조를 이 브라우저에 보관 (바뀐 세션만, 전송/스트리밍이 끝난 뒤)
+  const savedBranchTreesRef = useRef(
+    new Map<string, Pick<ChatSession, "messages" | "branches">>()
+  );
+  useEffect(() => {
+    const saved = savedBranchTreesRef.current;
+    const userUuid = getUserUuidFromKeycloak();
+    for (const session of sessions) {
+      if (!session.serverId) continue;
+      const prev = saved.get(session.id);
+      if (!prev && !session.branches?.length) continue;
+      if (prev && prev.messages === session.messages && prev.branches === session.branches) continue;
+      if (!isBranchTreeSettled(session)) continue;
+
+      saveBranchTree(userUuid, session);
+      if (session.branches?.length) {
+        saved.set(session.id, { messages: session.messages, branches: session.branches });
+      } else {
+        saved.delete(session.id);
+      }
+    }
+  }, [sessions]);
+
   // ====== 리사이즈 + 드래그 공통 처리 ======
   useEffect(() => {
     const handleMouseMove = (event: MouseEvent) => {
@@ -791,6 +946,8 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
       if (resizeRef.current.resizing) {
         resizeRef.current.resizing = false;
         resizeRef.current.dir = null;
+        // 다음에 열 때 같은 크기로 (설정에서 크기 기억을 끄면 무시됨)
+        saveChatPanelSize("chat", { width: size.width, height: size.height });
       }
       if (dragRef.current.dragging) {
         dragRef.current.dragging = false;
@@ -882,7 +1039,7 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
       title: "새 채팅",
       createdAt: now,
       updatedAt: now,
-      domain: getDefaultUiDomainFromToken(),
+      domain: getDefaultUiDomain(),
       messages: [],
       serverId: undefined,
     };
@@ -896,13 +1053,22 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     []
   );
 
+  // 상단 고정 세션은 개수 제한에서 제외 (고정 안 된 세션 중 가장 오래된 것부터 정리)
   const upsertSessionWithFifo = useCallback(
     (_prev: ChatSession[], next: ChatSession[]) => {
       if (next.length <= MAX_SESSIONS) return next;
 
-      let oldestIndex = 0;
-      for (let i = 1; i < next.length; i += 1) {
-        if (next[i].createdAt < next[oldestIndex].createdAt) {
+      const org = getSessionOrganization(getUserUuidFromKeycloak());
+      const isPinned = (s: ChatSession) =>
+        !!resolveSessionOrganization(org, [s.serverId, s.id])?.pinned;
+
+      const unpinnedCount = next.filter((s) => !isPinned(s)).length;
+      if (unpinnedCount <= MAX_SESSIONS) return next;
+
+      let oldestIndex = -1;
+      for (let i = 0; i < next.length; i += 1) {
+        if (isPinned(next[i])) continue;
+        if (oldestIndex < 0 || next[i].createdAt < next[oldestIndex].createdAt) {
           oldestIndex = i;
         }
       }
@@ -926,12 +1092,17 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
         content: string;
         createdAt: number;
         serverMessageId?: string;
+        attachments?: ChatAttachment[];
       }>;
       raw?: unknown;
     }) => {
       if (!payload?.serverSessionId || !isUuidLike(payload.serverSessionId))
         return;
 
+      // 서버 히스토리에는 상세 피드백이 없으므로 이 브라우저에 남긴 것을 다시 붙인다.
+      const userUuid = getUserUuidFromKeycloak();
+      const feedbackDetails = loadFeedbackDetails(userUuid);
+
       setSessions((prev) => {
         const byServer = prev.find(
           (s) => s.serverId === payload.serverSessionId
@@ -942,15 +1113,28 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
         // (핵심) target이 없으면 id를 serverSessionId로 고정
         const targetId = target?.id ?? payload.serverSessionId;
 
-        const normalizedMessages: ChatMessage[] = payload.messages
+        const serverMessages = payload.messages
           .filter((m) => trimStr(m.content).length > 0)
-          .map((m) => ({
-            id: makeLocalId("local-msg"),
-            role: m.role,
-            content: m.content,
-            createdAt: m.createdAt,
-            serverId: m.serverMessageId,
-          }));
+          .map((m): ChatMessage => {
+            const detail = m.serverMessageId ? feedbackDetails[m.serverMessageId] : undefined;
+            return {
+              id: makeLocalId("local-msg"),
+              role: m.role,
+              content: m.content,
+              createdAt: m.createdAt,
+              serverId: m.serverMessageId,
+              ...(m.role === "user" && m.attachments?.length
+                ? { attachments: m.attachments }
+                : {}),
+              ...(detail ? { feedback: "down" as const, feedbackDetail: detail } : {}),
+            };
+          });
+
+        // 이 브라우저에 보관한 분기 구조가 있으면 그대로 복원,
+        // 없으면 서버에 연속 저장된 재시도 답변만 분기로 접는다
+        const folded =
+          restoreBranchTree(userUuid, payload.serverSessionId, serverMessages) ??
+          foldServerRetryBranches(serverMessages);
 
         const hydrated: ChatSession = {
           id: targetId,
@@ -958,8 +1142,9 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
           createdAt: payload.createdAt || Date.now(),
           updatedAt: payload.updatedAt || Date.now(),
           domain: payload.domain || "general",
-          messages: normalizedMessages,
+          messages: folded.messages,
           serverId: payload.serverSessionId,
+          ...(folded.branches.length > 0 ? { branches: folded.branches } : {}),
         };
 
         const next: ChatSession[] = target
@@ -999,8 +1184,10 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
   );
 
   const handleSelectServerSession = useCallback(
-    (serverSessionId: string) => {
-      if (!serverSessionId || !isUuidLike(serverSessionId)) return;
+    (serverSessionId: string): boolean => {
+      if (!serverSessionId || !isUuidLike(serverSessionId)) return false;
+
+      setSearchFocus(null);
 
       // (핵심) 이미 로컬에 있으면 그대로 사용
       const existing =
@@ -1016,7 +1203,7 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
           // id 자체가 serverSessionId인 케이스
           void ensureHydratedByServerId(serverSessionId);
         }
-        return;
+        return true;
       }
 
       const now = Date.now();
@@ -1040,6 +1227,7 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
       setActiveSessionId(placeholderId);
 
       void ensureHydratedByServerId(serverSessionId);
+      return true;
     },
     [
       ensureHydratedByServerId,
@@ -1048,9 +1236,19 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     ]
   );
 
+  // ====== 환경설정 초기화: 저장값 삭제 + 패널 크기/위치 기본값으로 ======
+  const handleResetPreferences = () => {
+    resetChatPreferences();
+    const nextSize = createInitialSize();
+    setSize(nextSize);
+    setPanelPos(computeChatPanelPosition(anchor ?? null, nextSize));
+    onPreferencesReset?.();
+  };
+
   // ====== 로컬 세션 관리 ======
 
   const handleNewChat = () => {
+    setSearchFocus(null);
     const now = Date.now();
     const newSession = createLocalSession(now);
 
@@ -1062,19 +1260,47 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     setActiveSessionId(newSession.id);
   };
 
-  const handleSelectSession = (sessionId: string) => {
+  const handleSelectSession = (sessionId: string): boolean => {
     const exists = sessionsRef.current.some((s) => s.id === sessionId);
     if (!exists && isUuidLike(sessionId)) {
-      handleSelectServerSession(sessionId);
-      return;
+      return handleSelectServerSession(sessionId);
     }
 
+    setSearchFocus(null);
     setActiveSessionId(sessionId);
 
     const s = sessionsRef.current.find((x) => x.id === sessionId);
     if (s?.serverId && s.messages.length === 0) {
       void ensureHydratedByServerId(s.serverId);
     }
+    return true;
+  };
+
+  // 메시지 검색 결과 선택: 세션 선택(서버 세션이면 hydrate) 후 이동 대상 지정
+  const handleOpenSearchResult = (target: ChatSearchTarget) => {
+    const local =
+      sessionsRef.current.find((s) => s.id === target.sessionId) ?? null;
+
+    // 답변 생성 중에는 다른 세션으로 옮기지 않는다
+    // (이동 대상을 남겨 두면 나중에 엉뚱한 세션에서 포커스가 잡힌다)
+    if (isSending) {
+      const active = sessionsRef.current.find((s) => s.id === activeSessionId) ?? null;
+      const isActiveTarget =
+        !!active &&
+        (active.id === local?.id ||
+          (!!target.serverSessionId && active.serverId === target.serverSessionId));
+      if (!isActiveTarget) return;
+    }
+
+    let switched = false;
+    if (local) {
+      switched = handleSelectSession(local.id);
+    } else if (target.serverSessionId) {
+      switched = handleSelectServerSession(target.serverSessionId);
+    }
+    if (!switched) return;
+
+    setSearchFocus(target);
   };
 
   const handleRenameSession = (sessionId: string, newTitle: string) => {
@@ -1086,6 +1312,19 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
         s.id === sessionId ? { ...s, title: trimmed, updatedAt: Date.now() } : s
       )
     );
+
+    // 다른 탭에 제목 변경 알림 (동시에 바꾸면 나중 변경으로 수렴)
+    const target = sessionsRef.current.find((s) => s.id === sessionId);
+    const serverSessionId = target?.serverId ?? getMappedServerSessionId(sessionId);
+    const stamp = createTitleStamp();
+    acceptTitleStamp([sessionId, serverSessionId], stamp);
+    postChatTabSync(getUserUuidFromKeycloak(), {
+      type: "rename",
+      sessionId,
+      serverSessionId,
+      title: trimmed,
+      stamp,
+    });
   };
 
   const handleDeleteSession = (sessionId: string) => {
@@ -1103,6 +1342,17 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
         if (!ok) return;
       }
 
+      postChatTabSync(getUserUuidFromKeycloak(), {
+        type: "delete",
+        sessionId: target?.id ?? sessionId,
+        serverSessionId,
+      });
+      removeSessionOrganization(getUserUuidFromKeycloak(), [
+        target?.id ?? sessionId,
+        serverSessionId,
+      ]);
+      removeBranchTrees(getUserUuidFromKeycloak(), [serverSessionId]);
+
       setSessions((prev) => {
         const next = prev.filter(
           (s) => s.id !== (target?.id ?? sessionId) && s.serverId !== sessionId
@@ -1117,6 +1367,123 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     })();
   };
 
+  // ====== 대화 내보내기 / 가져오기 ======
+
+  // 서버 전용 세션(메시지 미로드)은 히스토리를 조회해서 내보낸다.
+  const handleExportSession = async (
+    sessionId: string,
+    action: ChatExportAction
+  ) => {
+    let target =
+      sessionsRef.current.find(
+        (s) => s.id === sessionId || s.serverId === sessionId
+      ) ?? null;
+
+    const serverSessionId =
+      target?.serverId ?? (isUuidLike(sessionId) ? sessionId : undefined);
+
+    if ((!target || target.messages.length === 0) && serverSessionId) {
+      const res = await fetchServerSessionHistory(serverSessionId);
+      if (res) {
+        target = {
+          id: target?.id ?? serverSessionId,
+          title: res.title,
+          createdAt: res.createdAt,
+          updatedAt: res.updatedAt,
+          domain: res.domain,
+          messages: res.messages.map((m) => ({
+            id: makeLocalId("local-msg"),
+            role: m.role,
+            content: m.content,
+            createdAt: m.createdAt,
+            serverId: m.serverMessageId,
+          })),
+          serverId: serverSessionId,
+        };
+      }
+    }
+
+    if (!target || exportableMessages(target).length === 0) {
+      showToast("내보낼 대화가 없습니다.");
+      return;
+    }
+
+    try {
+      if (action === "print") printChatExport(target);
+      else downloadChatExport(target, action);
+    } catch (e: unknown) {
+      console.warn("[ChatbotApp] export session failed:", e);
+      showToast("대화 내보내기에 실패했습니다.");
+    }
+  };
+
+  const handleExportActiveSession = (action: ChatExportAction) => {
+    if (!activeSessionId) return;
+    void handleExportSession(activeSessionId, action);
+  };
+
+  // JSON 내보내기 파일 → 새 로컬 세션 (서버 세션과는 연결하지 않음)
+  const handleImportSession = async (file: File) => {
+    const text = await file.text().catch(() => null);
+    if (text === null) {
+      showToast("파일을 읽을 수 없습니다.");
+      return;
+    }
+
+    const parsed = parseChatExportJson(text);
+    if (!parsed.ok) {
+      showToast(parsed.error);
+      return;
+    }
+
+    const imported: ChatSession = {
+      id: makeLocalId("local-session"),
+      title: parsed.session.title,
+      createdAt: parsed.session.createdAt,
+      updatedAt: parsed.session.updatedAt,
+      domain: parsed.session.domain,
+      messages: parsed.session.messages.map((m) => ({
+        ...m,
+        id: makeLocalId("local-msg"),
+      })),
+      serverId: undefined,
+    };
+
+    setSearchFocus(null);
+    setSessions((prev) => upsertSessionWithFifo(prev, [imported, ...prev]));
+    setActiveSessionId(imported.id);
+    showToast("대화를 가져왔습니다.");
+  };
+
+  // ====== 답변 출처 → 원문 문서 ======
+
+  // 문서 뷰어 패널이 없으면 새 창으로 연다.
+  // presign이 비동기라 팝업 차단을 피하려면 클릭 시점에 창을 먼저 연다.
+  const handleOpenSource = (source: ChatSource) => {
+    if (onOpenSourceDocument) {
+      onOpenSourceDocument(source);
+      return;
+    }
+
+    const win = window.open("", "_blank");
+
+    void (async () => {
+      try {
+        const url = await resolveSourceDocumentUrl(source);
+        if (win && !win.closed) {
+          win.opener = null;
+          win.location.href = url;
+        } else {
+          window.open(url, "_blank", "noopener");
+        }
+      } catch (e: unknown) {
+        console.warn("[ChatbotApp] open source document failed:", e);
+        win?.close();
+        showToast("원문 문서를 열 수 없습니다.");
+      }
+    })();
+  };
+
   const handleSearchTermChange = (value: string) => {
     setSearchTerm(value);
   };
@@ -1248,6 +1615,91 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     return safe;
   }, []);
 
+  /**
+   * 답변 아래 후속 질문 칩 붙이기
+   * - 서버가 내려준 followUps 우선, 없으면 출처 + 도메인 FAQ 목록으로 생성
+   * - 중단된 부분 답변에는 붙이지 않음
+   */
+  const attachFollowUps = useCallback(
+    (
+      sessionId: string,
+      messageId: string,
+      result: Pick<ChatSendResult, "followUps" | "sources" | "stopped">,
+      question: string,
+      domain: ChatDomain
+    ) => {
+      if (result.stopped) return;
+
+      void (async () => {
+        let followUps = result.followUps ?? [];
+        if (followUps.length === 0) {
+          const faqItems = await ensureFaqListCached(toChatServiceDomain(domain)).catch(
+            (e: unknown) => {
+              console.warn("[ChatbotApp] follow-up FAQ load failed:", e);
+              return [] as FaqItem[];
+            }
+          );
+          followUps = buildFollowUpQuestions({
+            question,
+            sources: result.sources,
+            faqItems,
+          });
+        }
+        if (followUps.length === 0) return;
+
+        setSessions((prev) =>
+          prev.map((s) =>
+            s.id === sessionId
+              ? {
+                  ...s,
+                  messages: s.messages.map((m) =>
+                    m.id === messageId ? { ...m, followUps } : m
+                  ),
+                }
+              : s
+          )
+        );
+      })();
+    },
+    [ensureFaqListCached]
+  );
+
+  /**
+   * 답변을 받기 전에 중단한 경우: 오류 대신 "중단됨" 빈 답변으로 남긴다
+   * - 스트리밍이면 placeholder를 그대로 중단 처리, 아니면 새로 붙인다
+   */
+  const markStoppedBeforeAnswer = useCallback(
+    (sessionId: string, placeholderId: string | null) => {
+      const t = Date.now();
+      setSessions((prev) =>
+        prev.map((s) => {
+          if (s.id !== sessionId) return s;
+          const hasPlaceholder =
+            placeholderId !== null && s.messages.some((m) => m.id === placeholderId);
+          return {
+            ...s,
+            messages: hasPlaceholder
+              ? s.messages.map((m) =>
+                  m.id === placeholderId ? { ...m, content: "", stopped: true } : m
+                )
+              : [
+                  ...s.messages,
+                  {
+                    id: makeLocalId("local-msg"),
+                    role: "assistant" as const,
+                    content: "",
+                    createdAt: t,
+                    stopped: true,
+                  },
+                ],
+            updatedAt: t,
+          };
+        })
+      );
+    },
+    []
+  );
+
   // ====== FAQ 빠른 질문: API 기반으로 Q/A 추가 (AI 호출 없음) ======
   const handleFaqQuickSend = useCallback(
     (faqKey: number | string) => {
@@ -1378,12 +1830,313 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     [activeSessionId, ensureFaqListCached]
   );
 
+  // ====== 전송 대기열 (네트워크 장애 시 IndexedDB에 보관 후 자동 재전송) ======
+
+  const setMessageDeliveryStatus = useCallback(
+    (sessionId: string, messageId: string, status: ChatOutboxEntry["status"] | null) => {
+      setSessions((prev) =>
+        prev.map((session) => {
+          if (session.id !== sessionId) return session;
+          if (!session.messages.some((m) => m.id === messageId)) return session;
+          return {
+            ...session,
+            messages: session.messages.map((m) => {
+              if (m.id !== messageId) return m;
+              if (!status) {
+                const rest = { ...m };
+                delete rest.deliveryStatus;
+                return rest;
+              }
+              return { ...m, deliveryStatus: status };
+            }),
+          };
+        })
+      );
+    },
+    []
+  );
+
+  /**
+   * 대기열 메시지 1건 전송 (백그라운드라 스트리밍 대신 단건 응답 사용)
+   * - 서버 세션이 아직 없으면 chatApi가 만들고, 로컬 세션에 바인딩해 이후 메시지가 같은 세션으로 이어지게 한다.
+   * - 답변은 해당 질문 바로 뒤에 붙인다(그 사이 대기 중인 다른 질문이 있어도 순서 유지)
+   * - 화면 전환이 갑자기 일어나지 않도록 응답 액션(영상/퀴즈 열기)은 실행하지 않는다.
+   */
+  const deliverQueuedMessage = async (entry: ChatOutboxEntry): Promise<boolean> => {
+    const session = sessionsRef.current.find((s) => s.id === entry.sessionId);
+    const idx = session?.messages.findIndex((m) => m.id === entry.id) ?? -1;
+    if (!session || idx < 0) return false;
+
+    const history = session.messages
+      .slice(0, idx)
+      .filter((m) => !m.deliveryStatus && (m.kind ?? "normal") === "normal");
+
+    const reply = await sendChatToAI({
+      sessionId: session.id,
+      serverSessionId: session.serverId,
+      domain: session.domain,
+      messages: [...history, { role: "user" as const, content: entry.content }].map(
+        (m) => ({ role: m.role, content: m.content })
+      ),
+      ...(entry.pii ? { pii: entry.pii } : {}),
+      ...(entry.attachments?.length ? { attachments: entry.attachments } : {}),
+      parentMessageId: getContextParentServerId(history),
+    });
+
+    bindServerSessionIdToLocalSession(session.id, reply.sessionId);
+
+    const replyTime = Date.now();
+    const assistantMessage: ChatMessage = {
+      id: makeLocalId("local-msg"),
+      role: "assistant",
+      content: reply.content,
+      createdAt: replyTime,
+      serverId: reply.messageId,
+      ...(reply.sources?.length ? { sources: reply.sources } : {}),
+      ...(reply.action ? { action: reply.action } : {}),
+    };
+
+    setSessions((prev) =>
+      prev.map((s) => {
+        if (s.id !== entry.sessionId) return s;
+        const at = s.messages.findIndex((m) => m.id === entry.id);
+        if (at < 0) return s;
+
+        const delivered = { ...s.messages[at] };
+        delete delivered.deliveryStatus;
+
+        return {
+          ...s,
+          serverId: s.serverId ?? reply.sessionId,
+          messages: [
+            ...s.messages.slice(0, at),
+            delivered,
+            assistantMessage,
+            ...s.messages.slice(at + 1),
+          ],
+          updatedAt: replyTime,
+        };
+      })
+    );
+
+    attachFollowUps(entry.sessionId, assistantMessage.id, reply, entry.content, session.domain);
+
+    return true;
+  };
+
+  /**
+   * 새로고침 후 대기열 복원
+   * - 세션이 메모리에 없으면(새로고침) 대기 질문만 담은 세션을 다시 만든다.
+   * - 복원 직후 바로 전송을 시도하므로 sessionsRef도 즉시 갱신
+   */
+  const handleRestoreOutbox = (entries: ChatOutboxEntry[]) => {
+    let next = [...sessionsRef.current];
+
+    for (const e of entries) {
+      const userMessage: ChatMessage = {
+        id: e.id,
+        role: "user",
+        content: e.displayContent ?? e.content,
+        createdAt: e.createdAt,
+        deliveryStatus: e.status,
+        ...(e.attachments?.length ? { attachments: e.attachments } : {}),
+      };
+
+      const idx = next.findIndex((s) => s.id === e.sessionId);
+      if (idx < 0) {
+        const mapped = getMappedServerSessionId(e.sessionId);
+        next = upsertSessionWithFifo(next, [
+          {
+            id: e.sessionId,
+            title: e.sessionTitle,
+            createdAt: e.createdAt,
+            updatedAt: e.createdAt,
+            domain: e.domain,
+            messages: [userMessage],
+            ...(mapped && isUuidLike(mapped) ? { serverId: mapped } : {}),
+          },
+          ...next,
+        ]);
+        continue;
+      }
+
+      const session = next[idx];
+      const exists = session.messages.some((m) => m.id === e.id);
+      next[idx] = {
+        ...session,
+        messages: exists
+          ? session.messages.map((m) =>
+              m.id === e.id ? { ...m, deliveryStatus: e.status } : m
+            )
+          : [...session.messages, userMessage],
+      };
+    }
+
+    sessionsRef.current = next;
+    setSessions(next);
+  };
+
+  const chatUserUuid = getUserUuidFromKeycloak();
+
+  const outbox = useChatOutbox({
+    userUuid: chatUserUuid,
+    paused: isSending,
+    deliver: deliverQueuedMessage,
+    onRestore: handleRestoreOutbox,
+    onStatusChange: (id, entry) => {
+      const sessionId =
+        entry?.sessionId ??
+        sessionsRef.current.find((s) => s.messages.some((m) => m.id === id))?.id;
+      if (sessionId) setMessageDeliveryStatus(sessionId, id, entry?.status ?? null);
+    },
+  });
+
+  const handleRetryQueuedMessage = (messageId: string) => {
+    outbox.retryNow(messageId);
+  };
+
+  // 대기 중/실패한 질문 삭제 → 말풍선과 대기열 항목 함께 제거
+  const handleDiscardQueuedMessage = (messageId: string) => {
+    setSessions((prev) =>
+      prev.map((s) =>
+        s.messages.some((m) => m.id === messageId)
+          ? { ...s, messages: s.messages.filter((m) => m.id !== messageId) }
+          : s
+      )
+    );
+    outbox.discard(messageId);
+  };
+
+  // ====== 탭 간 동기화 ======
+
+  // 마지막으로 다른 탭과 맞춘 세션 객체 (같은 객체면 다시 보내지 않음)
+  const tabSyncedRef = useRef<Map<string, ChatSession>>(new Map());
+
+  // 세션이 바뀌면 다른 탭에 스냅샷 전송 (답변 생성 중에는 끝난 뒤 한 번에)
+  useEffect(() => {
+    if (isSending) return;
+
+    const synced = tabSyncedRef.current;
+    const alive = new Set<string>();
+
+    for (const s of sessions) {
+      alive.add(s.id);
+      if (synced.get(s.id) === s) continue;
+      synced.set(s.id, s);
+
+      const shareable = toShareableSession(s);
+      if (shareable) postChatTabSync(chatUserUuid, { type: "session", session: shareable });
+    }
+
+    for (const id of [...synced.keys()]) {
+      if (!alive.has(id)) synced.delete(id);
+    }
+  }, [sessions, isSending, chatUserUuid]);
+
+  /**
+   * 다른 탭의 변경 반영 (상태만 갱신하고 전송은 하지 않음)
+   * - 이 탭에서 답변 생성 중인 세션은 스냅샷으로 덮어쓰지 않는다.
+   * - 반영한 객체는 tabSyncedRef에 기록 → 다시 돌려보내지 않는다.
+   */
+  const handleTabSyncMessage = (msg: ChatTabSyncMessage) => {
+    switch (msg.type) {
+      case "session": {
+        const remote = msg.session;
+        const prev = sessionsRef.current;
+        const idx = prev.findIndex(
+          (s) => s.id === remote.id || (!!remote.serverId && s.serverId === remote.serverId)
+        );
+
+        let next: ChatSession[];
+        let applied: ChatSession;
+
+        if (idx < 0) {
+          applied = remote;
+          next = upsertSessionWithFifo(prev, [remote, ...prev]);
+        } else {
+          const local = prev[idx];
+          if (isSending && local.id === activeSessionId) return;
+
+          applied = mergeRemoteSession(local, remote);
+          if (applied === local) return;
+          next = prev.map((s, i) => (i === idx ? applied : s));
+        }
+
+        tabSyncedRef.current.set(applied.id, applied);
+        sessionsRef.current = next;
+        setSessions(next);
+        return;
+      }
+
+      case "rename": {
+        if (!acceptTitleStamp([msg.sessionId, msg.serverSessionId], msg.stamp)) return;
+        setSessions((prev) =>
+          prev.map((s) =>
+            s.id === msg.sessionId || (!!msg.serverSessionId && s.serverId === msg.serverSessionId)
+              ? { ...s, title: msg.title }
+              : s
+          )
+        );
+        return;
+      }
+
+      case "delete": {
+        const next = sessionsRef.current.filter(
+          (s) =>
+            s.id !== msg.sessionId &&
+            !(msg.serverSessionId && s.serverId === msg.serverSessionId)
+        );
+        if (next.length === sessionsRef.current.length) return;
+
+        if (activeSessionId && !next.some((s) => s.id === activeSessionId)) {
+          setActiveSessionId(next[0]?.id ?? null);
+        }
+        sessionsRef.current = next;
+        setSessions(next);
+        return;
+      }
+
+      case "snapshot-request": {
+        for (const s of sessionsRef.current) {
+          if (isSending && s.id === activeSessionId) continue;
+          const shareable = toShareableSession(s);
+          if (shareable) postChatTabSync(chatUserUuid, { type: "session", session: shareable });
+        }
+        return;
+      }
+
+      default:
+        return;
+    }
+  };
+
+  const tabSyncHandlerRef = useRef(handleTabSyncMessage);
+  useEffect(() => {
+    tabSyncHandlerRef.current = handleTabSyncMessage;
+  });
+
+  // 구독 시작 시 이미 열려 있는 탭들의 세션을 받아 온다.
+  useEffect(() => {
+    const unsubscribe = subscribeChatTabSync(chatUserUuid, (msg) =>
+      tabSyncHandlerRef.current(msg)
+    );
+    postChatTabSync(chatUserUuid, { type: "snapshot-request" });
+    return unsubscribe;
+  }, [chatUserUuid]);
+
   // ====== 메시지 전송 전체 플로우 (일반 채팅: AI 호출) ======
-  const handleSendMessage = (text: string) => {
-    void processSendMessage(text);
+  const handleSendMessage = (
+    text: string,
+    pii?: ChatPiiDecision,
+    attachments?: ChatAttachment[]
+  ) => {
+    void processSendMessage(text, {
+      ...(pii ? { pii } : {}),
+      ...(attachments?.length ? { attachments } : {}),
+    });
   };
 
-  const processSendMessage = async (text: string) => {
+  const processSendMessage = async (text: string, opts?: SendMessageOptions) => {
     const trimmed = trimStr(text);
     if (!trimmed) return;
 
@@ -1394,16 +2147,25 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     if (!sessionIdForSend) return;
 
     const now = Date.now();
-    const currentSession = currentSessions.find(
+    const sessionBeforeSend = currentSessions.find(
       (s) => s.id === sessionIdForSend
     );
-    if (!currentSession) return;
+    if (!sessionBeforeSend) return;
+
+    // 분기 전송이면 분기 지점 이후를 보관하고 잘라낸 대화를 기준으로 요청
+    const shouldBranch = opts?.branchAfterMessageId !== undefined;
+    const applyBranch = (session: ChatSession): ChatSession =>
+      shouldBranch
+        ? forkSessionAt(session, opts?.branchAfterMessageId ?? null)
+        : session;
+    const currentSession = applyBranch(sessionBeforeSend);
 
     const userMessage: ChatMessage = {
       id: makeLocalId("local-msg"),
       role: "user",
-      content: trimmed,
+      content: trimStr(opts?.displayContent ?? "") || trimmed,
       createdAt: now,
+      ...(opts?.attachments?.length ? { attachments: opts.attachments } : {}),
     };
 
     const hasUserMessage = currentSession.messages.some(
@@ -1417,16 +2179,16 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
         : currentSession.title;
 
     setSessions((prev) =>
-      prev.map((session) =>
-        session.id === sessionIdForSend
-          ? {
-              ...session,
-              title: nextTitle,
-              messages: [...session.messages, userMessage],
-              updatedAt: now,
-            }
-          : session
-      )
+      prev.map((session) => {
+        if (session.id !== sessionIdForSend) return session;
+        const base = applyBranch(session);
+        return {
+          ...base,
+          title: nextTitle,
+          messages: [...base.messages, userMessage],
+          updatedAt: now,
+        };
+      })
     );
 
     if (shouldSuggestReport(trimmed)) {
@@ -1455,24 +2217,69 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
       return;
     }
 
+    // 대기열로 넘기기 (말풍선은 "전송 대기 중"으로 남기고 연결이 돌아오면 자동 재전송)
+    const queueUserMessage = (): boolean => {
+      const queued = outbox.enqueue({
+        id: userMessage.id,
+        sessionId: sessionIdForSend,
+        sessionTitle: nextTitle,
+        domain: currentSession.domain,
+        content: trimmed,
+        ...(userMessage.content !== trimmed
+          ? { displayContent: userMessage.content }
+          : {}),
+        ...(opts?.pii ? { pii: opts.pii } : {}),
+        ...(userMessage.attachments ? { attachments: userMessage.attachments } : {}),
+        createdAt: now,
+      });
+      return queued !== null;
+    };
+
+    // 오프라인이거나 이 세션에 먼저 대기 중인 질문이 있으면 바로 대기열로 (순서 유지)
+    const offline = typeof navigator !== "undefined" && navigator.onLine === false;
+    if (offline || outbox.hasPendingForSession(sessionIdForSend)) {
+      if (queueUserMessage()) {
+        showToast(
+          offline
+            ? "오프라인 상태예요. 연결되면 자동으로 전송할게요."
+            : "앞서 보낸 질문이 전송 대기 중이에요. 순서대로 이어서 보낼게요."
+        );
+        return;
+      }
+    }
+
     const requestPayload: ChatRequest = {
       sessionId: sessionIdForSend,
       serverSessionId: currentSession.serverId,
       domain: currentSession.domain,
-      messages: [...currentSession.messages, userMessage].map((m) => ({
+      messages: [
+        ...currentSession.messages.filter((m) => !m.deliveryStatus),
+        { ...userMessage, content: trimmed },
+      ].map((m) => ({
         role: m.role,
         content: m.content,
       })),
+      ...(opts?.pii ? { pii: opts.pii } : {}),
+      ...(userMessage.attachments ? { attachments: userMessage.attachments } : {}),
+      // 분기한 경우 버려진 분기는 이미 currentSession.messages에서 빠져 있다
+      parentMessageId: getContextParentServerId(currentSession.messages),
     };
 
+    // 실패 시 대기열로 넘길 수 있는지 판단용 (답변이 일부라도 오면 대기열 대상 아님)
+    let placeholderIdForSend: string | null = null;
+    let receivedAnyDelta = false;
+
     try {
       setIsSending(true);
 
-      // 기본값을 true로: env 미설정이어도 스트리밍 경로(sendChatToAIStream)를 반드시 탄다.
+      // 스트리밍 여부는 사용자 설정 (기본값은 VITE_CHAT_STREAMING, 미설정이면 켜짐)
       // 서버가 스트림을 못 주면 chatApi.ts에서 자동 fallback 처리한다.
-      const ENABLE_CHAT_STREAMING =
-        String(import.meta.env.VITE_CHAT_STREAMING ?? "true").toLowerCase() ===
-        "true";
+      const ENABLE_CHAT_STREAMING = getChatPreferences().streaming;
+
+      // 중단 버튼은 질문 POST를 기다리는 동안에도, 스트리밍을 끈 경우에도 유효
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+
       try {
         setIsSending(true);
 
@@ -1480,6 +2287,7 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
           // 1) placeholder assistant 메시지 생성
           const placeholderId = makeLocalId("local-msg");
           const placeholderTime = Date.now();
+          placeholderIdForSend = placeholderId;
 
           const placeholder: ChatMessage = {
             id: placeholderId,
@@ -1502,81 +2310,84 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
 
           let acc = "";
 
-          const final = await sendChatToAIStream(requestPayload, {
-            onDelta: (delta: string) => {
-              acc += delta;
+          const final = await sendChatToAIStream(
+            requestPayload,
+            {
+              onDelta: (delta: string) => {
+                acc += delta;
+                receivedAnyDelta = true;
 
-              // placeholder content 업데이트
-              setSessions((prev) =>
-                prev.map((session) => {
-                  if (session.id !== sessionIdForSend) return session;
-
-                  const nextMessages = session.messages.map((m) =>
-                    m.id === placeholderId ? { ...m, content: acc } : m
-                  );
+                // placeholder content 업데이트
+                setSessions((prev) =>
+                  prev.map((session) => {
+                    if (session.id !== sessionIdForSend) return session;
+
+                    const nextMessages = session.messages.map((m) =>
+                      m.id === placeholderId ? { ...m, content: acc } : m
+                    );
+
+                    return {
+                      ...session,
+                      messages: nextMessages,
+                      updatedAt: Date.now(),
+                    };
+                  })
+                );
+              },
+              onFinal: (f: ChatSendResult) => {
+                // 최종 serverId / sessionId 확정
+                setSessions((prev) =>
+                  prev.map((session) => {
+                    if (session.id !== sessionIdForSend) return session;
+
+                    const nextMessages = session.messages.map((m) =>
+                      m.id === placeholderId
+                        ? {
+                            ...m,
+                            content: f.stopped ? acc : f.content || acc,
+                            serverId: f.messageId,
+                            stopped: f.stopped,
+                            ...(f.action ? { action: f.action } : {}),
+                            ...(f.sources?.length ? { sources: f.sources } : {}),
+                          }
+                        : m
+                    );
+
+                    return {
+                      ...session,
+                      serverId: session.serverId ?? f.sessionId,
+                      messages: nextMessages,
+                      updatedAt: Date.now(),
+                    };
+                  })
+                );
+                attachFollowUps(
+                  sessionIdForSend,
+                  placeholderId,
+                  f,
+                  trimmed,
+                  currentSession.domain
+                );
 
-                  return {
-                    ...session,
-                    messages: nextMessages,
-                    updatedAt: Date.now(),
-                  };
-                })
-              );
+                // AI 응답 액션: 자동 실행 handler만 (나머지는 답변 아래 버튼)
+                runChatActionOnArrival(f.action);
+              },
             },
-            onFinal: (f: ChatSendResult) => {
-              // 최종 serverId / sessionId 확정
-              setSessions((prev) =>
-                prev.map((session) => {
-                  if (session.id !== sessionIdForSend) return session;
-
-                  const nextMessages = session.messages.map((m) =>
-                    m.id === placeholderId
-                      ? {
-                          ...m,
-                          content: f.content || acc,
-                          serverId: f.messageId,
-                        }
-                      : m
-                  );
-
-                  return {
-                    ...session,
-                    serverId: session.serverId ?? f.sessionId,
-                    messages: nextMessages,
-                    updatedAt: Date.now(),
-                  };
-                })
-              );
+            { signal: abortController.signal }
+          );
 
-              // AI 응답에 영상 재생 액션이 있으면 처리
-              if (
-                f.action?.type === "PLAY_VIDEO" &&
-                f.action.educationId &&
-                f.action.videoId
-              ) {
-                onPlayEducationVideo?.({
-                  educationId: f.action.educationId,
-                  videoId: f.action.videoId,
-                  resumePositionSeconds: f.action.resumePositionSeconds,
-                });
-              }
-              // AI 응답에 퀴즈 패널 열기 액션이 있으면 처리
-              if (f.action?.type === "OPEN_QUIZ") {
-                onOpenQuizPanel?.(f.action.educationId || f.action.quizId);
-              }
-              // AI 응답에 교육 패널 열기 액션이 있으면 처리
-              if (f.action?.type === "OPEN_EDU_PANEL") {
-                onOpenEduPanel?.();
-              }
-            },
-          });
+          if (streamAbortRef.current === abortController) {
+            streamAbortRef.current = null;
+          }
 
           // sendChatToAIStream 내부에서 UI 업데이트를 끝내지만,
           // 여기서 final을 안 쓰면 lint가 불편할 수 있어 유지
           void final;
         } else {
           // 기존 non-stream
-          const reply = await sendChatToAI(requestPayload);
+          const reply = await sendChatToAI(requestPayload, {
+            signal: abortController.signal,
+          });
           const replyTime = Date.now();
 
           const assistantMessage: ChatMessage = {
@@ -1585,6 +2396,8 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
             content: reply.content,
             createdAt: replyTime,
             serverId: reply.messageId,
+            ...(reply.action ? { action: reply.action } : {}),
+            ...(reply.sources?.length ? { sources: reply.sources } : {}),
           };
 
           setSessions((prev) =>
@@ -1599,30 +2412,53 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
             })
           );
 
-          // AI 응답에 영상 재생 액션이 있으면 처리
-          if (
-            reply.action?.type === "PLAY_VIDEO" &&
-            reply.action.educationId &&
-            reply.action.videoId
-          ) {
-            onPlayEducationVideo?.({
-              educationId: reply.action.educationId,
-              videoId: reply.action.videoId,
-              resumePositionSeconds: reply.action.resumePositionSeconds,
-            });
-          }
-          // AI 응답에 퀴즈 패널 열기 액션이 있으면 처리
-          if (reply.action?.type === "OPEN_QUIZ") {
-            onOpenQuizPanel?.(reply.action.educationId || reply.action.quizId);
-          }
-          // AI 응답에 교육 패널 열기 액션이 있으면 처리
-          if (reply.action?.type === "OPEN_EDU_PANEL") {
-            onOpenEduPanel?.();
-          }
+          attachFollowUps(
+            sessionIdForSend,
+            assistantMessage.id,
+            reply,
+            trimmed,
+            currentSession.domain
+          );
+
+          // AI 응답 액션: 자동 실행 handler만 (나머지는 답변 아래 버튼)
+          runChatActionOnArrival(reply.action);
         }
       } catch (error) {
         console.error("sendChatToAI error:", error);
 
+        // 답변을 받기 전에 사용자가 중단한 경우 → 오류 대신 중단된 빈 답변
+        const userStopped = abortController.signal.aborted;
+        if (userStopped && !receivedAnyDelta) {
+          markStoppedBeforeAnswer(sessionIdForSend, placeholderIdForSend);
+          return;
+        }
+
+        // 네트워크 일시 장애 + 답변을 아직 못 받은 경우 → 질문을 대기열로 (사용자가 중단한 경우 제외)
+        if (
+          !userStopped &&
+          !receivedAnyDelta &&
+          isRetryableSendError(error) &&
+          queueUserMessage()
+        ) {
+          const placeholderId = placeholderIdForSend;
+          if (placeholderId) {
+            setSessions((prev) =>
+              prev.map((session) =>
+                session.id === sessionIdForSend
+                  ? {
+                      ...session,
+                      messages: session.messages.filter(
+                        (m) => m.id !== placeholderId
+                      ),
+                    }
+                  : session
+              )
+            );
+          }
+          showToast("네트워크가 불안정해 전송 대기열에 넣었어요. 연결되면 자동으로 보낼게요.");
+          return;
+        }
+
         const replyTime = Date.now();
         const errorMessage: ChatMessage = {
           id: makeLocalId("local-msg"),
@@ -1644,6 +2480,7 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
           )
         );
       } finally {
+        streamAbortRef.current = null;
         setIsSending(false);
       }
     } catch (error) {
@@ -1674,7 +2511,23 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     }
   };
 
-  const handleRetryFromMessage = (sourceQuestion: string, mode: RetryMode) => {
+  // ====== 답변 생성 중단 (질문 POST 대기 · 스트리밍 · non-stream 모두) ======
+  const handleStopGenerating = useCallback(() => {
+    const controller = streamAbortRef.current;
+    if (!controller || controller.signal.aborted) return;
+    controller.abort();
+  }, []);
+
+  /**
+   * 다시 시도 / 변형 재생성
+   * - 기존 답변을 덮어쓰지 않고 질문 뒤에서 분기 → 새 답변은 새 variant ("2/2")
+   * - assistantMessageId가 있으면 해당 답변의 질문을 기준으로(같은 질문이 여러 번일 때 대비)
+   */
+  const handleRetryFromMessage = (
+    sourceQuestion: string,
+    mode: RetryMode,
+    assistantMessageId?: string
+  ) => {
     const base = trimStr(sourceQuestion);
     if (!base || isSending) return;
 
@@ -1682,15 +2535,38 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
       ? sessionsRef.current.find((s) => s.id === activeSessionId) ?? null
       : null;
 
-    if (mode === "retry" && current?.serverId) {
-      const idx = current.messages.findIndex(
+    // 기준 질문(user) 위치
+    const assistantIdx = assistantMessageId
+      ? current?.messages.findIndex((m) => m.id === assistantMessageId) ?? -1
+      : -1;
+    let userIdx = -1;
+    if (current && assistantIdx > 0) {
+      for (let i = assistantIdx - 1; i >= 0; i -= 1) {
+        if (current.messages[i].role === "user") {
+          userIdx = i;
+          break;
+        }
+      }
+    }
+    if (current && userIdx < 0) {
+      userIdx = current.messages.findIndex(
         (m) => m.role === "user" && trimStr(m.content) === base
       );
+    }
+
+    const userMessage = current && userIdx >= 0 ? current.messages[userIdx] : null;
+    // 질문 앞 메시지 (질문부터 새로 보내는 분기의 기준)
+    const beforeUserId =
+      current && userIdx > 0 ? current.messages[userIdx - 1].id : null;
+
+    if (mode === "retry" && current?.serverId) {
+      const idx = userIdx;
 
-      if (idx >= 0) {
-        const nextAssistant = current.messages
-          .slice(idx + 1)
-          .find((m) => m.role === "assistant");
+      if (idx >= 0 && userMessage) {
+        const nextAssistant =
+          assistantIdx > idx
+            ? current.messages[assistantIdx]
+            : current.messages.slice(idx + 1).find((m) => m.role === "assistant");
         const targetMessageId = nextAssistant?.serverId;
 
         if (!targetMessageId || !isUuidLike(targetMessageId)) {
@@ -1706,21 +2582,32 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
             setRetryLoadingMessageId(retryingLocalId);
           }
 
+          // 질문 뒤에서 분기: 기존 답변(과 이후 대화)은 이전 variant로 보관
+          const branchAfterId = userMessage.id;
+          setSessions((prev) =>
+            prev.map((s) =>
+              s.id === current.id ? forkSessionAt(s, branchAfterId) : s
+            )
+          );
+
           void (async () => {
+            // 재시도 POST를 기다리는 동안에도 중단할 수 있게 먼저 설정
+            const abortController = new AbortController();
+            streamAbortRef.current = abortController;
+            let placeholderIdForRetry: string | null = null;
+
             try {
               setIsSending(true);
 
-              // 기본값을 true로: env 미설정이어도 스트리밍 경로를 반드시 탄다.
-              const ENABLE_CHAT_STREAMING =
-                String(
-                  import.meta.env.VITE_CHAT_STREAMING ?? "true"
-                ).toLowerCase() === "true";
+              // 스트리밍 여부는 사용자 설정 (일반 메시지와 동일)
+              const ENABLE_CHAT_STREAMING = getChatPreferences().streaming;
 
               if (ENABLE_CHAT_STREAMING) {
                 // 일반 메시지와 동일한 스트리밍 방식으로 처리
                 // 1) placeholder assistant 메시지 생성
                 const placeholderId = makeLocalId("local-msg");
                 const placeholderTime = Date.now();
+                placeholderIdForRetry = placeholderId;
 
                 const placeholder: ChatMessage = {
                   id: placeholderId,
@@ -1777,8 +2664,11 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
                             m.id === placeholderId
                               ? {
                                   ...m,
-                                  content: f.content || acc,
+                                  content: f.stopped ? acc : f.content || acc,
                                   serverId: f.messageId,
+                                  stopped: f.stopped,
+                                  ...(f.action ? { action: f.action } : {}),
+                                  ...(f.sources?.length ? { sources: f.sources } : {}),
                                 }
                               : m
                           );
@@ -1791,31 +2681,19 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
                           };
                         })
                       );
+                      attachFollowUps(current.id, placeholderId, f, base, current.domain);
 
-                      // AI 응답에 영상 재생 액션이 있으면 처리 (일반 메시지와 동일)
-                      if (
-                        f.action?.type === "PLAY_VIDEO" &&
-                        f.action.educationId &&
-                        f.action.videoId
-                      ) {
-                        onPlayEducationVideo?.({
-                          educationId: f.action.educationId,
-                          videoId: f.action.videoId,
-                          resumePositionSeconds: f.action.resumePositionSeconds,
-                        });
-                      }
-                      // AI 응답에 퀴즈 패널 열기 액션이 있으면 처리
-                      if (f.action?.type === "OPEN_QUIZ") {
-                        onOpenQuizPanel?.(f.action.educationId || f.action.quizId);
-                      }
-                      // AI 응답에 교육 패널 열기 액션이 있으면 처리
-                      if (f.action?.type === "OPEN_EDU_PANEL") {
-                        onOpenEduPanel?.();
-                      }
+                      // AI 응답 액션: 자동 실행 handler만 (나머지는 답변 아래 버튼)
+                      runChatActionOnArrival(f.action);
                     },
-                  }
+                  },
+                  { signal: abortController.signal }
                 );
 
+                if (streamAbortRef.current === abortController) {
+                  streamAbortRef.current = null;
+                }
+
                 // retryMessageStream 내부에서 UI 업데이트를 끝내지만,
                 // 여기서 final을 안 쓰면 lint가 불편할 수 있어 유지
                 void final;
@@ -1823,7 +2701,8 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
                 // 기존 non-stream (fallback)
                 const res = await retryMessage(
                   current.serverId as string,
-                  targetMessageId
+                  targetMessageId,
+                  { signal: abortController.signal }
                 );
                 const t = Date.now();
 
@@ -1833,6 +2712,8 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
                   content: res.content,
                   createdAt: t,
                   serverId: res.messageId,
+                  ...(res.action ? { action: res.action } : {}),
+                  ...(res.sources?.length ? { sources: res.sources } : {}),
                 };
 
                 setSessions((prev) =>
@@ -1847,34 +2728,34 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
                   )
                 );
 
-                // AI 응답에 영상 재생 액션이 있으면 처리
-                if (
-                  res.action?.type === "PLAY_VIDEO" &&
-                  res.action.educationId &&
-                  res.action.videoId
-                ) {
-                  onPlayEducationVideo?.({
-                    educationId: res.action.educationId,
-                    videoId: res.action.videoId,
-                    resumePositionSeconds: res.action.resumePositionSeconds,
-                  });
-                }
-                // AI 응답에 퀴즈 패널 열기 액션이 있으면 처리
-                if (res.action?.type === "OPEN_QUIZ") {
-                  onOpenQuizPanel?.(res.action.educationId || res.action.quizId);
-                }
-                // AI 응답에 교육 패널 열기 액션이 있으면 처리
-                if (res.action?.type === "OPEN_EDU_PANEL") {
-                  onOpenEduPanel?.();
-                }
+                attachFollowUps(current.id, assistantMessage.id, res, base, current.domain);
+
+                // AI 응답 액션: 자동 실행 handler만 (나머지는 답변 아래 버튼)
+                runChatActionOnArrival(res.action);
               }
             } catch (e) {
+              // 새 답변을 받기 전에 중단했으면 다시 보내지 않는다
+              if (abortController.signal.aborted) {
+                markStoppedBeforeAnswer(current.id, placeholderIdForRetry);
+                return;
+              }
+
               console.warn(
                 "[ChatbotApp] retryMessage failed, fallback to resend:",
                 e
               );
-              await processSendMessage(base);
+              // 빈/부분 답변 분기는 버리고, 질문부터 다시 보내는 분기로 대체
+              setSessions((prev) =>
+                prev.map((s) =>
+                  s.id === current.id ? discardActiveBranch(s, branchAfterId) : s
+                )
+              );
+              await processSendMessage(base, {
+                branchAfterMessageId: beforeUserId,
+                attachments: userMessage.attachments,
+              });
             } finally {
+              streamAbortRef.current = null;
               setIsSending(false);
               setRetryLoadingMessageId(null);
             }
@@ -1888,7 +2769,55 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     if (mode === "variant") {
       question = `${base}\n\n같은 내용이지만 다른 방식으로도 한 번 더 설명해줘.`;
     }
-    void processSendMessage(question);
+
+    // 서버 재시도가 불가하면 같은 질문을 다시 보내는 분기로 처리
+    void processSendMessage(
+      question,
+      userMessage
+        ? {
+            branchAfterMessageId: beforeUserId,
+            displayContent: base,
+            attachments: userMessage.attachments,
+          }
+        : undefined
+    );
+  };
+
+  // ====== 대화 분기: 질문 수정 / 대안 전환 ======
+
+  // 이전 질문 수정 → 그 질문 앞에서 분기하고 수정한 질문으로 새로 전송
+  const handleEditUserMessage = (
+    messageId: string,
+    nextText: string,
+    pii?: ChatPiiDecision
+  ) => {
+    const text = trimStr(nextText);
+    if (!text || isSending || !activeSessionId) return;
+
+    const current = sessionsRef.current.find((s) => s.id === activeSessionId);
+    const idx = current?.messages.findIndex((m) => m.id === messageId) ?? -1;
+    if (!current || idx < 0 || current.messages[idx].role !== "user") return;
+    if (trimStr(current.messages[idx].content) === text) return;
+
+    setSearchFocus(null);
+    // 첨부는 수정 전 질문의 것을 그대로 유지
+    void processSendMessage(text, {
+      branchAfterMessageId: idx > 0 ? current.messages[idx - 1].id : null,
+      attachments: current.messages[idx].attachments,
+      ...(pii ? { pii } : {}),
+    });
+  };
+
+  const handleSwitchBranch = (afterMessageId: string | null, nextIndex: number) => {
+    if (isSending || !activeSessionId) return;
+    setSearchFocus(null);
+    setSessions((prev) =>
+      prev.map((s) =>
+        s.id === activeSessionId
+          ? switchSessionBranch(s, afterMessageId, nextIndex)
+          : s
+      )
+    );
   };
 
   const handleFeedbackChange = (
@@ -1912,6 +2841,7 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     const targetMessage = s?.messages.find((x) => x.id === localMessageId);
     const serverMessageId = targetMessage?.serverId;
     const prevFeedback = targetMessage?.feedback ?? null;
+    const prevDetail = targetMessage?.feedbackDetail;
 
     // 서버 ID가 없으면 피드백 불가
     if (!serverSessionId) {
@@ -1932,9 +2862,13 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
       prev.map((session) => {
         if (session.id !== activeSessionId) return session;
 
-        const updatedMessages = session.messages.map((m) =>
-          m.id === localMessageId ? { ...m, feedback: value } : m
-        );
+        // "좋아요"로 바꾸면 "별로예요" 상세는 더 이상 유효하지 않음
+        const updatedMessages = session.messages.map((m) => {
+          if (m.id !== localMessageId) return m;
+          const next: ChatMessage = { ...m, feedback: value };
+          if (value !== "down") delete next.feedbackDetail;
+          return next;
+        });
 
         return {
           ...session,
@@ -1960,6 +2894,9 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
           feedback: value,
         });
         // 성공: 상태 유지 (이미 Optimistic Update 완료)
+        if (value !== "down" && prevDetail) {
+          saveFeedbackDetail(getUserUuidFromKeycloak(), serverMessageId, null);
+        }
       } catch (error) {
         console.error("[ChatbotApp] feedback failed:", error);
 
@@ -1969,7 +2906,13 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
             if (session.id !== activeSessionId) return session;
 
             const rolledBackMessages = session.messages.map((m) =>
-              m.id === localMessageId ? { ...m, feedback: prevFeedback } : m
+              m.id === localMessageId
+                ? {
+                    ...m,
+                    feedback: prevFeedback,
+                    ...(prevDetail ? { feedbackDetail: prevDetail } : {}),
+                  }
+                : m
             );
 
             return {
@@ -1993,6 +2936,85 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     })();
   };
 
+  /**
+   * "별로예요" 상세 피드백 저장/수정
+   * - 낙관적 반영 후 같은 피드백 API로 다시 전송(사유/출처/코멘트 포함), 실패 시 이전 상세로 복원
+   * - 빈 상세(모두 해제)를 보내면 상세만 지우고 "별로예요"는 유지
+   */
+  const handleFeedbackDetailSubmit = (
+    localMessageId: string,
+    detail: ChatFeedbackDetail
+  ) => {
+    if (!activeSessionId) return;
+    if (feedbackLoadingIds.has(localMessageId)) return;
+
+    const s = sessionsRef.current.find((x) => x.id === activeSessionId) ?? null;
+    const targetMessage = s?.messages.find((x) => x.id === localMessageId);
+    const serverSessionId = s?.serverId;
+    const serverMessageId = targetMessage?.serverId;
+    if (!targetMessage || !serverSessionId || !serverMessageId) {
+      console.warn("[ChatbotApp] feedback detail skipped: server ids are missing");
+      return;
+    }
+
+    const sessionId = activeSessionId;
+    const prevDetail = targetMessage.feedbackDetail;
+    const nextDetail = isEmptyFeedbackDetail(detail) ? undefined : detail;
+    const userUuid = getUserUuidFromKeycloak();
+
+    const applyDetail = (value: ChatFeedbackDetail | undefined) => {
+      setSessions((prev) =>
+        prev.map((session) => {
+          if (session.id !== sessionId) return session;
+          return {
+            ...session,
+            messages: session.messages.map((m) => {
+              if (m.id !== localMessageId) return m;
+              const next: ChatMessage = { ...m, feedback: "down" };
+              if (value) next.feedbackDetail = value;
+              else delete next.feedbackDetail;
+              return next;
+            }),
+            updatedAt: Date.now(),
+          };
+        })
+      );
+    };
+
+    applyDetail(nextDetail);
+    saveFeedbackDetail(userUuid, serverMessageId, nextDetail ?? null);
+
+    setFeedbackLoadingIds((prev) => new Set(prev).add(localMessageId));
+
+    void (async () => {
+      try {
+        await sendFeedbackToAI({
+          sessionId: serverSessionId,
+          messageId: serverMessageId,
+          feedback: "down",
+          ...(nextDetail
+            ? {
+                comment: buildFeedbackCommentText(nextDetail, targetMessage.sources),
+                reasons: nextDetail.reasons,
+                wrongSources: pickWrongSources(nextDetail, targetMessage.sources),
+              }
+            : {}),
+        });
+      } catch (error) {
+        console.error("[ChatbotApp] feedback detail failed:", error);
+        applyDetail(prevDetail);
+        saveFeedbackDetail(userUuid, serverMessageId, prevDetail ?? null);
+        showToast("상세 피드백 저장에 실패했습니다");
+      } finally {
+        setFeedbackLoadingIds((prev) => {
+          const next = new Set(prev);
+          next.delete(localMessageId);
+          return next;
+        });
+      }
+    })();
+  };
+
   const handleSubmitReport = (payload: ReportPayload) => {
     const sessionId = payload.sessionId || activeSessionId;
     if (!sessionId) return;
@@ -2030,7 +3052,7 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
       const t = Date.now();
 
       const okText =
-        "신고가 접수되었습니다. 담당자가 내용을 확인한 후 필요한 경우 별도로 연락드리겠습니다.";
+        "신고가 접수되었습니다. 처리 상태와 담당자 답변은 '내 신고 내역'에서 확인할 수 있습니다.";
       const failText =
         "신고 접수에 실패했습니다. 잠시 후 다시 시도해 주세요. (계속 실패하면 관리자에게 문의)";
 
@@ -2045,6 +3067,7 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
               content: res.ok ? okText : failText,
               createdAt: t,
               kind: res.ok ? "reportReceipt" : m.kind,
+              reportId: res.ok ? res.reportId : undefined,
             };
           });
 
@@ -2067,8 +3090,8 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     onClose();
   };
 
-  const handleOpenQuizPanelFromChat = () => {
-    onOpenQuizPanel?.();
+  const handleOpenQuizPanelFromChat = (quizId?: string) => {
+    onOpenQuizPanel?.(quizId);
     onClose();
   };
 
@@ -2090,6 +3113,13 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
     onClose();
   };
 
+  // 내 신고 내역은 대화 옆에 띄우고, 처리함은 다른 역할 화면처럼 챗봇을 닫는다.
+  const handleOpenReportCenterFromChat = (mode: ReportScope, reportId?: string) => {
+    if (mode === "inbox" && !can(userRole, "OPEN_COMPLAINT_INBOX")) return;
+    onOpenReportCenter?.(mode, reportId);
+    if (mode === "inbox") onClose();
+  };
+
   useEffect(() => {
     if (!wrapperRef.current || !onAnimationEnd) return;
 
@@ -2191,6 +3221,16 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
             onMouseDown={handleResizeMouseDown("e")}
           />
 
+          <button
+            type="button"
+            className="cb-panel-settings-btn"
+            onClick={() => setIsSettingsOpen((prev) => !prev)}
+            aria-label="챗봇 설정"
+            aria-expanded={isSettingsOpen}
+            title="설정"
+          >
+            ⚙
+          </button>
           <button
             type="button"
             className="cb-panel-close-btn"
@@ -2200,6 +3240,13 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
             ✕
           </button>
 
+          {isSettingsOpen && (
+            <ChatSettingsPanel
+              onClose={() => setIsSettingsOpen(false)}
+              onReset={handleResetPreferences}
+            />
+          )}
+
           <div className="cb-chatbot-layout">
             <Sidebar
               collapsed={isSidebarCollapsed}
@@ -2212,6 +3259,10 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
               onSelectSession={handleSelectSession}
               onRenameSession={handleRenameSession}
               onDeleteSession={handleDeleteSession}
+              searchableSessions={sessions}
+              onOpenSearchResult={handleOpenSearchResult}
+              onExportSession={handleExportSession}
+              onImportSession={handleImportSession}
               enableServerSync={true}
               // 핵심: 폴링 OFF (요청 계속 오는 문제 차단)
               serverSyncIntervalMs={0}
@@ -2227,22 +3278,39 @@ const ChatbotApp: React.FC<ChatbotAppProps> = ({
               activeSession={activeSession}
               onSendMessage={handleSendMessage}
               isSending={isSending}
+              onStopGenerating={handleStopGenerating}
               onChangeDomain={handleChangeSessionDomain}
               onOpenEduPanel={handleOpenEduPanelFromChat}
               onOpenQuizPanel={handleOpenQuizPanelFromChat}
               onOpenAdminPanel={handleOpenAdminPanelFromChat}
               onOpenReviewerPanel={handleOpenReviewerPanelFromChat}
               onOpenCreatorPanel={handleOpenCreatorPanelFromChat}
+              onOpenReportCenter={
+                onOpenReportCenter ? handleOpenReportCenterFromChat : undefined
+              }
               faqHomeItems={faqHome}
               isFaqHomeLoading={faqHomeLoading}
               onRequestFaqTop10={ensureFaqListCached}
               onFaqQuickSend={handleFaqQuickSend}
               onRetryFromMessage={handleRetryFromMessage}
+              onEditUserMessage={handleEditUserMessage}
+              onSwitchBranch={handleSwitchBranch}
+              isOffline={!outbox.isOnline}
+              pendingOutboxCount={outbox.pendingCount}
+              onRetryQueuedMessage={handleRetryQueuedMessage}
+              onDiscardQueuedMessage={handleDiscardQueuedMessage}
+              onNewChat={handleNewChat}
               onFeedbackChange={handleFeedbackChange}
+              onFeedbackDetailSubmit={handleFeedbackDetailSubmit}
               feedbackLoadingIds={feedbackLoadingIds}
               retryLoadingMessageId={retryLoadingMessageId}
               onReportSubmit={handleSubmitReport}
               userRole={userRole}
+              focusMessage={searchFocus}
+              onExportSession={handleExportActiveSession}
+              onOpenSource={handleOpenSource}
+              pendingFollowUp={pendingFollowUp}
+              onPendingFollowUpConsumed={onPendingFollowUpConsumed}
             />
           </div>
         </div>
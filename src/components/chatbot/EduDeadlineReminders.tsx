@@ -0,0 +1,95 @@
+// src/components/chatbot/EduDeadlineReminders.tsx
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDateTime } from "./creatorStudioUtils";
+import { useChatPreferences } from "./chatPreferences";
+import {
+  collectDueEduReminders,
+  markEduRemindersShown,
+  useMyEducationsForDeadlines,
+  type EduReminder,
+} from "./eduDeadlines";
+
+/** 목록 재조회 주기 (탭을 켜 둔 채 날짜가 바뀌는 경우 포함) */
+const REFRESH_MS = 60 * 60 * 1000;
+/** 한 번에 띄우는 알림 수 (나머지는 다음 조회 때) */
+const MAX_VISIBLE = 3;
+
+function reminderMessage(r: EduReminder): string {
+  const { deadline } = r;
+  if (deadline.overdue) return "이수 기한이 지났어요. 지금 바로 이수해 주세요.";
+  if (deadline.daysLeft === 0) return "오늘이 이수 기한이에요.";
+  return `이수 기한까지 ${deadline.daysLeft}일 남았어요.`;
+}
+
+/**
+ * 필수 교육 마감 알림 (화면 오른쪽 위)
+ * - 챗봇 설정의 "필수 교육 마감 알림" 시점에 맞춰 한 번씩 표시
+ * - 표시한 알림은 기록해 두고 다시 띄우지 않음 (기한 초과는 하루 한 번)
+ */
+const EduDeadlineReminders: React.FC = () => {
+  const navigate = useNavigate();
+  const prefs = useChatPreferences();
+  const [visible, setVisible] = useState<EduReminder[]>([]);
+
+  // 조회할 때마다 알림 시점 판단 (설정 변경은 다음 조회부터 반영)
+  useMyEducationsForDeadlines(REFRESH_MS, (items, loadedAt) => {
+    const due = collectDueEduReminders(items, prefs.eduReminders, loadedAt).slice(
+      0,
+      MAX_VISIBLE
+    );
+    if (due.length === 0) return;
+
+    markEduRemindersShown(
+      due.map((r) => r.key),
+      loadedAt
+    );
+    setVisible((prev) => [...prev, ...due.filter((r) => !prev.some((p) => p.key === r.key))]);
+  });
+
+  if (visible.length === 0) return null;
+
+  const dismiss = (key: string) => setVisible((prev) => prev.filter((r) => r.key !== key));
+
+  return (
+    <div className="cb-edu-reminders" role="region" aria-label="필수 교육 마감 알림">
+      {visible.map((r) => (
+        <div
+          key={r.key}
+          className={"cb-edu-reminder" + (r.deadline.overdue ? " is-overdue" : "")}
+          role="status"
+        >
+          <div className="cb-edu-reminder-head">
+            <span className={"cb-edu-deadline" + (r.deadline.badge.urgent ? " is-urgent" : "")}>
+              {r.deadline.badge.text}
+            </span>
+            <strong className="cb-edu-reminder-title" title={r.deadline.title}>
+              {r.deadline.title}
+            </strong>
+          </div>
+          <p className="cb-edu-reminder-text">
+            {reminderMessage(r)}
+            <small>기한 {formatDateTime(r.deadline.dueAt)}</small>
+          </p>
+          <div className="cb-edu-reminder-actions">
+            <button
+              type="button"
+              className="cb-edu-reminder-btn is-primary"
+              onClick={() => {
+                dismiss(r.key);
+                navigate("/education");
+              }}
+            >
+              교육 보기
+            </button>
+            <button type="button" className="cb-edu-reminder-btn" onClick={() => dismiss(r.key)}>
+              닫기
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EduDeadlineReminders;
@@ -17,11 +17,31 @@ import {
 import {
   getMyEducations,
   getEducationVideos,
-  postEduVideoProgress,
   type EducationItem,
   type EducationVideoItem,
   resolveEducationVideoUrl,
 } from "./educationServiceApi";
+import {
+  getChatPreferences,
+  getSavedChatPanelSize,
+  saveChatPanelSize,
+} from "./chatPreferences";
+import {
+  beaconEduProgress,
+  sendEduProgress,
+  startEduProgressJournalSync,
+} from "./eduProgressJournal";
+import {
+  buildWebVtt,
+  loadEduScriptTrack,
+  scaleEduScriptTrack,
+  type EduScriptTrack,
+} from "./eduVideoScript";
+import { ensureEducationCertificate } from "./eduCertificates";
+import { getMandatoryDeadline, type EduDeadline } from "./eduDeadlines";
+import { formatDateTime } from "./creatorStudioUtils";
+import EduPlaybackNav from "./EduPlaybackNav";
+import { createEduPlaybackStore } from "./eduPlaybackStore";
 
 type Size = PanelSize;
 type ResizeDirection = "n" | "s" | "e" | "w" | "ne" | "nw" | "se" | "sw";
@@ -228,6 +248,8 @@ type UiSection = {
   title: string;
   eduType?: string;
   completed?: boolean;
+  /** 미이수 필수 교육의 이수 기한 (없으면 null) */
+  deadline: EduDeadline | null;
   videos: UiVideo[];
 };
 
@@ -342,17 +364,28 @@ function createInitialSize(topSafe: number): Size {
   const vw = window.innerWidth;
   const vh = window.innerHeight;
 
-  const desiredWidth = Math.min(MAX_WIDTH, vw - PANEL_MARGIN);
+  // 목록 화면 크기: 기억한 크기(설정)가 있으면 우선
+  const saved = getSavedChatPanelSize("edu");
+
+  const desiredWidth = saved?.width ?? Math.min(MAX_WIDTH, vw - PANEL_MARGIN);
   const maxAllowedWidth = Math.max(MIN_WIDTH, vw - EDGE_MARGIN * 2);
   const width = clamp(desiredWidth, MIN_WIDTH, maxAllowedWidth);
 
-  const desiredHeight = vh - PANEL_MARGIN - topSafe;
+  const desiredHeight = saved?.height ?? vh - PANEL_MARGIN - topSafe;
   const maxAllowedHeight = Math.max(MIN_HEIGHT, vh - topSafe - EDGE_MARGIN);
   const height = clamp(desiredHeight, MIN_HEIGHT, maxAllowedHeight);
 
   return { width, height };
 }
 
+/** 처음 위치: 설정이 "화면 가운데"면 가운데, 아니면 아이콘(anchor) 옆 → 아이콘 기본 자리 */
+function computeInitialPos(anchor: Anchor | null | undefined, size: Size) {
+  if (getChatPreferences().panelPlacement === "center") {
+    return computePanelPosition(null, size);
+  }
+  return anchor ? computePanelPosition(anchor, size) : computeDockFallbackPos(size);
+}
+
 function computeDockFallbackPos(size: Size) {
   if (typeof window === "undefined") return { top: 80, left: 120 };
 
@@ -540,6 +573,12 @@ const EduPanel: React.FC<EduPanelProps> = ({
   const topSafeRef = useRef<number>(initialTopSafe);
 
   const [educations, setEducations] = useState<EducationItem[]>([]);
+  /** 목록을 받은 시각 (기한 D-n 계산 기준) */
+  const [educationsLoadedAt, setEducationsLoadedAt] = useState(0);
+  const educationsRef = useRef<EducationItem[]>([]);
+  useEffect(() => {
+    educationsRef.current = educations;
+  }, [educations]);
   const [eduLoading, setEduLoading] = useState<boolean>(false);
   const [eduError, setEduError] = useState<string | null>(null);
   const [eduReloadKey, setEduReloadKey] = useState<number>(0);
@@ -563,9 +602,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
 
     if (!hasDOM) return { top: 80, left: 120 };
 
-    const pos = anchor
-      ? computePanelPosition(anchor, initialSize)
-      : computeDockFallbackPos(initialSize);
+    const pos = computeInitialPos(anchor, initialSize);
     return clampPanelPos(pos, initialSize, initialTopSafe);
   });
 
@@ -675,6 +712,19 @@ const EduPanel: React.FC<EduPanelProps> = ({
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const roundedWatchPercent = Math.round(watchPercent);
 
+  // 시크바/스크립트 표시용 재생 위치 (timeupdate마다 바뀌므로 state 대신 구독 저장소)
+  const [playback] = useState(createEduPlaybackStore);
+  const [playerDuration, setPlayerDuration] = useState<number>(0);
+
+  // 영상 스크립트(자막/스크립트 패널/챕터) — videoId가 다르면 로딩 중으로 본다
+  const [scriptState, setScriptState] = useState<{
+    videoId: string;
+    track: EduScriptTrack | null;
+    failed: boolean;
+  } | null>(null);
+  const [captionsOn, setCaptionsOn] = useState<boolean>(true);
+  const [transcriptOpen, setTranscriptOpen] = useState<boolean>(false);
+
   const tickHandleRef = useRef<ReturnType<typeof window.setInterval> | null>(
     null
   );
@@ -988,6 +1038,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
       .then((list) => {
         if (!alive) return;
         setEducations(list);
+        setEducationsLoadedAt(Date.now());
         syncCachesForEducationList(list);
 
         if (manualReloadRef.current) {
@@ -1163,6 +1214,8 @@ const EduPanel: React.FC<EduPanelProps> = ({
 
       // watch 상태 초기화
       setWatchPercent(base);
+      playback.set({ currentSec: 0, maxWatchedSec: 0 });
+      setPlayerDuration(0);
 
       // 완료/완료요청 상태 초기화
       completedSentRef.current = Boolean(video.completed) || base >= 100;
@@ -1203,6 +1256,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
       abortWatchResolve,
       clearSaveTimer,
       getKnownPlayableUrl,
+      playback,
       pushToast,
       resolvePlayableUrl,
       setPresignState,
@@ -1318,12 +1372,13 @@ const EduPanel: React.FC<EduPanelProps> = ({
         title: edu.title,
         eduType: edu.eduType,
         completed: edu.completed,
+        deadline: getMandatoryDeadline(edu, educationsLoadedAt),
         videos: st.videos,
       };
     });
 
     return mergeExternalProgress(out, videoProgressMap);
-  }, [educations, videosByEduId, videoProgressMap]);
+  }, [educations, educationsLoadedAt, videosByEduId, videoProgressMap]);
 
   const canTakeQuizForSelected = useMemo(() => {
     if (!selectedVideo) return false;
@@ -1556,6 +1611,8 @@ const EduPanel: React.FC<EduPanelProps> = ({
       if (resizeRef.current.resizing) {
         resizeRef.current.resizing = false;
         resizeRef.current.dir = null;
+        // 목록 화면 크기만 기억 (영상 시청 화면은 WATCH_DEFAULT_SIZE로 따로 연다)
+        if (!selectedVideoRef.current) saveChatPanelSize("edu", sizeRef.current);
       }
       if (dragRef.current.dragging) {
         dragRef.current.dragging = false;
@@ -1728,10 +1785,28 @@ const EduPanel: React.FC<EduPanelProps> = ({
     []
   );
 
+  const requestCertificate = useCallback(
+    (educationId: string) => {
+      ensureEducationCertificate(educationId)
+        .then(() => {
+          pushToastOnce(
+            `certificate:${educationId}`,
+            "수료증이 발급되었습니다. 마이페이지 > 내 수료증에서 확인할 수 있습니다.",
+            "success",
+            60_000
+          );
+        })
+        .catch((e: unknown) => {
+          // 발급 실패는 마이페이지에서 다시 발급할 수 있으므로 로그만
+          console.warn("[EduPanel] certificate issue failed", e);
+        });
+    },
+    [pushToastOnce]
+  );
+
   const flushProgress = useCallback(
     async (opts?: {
       force?: boolean;
-      keepalive?: boolean;
       reason?: "pause" | "back" | "close" | "ended" | "complete";
     }) => {
       const sel = selectedVideoRef.current;
@@ -1754,18 +1829,34 @@ const EduPanel: React.FC<EduPanelProps> = ({
       const educationId = sel.educationId;
       const videoId = sel.id;
 
+      // journal에 적는 순간 보존되므로 누적 시청 시간은 바로 비운다
+      watchTimeAccumRef.current = 0;
+
       try {
-        const res = await postEduVideoProgress(
+        const sent = await sendEduProgress(
           educationId,
           videoId,
           { position, watchTime },
-          { signal: ac.signal, keepalive: opts?.keepalive }
+          { signal: ac.signal }
         );
 
         // 이 요청이 최신 요청인지 확인(최신만 진행표시/상태 업데이트)
         if (progressAbortRef.current === ac) progressAbortRef.current = null;
 
-        watchTimeAccumRef.current = 0;
+        if (sent.status === "queued") {
+          if (opts?.force) {
+            setSaveStatusTransient("error", 2600);
+            pushToastOnce(
+              "progress-queued",
+              "네트워크가 불안정해 진행률을 이 기기에 보관했습니다. 연결되면 자동으로 저장됩니다.",
+              "warn",
+              8000
+            );
+          }
+          return;
+        }
+
+        const res = sent.response;
 
         const duration = videoDurationRef.current || v.duration || 0;
 
@@ -1777,7 +1868,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
         const rawResume =
           typeof res?.resumePositionSeconds === "number"
             ? res.resumePositionSeconds
-            : ((res as unknown as Record<string, unknown>)["resumePosition"] as
+            : ((res as unknown as Record<string, unknown> | null)?.["resumePosition"] as
                 | number
                 | undefined);
 
@@ -1828,6 +1919,9 @@ const EduPanel: React.FC<EduPanelProps> = ({
           finalCompleted
         );
 
+        const wasEduCompleted =
+          educationsRef.current.find((e) => e.id === educationId)?.completed === true;
+
         patchLocalVideoProgress(
           educationId,
           videoId,
@@ -1837,6 +1931,11 @@ const EduPanel: React.FC<EduPanelProps> = ({
           finalCompleted
         );
 
+        // 이번 응답으로 교육 이수가 확정되면 수료증 발급
+        if (serverEduCompleted === true && !wasEduCompleted) {
+          requestCertificate(educationId);
+        }
+
         if (opts?.force) {
           setSaveStatusTransient("saved", 1600);
 
@@ -1866,7 +1965,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
         }
       } catch (e: unknown) {
         if (isAbortError(e)) return;
-        console.warn("[EduPanel] postEduVideoProgress failed", e);
+        console.warn("[EduPanel] sendEduProgress failed", e);
 
         if (opts?.force) {
           setSaveStatusTransient("error", 2600);
@@ -1886,6 +1985,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
       getResumeSeconds,
       patchLocalVideoProgress,
       pushToastOnce,
+      requestCertificate,
       setSaveStatusTransient,
       syncProgressToParent,
     ]
@@ -1898,28 +1998,43 @@ const EduPanel: React.FC<EduPanelProps> = ({
     }, PROGRESS_TICK_MS);
   }, [flushProgress]);
 
-  // 탭 숨김/언로드 시에도 진행도 flush (keepalive)
+  // 패널이 열려 있는 동안 journal 자동 동기화 (online 복귀 / 이전 접속에서 남은 항목)
+  useEffect(() => startEduProgressJournalSync(), []);
+
+  // 탭 숨김 시 flush, 언로드 시 남은 진행도를 beacon으로 전송
   useEffect(() => {
     if (!hasDOM) return;
     if (!selectedVideo) return;
 
     const onVisibility = () => {
       if (document.visibilityState !== "hidden") return;
-      void flushProgress({ force: true, keepalive: true, reason: "close" });
+      void flushProgress({ force: true, reason: "close" });
     };
 
-    const onBeforeUnload = () => {
-      void flushProgress({ force: true, keepalive: true, reason: "close" });
+    const onPageHide = () => {
+      const sel = selectedVideoRef.current;
+      const watchTime = Math.round(watchTimeAccumRef.current);
+      watchTimeAccumRef.current = 0;
+
+      beaconEduProgress(
+        sel
+          ? {
+              educationId: sel.educationId,
+              videoId: sel.id,
+              payload: { position: getResumeSeconds(), watchTime },
+            }
+          : undefined
+      );
     };
 
     document.addEventListener("visibilitychange", onVisibility);
-    window.addEventListener("beforeunload", onBeforeUnload);
+    window.addEventListener("pagehide", onPageHide);
 
     return () => {
       document.removeEventListener("visibilitychange", onVisibility);
-      window.removeEventListener("beforeunload", onBeforeUnload);
+      window.removeEventListener("pagehide", onPageHide);
     };
-  }, [hasDOM, selectedVideo, flushProgress]);
+  }, [hasDOM, selectedVideo, flushProgress, getResumeSeconds]);
 
   // =========================
   // 6) list interactions
@@ -1965,6 +2080,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
 
     const duration = v.duration || 0;
     videoDurationRef.current = duration;
+    setPlayerDuration(duration);
 
     const basePercent = clamp(selectedVideo?.progress ?? 0, 0, 100);
     const isCompleted = Boolean(selectedVideo?.completed) || basePercent >= 100;
@@ -1997,6 +2113,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
 
     maxWatchedTimeRef.current = startTime;
     lastTimeSampleRef.current = startTime;
+    playback.set({ currentSec: startTime, maxWatchedSec: startTime });
 
     // 표시 퍼센트도 startTime(=resume 기준)으로 단일화
     if (isCompleted) {
@@ -2052,6 +2169,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
 
     const newMax = Math.max(maxWatchedTimeRef.current, current);
     maxWatchedTimeRef.current = newMax;
+    playback.set({ currentSec: current, maxWatchedSec: newMax });
 
     const newPercent = Math.min(100, (newMax / duration) * 100);
 
@@ -2075,6 +2193,86 @@ const EduPanel: React.FC<EduPanelProps> = ({
     });
   };
 
+  // =========================
+  // 8) script (자막 / 스크립트 / 챕터)
+  // =========================
+  const selectedEducationId = selectedVideo?.educationId;
+  const selectedVideoId = selectedVideo?.id;
+
+  useEffect(() => {
+    if (!selectedEducationId || !selectedVideoId) return;
+    let alive = true;
+
+    loadEduScriptTrack({ educationId: selectedEducationId, videoId: selectedVideoId })
+      .then((track) => {
+        if (alive) setScriptState({ videoId: selectedVideoId, track, failed: false });
+      })
+      .catch((e: unknown) => {
+        if (!alive) return;
+        console.warn("[EduPanel] script load failed", e);
+        setScriptState({ videoId: selectedVideoId, track: null, failed: true });
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [selectedEducationId, selectedVideoId]);
+
+  const selectedScript =
+    scriptState && scriptState.videoId === selectedVideoId ? scriptState : null;
+
+  const scriptTrack = useMemo(
+    () =>
+      selectedScript?.track
+        ? scaleEduScriptTrack(selectedScript.track, playerDuration)
+        : null,
+    [selectedScript, playerDuration]
+  );
+
+  const captionsUrl = useMemo(() => {
+    if (!scriptTrack || typeof URL.createObjectURL !== "function") return null;
+    const vtt = buildWebVtt(scriptTrack.cues);
+    return URL.createObjectURL(new Blob([vtt], { type: "text/vtt" }));
+  }, [scriptTrack]);
+
+  useEffect(() => {
+    if (!captionsUrl) return;
+    return () => URL.revokeObjectURL(captionsUrl);
+  }, [captionsUrl]);
+
+  // controls 없이도 자막은 브라우저 기본 렌더링 사용 (showing / hidden 전환)
+  useEffect(() => {
+    const v = videoRef.current;
+    if (!v) return;
+    for (const t of Array.from(v.textTracks)) {
+      t.mode = captionsOn ? "showing" : "hidden";
+    }
+  }, [captionsOn, captionsUrl]);
+
+  /**
+   * 시크바/챕터/스크립트에서 이동
+   * - 시청한 구간 + 허용 오차까지만 이동 (handleSeeking의 seek-guard와 같은 기준)
+   */
+  const seekWithinWatched = (sec: number) => {
+    const v = videoRef.current;
+    if (!v || !canWatchPlay) return;
+
+    const maxAllowed = maxWatchedTimeRef.current + SEEK_FORWARD_TOLERANCE_SEC;
+    if (sec > maxAllowed) {
+      pushToastOnce(
+        "seek-locked",
+        "아직 시청하지 않은 구간으로는 이동할 수 없습니다.",
+        "info",
+        4000
+      );
+      return;
+    }
+
+    // programmatic seek 플래그 없이 이동 → handleSeeking이 한 번 더 검사
+    v.currentTime = Math.max(0, sec);
+    playback.set({ currentSec: v.currentTime });
+  };
+
   const handleEnded = () => {
     setIsPlaying(false);
     stopTick();
@@ -2089,6 +2287,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
       videoDurationRef.current || videoRef.current?.duration || 0;
     if (duration > 0) {
       maxWatchedTimeRef.current = duration;
+      playback.set({ maxWatchedSec: duration });
       setWatchPercent(100);
     }
   };
@@ -2193,6 +2392,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
     maxWatchedTimeRef.current = 0;
     watchTimeAccumRef.current = 0;
     lastTimeSampleRef.current = null;
+    playback.set({ currentSec: 0, maxWatchedSec: 0 });
 
     setWatchPercent(0);
     setIsPlaying(false);
@@ -2229,9 +2429,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
     setSize(listSize);
 
     if (hasDOM) {
-      const pos = anchor
-        ? computePanelPosition(anchor, listSize)
-        : computeDockFallbackPos(listSize);
+      const pos = computeInitialPos(anchor, listSize);
       setPanelPos(clampPanelPos(pos, listSize, minTop));
     } else {
       setPanelPos({ top: 80, left: 120 });
@@ -2245,7 +2443,7 @@ const EduPanel: React.FC<EduPanelProps> = ({
       videoRef.current?.pause();
       setIsPlaying(false);
       stopTick();
-      void flushProgress({ force: true, keepalive: true, reason: "close" });
+      void flushProgress({ force: true, reason: "close" });
     }
 
     const abortMap = videosAbortRef.current;
@@ -2490,6 +2688,16 @@ const EduPanel: React.FC<EduPanelProps> = ({
                       disableRemotePlayback
                       onContextMenu={(e) => e.preventDefault()}
                     >
+                      {captionsUrl ? (
+                        <track
+                          key={captionsUrl}
+                          kind="subtitles"
+                          srcLang="ko"
+                          label="한국어"
+                          src={captionsUrl}
+                          default={captionsOn}
+                        />
+                      ) : null}
                       브라우저가 비디오 태그를 지원하지 않습니다.
                     </video>
 
@@ -2608,7 +2816,44 @@ const EduPanel: React.FC<EduPanelProps> = ({
                     </div>
                   </div>
 
+                  <EduPlaybackNav
+                    store={playback}
+                    durationSec={playerDuration}
+                    showSeekBar={!isErrorSelected}
+                    track={scriptTrack}
+                    transcriptOpen={transcriptOpen}
+                    seekToleranceSec={SEEK_FORWARD_TOLERANCE_SEC}
+                    onSeek={seekWithinWatched}
+                  />
+
                   <footer className="cb-edu-watch-footer">
+                    <div className="cb-edu-watch-tools">
+                      {scriptTrack ? (
+                        <>
+                          <button
+                            type="button"
+                            className={`cb-edu-watch-tool-btn${captionsOn ? " is-on" : ""}`}
+                            onClick={() => setCaptionsOn((on) => !on)}
+                            aria-pressed={captionsOn}
+                          >
+                            자막
+                          </button>
+                          <button
+                            type="button"
+                            className={`cb-edu-watch-tool-btn${transcriptOpen ? " is-on" : ""}`}
+                            onClick={() => setTranscriptOpen((open) => !open)}
+                            aria-pressed={transcriptOpen}
+                          >
+                            스크립트
+                          </button>
+                        </>
+                      ) : selectedVideo && !selectedScript ? (
+                        <span className="cb-edu-watch-tools-note">스크립트 확인 중…</span>
+                      ) : selectedScript?.failed ? (
+                        <span className="cb-edu-watch-tools-note">스크립트를 불러오지 못했습니다.</span>
+                      ) : null}
+                    </div>
+
                     <button
                       type="button"
                       className={`cb-edu-watch-quiz-btn ${
@@ -2763,6 +3008,18 @@ const EduPanel: React.FC<EduPanelProps> = ({
                                 {section.title}
                               </div>
 
+                              {section.deadline && !done ? (
+                                <span
+                                  className={
+                                    "cb-edu-deadline" +
+                                    (section.deadline.badge.urgent ? " is-urgent" : "")
+                                  }
+                                  title={`이수 기한 ${formatDateTime(section.deadline.dueAt)}`}
+                                >
+                                  {section.deadline.badge.text}
+                                </span>
+                              ) : null}
+
                               <div style={{ fontSize: 12, opacity: 0.85 }}>
                                 {section.eduType ? section.eduType : "교육"} ·{" "}
                                 {done ? "완료" : "진행 중"} ·{" "}
@@ -0,0 +1,60 @@
+// src/components/chatbot/EduPlaybackNav.tsx
+import React from "react";
+import EduSeekBar from "./EduSeekBar";
+import EduTranscriptPane from "./EduTranscriptPane";
+import { findCueIndexAt, type EduScriptTrack } from "./eduVideoScript";
+import { useEduPlaybackPosition, type EduPlaybackStore } from "./eduPlaybackStore";
+
+interface EduPlaybackNavProps {
+  store: EduPlaybackStore;
+  durationSec: number;
+  /** 영상 길이를 모르거나 재생 오류면 시크바를 숨긴다 */
+  showSeekBar: boolean;
+  track: EduScriptTrack | null;
+  transcriptOpen: boolean;
+  /** seek-guard 허용 오차 (시청한 지점 + 이 값까지 이동 가능) */
+  seekToleranceSec: number;
+  onSeek: (sec: number) => void;
+}
+
+/**
+ * 교육 영상 시크바 + 스크립트 패널
+ * - 재생 위치를 구독하는 부분만 따로 떼어, timeupdate마다 EduPanel 전체가 다시 그려지지 않게 한다
+ */
+const EduPlaybackNav: React.FC<EduPlaybackNavProps> = ({
+  store,
+  durationSec,
+  showSeekBar,
+  track,
+  transcriptOpen,
+  seekToleranceSec,
+  onSeek,
+}) => {
+  const { currentSec, maxWatchedSec } = useEduPlaybackPosition(store);
+  const activeCueIndex = track ? findCueIndexAt(track.cues, currentSec) : -1;
+
+  return (
+    <>
+      {showSeekBar && durationSec > 0 ? (
+        <EduSeekBar
+          durationSec={durationSec}
+          currentSec={currentSec}
+          maxWatchedSec={Math.min(maxWatchedSec, durationSec)}
+          chapters={track?.chapters ?? []}
+          onSeek={onSeek}
+        />
+      ) : null}
+
+      {transcriptOpen && track ? (
+        <EduTranscriptPane
+          track={track}
+          activeIndex={activeCueIndex}
+          maxSeekableSec={maxWatchedSec + seekToleranceSec}
+          onSeek={onSeek}
+        />
+      ) : null}
+    </>
+  );
+};
+
+export default EduPlaybackNav;
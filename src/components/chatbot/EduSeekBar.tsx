@@ -0,0 +1,111 @@
+// src/components/chatbot/EduSeekBar.tsx
+import React, { useRef } from "react";
+import { formatDuration } from "./creatorStudioUtils";
+import type { EduScriptChapter } from "./eduVideoScript";
+
+interface EduSeekBarProps {
+  durationSec: number;
+  currentSec: number;
+  /** 지금까지 시청한 최대 지점 (이후 구간은 잠금 표시) */
+  maxWatchedSec: number;
+  chapters: EduScriptChapter[];
+  /** 이동 요청 (앞으로 건너뛰기 제한은 호출부에서 판단) */
+  onSeek: (sec: number) => void;
+}
+
+const KEY_STEP_SEC = 5;
+
+/**
+ * 교육 영상 시크바
+ * - 재생 위치 / 시청 완료 구간 / 챕터 마커 표시
+ * - 클릭·키보드(←/→)로 이동 요청만 올리고, 실제 이동 가능 여부는 EduPanel의 seek-guard가 결정
+ */
+const EduSeekBar: React.FC<EduSeekBarProps> = ({
+  durationSec,
+  currentSec,
+  maxWatchedSec,
+  chapters,
+  onSeek,
+}) => {
+  const trackRef = useRef<HTMLDivElement | null>(null);
+
+  const pct = (sec: number) =>
+    durationSec > 0 ? Math.max(0, Math.min(100, (sec / durationSec) * 100)) : 0;
+
+  const currentChapter = chapters.find((c) => currentSec >= c.startSec && currentSec < c.endSec);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const el = trackRef.current;
+    if (!el || durationSec <= 0) return;
+    const rect = el.getBoundingClientRect();
+    if (rect.width <= 0) return;
+    const ratio = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    onSeek(ratio * durationSec);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "ArrowLeft") {
+      e.preventDefault();
+      onSeek(Math.max(0, currentSec - KEY_STEP_SEC));
+    } else if (e.key === "ArrowRight") {
+      e.preventDefault();
+      onSeek(Math.min(durationSec, currentSec + KEY_STEP_SEC));
+    } else if (e.key === "Home") {
+      e.preventDefault();
+      onSeek(0);
+    }
+  };
+
+  return (
+    <div className="cb-edu-seek">
+      <div
+        ref={trackRef}
+        className="cb-edu-seek-track"
+        role="slider"
+        tabIndex={0}
+        aria-label="재생 위치"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(durationSec)}
+        aria-valuenow={Math.round(currentSec)}
+        aria-valuetext={`${formatDuration(currentSec)} / ${formatDuration(durationSec)}${
+          currentChapter ? ` · ${currentChapter.title}` : ""
+        }`}
+        onMouseDown={handleMouseDown}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="cb-edu-seek-watched" style={{ width: `${pct(maxWatchedSec)}%` }} />
+        <div className="cb-edu-seek-played" style={{ width: `${pct(currentSec)}%` }} />
+        {chapters
+          .filter((c) => c.startSec > 0)
+          .map((c) => (
+            <button
+              key={`${c.title}-${c.startSec}`}
+              type="button"
+              className={
+                "cb-edu-seek-marker" + (c.startSec > maxWatchedSec ? " is-locked" : "")
+              }
+              style={{ left: `${pct(c.startSec)}%` }}
+              title={`${c.title} (${formatDuration(c.startSec)})`}
+              aria-label={`${c.title} 챕터로 이동`}
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={() => onSeek(c.startSec)}
+            />
+          ))}
+        <div className="cb-edu-seek-thumb" style={{ left: `${pct(currentSec)}%` }} />
+      </div>
+
+      <div className="cb-edu-seek-meta">
+        <span>
+          {formatDuration(currentSec)} / {formatDuration(durationSec)}
+        </span>
+        {currentChapter ? (
+          <span className="cb-edu-seek-chapter" title={currentChapter.title}>
+            {currentChapter.title}
+          </span>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default EduSeekBar;
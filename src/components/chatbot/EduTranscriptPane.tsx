@@ -0,0 +1,140 @@
+// src/components/chatbot/EduTranscriptPane.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { formatDuration } from "./creatorStudioUtils";
+import type { EduScriptTrack } from "./eduVideoScript";
+
+interface EduTranscriptPaneProps {
+  track: EduScriptTrack;
+  /** 현재 재생 중인 cue 위치 (-1이면 없음) */
+  activeIndex: number;
+  /** 이 시점 이후 문장은 아직 시청 전이라 이동 불가로 표시 */
+  maxSeekableSec: number;
+  onSeek: (sec: number) => void;
+}
+
+/** 사용자가 직접 스크롤한 뒤 자동 따라가기를 멈추는 시간 */
+const FOLLOW_PAUSE_MS = 4000;
+
+function highlight(text: string, query: string): React.ReactNode {
+  if (!query) return text;
+  const lower = text.toLowerCase();
+  const q = query.toLowerCase();
+
+  const parts: React.ReactNode[] = [];
+  let from = 0;
+  let at = lower.indexOf(q, from);
+  while (at >= 0) {
+    if (at > from) parts.push(text.slice(from, at));
+    parts.push(<mark key={at}>{text.slice(at, at + q.length)}</mark>);
+    from = at + q.length;
+    at = lower.indexOf(q, from);
+  }
+  if (from < text.length) parts.push(text.slice(from));
+  return parts;
+}
+
+/**
+ * 교육 영상 스크립트(자막 전문) 패널
+ * - 재생 위치를 따라 현재 문장을 강조하고 스크롤
+ * - 검색어로 문장 필터링, 문장을 누르면 해당 위치로 이동(시청한 구간까지만)
+ */
+const EduTranscriptPane: React.FC<EduTranscriptPaneProps> = ({
+  track,
+  activeIndex,
+  maxSeekableSec,
+  onSeek,
+}) => {
+  const [query, setQuery] = useState("");
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const userScrolledAtRef = useRef(0);
+
+  const trimmed = query.trim();
+
+  const rows = useMemo(() => {
+    const q = trimmed.toLowerCase();
+    return track.cues
+      .map((cue, index) => ({ cue, index }))
+      .filter(({ cue }) => !q || cue.text.toLowerCase().includes(q));
+  }, [track.cues, trimmed]);
+
+  // 재생 위치 따라가기 (검색 중이거나 방금 직접 스크롤했으면 멈춤)
+  useEffect(() => {
+    if (trimmed || activeIndex < 0) return;
+    if (Date.now() - userScrolledAtRef.current < FOLLOW_PAUSE_MS) return;
+
+    const list = listRef.current;
+    const el = list?.querySelector<HTMLElement>(`[data-cue-index="${activeIndex}"]`);
+    if (!list || !el) return;
+
+    // 목록이 position: relative라 offsetTop이 목록 기준
+    const top = el.offsetTop;
+    if (top < list.scrollTop || top + el.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: Math.max(0, top - list.clientHeight / 3), behavior: "smooth" });
+    }
+  }, [activeIndex, trimmed]);
+
+  const markUserScroll = () => {
+    userScrolledAtRef.current = Date.now();
+  };
+
+  return (
+    <section className="cb-edu-transcript" aria-label="영상 스크립트">
+      <div className="cb-edu-transcript-search">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="스크립트 검색"
+          aria-label="스크립트 검색"
+        />
+        {trimmed ? (
+          <span className="cb-edu-transcript-count">{rows.length}건</span>
+        ) : null}
+      </div>
+
+      <div
+        ref={listRef}
+        className="cb-edu-transcript-list"
+        onWheel={markUserScroll}
+        onTouchMove={markUserScroll}
+      >
+        {rows.length === 0 ? (
+          <div className="cb-edu-transcript-empty">검색 결과가 없어요.</div>
+        ) : (
+          rows.map(({ cue, index }, i) => {
+            const prev = rows[i - 1]?.cue;
+            const showChapter = !prev || prev.chapterIndex !== cue.chapterIndex;
+            const locked = cue.startSec > maxSeekableSec;
+
+            return (
+              <React.Fragment key={cue.id}>
+                {showChapter ? (
+                  <div className="cb-edu-transcript-chapter">
+                    {track.chapters[cue.chapterIndex]?.title ?? ""}
+                  </div>
+                ) : null}
+                <button
+                  type="button"
+                  data-cue-index={index}
+                  className={
+                    "cb-edu-transcript-line" +
+                    (index === activeIndex ? " is-active" : "") +
+                    (locked ? " is-locked" : "")
+                  }
+                  aria-current={index === activeIndex ? "true" : undefined}
+                  title={locked ? "아직 시청하지 않은 구간이에요." : undefined}
+                  onClick={() => onSeek(cue.startSec)}
+                >
+                  <span className="cb-edu-transcript-time">{formatDuration(cue.startSec)}</span>
+                  <span className="cb-edu-transcript-text">{highlight(cue.text, trimmed)}</span>
+                </button>
+              </React.Fragment>
+            );
+          })
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default EduTranscriptPane;
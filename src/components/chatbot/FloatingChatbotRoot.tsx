@@ -4,12 +4,18 @@ import FloatingDock from "./FloatingDock";
 import ChatbotApp from "./ChatbotApp";
 import EduPanel from "./EduPanel";
 import QuizPanel from "./QuizPanel";
+import SourceDocPanel from "./SourceDocPanel";
+import ReportCenterPanel from "./ReportCenterPanel";
 import AdminDashboardView from "../dashboard/AdminDashboardView";
 import ReviewerDeskView from "./ReviewerDeskView";
 import CreatorStudioView from "./CreatorStudioView";
 import { initialCourses } from "./quizData";
 import type { Anchor } from "../../utils/chat";
-import type { PlayEducationVideoParams } from "../../types/chat";
+import type { ChatSource, PlayEducationVideoParams } from "../../types/chat";
+import { registerChatActionHandlers } from "./chatActions";
+import { useStableEvent } from "./useStableEvent";
+import type { SourceFollowUpRequest } from "./chatSourceDocument";
+import type { ReportScope } from "./reportApi";
 import { can, type UserRole } from "../../auth/roles";
 
 type VideoProgressMap = Record<string, number>;
@@ -21,7 +27,15 @@ interface FloatingChatbotRootProps {
 /**
  * 여러 패널을 동시에 띄우면서 z-index를 제어하기 위한 Panel ID
  */
-type PanelId = "chat" | "edu" | "quiz" | "admin" | "reviewer" | "creator";
+type PanelId =
+  | "chat"
+  | "edu"
+  | "quiz"
+  | "doc"
+  | "reports"
+  | "admin"
+  | "reviewer"
+  | "creator";
 
 type PanelState = {
   open: Record<PanelId, boolean>;
@@ -38,6 +52,8 @@ const PANEL_IDS: PanelId[] = [
   "chat",
   "edu",
   "quiz",
+  "doc",
+  "reports",
   "admin",
   "reviewer",
   "creator",
@@ -48,6 +64,8 @@ const initialPanelState: PanelState = {
     chat: false,
     edu: false,
     quiz: false,
+    doc: false,
+    reports: false,
     admin: false,
     reviewer: false,
     creator: false,
@@ -320,14 +338,33 @@ const FloatingChatbotRoot: React.FC<FloatingChatbotRootProps> = ({
   const [pendingVideoPlay, setPendingVideoPlay] =
     useState<PlayEducationVideoParams | null>(null);
 
+  // 답변 출처 문서 뷰어 (nonce: 같은 출처를 다시 열어도 패널을 새로 마운트)
+  const [sourceDoc, setSourceDoc] = useState<{
+    source: ChatSource;
+    nonce: number;
+  } | null>(null);
+
+  // 신고 내역 / 신고 처리함 (nonce: 다른 신고로 다시 열면 패널을 새로 마운트)
+  const [reportCenter, setReportCenter] = useState<{
+    mode: ReportScope;
+    reportId?: string;
+    nonce: number;
+  } | null>(null);
+
+  // 문서 뷰어 → 챗봇 후속 질문 대기
+  const [pendingFollowUp, setPendingFollowUp] =
+    useState<SourceFollowUpRequest | null>(null);
+
   const isChatbotOpen = panels.open.chat;
 
   // 포커스 모드(배경 완전 차단) 활성 조건:
-  // 챗봇/교육/퀴즈/관리자/검토/제작 중 하나라도 열려 있으면 배경을 가린다.
+  // 챗봇/교육/퀴즈/문서/신고/관리자/검토/제작 중 하나라도 열려 있으면 배경을 가린다.
   const isFocusOverlayActive =
     panels.open.chat ||
     panels.open.edu ||
     panels.open.quiz ||
+    panels.open.doc ||
+    panels.open.reports ||
     panels.open.admin ||
     panels.open.reviewer ||
     panels.open.creator;
@@ -450,6 +487,53 @@ const FloatingChatbotRoot: React.FC<FloatingChatbotRootProps> = ({
     setIsQuizExamMode(false);
   };
 
+  /**
+   * 답변 출처 클릭 → 문서 뷰어 패널
+   */
+  const handleOpenSourceDocument = useCallback((source: ChatSource) => {
+    setSourceDoc((prev) => ({ source, nonce: (prev?.nonce ?? 0) + 1 }));
+    dispatch({ type: "OPEN_EXCLUSIVE", id: "doc" });
+  }, []);
+
+  const handleCloseSourceDocument = () => {
+    dispatch({ type: "CLOSE", id: "doc" });
+    setSourceDoc(null);
+  };
+
+  /**
+   * 문서 뷰어 "이 부분 질문하기"
+   * - 챗봇이 닫혀 있으면 열고, ChatbotApp이 현재 세션으로 전송
+   */
+  const handleAskSourceFollowUp = (text: string) => {
+    if (isQuizExamMode) {
+      showExamBlockedToast();
+      return;
+    }
+
+    setPendingFollowUp({ text, nonce: Date.now() });
+
+    if (!isChatbotOpen) {
+      dispatch({ type: "OPEN", id: "chat" });
+      setChatbotAnimationState("opening");
+    } else {
+      dispatch({ type: "FOCUS", id: "chat" });
+    }
+  };
+
+  /**
+   * 내 신고 내역(mine) / 신고 처리함(inbox, COMPLAINT_MANAGER 전용)
+   */
+  const handleOpenReportCenter = (mode: ReportScope, reportId?: string) => {
+    if (mode === "inbox" && !can(userRole, "OPEN_COMPLAINT_INBOX")) return;
+    setReportCenter((prev) => ({ mode, reportId, nonce: (prev?.nonce ?? 0) + 1 }));
+    dispatch({ type: "OPEN_EXCLUSIVE", id: "reports" });
+  };
+
+  const handleCloseReportCenter = () => {
+    dispatch({ type: "CLOSE", id: "reports" });
+    setReportCenter(null);
+  };
+
   const handleOpenAdminPanel = () => {
     if (!can(userRole, "OPEN_ADMIN_DASHBOARD")) return;
     dispatch({ type: "OPEN_EXCLUSIVE", id: "admin" });
@@ -477,6 +561,62 @@ const FloatingChatbotRoot: React.FC<FloatingChatbotRootProps> = ({
     dispatch({ type: "CLOSE", id: "creator" });
   };
 
+  /**
+   * 답변 액션 handler 등록 (패널을 여는 액션)
+   * - 영상/교육/퀴즈는 기존처럼 답변 도착 시 자동 실행 + 버튼으로 다시 열기
+   * - 규정 문서는 버튼으로만 (문서 뷰어 패널)
+   */
+  const openEduFromAction = useStableEvent(handleOpenEduPanel);
+  const openQuizFromAction = useStableEvent(handleOpenQuizPanel);
+
+  useEffect(
+    () =>
+      registerChatActionHandlers([
+        {
+          type: "PLAY_VIDEO",
+          label: (a) => `${a.videoTitle ?? a.educationTitle ?? "교육 영상"} 보기`,
+          isValid: (a) => Boolean(a.educationId && a.videoId),
+          autoRun: true,
+          run: (a) => {
+            if (!a.educationId || !a.videoId) return;
+            handlePlayEducationVideo({
+              educationId: a.educationId,
+              videoId: a.videoId,
+              resumePositionSeconds: a.resumePositionSeconds,
+            });
+          },
+        },
+        {
+          type: "OPEN_EDU_PANEL",
+          label: () => "교육 목록 열기",
+          autoRun: true,
+          run: () => openEduFromAction(),
+        },
+        {
+          type: "OPEN_QUIZ",
+          label: (a) => (a.educationTitle ? `${a.educationTitle} 퀴즈 풀기` : "퀴즈 풀기"),
+          autoRun: true,
+          run: (a) => openQuizFromAction(a.educationId || a.quizId),
+        },
+        {
+          type: "OPEN_POLICY_DOC",
+          label: (a) => `${a.title ?? a.articleLabel ?? "규정 문서"} 열기`,
+          isValid: (a) => Boolean(a.docId),
+          run: (a) => {
+            if (!a.docId) return;
+            handleOpenSourceDocument({
+              docId: a.docId,
+              title: a.title,
+              page: a.page,
+              articleLabel: a.articleLabel,
+              sourceType: "POLICY",
+            });
+          },
+        },
+      ]),
+    [handlePlayEducationVideo, handleOpenSourceDocument, openEduFromAction, openQuizFromAction]
+  );
+
   const handleQuizExamModeChange = (isExamMode: boolean) => {
     setIsQuizExamMode(isExamMode);
   };
@@ -519,9 +659,14 @@ const FloatingChatbotRoot: React.FC<FloatingChatbotRootProps> = ({
             onOpenAdminPanel={handleOpenAdminPanel}
             onOpenReviewerPanel={handleOpenReviewerPanel}
             onOpenCreatorPanel={handleOpenCreatorPanel}
+            onOpenReportCenter={handleOpenReportCenter}
             userRole={userRole}
             onRequestFocus={() => dispatch({ type: "FOCUS", id: "chat" })}
-            onPlayEducationVideo={handlePlayEducationVideo}
+            onOpenSourceDocument={handleOpenSourceDocument}
+            pendingFollowUp={pendingFollowUp}
+            onPendingFollowUpConsumed={() => setPendingFollowUp(null)}
+            // 설정 초기화 → 아이콘을 기본 위치로 다시 마운트
+            onPreferencesReset={() => setDockInstanceKey((k) => k + 1)}
           />
         </div>
       )}
@@ -570,6 +715,48 @@ const FloatingChatbotRoot: React.FC<FloatingChatbotRootProps> = ({
         </div>
       )}
 
+      {/* 출처 문서 뷰어 */}
+      {panels.open.doc && sourceDoc && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            zIndex: getZIndexForPanel("doc"),
+            pointerEvents: "none",
+          }}
+        >
+          <SourceDocPanel
+            key={`${sourceDoc.source.docId}-${sourceDoc.nonce}`}
+            anchor={anchor}
+            source={sourceDoc.source}
+            onClose={handleCloseSourceDocument}
+            onRequestFocus={() => dispatch({ type: "FOCUS", id: "doc" })}
+            onAskFollowUp={handleAskSourceFollowUp}
+          />
+        </div>
+      )}
+
+      {/* 신고 내역 / 신고 처리함 */}
+      {panels.open.reports && reportCenter && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            zIndex: getZIndexForPanel("reports"),
+            pointerEvents: "none",
+          }}
+        >
+          <ReportCenterPanel
+            key={`${reportCenter.mode}-${reportCenter.nonce}`}
+            anchor={anchor}
+            mode={reportCenter.mode}
+            initialReportId={reportCenter.reportId}
+            onClose={handleCloseReportCenter}
+            onRequestFocus={() => dispatch({ type: "FOCUS", id: "reports" })}
+          />
+        </div>
+      )}
+
       {/* 관리자 대시보드 */}
       {panels.open.admin && (
         <div
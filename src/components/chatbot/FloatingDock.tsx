@@ -2,6 +2,7 @@
 import React, { useEffect, useRef, useState } from "react";
 import "./FloatingDock.css";
 import type { Anchor } from "../../utils/chat";
+import { getChatPreferences, updateChatPreferences } from "./chatPreferences";
 
 type Position = { x: number; y: number };
 type EyeOffset = { x: number; y: number };
@@ -39,6 +40,12 @@ function getInitialPosition(): Position {
   };
 }
 
+/** 사용자가 옮겨 둔 위치(설정)가 있으면 그 위치, 없으면 기본 위치 */
+function getStartPosition(): Position {
+  const saved = getChatPreferences().dockPosition;
+  return saved ? clampPositionToViewport(saved) : getInitialPosition();
+}
+
 /** 현재 position 을 주어진 viewport 안으로 클램프 */
 function clampPositionToViewport(pos: Position): Position {
   if (typeof window === "undefined") return pos;
@@ -56,7 +63,7 @@ const FloatingDock: React.FC<FloatingDockProps> = ({
   const iconRef = useRef<HTMLButtonElement | null>(null);
 
   // 아이콘 위치
-  const [position, setPosition] = useState<Position>(() => getInitialPosition());
+  const [position, setPosition] = useState<Position>(getStartPosition);
   // 눈동자 위치
   const [eyeOffset, setEyeOffset] = useState<EyeOffset>({ x: 0, y: 0 });
 
@@ -167,6 +174,11 @@ const FloatingDock: React.FC<FloatingDockProps> = ({
     dragRef.current.dragging = false;
     dragRef.current.moved = false;
 
+    // 옮긴 위치는 다음 방문에도 유지
+    if (moved) {
+      updateChatPreferences({ dockPosition: { x: position.x, y: position.y } });
+    }
+
     // 드래그가 아니면 클릭으로 처리 → 상위(FloatingChatbotRoot)에 토글 요청
     if (!moved) {
       const anchor = calcAnchorFromIcon();
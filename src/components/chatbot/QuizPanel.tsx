@@ -4,6 +4,11 @@ import { createPortal } from "react-dom";
 import "./chatbot.css";
 import { computePanelPosition, type Anchor, type PanelSize } from "../../utils/chat";
 import type { QuizCourse, QuizQuestion, WrongAnswerEntry } from "./quizData";
+import {
+  getChatPreferences,
+  getSavedChatPanelSize,
+  saveChatPanelSize,
+} from "./chatPreferences";
 import {
   formatScore,
   scoreToPercent,
@@ -283,6 +288,26 @@ function clampPanelPosFullyVisible(pos: { top: number; left: number }, size: Siz
   };
 }
 
+/**
+ * 처음 크기: 너비만 기억한 값(설정)을 쓴다
+ * - 높이는 내용에 맞춰 자동 조정되므로 기본 높이에서 시작
+ */
+function createInitialSize(): Size {
+  const saved = getSavedChatPanelSize("quiz");
+  if (!saved || typeof window === "undefined") return INITIAL_SIZE;
+
+  const maxWidth = Math.max(MIN_WIDTH, window.innerWidth - EDGE_MARGIN * 2);
+  return { width: clamp(saved.width, MIN_WIDTH, maxWidth), height: INITIAL_SIZE.height };
+}
+
+/** 처음 위치: 설정이 "화면 가운데"면 가운데, 아니면 아이콘(anchor) 옆 → 아이콘 기본 자리 */
+function computeInitialPos(anchor: Anchor | null | undefined, size: Size) {
+  if (getChatPreferences().panelPlacement === "center") {
+    return computePanelPosition(null, size);
+  }
+  return anchor ? computePanelPosition(anchor, size) : computeDockFallbackPos(size);
+}
+
 function computeDockFallbackPos(size: Size) {
   if (typeof window === "undefined") return { top: 80, left: 120 };
 
@@ -729,18 +754,16 @@ const QuizPanel: React.FC<QuizPanelProps> = ({
   const userMovedRef = useRef(false);
 
   // === 패널 크기 + 위치 ===
-  const [size, setSize] = useState<Size>(INITIAL_SIZE);
+  const [size, setSize] = useState<Size>(createInitialSize);
   const [panelPos, setPanelPos] = useState(() => {
     if (!hasDOM) return { top: 80, left: 120 };
 
-    const pos = anchor
-      ? computePanelPosition(anchor, INITIAL_SIZE)
-      : computeDockFallbackPos(INITIAL_SIZE);
+    const pos = computeInitialPos(anchor, size);
 
     const minTop = getMinTop(initialTopSafe);
 
     // 초기 렌더에서는 "완전 가시" 우선(아래 잘림 방지)
-    return clampPanelPosFullyVisible(pos, INITIAL_SIZE, minTop);
+    return clampPanelPosFullyVisible(pos, size, minTop);
   });
 
   const sizeRef = useRef<Size>(size);
@@ -755,8 +778,8 @@ const QuizPanel: React.FC<QuizPanelProps> = ({
     dir: null,
     startX: 0,
     startY: 0,
-    startWidth: INITIAL_SIZE.width,
-    startHeight: INITIAL_SIZE.height,
+    startWidth: size.width,
+    startHeight: size.height,
     startTop: panelPos.top,
     startLeft: panelPos.left,
   });
@@ -1372,6 +1395,7 @@ const QuizPanel: React.FC<QuizPanelProps> = ({
       if (resizeRef.current.resizing) {
         resizeRef.current.resizing = false;
         resizeRef.current.dir = null;
+        saveChatPanelSize("quiz", sizeRef.current);
       }
       if (dragRef.current.dragging) {
         dragRef.current.dragging = false;
@@ -0,0 +1,950 @@
+// src/components/chatbot/ReportCenterPanel.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import "./chatbot.css";
+import { computePanelPosition, type Anchor, type PanelSize } from "../../utils/chat";
+import { formatDateTime } from "./creatorStudioUtils";
+import {
+  getReportDetail,
+  listMyReports,
+  listReportInbox,
+  postReportReply,
+  REPORT_STATUS_LABELS,
+  REPORT_STATUSES,
+  resolveReportAttachmentUrl,
+  updateReportStatus,
+  uploadReportAttachment,
+  type ReportAttachment,
+  type ReportDetail,
+  type ReportScope,
+  type ReportStatus,
+  type ReportSummary,
+} from "./reportApi";
+
+type Size = PanelSize;
+type ResizeDirection = "n" | "s" | "e" | "w" | "ne" | "nw" | "se" | "sw";
+
+type ResizeState = {
+  resizing: boolean;
+  dir: ResizeDirection | null;
+  startX: number;
+  startY: number;
+  startWidth: number;
+  startHeight: number;
+  startTop: number;
+  startLeft: number;
+};
+
+type DragState = {
+  dragging: boolean;
+  startX: number;
+  startY: number;
+  startTop: number;
+  startLeft: number;
+};
+
+const MIN_WIDTH = 420;
+const MIN_HEIGHT = 440;
+const INITIAL_SIZE: Size = { width: 540, height: 660 };
+
+// =========================
+// 패널 이동 정책 (EduPanel/QuizPanel과 동일)
+// =========================
+const KEEP_VISIBLE_X = 120;
+const KEEP_VISIBLE_Y = 80;
+const EDGE_MARGIN = 0;
+const DOCK_SAFE_RIGHT = 60;
+const DOCK_SAFE_BOTTOM = 60;
+
+const REPORT_LAYER_Z = 2147483000;
+
+/** 답글 첨부 제한 */
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+type StatusFilter = ReportStatus | "ALL";
+
+type LoadState<T> =
+  | { status: "loading" }
+  | { status: "ready"; data: T }
+  | { status: "error"; message: string };
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function clampPanelPos(pos: { top: number; left: number }, size: Size) {
+  if (typeof window === "undefined") return pos;
+
+  const vw = window.innerWidth;
+  const vh = window.innerHeight;
+
+  const keepX = Math.min(KEEP_VISIBLE_X, Math.max(48, size.width - 48));
+  const keepY = Math.min(KEEP_VISIBLE_Y, Math.max(40, size.height - 40));
+
+  const leftMin = Math.min(-size.width + keepX, vw - keepX);
+  const leftMax = Math.max(-size.width + keepX, vw - keepX);
+  const topMin = Math.min(-size.height + keepY, vh - keepY);
+  const topMax = Math.max(-size.height + keepY, vh - keepY);
+
+  return {
+    left: clamp(pos.left, leftMin, leftMax),
+    top: clamp(pos.top, topMin, topMax),
+  };
+}
+
+// 처음 열릴 때는 화면 안에 완전히 보이도록
+function clampPanelPosFullyVisible(pos: { top: number; left: number }, size: Size) {
+  if (typeof window === "undefined") return pos;
+
+  const leftMax = Math.max(EDGE_MARGIN, window.innerWidth - size.width - EDGE_MARGIN);
+  const topMax = Math.max(EDGE_MARGIN, window.innerHeight - size.height - EDGE_MARGIN);
+
+  return {
+    left: clamp(pos.left, EDGE_MARGIN, leftMax),
+    top: clamp(pos.top, EDGE_MARGIN, topMax),
+  };
+}
+
+function computeDockFallbackPos(size: Size) {
+  if (typeof window === "undefined") return { top: 80, left: 120 };
+
+  const left = window.innerWidth - EDGE_MARGIN - size.width - DOCK_SAFE_RIGHT;
+  const top = window.innerHeight - EDGE_MARGIN - size.height - DOCK_SAFE_BOTTOM;
+
+  return { top, left };
+}
+
+function fitInitialSize(): Size {
+  if (typeof window === "undefined") return INITIAL_SIZE;
+  return {
+    width: Math.min(INITIAL_SIZE.width, Math.max(MIN_WIDTH, window.innerWidth - 32)),
+    height: Math.min(INITIAL_SIZE.height, Math.max(MIN_HEIGHT, window.innerHeight - 32)),
+  };
+}
+
+function safeErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error && err.message.trim()) return `${fallback} (${err.message})`;
+  return fallback;
+}
+
+function formatBytes(n?: number): string {
+  if (typeof n !== "number" || !Number.isFinite(n)) return "";
+  if (n < 1024) return `${n}B`;
+  if (n < 1024 * 1024) return `${Math.round(n / 1024)}KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+const StatusBadge: React.FC<{ status: ReportStatus }> = ({ status }) => (
+  <span className={`cb-report-center-status cb-report-center-status-${status.toLowerCase()}`}>
+    {REPORT_STATUS_LABELS[status]}
+  </span>
+);
+
+interface ReportCenterPanelProps {
+  /** mine: 내 신고 내역(직원), inbox: 신고 처리함(COMPLAINT_MANAGER) */
+  mode: ReportScope;
+  /** 열자마자 보여줄 신고 (신고 접수 말풍선 → "신고 내역 보기") */
+  initialReportId?: string;
+  anchor?: Anchor | null;
+  onClose: () => void;
+  onRequestFocus?: () => void;
+  zIndex?: number;
+}
+
+/**
+ * 신고 추적 패널
+ * - 목록: 처리 상태 배지 + 접수 내용 미리보기 (inbox는 상태 필터)
+ * - 상세: 원문/첨부 + 답변 스레드, 답글 작성(첨부 포함)
+ * - inbox: 상태 변경(접수됨 → 검토 중 → 처리 완료)
+ *
+ * 모드/대상 신고가 바뀌면 상위에서 key를 바꿔 다시 마운트한다(로딩 상태 초기화).
+ */
+const ReportCenterPanel: React.FC<ReportCenterPanelProps> = ({
+  mode,
+  initialReportId,
+  anchor,
+  onClose,
+  onRequestFocus,
+  zIndex,
+}) => {
+  const hasDOM = typeof window !== "undefined" && typeof document !== "undefined";
+  const isInbox = mode === "inbox";
+
+  // === 패널 크기 + 위치 ===
+  const [size, setSize] = useState<Size>(() => fitInitialSize());
+  const [panelPos, setPanelPos] = useState(() => {
+    const initial = fitInitialSize();
+    const pos = anchor
+      ? computePanelPosition(anchor, initial)
+      : computeDockFallbackPos(initial);
+    return clampPanelPosFullyVisible(pos, initial);
+  });
+
+  const sizeRef = useRef<Size>(size);
+  const posRef = useRef(panelPos);
+  useEffect(() => {
+    sizeRef.current = size;
+    posRef.current = panelPos;
+  }, [size, panelPos]);
+
+  const resizeRef = useRef<ResizeState>({
+    resizing: false,
+    dir: null,
+    startX: 0,
+    startY: 0,
+    startWidth: size.width,
+    startHeight: size.height,
+    startTop: panelPos.top,
+    startLeft: panelPos.left,
+  });
+
+  const dragRef = useRef<DragState>({
+    dragging: false,
+    startX: 0,
+    startY: 0,
+    startTop: panelPos.top,
+    startLeft: panelPos.left,
+  });
+
+  const aliveRef = useRef(true);
+  useEffect(() => {
+    aliveRef.current = true;
+    return () => {
+      aliveRef.current = false;
+    };
+  }, []);
+
+  // =========================
+  // 목록
+  // =========================
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("ALL");
+  const [listNonce, setListNonce] = useState(0);
+  const [listState, setListState] = useState<LoadState<ReportSummary[]>>({
+    status: "loading",
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void (async () => {
+      try {
+        const list = isInbox
+          ? await listReportInbox(statusFilter === "ALL" ? undefined : statusFilter)
+          : await listMyReports();
+        if (!cancelled) setListState({ status: "ready", data: list });
+      } catch (e: unknown) {
+        console.warn("[ReportCenterPanel] list failed:", e);
+        if (cancelled) return;
+        setListState({
+          status: "error",
+          message: safeErrorMessage(e, "신고 목록을 불러오지 못했습니다."),
+        });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isInbox, statusFilter, listNonce]);
+
+  const reloadList = () => {
+    setListState({ status: "loading" });
+    setListNonce((n) => n + 1);
+  };
+
+  const handleChangeFilter = (next: StatusFilter) => {
+    if (next === statusFilter) return;
+    setStatusFilter(next);
+    setListState({ status: "loading" });
+  };
+
+  // 목록 항목 상태/답글 수를 상세 결과와 맞춘다(다시 불러오지 않고)
+  const patchListItem = (id: string, patch: Partial<ReportSummary>) => {
+    setListState((prev) =>
+      prev.status === "ready"
+        ? {
+            ...prev,
+            data: prev.data.map((r) => (r.id === id ? { ...r, ...patch } : r)),
+          }
+        : prev
+    );
+  };
+
+  // =========================
+  // 상세
+  // =========================
+  const [selectedId, setSelectedId] = useState<string | null>(initialReportId ?? null);
+  const [detailNonce, setDetailNonce] = useState(0);
+  const [detailState, setDetailState] = useState<LoadState<ReportDetail>>({
+    status: "loading",
+  });
+
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+
+    void (async () => {
+      try {
+        const detail = await getReportDetail(mode, selectedId);
+        if (!cancelled) setDetailState({ status: "ready", data: detail });
+      } catch (e: unknown) {
+        console.warn("[ReportCenterPanel] detail failed:", e);
+        if (cancelled) return;
+        setDetailState({
+          status: "error",
+          message: safeErrorMessage(e, "신고 내용을 불러오지 못했습니다."),
+        });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, selectedId, detailNonce]);
+
+  const [draft, setDraft] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState<{ done: number; total: number } | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [statusUpdating, setStatusUpdating] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const threadEndRef = useRef<HTMLDivElement | null>(null);
+
+  const replyCount = detailState.status === "ready" ? detailState.data.replies.length : 0;
+
+  // 새 답글이 붙으면 스레드 끝으로
+  useEffect(() => {
+    if (replyCount === 0) return;
+    threadEndRef.current?.scrollIntoView({ block: "end" });
+  }, [replyCount]);
+
+  const openReport = (id: string) => {
+    setSelectedId(id);
+    setDetailState({ status: "loading" });
+    setDraft("");
+    setFiles([]);
+    setActionError(null);
+  };
+
+  const backToList = () => {
+    setSelectedId(null);
+    setActionError(null);
+  };
+
+  const handleChangeStatus = (next: ReportStatus) => {
+    if (!selectedId || statusUpdating) return;
+    if (detailState.status !== "ready" || detailState.data.status === next) return;
+
+    const id = selectedId;
+    setStatusUpdating(true);
+    setActionError(null);
+
+    void (async () => {
+      try {
+        await updateReportStatus(id, next);
+        if (!aliveRef.current) return;
+        setDetailState((prev) =>
+          prev.status === "ready" && prev.data.id === id
+            ? { ...prev, data: { ...prev.data, status: next } }
+            : prev
+        );
+        // 필터가 걸린 처리함이면 목록에서 빠질 수 있으므로 필터 기준으로 반영
+        if (statusFilter !== "ALL" && statusFilter !== next) {
+          setListState((prev) =>
+            prev.status === "ready"
+              ? { ...prev, data: prev.data.filter((r) => r.id !== id) }
+              : prev
+          );
+        } else {
+          patchListItem(id, { status: next });
+        }
+      } catch (e: unknown) {
+        console.warn("[ReportCenterPanel] status update failed:", e);
+        if (aliveRef.current) {
+          setActionError(safeErrorMessage(e, "처리 상태를 바꾸지 못했습니다."));
+        }
+      } finally {
+        if (aliveRef.current) setStatusUpdating(false);
+      }
+    })();
+  };
+
+  const handlePickFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (picked.length === 0) return;
+
+    const tooLarge = picked.find((f) => f.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge) {
+      setActionError(
+        `첨부 파일은 ${formatBytes(MAX_ATTACHMENT_BYTES)} 이하만 올릴 수 있습니다. (${tooLarge.name})`
+      );
+      return;
+    }
+
+    setActionError(null);
+    setFiles((prev) => [...prev, ...picked].slice(0, MAX_ATTACHMENTS));
+  };
+
+  const handleRemoveFile = (index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmitReply = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!selectedId || sending) return;
+
+    const content = draft.trim();
+    if (!content && files.length === 0) return;
+
+    const id = selectedId;
+    const toUpload = files;
+    setSending({ done: 0, total: toUpload.length });
+    setActionError(null);
+
+    void (async () => {
+      try {
+        const attachments: ReportAttachment[] = [];
+        for (const file of toUpload) {
+          attachments.push(await uploadReportAttachment(file));
+          if (aliveRef.current) {
+            setSending({ done: attachments.length, total: toUpload.length });
+          }
+        }
+
+        const reply = await postReportReply(mode, id, { content, attachments });
+        if (!aliveRef.current) return;
+
+        setDraft("");
+        setFiles([]);
+
+        if (reply) {
+          setDetailState((prev) =>
+            prev.status === "ready" && prev.data.id === id
+              ? {
+                  ...prev,
+                  data: {
+                    ...prev.data,
+                    replies: [...prev.data.replies, reply],
+                    replyCount: prev.data.replyCount + 1,
+                  },
+                }
+              : prev
+          );
+        } else {
+          setDetailNonce((n) => n + 1);
+        }
+
+        // 담당자가 접수 상태에서 답변하면 자동으로 "검토 중"
+        if (
+          isInbox &&
+          detailState.status === "ready" &&
+          detailState.data.status === "RECEIVED"
+        ) {
+          handleChangeStatus("IN_REVIEW");
+        }
+        patchListItem(id, {
+          replyCount:
+            (detailState.status === "ready" ? detailState.data.replies.length : 0) + 1,
+        });
+      } catch (e: unknown) {
+        console.warn("[ReportCenterPanel] reply failed:", e);
+        if (aliveRef.current) {
+          setActionError(safeErrorMessage(e, "답글을 보내지 못했습니다."));
+        }
+      } finally {
+        if (aliveRef.current) setSending(null);
+      }
+    })();
+  };
+
+  const handleOpenAttachment = (att: ReportAttachment) => {
+    const win = window.open("", "_blank");
+
+    void (async () => {
+      try {
+        const url = await resolveReportAttachmentUrl(att);
+        if (win && !win.closed) {
+          win.opener = null;
+          win.location.href = url;
+        } else {
+          window.open(url, "_blank", "noopener");
+        }
+      } catch (e: unknown) {
+        console.warn("[ReportCenterPanel] open attachment failed:", e);
+        win?.close();
+        if (aliveRef.current) setActionError("첨부 파일을 열 수 없습니다.");
+      }
+    })();
+  };
+
+  // =========================
+  // 드래그 / 리사이즈
+  // =========================
+  useEffect(() => {
+    if (!hasDOM) return;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const resizeState = resizeRef.current;
+      const dragState = dragRef.current;
+
+      if (resizeState.resizing && resizeState.dir) {
+        const dx = event.clientX - resizeState.startX;
+        const dy = event.clientY - resizeState.startY;
+
+        let newWidth = resizeState.startWidth;
+        let newHeight = resizeState.startHeight;
+        let newTop = resizeState.startTop;
+        let newLeft = resizeState.startLeft;
+
+        const maxWidth = Math.max(MIN_WIDTH, window.innerWidth - EDGE_MARGIN * 2);
+        const maxHeight = Math.max(MIN_HEIGHT, window.innerHeight - EDGE_MARGIN * 2);
+
+        if (resizeState.dir.includes("e")) newWidth = resizeState.startWidth + dx;
+        if (resizeState.dir.includes("s")) newHeight = resizeState.startHeight + dy;
+        if (resizeState.dir.includes("w")) {
+          newWidth = resizeState.startWidth - dx;
+          newLeft = resizeState.startLeft + dx;
+        }
+        if (resizeState.dir.includes("n")) {
+          newHeight = resizeState.startHeight - dy;
+          newTop = resizeState.startTop + dy;
+        }
+
+        const clampedWidth = clamp(newWidth, MIN_WIDTH, maxWidth);
+        const clampedHeight = clamp(newHeight, MIN_HEIGHT, maxHeight);
+
+        if (resizeState.dir.includes("w") && clampedWidth !== newWidth) {
+          newLeft = resizeState.startLeft + (resizeState.startWidth - clampedWidth);
+        }
+        if (resizeState.dir.includes("n") && clampedHeight !== newHeight) {
+          newTop = resizeState.startTop + (resizeState.startHeight - clampedHeight);
+        }
+
+        const nextSize = { width: clampedWidth, height: clampedHeight };
+        setSize(nextSize);
+        setPanelPos(clampPanelPos({ top: newTop, left: newLeft }, nextSize));
+        return;
+      }
+
+      if (dragState.dragging) {
+        const dx = event.clientX - dragState.startX;
+        const dy = event.clientY - dragState.startY;
+        setPanelPos(
+          clampPanelPos(
+            { top: dragState.startTop + dy, left: dragState.startLeft + dx },
+            sizeRef.current
+          )
+        );
+      }
+    };
+
+    const handleMouseUp = () => {
+      resizeRef.current.resizing = false;
+      resizeRef.current.dir = null;
+      dragRef.current.dragging = false;
+    };
+
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [hasDOM]);
+
+  const handleResizeMouseDown =
+    (dir: ResizeDirection) => (event: React.MouseEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      const currentPos = posRef.current;
+      const currentSize = sizeRef.current;
+
+      resizeRef.current = {
+        resizing: true,
+        dir,
+        startX: event.clientX,
+        startY: event.clientY,
+        startWidth: currentSize.width,
+        startHeight: currentSize.height,
+        startTop: currentPos.top,
+        startLeft: currentPos.left,
+      };
+      dragRef.current.dragging = false;
+      onRequestFocus?.();
+    };
+
+  const handleDragMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    event.preventDefault();
+
+    const currentPos = posRef.current;
+    dragRef.current = {
+      dragging: true,
+      startX: event.clientX,
+      startY: event.clientY,
+      startTop: currentPos.top,
+      startLeft: currentPos.left,
+    };
+    resizeRef.current.resizing = false;
+    resizeRef.current.dir = null;
+    onRequestFocus?.();
+  };
+
+  // =========================
+  // 렌더링
+  // =========================
+  const renderAttachments = (list: ReportAttachment[]) => {
+    if (list.length === 0) return null;
+    return (
+      <ul className="cb-report-center-attachments">
+        {list.map((att, i) => (
+          <li key={`${att.fileUrl}-${i}`}>
+            <button
+              type="button"
+              className="cb-report-center-attachment"
+              onClick={() => handleOpenAttachment(att)}
+              title={att.fileName}
+            >
+              📎 {att.fileName}
+              {att.size !== undefined && (
+                <span className="cb-report-center-attachment-size">{formatBytes(att.size)}</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderList = () => {
+    if (listState.status === "loading") {
+      return <div className="cb-report-center-empty">신고 목록을 불러오는 중입니다…</div>;
+    }
+    if (listState.status === "error") {
+      return (
+        <div className="cb-report-center-empty">
+          {listState.message}
+          <button type="button" className="cb-srcdoc-link-btn" onClick={reloadList}>
+            다시 시도
+          </button>
+        </div>
+      );
+    }
+    if (listState.data.length === 0) {
+      return (
+        <div className="cb-report-center-empty">
+          {isInbox ? "해당 상태의 신고가 없습니다." : "접수한 신고가 없습니다."}
+        </div>
+      );
+    }
+
+    return (
+      <ul className="cb-report-center-list">
+        {listState.data.map((r) => (
+          <li key={r.id}>
+            <button type="button" className="cb-report-center-item" onClick={() => openReport(r.id)}>
+              <div className="cb-report-center-item-head">
+                <StatusBadge status={r.status} />
+                {isInbox && r.reporterName && (
+                  <span className="cb-report-center-item-reporter">{r.reporterName}</span>
+                )}
+                <span className="cb-report-center-item-date">{formatDateTime(r.createdAt)}</span>
+              </div>
+              <div className="cb-report-center-item-content">{r.content || "(내용 없음)"}</div>
+              {r.replyCount > 0 && (
+                <div className="cb-report-center-item-meta">답글 {r.replyCount}개</div>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderDetail = () => {
+    if (detailState.status === "loading") {
+      return <div className="cb-report-center-empty">신고 내용을 불러오는 중입니다…</div>;
+    }
+    if (detailState.status === "error") {
+      return (
+        <div className="cb-report-center-empty">
+          {detailState.message}
+          <button
+            type="button"
+            className="cb-srcdoc-link-btn"
+            onClick={() => {
+              setDetailState({ status: "loading" });
+              setDetailNonce((n) => n + 1);
+            }}
+          >
+            다시 시도
+          </button>
+        </div>
+      );
+    }
+
+    const report = detailState.data;
+    return (
+      <>
+        <section className="cb-report-center-origin">
+          <div className="cb-report-center-item-head">
+            <StatusBadge status={report.status} />
+            {isInbox && report.reporterName && (
+              <span className="cb-report-center-item-reporter">{report.reporterName}</span>
+            )}
+            <span className="cb-report-center-item-date">{formatDateTime(report.createdAt)}</span>
+          </div>
+          <div className="cb-report-center-origin-content">{report.content}</div>
+          {renderAttachments(report.attachments)}
+        </section>
+
+        {isInbox && (
+          <div className="cb-report-center-status-actions" role="group" aria-label="처리 상태 변경">
+            {REPORT_STATUSES.map((s) => (
+              <button
+                key={s}
+                type="button"
+                className={
+                  "cb-srcdoc-tab" + (report.status === s ? " cb-srcdoc-tab-active" : "")
+                }
+                aria-pressed={report.status === s}
+                disabled={statusUpdating}
+                onClick={() => handleChangeStatus(s)}
+              >
+                {REPORT_STATUS_LABELS[s]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="cb-report-center-thread">
+          {report.replies.length === 0 ? (
+            <div className="cb-report-center-empty">
+              {isInbox ? "아직 답변하지 않았습니다." : "담당자가 확인 중입니다. 답변이 오면 여기에 표시됩니다."}
+            </div>
+          ) : (
+            report.replies.map((reply) => (
+              <div
+                key={reply.id}
+                className={
+                  "cb-report-center-reply" +
+                  (reply.authorRole === "MANAGER" ? " cb-report-center-reply-manager" : "")
+                }
+              >
+                <div className="cb-report-center-reply-head">
+                  <span className="cb-report-center-reply-author">
+                    {reply.authorRole === "MANAGER"
+                      ? reply.authorName ?? "신고 담당자"
+                      : reply.authorName ?? "신고자"}
+                  </span>
+                  <span className="cb-report-center-item-date">{formatDateTime(reply.createdAt)}</span>
+                </div>
+                {reply.content && <div className="cb-report-center-reply-content">{reply.content}</div>}
+                {renderAttachments(reply.attachments)}
+              </div>
+            ))
+          )}
+          <div ref={threadEndRef} />
+        </div>
+      </>
+    );
+  };
+
+  const renderReplyForm = () => {
+    if (!selectedId || detailState.status !== "ready") return null;
+    const disabled = !!sending;
+
+    return (
+      <form className="cb-report-center-reply-form" onSubmit={handleSubmitReply}>
+        {files.length > 0 && (
+          <ul className="cb-report-center-files">
+            {files.map((f, i) => (
+              <li key={`${f.name}-${i}`} className="cb-report-center-file">
+                <span className="cb-report-center-file-name">{f.name}</span>
+                <span className="cb-report-center-attachment-size">{formatBytes(f.size)}</span>
+                <button
+                  type="button"
+                  className="cb-report-center-file-remove"
+                  onClick={() => handleRemoveFile(i)}
+                  disabled={disabled}
+                  aria-label={`${f.name} 첨부 취소`}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <textarea
+          className="cb-report-center-reply-input"
+          value={draft}
+          rows={3}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={isInbox ? "신고자에게 보낼 답변을 입력하세요." : "추가로 전달할 내용을 입력하세요."}
+          aria-label={isInbox ? "답변 입력" : "추가 내용 입력"}
+          disabled={disabled}
+        />
+
+        <div className="cb-report-center-reply-actions">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            hidden
+            onChange={handlePickFiles}
+          />
+          <button
+            type="button"
+            className="cb-report-center-attach-btn"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled || files.length >= MAX_ATTACHMENTS}
+          >
+            파일 첨부
+          </button>
+          {sending && sending.total > 0 && (
+            <span className="cb-report-center-upload-progress">
+              첨부 업로드 중 ({sending.done}/{sending.total})
+            </span>
+          )}
+          <button
+            type="submit"
+            className="cb-srcdoc-followup-btn"
+            disabled={disabled || (!draft.trim() && files.length === 0)}
+          >
+            {isInbox ? "답변 보내기" : "보내기"}
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  if (!hasDOM) return null;
+
+  const title = isInbox ? "신고 처리함" : "내 신고 내역";
+
+  return createPortal(
+    <div
+      className="cb-edu-wrapper"
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: zIndex ?? REPORT_LAYER_Z,
+        pointerEvents: "none",
+      }}
+    >
+      <div
+        className="cb-srcdoc-panel-container"
+        style={{
+          position: "fixed",
+          top: panelPos.top,
+          left: panelPos.left,
+          pointerEvents: "auto",
+        }}
+      >
+        <div
+          className="cb-srcdoc-panel cb-chatbot-panel"
+          style={{ width: size.width, height: size.height }}
+          onMouseDown={() => onRequestFocus?.()}
+        >
+          <div className="cb-drag-bar" onMouseDown={handleDragMouseDown} />
+
+          <div
+            className="cb-resize-handle cb-resize-handle-corner cb-resize-handle-nw"
+            onMouseDown={handleResizeMouseDown("nw")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-corner cb-resize-handle-ne"
+            onMouseDown={handleResizeMouseDown("ne")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-corner cb-resize-handle-sw"
+            onMouseDown={handleResizeMouseDown("sw")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-corner cb-resize-handle-se"
+            onMouseDown={handleResizeMouseDown("se")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-edge cb-resize-handle-n"
+            onMouseDown={handleResizeMouseDown("n")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-edge cb-resize-handle-s"
+            onMouseDown={handleResizeMouseDown("s")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-edge cb-resize-handle-w"
+            onMouseDown={handleResizeMouseDown("w")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-edge cb-resize-handle-e"
+            onMouseDown={handleResizeMouseDown("e")}
+          />
+
+          <button
+            type="button"
+            className="cb-panel-close-btn"
+            onClick={onClose}
+            aria-label={`${title} 닫기`}
+          >
+            ✕
+          </button>
+
+          <div className="cb-srcdoc-inner">
+            <header className="cb-srcdoc-header">
+              <div className="cb-srcdoc-title">{title}</div>
+
+              <div className="cb-srcdoc-tabs">
+                {selectedId ? (
+                  <button type="button" className="cb-srcdoc-tab" onClick={backToList}>
+                    ← 목록
+                  </button>
+                ) : (
+                  <>
+                    {isInbox &&
+                      (["ALL", ...REPORT_STATUSES] as StatusFilter[]).map((f) => (
+                        <button
+                          key={f}
+                          type="button"
+                          className={
+                            "cb-srcdoc-tab" +
+                            (statusFilter === f ? " cb-srcdoc-tab-active" : "")
+                          }
+                          aria-pressed={statusFilter === f}
+                          onClick={() => handleChangeFilter(f)}
+                        >
+                          {f === "ALL" ? "전체" : REPORT_STATUS_LABELS[f]}
+                        </button>
+                      ))}
+                    <button
+                      type="button"
+                      className="cb-srcdoc-external cb-report-center-refresh"
+                      onClick={reloadList}
+                    >
+                      새로고침
+                    </button>
+                  </>
+                )}
+              </div>
+            </header>
+
+            <div className="cb-srcdoc-body">
+              {selectedId ? renderDetail() : renderList()}
+            </div>
+
+            {actionError && <div className="cb-report-center-error">{actionError}</div>}
+
+            {renderReplyForm()}
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ReportCenterPanel;
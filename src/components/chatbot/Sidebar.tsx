@@ -4,8 +4,52 @@ import chatLogo from "../../assets/chatlogo.png";
 import newChatIcon from "../../assets/newchat.png";
 import searchChatIcon from "../../assets/searchchat.png";
 import keycloak from "../../keycloak";
-import type { SidebarSessionSummary, ChatDomain, ChatRole } from "../../types/chat";
-import { fromChatServiceDomain, normalizeServiceDomain } from "../../types/chat";
+import type {
+  SidebarSessionSummary,
+  ChatAttachment,
+  ChatDomain,
+  ChatRole,
+  ChatSession,
+  ChatSessionOrganization,
+} from "../../types/chat";
+import {
+  DOMAIN_META,
+  chatDomainLabel,
+  fromChatServiceDomain,
+  normalizeServiceDomain,
+} from "../../types/chat";
+import {
+  CHAT_SEARCH_DATE_RANGE_OPTIONS,
+  DEFAULT_CHAT_SEARCH_FILTERS,
+  type ChatSearchDateRange,
+  type ChatSearchFilters,
+  type ChatSearchHit,
+  type ChatSearchTarget,
+} from "./chatHistorySearch";
+import { useChatHistorySearch } from "./useChatHistorySearch";
+import { CHAT_EXPORT_ACTION_OPTIONS, type ChatExportAction } from "./chatExport";
+import { parseChatAttachments } from "./chatAttachments";
+import {
+  acceptTitleStamp,
+  createTitleStamp,
+  postChatTabSync,
+  subscribeChatTabSync,
+} from "./chatTabSync";
+import {
+  createSessionFolder,
+  deleteSessionFolder,
+  getSessionOrganization,
+  mergeServerSessionOrganization,
+  normalizeFolderName,
+  readServerSessionOrganization,
+  rekeySessionOrganization,
+  renameSessionFolder,
+  resolveSessionOrganization,
+  updateSessionOrganization,
+  useChatSessionOrganization,
+  type ChatSessionOrgPatch,
+  type ServerSessionOrganization,
+} from "./chatSessionOrganizer";
 
 interface SidebarProps {
   collapsed: boolean;
@@ -25,6 +69,26 @@ interface SidebarProps {
   onRenameSession: (sessionId: string, newTitle: string) => void;
   onDeleteSession: (sessionId: string) => void;
 
+  // ==========================
+  // 메시지 전문 검색(옵션)
+  // ==========================
+
+  /** 메시지 본문까지 검색할 로컬 세션(메시지 포함) */
+  searchableSessions?: ChatSession[];
+
+  /** 메시지 검색 결과 클릭 → 상위가 세션 선택 + 해당 메시지로 이동 */
+  onOpenSearchResult?: (target: ChatSearchTarget) => void;
+
+  // ==========================
+  // 내보내기 / 가져오기(옵션)
+  // ==========================
+
+  /** 세션 내보내기 (서버 전용 세션이면 serverSessionId 전달 → 상위에서 히스토리 조회) */
+  onExportSession?: (sessionId: string, action: ChatExportAction) => void;
+
+  /** JSON 내보내기 파일 가져오기 */
+  onImportSession?: (file: File) => void;
+
   // ==========================
   // 서버 동기화 확장(옵션)
   // ==========================
@@ -66,6 +130,7 @@ interface SidebarProps {
       content: string;
       createdAt: number;
       serverMessageId?: string;
+      attachments?: ChatAttachment[];
     }>;
     raw?: unknown;
   }) => void;
@@ -256,6 +321,7 @@ function normalizeServerMessage(v: unknown): {
   content: string;
   createdAt: number;
   serverMessageId?: string;
+  attachments?: ChatAttachment[];
 } | null {
   if (!isRecord(v)) return null;
 
@@ -276,7 +342,15 @@ function normalizeServerMessage(v: unknown): {
     nonEmptyString(v["uuid"]) ??
     undefined;
 
-  return { role, content, createdAt, serverMessageId };
+  const attachments = parseChatAttachments(v["attachments"]);
+
+  return {
+    role,
+    content,
+    createdAt,
+    serverMessageId,
+    ...(attachments ? { attachments } : {}),
+  };
 }
 
 type ServerSessionMeta = {
@@ -287,6 +361,8 @@ type ServerSessionMeta = {
   updatedAt: number;
   userUuid?: string;
   lastMessage?: string;
+  /** 서버가 고정/즐겨찾기/폴더 값을 내려줄 때만 */
+  organization?: ServerSessionOrganization;
 };
 
 function normalizeServerSession(v: unknown): ServerSessionMeta | null {
@@ -319,6 +395,8 @@ function normalizeServerSession(v: unknown): ServerSessionMeta | null {
     nonEmptyString(v["last_message"]) ??
     undefined;
 
+  const organization = readServerSessionOrganization(v) ?? undefined;
+
   return {
     serverSessionId: id,
     title,
@@ -327,6 +405,7 @@ function normalizeServerSession(v: unknown): ServerSessionMeta | null {
     updatedAt,
     userUuid,
     lastMessage,
+    organization,
   };
 }
 
@@ -365,6 +444,20 @@ type SidebarRow = SidebarSessionSummary & {
   isServerOnly?: boolean;
 };
 
+/** 리스트 묶음 (드래그 앤 드롭 대상) */
+type SidebarGroupId = "pinned" | "none" | `folder:${string}`;
+
+function folderGroupId(name: string): SidebarGroupId {
+  return `folder:${name}`;
+}
+
+/** 묶음으로 옮길 때 적용할 값 (고정 묶음에서 폴더로 옮기면 고정 해제) */
+function patchForGroup(group: SidebarGroupId): ChatSessionOrgPatch {
+  if (group === "pinned") return { pinned: true };
+  if (group === "none") return { pinned: false, folder: null };
+  return { pinned: false, folder: group.slice("folder:".length) };
+}
+
 const DEFAULT_SESSIONS_ENDPOINT = "/api/chat/sessions";
 const DEFAULT_UPDATE_ENDPOINT = (id: string) => `/api/chat/sessions/${id}`;
 
@@ -393,9 +486,20 @@ function pruneTombstones(map: TombstoneMap, now: number): TombstoneMap {
  * (FIX) PATCH 제거 → PUT 단일화
  * - 백엔드가 PATCH 미지원이면 rename 시 500/405 로그가 1번 찍히고 PUT으로 재시도하는 “노이즈”가 발생
  * - 여기서 PUT만 사용하면 로그/네트워크가 깔끔해짐
+ * - PUT이므로 고정/즐겨찾기/폴더 값도 항상 함께 보낸다(제목만 바꿀 때 지워지지 않도록)
  */
-async function updateServerSessionTitle(title: string, token: string, endpoint: string): Promise<void> {
-  const payload = JSON.stringify({ title });
+async function updateServerSessionMeta(
+  title: string,
+  organization: ChatSessionOrganization | null,
+  token: string,
+  endpoint: string
+): Promise<void> {
+  const payload = JSON.stringify({
+    title,
+    pinned: !!organization?.pinned,
+    favorite: !!organization?.favorite,
+    folder: organization?.folder ?? null,
+  });
 
   const res = await fetchWithTimeout(
     endpoint,
@@ -417,6 +521,23 @@ async function updateServerSessionTitle(title: string, token: string, endpoint:
   throw new Error(`PUT ${endpoint} failed: ${res.status} ${text}`);
 }
 
+const EMPTY_SESSIONS: ChatSession[] = [];
+
+const SEARCH_DOMAIN_OPTIONS = Object.keys(DOMAIN_META) as ChatDomain[];
+
+/** 검색 스니펫: match 구간만 <mark>로 하이라이트 */
+function renderSnippet(hit: ChatSearchHit) {
+  return hit.snippet.map((part, idx) =>
+    part.match ? (
+      <mark key={idx} className="cb-sidebar-search-mark">
+        {part.text}
+      </mark>
+    ) : (
+      <React.Fragment key={idx}>{part.text}</React.Fragment>
+    )
+  );
+}
+
 const Sidebar: React.FC<SidebarProps> = (props) => {
   const {
     collapsed,
@@ -429,6 +550,10 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
     onSelectSession,
     onRenameSession,
     onDeleteSession,
+    searchableSessions,
+    onOpenSearchResult,
+    onExportSession,
+    onImportSession,
     getServerSessionIdForLocalSession,
     onSelectServerSession,
     serverSessionMessagesEndpoint: serverSessionMessagesEndpointProp,
@@ -447,6 +572,19 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
 
   const [serverMetas, setServerMetas] = useState<ServerSessionMeta[]>([]);
 
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [searchFilters, setSearchFilters] = useState<ChatSearchFilters>(
+    DEFAULT_CHAT_SEARCH_FILTERS
+  );
+
+  const messageSearch = useChatHistorySearch({
+    sessions: searchableSessions ?? EMPTY_SESSIONS,
+    query: searchTerm,
+    filters: searchFilters,
+    enabled: !collapsed && !!onOpenSearchResult,
+  });
+
   const [tombstones, setTombstones] = useState<TombstoneMap>({});
   const tombstonesRef = useRef<TombstoneMap>({});
   useEffect(() => {
@@ -472,6 +610,39 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
     });
   }, []);
 
+  // 다른 탭의 삭제/이름 변경을 서버 목록에도 바로 반영 (다음 동기화까지 기다리지 않음)
+  const tabSyncUserUuid = getUserUuidFromKeycloak();
+
+  // 상단 고정 / 즐겨찾기 / 폴더
+  const organization = useChatSessionOrganization(tabSyncUserUuid);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(() => new Set());
+  const [folderEdit, setFolderEdit] = useState<
+    { mode: "create" } | { mode: "rename"; name: string } | null
+  >(null);
+  const [folderDraft, setFolderDraft] = useState("");
+  const [dropTarget, setDropTarget] = useState<SidebarGroupId | null>(null);
+  const draggingRowIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    return subscribeChatTabSync(tabSyncUserUuid, (msg) => {
+      if (msg.type === "delete") {
+        const serverId = msg.serverSessionId;
+        if (!serverId || !isUuidLike(serverId)) return;
+        markTombstone(serverId);
+        setServerMetas((prev) => prev.filter((m) => m.serverSessionId !== serverId));
+        return;
+      }
+
+      if (msg.type === "rename") {
+        const serverId = msg.serverSessionId;
+        if (!serverId || !acceptTitleStamp([msg.sessionId, serverId], msg.stamp)) return;
+        setServerMetas((prev) =>
+          prev.map((m) => (m.serverSessionId === serverId ? { ...m, title: msg.title } : m))
+        );
+      }
+    });
+  }, [tabSyncUserUuid, markTombstone]);
+
   const syncServerSessions = useCallback(async () => {
     if (!enableServerSync) return;
     if (syncingRef.current) return;
@@ -507,6 +678,20 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
       if (mySeq !== syncSeqRef.current) return;
 
       setServerMetas(metas);
+      mergeServerSessionOrganization(
+        myUserUuid,
+        metas.flatMap((m) =>
+          m.organization
+            ? [
+                {
+                  serverSessionId: m.serverSessionId,
+                  organization: m.organization,
+                  updatedAt: m.updatedAt,
+                },
+              ]
+            : []
+        )
+      );
     } catch (e) {
       console.warn("[Sidebar] server sync failed:", e);
     } finally {
@@ -560,6 +745,7 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
           content: string;
           createdAt: number;
           serverMessageId?: string;
+          attachments?: ChatAttachment[];
         }> = [];
 
         for (const it of arr) {
@@ -697,6 +883,168 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
       });
   }, [mergedRows, searchTerm]);
 
+  // ====== 상단 고정 / 즐겨찾기 / 폴더 ======
+
+  /** row → 서버 세션 UUID (아직 서버에 없으면 null) */
+  const getRowServerId = useCallback(
+    (row: SidebarRow): string | null => {
+      if (row.source === "server") return row.serverSessionId ?? row.id;
+      const mapped = getServerSessionIdForLocalSession?.(row.id);
+      if (mapped && isUuidLike(mapped)) return mapped;
+      return isUuidLike(row.id) ? row.id : null;
+    },
+    [getServerSessionIdForLocalSession]
+  );
+
+  const getRowOrganization = useCallback(
+    (row: SidebarRow) => resolveSessionOrganization(organization, [getRowServerId(row), row.id]),
+    [organization, getRowServerId]
+  );
+
+  /** 서버 세션 메타에도 저장 (서버에 아직 없는 세션은 로컬에만 두고 바인딩 후 키를 옮긴다) */
+  const pushOrganizationToServer = useCallback(
+    (serverId: string, title: string, org: ChatSessionOrganization | null) => {
+      if (!enableServerSync) return;
+      void (async () => {
+        const token = await waitForAuthToken({ timeoutMs: 6_000, pollMs: 200 });
+        if (!token) return;
+
+        try {
+          await updateServerSessionMeta(title, org, token, serverSessionUpdateEndpoint(serverId));
+          scheduleResync([600, 2200]);
+        } catch (e) {
+          console.warn("[Sidebar] update session organization failed:", e);
+          scheduleResync([900, 2600]);
+        }
+      })();
+    },
+    [enableServerSync, serverSessionUpdateEndpoint, scheduleResync]
+  );
+
+  const changeRowOrganization = useCallback(
+    (row: SidebarRow, patch: ChatSessionOrgPatch) => {
+      const serverId = getRowServerId(row);
+      if (serverId) rekeySessionOrganization(tabSyncUserUuid, row.id, serverId);
+
+      const next = updateSessionOrganization(tabSyncUserUuid, serverId ?? row.id, patch);
+      if (serverId) pushOrganizationToServer(serverId, row.title, next);
+    },
+    [getRowServerId, tabSyncUserUuid, pushOrganizationToServer]
+  );
+
+  /** 폴더 이름 변경/삭제로 바뀐 세션들의 서버 메타 갱신 */
+  const pushOrganizationForKeys = useCallback(
+    (keys: string[]) => {
+      const latest = getSessionOrganization(tabSyncUserUuid);
+      for (const key of keys) {
+        if (!isUuidLike(key)) continue;
+        const row = mergedRows.find((r) => getRowServerId(r) === key);
+        if (row) pushOrganizationToServer(key, row.title, latest.entries[key] ?? null);
+      }
+    },
+    [tabSyncUserUuid, mergedRows, getRowServerId, pushOrganizationToServer]
+  );
+
+  const groupedSessions = useMemo(() => {
+    const rows = favoritesOnly
+      ? filteredSessions.filter((r) => getRowOrganization(r)?.favorite)
+      : filteredSessions;
+
+    const pinned: SidebarRow[] = [];
+    const byFolder = new Map<string, SidebarRow[]>(organization.folders.map((f) => [f, []]));
+    const rest: SidebarRow[] = [];
+
+    for (const row of rows) {
+      const org = getRowOrganization(row);
+      if (org?.pinned) {
+        pinned.push(row);
+      } else if (org?.folder) {
+        const list = byFolder.get(org.folder) ?? [];
+        list.push(row);
+        byFolder.set(org.folder, list);
+      } else {
+        rest.push(row);
+      }
+    }
+
+    // 검색/즐겨찾기 필터 중에는 빈 폴더를 숨긴다
+    const isFiltering = favoritesOnly || !!searchTerm.trim();
+    const folders = [...byFolder.entries()].filter(([, list]) => !isFiltering || list.length > 0);
+
+    return { pinned, folders, rest, total: rows.length };
+  }, [favoritesOnly, filteredSessions, getRowOrganization, organization.folders, searchTerm]);
+
+  const toggleFolderCollapsed = (name: string) => {
+    setCollapsedFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const startFolderEdit = (edit: { mode: "create" } | { mode: "rename"; name: string }) => {
+    setFolderEdit(edit);
+    setFolderDraft(edit.mode === "rename" ? edit.name : "");
+    setOpenMenuId(null);
+  };
+
+  const commitFolderEdit = () => {
+    const edit = folderEdit;
+    const draft = folderDraft;
+    setFolderEdit(null);
+    setFolderDraft("");
+    if (!edit) return;
+
+    if (edit.mode === "create") {
+      createSessionFolder(tabSyncUserUuid, draft);
+      return;
+    }
+
+    const moved = renameSessionFolder(tabSyncUserUuid, edit.name, draft);
+    setCollapsedFolders((prev) => {
+      if (!prev.has(edit.name)) return prev;
+      const next = new Set(prev);
+      next.delete(edit.name);
+      next.add(normalizeFolderName(draft));
+      return next;
+    });
+    pushOrganizationForKeys(moved);
+  };
+
+  const handleFolderEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+    if (e.key === "Enter") {
+      commitFolderEdit();
+    } else if (e.key === "Escape") {
+      setFolderEdit(null);
+      setFolderDraft("");
+    }
+  };
+
+  // 폴더만 지우고 안의 대화는 "폴더 없음"으로 옮긴다
+  const handleDeleteFolder = (name: string) => {
+    pushOrganizationForKeys(deleteSessionFolder(tabSyncUserUuid, name));
+  };
+
+  const getDropHandlers = (group: SidebarGroupId) => ({
+    onDragOver: (e: React.DragEvent<HTMLLIElement>) => {
+      if (!draggingRowIdRef.current) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      if (dropTarget !== group) setDropTarget(group);
+    },
+    onDrop: (e: React.DragEvent<HTMLLIElement>) => {
+      e.preventDefault();
+      const rowId = draggingRowIdRef.current;
+      draggingRowIdRef.current = null;
+      setDropTarget(null);
+
+      const row = rowId ? mergedRows.find((r) => r.id === rowId) : null;
+      if (row) changeRowOrganization(row, patchForGroup(group));
+    },
+  });
+
   const handleMoreClick = (e: React.MouseEvent<HTMLButtonElement>, sessionId: string) => {
     e.stopPropagation();
     setOpenMenuId((prev) => (prev === sessionId ? null : sessionId));
@@ -736,6 +1084,17 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
             : m
         )
       );
+
+      // 서버 전용 세션은 상위를 거치지 않으므로 여기서 다른 탭에 알림
+      const stamp = createTitleStamp();
+      acceptTitleStamp([row.serverSessionId], stamp);
+      postChatTabSync(getUserUuidFromKeycloak(), {
+        type: "rename",
+        sessionId: null,
+        serverSessionId: row.serverSessionId,
+        title: trimmed,
+        stamp,
+      });
     }
 
     let serverId: string | null = null;
@@ -754,9 +1113,10 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
         if (!token) return;
 
         const endpoint = serverSessionUpdateEndpoint(serverId);
+        const org = resolveSessionOrganization(organization, [serverId, id]);
 
         try {
-          await updateServerSessionTitle(trimmed, token, endpoint);
+          await updateServerSessionMeta(trimmed, org, token, endpoint);
           scheduleResync([600, 2200]);
         } catch (e) {
           console.warn("[Sidebar] rename server session failed:", e);
@@ -768,6 +1128,7 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
     editingId,
     editingTitle,
     mergedRows,
+    organization,
     onRenameSession,
     getServerSessionIdForLocalSession,
     serverSessionUpdateEndpoint,
@@ -835,6 +1196,34 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
     ]
   );
 
+  const handleExportClick = (row: SidebarRow, action: ChatExportAction) => {
+    setOpenMenuId(null);
+    if (!onExportSession) return;
+    const id = row.source === "server" && row.serverSessionId ? row.serverSessionId : row.id;
+    onExportSession(id, action);
+  };
+
+  const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    // 같은 파일을 다시 골라도 change가 발생하도록 초기화
+    e.target.value = "";
+    if (file && onImportSession) onImportSession(file);
+  };
+
+  const handleSelectSearchHit = (hit: ChatSearchHit) => {
+    if (!onOpenSearchResult) return;
+    const { doc } = hit;
+    if (doc.serverSessionId && isTombstoned(doc.serverSessionId)) return;
+
+    onOpenSearchResult({
+      sessionId: doc.sessionId,
+      serverSessionId: doc.serverSessionId,
+      messageId: doc.messageId,
+      serverMessageId: doc.serverMessageId,
+      nonce: Date.now(),
+    });
+  };
+
   const handleSelectRow = (row: SidebarRow) => {
     if (row.source === "server" && row.serverSessionId) {
       if (isTombstoned(row.serverSessionId)) return;
@@ -853,6 +1242,230 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
     onSelectSession(row.id);
   };
 
+  const renderGroupHeader = (
+    group: SidebarGroupId,
+    label: string,
+    count: number,
+    folderName?: string
+  ) => {
+    const isRenaming =
+      !!folderName && folderEdit?.mode === "rename" && folderEdit.name === folderName;
+    const isCollapsed = !!folderName && collapsedFolders.has(folderName);
+
+    return (
+      <li
+        key={`group:${group}`}
+        className={"cb-sidebar-group" + (dropTarget === group ? " cb-sidebar-drop-target" : "")}
+        aria-expanded={folderName ? !isCollapsed : undefined}
+        onClick={folderName && !isRenaming ? () => toggleFolderCollapsed(folderName) : undefined}
+        {...getDropHandlers(group)}
+      >
+        {folderName && (
+          <span className="cb-sidebar-group-toggle" aria-hidden="true">
+            {isCollapsed ? "▸" : "▾"}
+          </span>
+        )}
+        {isRenaming ? (
+          <input
+            className="cb-sidebar-item-edit"
+            value={folderDraft}
+            maxLength={30}
+            onChange={(e) => setFolderDraft(e.target.value)}
+            onKeyDown={handleFolderEditKeyDown}
+            onBlur={commitFolderEdit}
+            onClick={(e) => e.stopPropagation()}
+            autoFocus
+          />
+        ) : (
+          <span className="cb-sidebar-group-name">{label}</span>
+        )}
+        <span className="cb-sidebar-group-count">{count}</span>
+        {folderName && !isRenaming && (
+          <>
+            <button
+              type="button"
+              className="cb-sidebar-group-btn"
+              aria-label={`${folderName} 폴더 이름 바꾸기`}
+              title="폴더 이름 바꾸기"
+              onClick={(e) => {
+                e.stopPropagation();
+                startFolderEdit({ mode: "rename", name: folderName });
+              }}
+            >
+              ✎
+            </button>
+            <button
+              type="button"
+              className="cb-sidebar-group-btn"
+              aria-label={`${folderName} 폴더 삭제`}
+              title="폴더 삭제 (대화는 남아요)"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDeleteFolder(folderName);
+              }}
+            >
+              ✕
+            </button>
+          </>
+        )}
+      </li>
+    );
+  };
+
+  const renderRow = (session: SidebarRow, group: SidebarGroupId) => {
+    const isActive = session.id === activeSessionId;
+    const isEditing = session.id === editingId;
+    const org = getRowOrganization(session);
+
+    const className = [
+      isActive ? "active" : "",
+      group.startsWith("folder:") ? "cb-sidebar-item-nested" : "",
+      dropTarget === group ? "cb-sidebar-drop-target" : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    return (
+      <li
+        key={`${session.source}:${session.id}`}
+        className={className || undefined}
+        draggable={!isEditing}
+        onDragStart={(e) => {
+          draggingRowIdRef.current = session.id;
+          e.dataTransfer.effectAllowed = "move";
+          e.dataTransfer.setData("text/plain", session.title);
+        }}
+        onDragEnd={() => {
+          draggingRowIdRef.current = null;
+          setDropTarget(null);
+        }}
+        onClick={() => handleSelectRow(session)}
+        {...getDropHandlers(group)}
+      >
+        <div className="cb-sidebar-item-main">
+          {isEditing ? (
+            <input
+              className="cb-sidebar-item-edit"
+              value={editingTitle}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              onBlur={commitEdit}
+              onClick={handleEditClick}
+              autoFocus
+            />
+          ) : (
+            <div className="cb-sidebar-item-text">
+              <span className="cb-sidebar-item-title">
+                {org?.favorite && (
+                  <span className="cb-sidebar-item-star" aria-label="즐겨찾기">
+                    ★
+                  </span>
+                )}
+                {session.title || "제목 없음"}
+              </span>
+              {session.lastMessage && (
+                <span className="cb-sidebar-item-preview">{session.lastMessage}</span>
+              )}
+            </div>
+          )}
+
+          <span className="cb-sidebar-item-time">
+            {formatRelativeTime(session.updatedAt)}
+          </span>
+        </div>
+
+        <button
+          type="button"
+          className="cb-sidebar-item-more"
+          aria-label="채팅 옵션"
+          onClick={(e) => handleMoreClick(e, session.id)}
+        >
+          ⋯
+        </button>
+
+        {openMenuId === session.id && (
+          <div className="cb-sidebar-item-menu" onClick={(e) => e.stopPropagation()}>
+            <button
+              type="button"
+              className="cb-sidebar-item-menu-item"
+              onClick={() => {
+                setOpenMenuId(null);
+                changeRowOrganization(session, { pinned: !org?.pinned });
+              }}
+            >
+              {org?.pinned ? "고정 해제" : "상단에 고정"}
+            </button>
+            <button
+              type="button"
+              className="cb-sidebar-item-menu-item"
+              onClick={() => {
+                setOpenMenuId(null);
+                changeRowOrganization(session, { favorite: !org?.favorite });
+              }}
+            >
+              {org?.favorite ? "즐겨찾기 해제" : "즐겨찾기"}
+            </button>
+            {(organization.folders.length > 0 || org?.folder) && (
+              <div className="cb-sidebar-item-menu-label">폴더로 이동</div>
+            )}
+            {organization.folders
+              .filter((f) => f !== org?.folder)
+              .map((f) => (
+                <button
+                  key={f}
+                  type="button"
+                  className="cb-sidebar-item-menu-item cb-sidebar-item-menu-sub"
+                  onClick={() => {
+                    setOpenMenuId(null);
+                    changeRowOrganization(session, { folder: f });
+                  }}
+                >
+                  {f}
+                </button>
+              ))}
+            {org?.folder && (
+              <button
+                type="button"
+                className="cb-sidebar-item-menu-item cb-sidebar-item-menu-sub"
+                onClick={() => {
+                  setOpenMenuId(null);
+                  changeRowOrganization(session, { folder: null });
+                }}
+              >
+                폴더에서 빼기
+              </button>
+            )}
+            <button
+              type="button"
+              className="cb-sidebar-item-menu-item"
+              onClick={() => startEditing(session.id, session.title)}
+            >
+              채팅 이름 바꾸기
+            </button>
+            {onExportSession &&
+              CHAT_EXPORT_ACTION_OPTIONS.map((o) => (
+                <button
+                  key={o.value}
+                  type="button"
+                  className="cb-sidebar-item-menu-item"
+                  onClick={() => handleExportClick(session, o.value)}
+                >
+                  {o.label}
+                </button>
+              ))}
+            <button
+              type="button"
+              className="cb-sidebar-item-menu-item cb-danger"
+              onClick={() => handleDeleteClick(session.id)}
+            >
+              삭제
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
   return (
     <aside className={`cb-sidebar ${collapsed ? "collapsed" : ""}`}>
       <button
@@ -884,87 +1497,198 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
                 onChange={(e) => onSearchTermChange(e.target.value)}
               />
             </div>
+
+            {onImportSession && (
+              <>
+                <button
+                  type="button"
+                  className="cb-sidebar-action"
+                  onClick={() => importInputRef.current?.click()}
+                >
+                  <span
+                    className="cb-sidebar-action-icon cb-sidebar-import-icon"
+                    aria-hidden="true"
+                  >
+                    ⇪
+                  </span>
+                  <span>대화 가져오기</span>
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  style={{ display: "none" }}
+                  onChange={handleImportFileChange}
+                />
+              </>
+            )}
           </div>
 
-          <div className="cb-sidebar-section">
-            <p className="cb-sidebar-label" style={{ margin: 0 }}>
-              채팅
-            </p>
+          <div
+            className={`cb-sidebar-section ${
+              messageSearch.isActive ? "cb-sidebar-section-compact" : ""
+            }`}
+          >
+            <div className="cb-sidebar-list-header">
+              <p className="cb-sidebar-label" style={{ margin: 0 }}>
+                채팅
+              </p>
+              <div className="cb-sidebar-list-tools">
+                <button
+                  type="button"
+                  className={"cb-sidebar-list-tool" + (favoritesOnly ? " is-active" : "")}
+                  aria-pressed={favoritesOnly}
+                  title="즐겨찾기만 보기"
+                  onClick={() => setFavoritesOnly((v) => !v)}
+                >
+                  ★
+                </button>
+                <button
+                  type="button"
+                  className="cb-sidebar-list-tool"
+                  title="새 폴더"
+                  onClick={() => startFolderEdit({ mode: "create" })}
+                >
+                  + 폴더
+                </button>
+              </div>
+            </div>
+
+            {folderEdit?.mode === "create" && (
+              <input
+                className="cb-sidebar-folder-input"
+                placeholder="폴더 이름 (예: 인사, 보안 사고)"
+                value={folderDraft}
+                maxLength={30}
+                onChange={(e) => setFolderDraft(e.target.value)}
+                onKeyDown={handleFolderEditKeyDown}
+                onBlur={commitFolderEdit}
+                autoFocus
+              />
+            )}
 
             <ul className="cb-sidebar-list">
-              {filteredSessions.length === 0 ? (
-                <li className="cb-sidebar-empty">대화 내역이 없습니다.</li>
+              {groupedSessions.total === 0 && groupedSessions.folders.length === 0 ? (
+                <li className="cb-sidebar-empty">
+                  {favoritesOnly ? "즐겨찾기한 대화가 없습니다." : "대화 내역이 없습니다."}
+                </li>
               ) : (
-                filteredSessions.map((session) => {
-                  const isActive = session.id === activeSessionId;
-                  const isEditing = session.id === editingId;
+                <>
+                  {groupedSessions.pinned.length > 0 && (
+                    <>
+                      {renderGroupHeader("pinned", "상단 고정", groupedSessions.pinned.length)}
+                      {groupedSessions.pinned.map((row) => renderRow(row, "pinned"))}
+                    </>
+                  )}
+
+                  {groupedSessions.folders.map(([name, rows]) => (
+                    <React.Fragment key={`folder:${name}`}>
+                      {renderGroupHeader(folderGroupId(name), name, rows.length, name)}
+                      {!collapsedFolders.has(name) &&
+                        rows.map((row) => renderRow(row, folderGroupId(name)))}
+                    </React.Fragment>
+                  ))}
+
+                  {(groupedSessions.pinned.length > 0 || groupedSessions.folders.length > 0) &&
+                    renderGroupHeader("none", "폴더 없음", groupedSessions.rest.length)}
+                  {groupedSessions.rest.map((row) => renderRow(row, "none"))}
+                </>
+              )}
+            </ul>
+          </div>
+
+          {messageSearch.isActive && (
+            <div className="cb-sidebar-section cb-sidebar-msg-search">
+              <p className="cb-sidebar-label" style={{ margin: 0 }}>
+                메시지
+              </p>
+
+              <div className="cb-sidebar-search-filters">
+                <select
+                  className="cb-sidebar-search-filter"
+                  aria-label="도메인 필터"
+                  value={searchFilters.domain}
+                  onChange={(e) =>
+                    setSearchFilters((prev) => ({
+                      ...prev,
+                      domain: e.target.value as ChatDomain | "all",
+                    }))
+                  }
+                >
+                  <option value="all">전체 도메인</option>
+                  {SEARCH_DOMAIN_OPTIONS.map((d) => (
+                    <option key={d} value={d}>
+                      {chatDomainLabel(d)}
+                    </option>
+                  ))}
+                </select>
+
+                <select
+                  className="cb-sidebar-search-filter"
+                  aria-label="기간 필터"
+                  value={searchFilters.dateRange}
+                  onChange={(e) =>
+                    setSearchFilters((prev) => ({
+                      ...prev,
+                      dateRange: e.target.value as ChatSearchDateRange,
+                    }))
+                  }
+                >
+                  {CHAT_SEARCH_DATE_RANGE_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {messageSearch.isIndexing && (
+                <p className="cb-sidebar-search-status">
+                  이전 대화 불러오는 중… ({messageSearch.indexedServerSessions}/
+                  {messageSearch.totalServerSessions})
+                </p>
+              )}
+              {messageSearch.serverIndexFailed && (
+                <p className="cb-sidebar-search-status">
+                  서버 대화를 불러오지 못해 현재 기기의 대화만 검색했어요.
+                </p>
+              )}
 
-                  return (
+              <ul className="cb-sidebar-list cb-sidebar-search-results">
+                {messageSearch.hits.length === 0 ? (
+                  <li className="cb-sidebar-empty">
+                    {messageSearch.isIndexing ? "검색 중…" : "일치하는 메시지가 없습니다."}
+                  </li>
+                ) : (
+                  messageSearch.hits.map((hit) => (
                     <li
-                      key={`${session.source}:${session.id}`}
-                      className={isActive ? "active" : undefined}
-                      onClick={() => handleSelectRow(session)}
+                      key={hit.doc.key}
+                      className="cb-sidebar-search-hit"
+                      onClick={() => handleSelectSearchHit(hit)}
                     >
-                      <div className="cb-sidebar-item-main">
-                        {isEditing ? (
-                          <input
-                            className="cb-sidebar-item-edit"
-                            value={editingTitle}
-                            onChange={(e) => setEditingTitle(e.target.value)}
-                            onKeyDown={handleEditKeyDown}
-                            onBlur={commitEdit}
-                            onClick={handleEditClick}
-                            autoFocus
-                          />
-                        ) : (
-                          <div className="cb-sidebar-item-text">
-                            <span className="cb-sidebar-item-title">
-                              {session.title || "제목 없음"}
-                            </span>
-                            {session.lastMessage && (
-                              <span className="cb-sidebar-item-preview">{session.lastMessage}</span>
-                            )}
-                          </div>
-                        )}
-
+                      <div className="cb-sidebar-search-hit-meta">
+                        <span className="cb-sidebar-item-title">
+                          {hit.doc.sessionTitle || "제목 없음"}
+                        </span>
                         <span className="cb-sidebar-item-time">
-                          {formatRelativeTime(session.updatedAt)}
+                          {formatRelativeTime(hit.doc.createdAt)}
                         </span>
                       </div>
-
-                      <button
-                        type="button"
-                        className="cb-sidebar-item-more"
-                        aria-label="채팅 옵션"
-                        onClick={(e) => handleMoreClick(e, session.id)}
-                      >
-                        ⋯
-                      </button>
-
-                      {openMenuId === session.id && (
-                        <div className="cb-sidebar-item-menu" onClick={(e) => e.stopPropagation()}>
-                          <button
-                            type="button"
-                            className="cb-sidebar-item-menu-item"
-                            onClick={() => startEditing(session.id, session.title)}
-                          >
-                            채팅 이름 바꾸기
-                          </button>
-                          <button
-                            type="button"
-                            className="cb-sidebar-item-menu-item cb-danger"
-                            onClick={() => handleDeleteClick(session.id)}
-                          >
-                            삭제
-                          </button>
-                        </div>
-                      )}
+                      <p className="cb-sidebar-search-snippet">
+                        <span className="cb-sidebar-search-role">
+                          {hit.doc.role === "user" ? "질문" : "답변"}
+                        </span>
+                        {renderSnippet(hit)}
+                      </p>
+                      <span className="cb-sidebar-search-domain">
+                        {chatDomainLabel(hit.doc.domain)}
+                      </span>
                     </li>
-                  );
-                })
-              )}
-            </ul>
-          </div>
+                  ))
+                )}
+              </ul>
+            </div>
+          )}
         </>
       )}
     </aside>
@@ -0,0 +1,637 @@
+// src/components/chatbot/SourceDocPanel.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import "./chatbot.css";
+import { computePanelPosition, type Anchor, type PanelSize } from "../../utils/chat";
+import type { ChatSource } from "../../types/chat";
+import { getDocumentText } from "./ragDocumentsApi";
+import {
+  buildSourceFollowUpText,
+  DEFAULT_SOURCE_FOLLOW_UP_QUESTION,
+  describeSourceLocation,
+  locateSourceSection,
+  resolveSourceDocumentUrl,
+} from "./chatSourceDocument";
+
+type Size = PanelSize;
+type ResizeDirection = "n" | "s" | "e" | "w" | "ne" | "nw" | "se" | "sw";
+
+type ResizeState = {
+  resizing: boolean;
+  dir: ResizeDirection | null;
+  startX: number;
+  startY: number;
+  startWidth: number;
+  startHeight: number;
+  startTop: number;
+  startLeft: number;
+};
+
+type DragState = {
+  dragging: boolean;
+  startX: number;
+  startY: number;
+  startTop: number;
+  startLeft: number;
+};
+
+const MIN_WIDTH = 420;
+const MIN_HEIGHT = 420;
+const INITIAL_SIZE: Size = { width: 520, height: 640 };
+
+// =========================
+// 패널 이동 정책 (EduPanel/QuizPanel과 동일)
+// =========================
+const KEEP_VISIBLE_X = 120;
+const KEEP_VISIBLE_Y = 80;
+const EDGE_MARGIN = 0;
+const DOCK_SAFE_RIGHT = 60;
+const DOCK_SAFE_BOTTOM = 60;
+
+const SOURCE_DOC_LAYER_Z = 2147483000;
+
+type ViewMode = "text" | "file";
+
+type LoadState<T> =
+  | { status: "loading" }
+  | { status: "ready"; data: T }
+  | { status: "error"; message: string };
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function clampPanelPos(pos: { top: number; left: number }, size: Size) {
+  if (typeof window === "undefined") return pos;
+
+  const vw = window.innerWidth;
+  const vh = window.innerHeight;
+
+  const keepX = Math.min(KEEP_VISIBLE_X, Math.max(48, size.width - 48));
+  const keepY = Math.min(KEEP_VISIBLE_Y, Math.max(40, size.height - 40));
+
+  const leftMin = Math.min(-size.width + keepX, vw - keepX);
+  const leftMax = Math.max(-size.width + keepX, vw - keepX);
+  const topMin = Math.min(-size.height + keepY, vh - keepY);
+  const topMax = Math.max(-size.height + keepY, vh - keepY);
+
+  return {
+    left: clamp(pos.left, leftMin, leftMax),
+    top: clamp(pos.top, topMin, topMax),
+  };
+}
+
+// 처음 열릴 때는 화면 안에 완전히 보이도록
+function clampPanelPosFullyVisible(pos: { top: number; left: number }, size: Size) {
+  if (typeof window === "undefined") return pos;
+
+  const leftMax = Math.max(EDGE_MARGIN, window.innerWidth - size.width - EDGE_MARGIN);
+  const topMax = Math.max(EDGE_MARGIN, window.innerHeight - size.height - EDGE_MARGIN);
+
+  return {
+    left: clamp(pos.left, EDGE_MARGIN, leftMax),
+    top: clamp(pos.top, EDGE_MARGIN, topMax),
+  };
+}
+
+function computeDockFallbackPos(size: Size) {
+  if (typeof window === "undefined") return { top: 80, left: 120 };
+
+  const left = window.innerWidth - EDGE_MARGIN - size.width - DOCK_SAFE_RIGHT;
+  const top = window.innerHeight - EDGE_MARGIN - size.height - DOCK_SAFE_BOTTOM;
+
+  return { top, left };
+}
+
+function fitInitialSize(): Size {
+  if (typeof window === "undefined") return INITIAL_SIZE;
+  return {
+    width: Math.min(INITIAL_SIZE.width, Math.max(MIN_WIDTH, window.innerWidth - 32)),
+    height: Math.min(INITIAL_SIZE.height, Math.max(MIN_HEIGHT, window.innerHeight - 32)),
+  };
+}
+
+function safeErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error && err.message.trim()) return `${fallback} (${err.message})`;
+  return fallback;
+}
+
+interface SourceDocPanelProps {
+  source: ChatSource;
+  anchor?: Anchor | null;
+  onClose: () => void;
+  onRequestFocus?: () => void;
+  zIndex?: number;
+  /** "이 부분 질문하기" → 챗봇에 후속 질문 전송 */
+  onAskFollowUp?: (text: string) => void;
+}
+
+/**
+ * RAG 답변 출처 문서 뷰어
+ * - 본문: getDocumentText로 추출 텍스트를 불러와 인용 조항/페이지로 스크롤 + snippet 강조
+ * - 원문: presign(download) URL을 iframe으로 표시 (#page=N)
+ * - 텍스트가 없거나 불러오지 못하면 원문 보기로 전환
+ *
+ * 출처가 바뀌면 상위에서 key를 바꿔 다시 마운트한다(로딩 상태 초기화).
+ */
+const SourceDocPanel: React.FC<SourceDocPanelProps> = ({
+  source,
+  anchor,
+  onClose,
+  onRequestFocus,
+  zIndex,
+  onAskFollowUp,
+}) => {
+  const hasDOM = typeof window !== "undefined" && typeof document !== "undefined";
+
+  // === 패널 크기 + 위치 ===
+  const [size, setSize] = useState<Size>(() => fitInitialSize());
+  const [panelPos, setPanelPos] = useState(() => {
+    const initial = fitInitialSize();
+    const pos = anchor
+      ? computePanelPosition(anchor, initial)
+      : computeDockFallbackPos(initial);
+    return clampPanelPosFullyVisible(pos, initial);
+  });
+
+  const sizeRef = useRef<Size>(size);
+  const posRef = useRef(panelPos);
+  useEffect(() => {
+    sizeRef.current = size;
+    posRef.current = panelPos;
+  }, [size, panelPos]);
+
+  const resizeRef = useRef<ResizeState>({
+    resizing: false,
+    dir: null,
+    startX: 0,
+    startY: 0,
+    startWidth: size.width,
+    startHeight: size.height,
+    startTop: panelPos.top,
+    startLeft: panelPos.left,
+  });
+
+  const dragRef = useRef<DragState>({
+    dragging: false,
+    startX: 0,
+    startY: 0,
+    startTop: panelPos.top,
+    startLeft: panelPos.left,
+  });
+
+  // =========================
+  // 문서 로딩
+  // =========================
+  const [textState, setTextState] = useState<LoadState<string>>({ status: "loading" });
+  const [fileState, setFileState] = useState<LoadState<string> | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>("text");
+
+  const [question, setQuestion] = useState("");
+
+  const sectionRef = useRef<HTMLElement | null>(null);
+  const aliveRef = useRef(true);
+
+  useEffect(() => {
+    aliveRef.current = true;
+    return () => {
+      aliveRef.current = false;
+    };
+  }, []);
+
+  const loadFile = () => {
+    if (fileState && fileState.status !== "error") return;
+    setFileState({ status: "loading" });
+
+    void (async () => {
+      try {
+        const url = await resolveSourceDocumentUrl(source);
+        if (aliveRef.current) setFileState({ status: "ready", data: url });
+      } catch (e: unknown) {
+        console.warn("[SourceDocPanel] presign failed:", e);
+        if (aliveRef.current) {
+          setFileState({
+            status: "error",
+            message: safeErrorMessage(e, "원문 파일을 불러오지 못했습니다."),
+          });
+        }
+      }
+    })();
+  };
+
+  const switchToFile = () => {
+    setViewMode("file");
+    loadFile();
+  };
+
+  // 텍스트가 비었거나 실패하면 원문 파일로 전환 (이벤트 핸들러가 아니라 비동기 콜백에서 호출)
+  const switchToFileRef = useRef(switchToFile);
+  useEffect(() => {
+    switchToFileRef.current = switchToFile;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void (async () => {
+      try {
+        const res = await getDocumentText(source.docId);
+        if (cancelled) return;
+
+        const text = (res?.text ?? "").replace(/\r\n?/g, "\n");
+        if (!text.trim()) {
+          setTextState({ status: "error", message: "추출된 본문이 없어 원문 파일을 표시합니다." });
+          switchToFileRef.current();
+          return;
+        }
+        setTextState({ status: "ready", data: text });
+      } catch (e: unknown) {
+        console.warn("[SourceDocPanel] getDocumentText failed:", e);
+        if (cancelled) return;
+        setTextState({
+          status: "error",
+          message: safeErrorMessage(e, "본문을 불러오지 못했습니다."),
+        });
+        switchToFileRef.current();
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source.docId]);
+
+  const docText = textState.status === "ready" ? textState.data : "";
+
+  const range = useMemo(() => locateSourceSection(docText, source), [docText, source]);
+
+  // 본문 로드 후 인용 구간으로 스크롤
+  useEffect(() => {
+    if (viewMode !== "text" || !range) return;
+    const el = sectionRef.current;
+    if (!el) return;
+    const raf = window.requestAnimationFrame(() => {
+      el.scrollIntoView({ block: "start", behavior: "auto" });
+    });
+    return () => window.cancelAnimationFrame(raf);
+  }, [viewMode, range]);
+
+  // =========================
+  // 후속 질문
+  // =========================
+  const quote = useMemo(() => {
+    if (range && range.highlightStart !== null && range.highlightEnd !== null) {
+      return docText.slice(range.highlightStart, range.highlightEnd);
+    }
+    if (range) return docText.slice(range.sectionStart, range.sectionEnd);
+    return source.snippet ?? "";
+  }, [docText, range, source.snippet]);
+
+  const handleAskFollowUp = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!onAskFollowUp) return;
+    onAskFollowUp(buildSourceFollowUpText(source, quote, question));
+    setQuestion("");
+  };
+
+  // =========================
+  // 드래그 / 리사이즈
+  // =========================
+  useEffect(() => {
+    if (!hasDOM) return;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const resizeState = resizeRef.current;
+      const dragState = dragRef.current;
+
+      if (resizeState.resizing && resizeState.dir) {
+        const dx = event.clientX - resizeState.startX;
+        const dy = event.clientY - resizeState.startY;
+
+        let newWidth = resizeState.startWidth;
+        let newHeight = resizeState.startHeight;
+        let newTop = resizeState.startTop;
+        let newLeft = resizeState.startLeft;
+
+        const maxWidth = Math.max(MIN_WIDTH, window.innerWidth - EDGE_MARGIN * 2);
+        const maxHeight = Math.max(MIN_HEIGHT, window.innerHeight - EDGE_MARGIN * 2);
+
+        if (resizeState.dir.includes("e")) newWidth = resizeState.startWidth + dx;
+        if (resizeState.dir.includes("s")) newHeight = resizeState.startHeight + dy;
+        if (resizeState.dir.includes("w")) {
+          newWidth = resizeState.startWidth - dx;
+          newLeft = resizeState.startLeft + dx;
+        }
+        if (resizeState.dir.includes("n")) {
+          newHeight = resizeState.startHeight - dy;
+          newTop = resizeState.startTop + dy;
+        }
+
+        const clampedWidth = clamp(newWidth, MIN_WIDTH, maxWidth);
+        const clampedHeight = clamp(newHeight, MIN_HEIGHT, maxHeight);
+
+        if (resizeState.dir.includes("w") && clampedWidth !== newWidth) {
+          newLeft = resizeState.startLeft + (resizeState.startWidth - clampedWidth);
+        }
+        if (resizeState.dir.includes("n") && clampedHeight !== newHeight) {
+          newTop = resizeState.startTop + (resizeState.startHeight - clampedHeight);
+        }
+
+        const nextSize = { width: clampedWidth, height: clampedHeight };
+        setSize(nextSize);
+        setPanelPos(clampPanelPos({ top: newTop, left: newLeft }, nextSize));
+        return;
+      }
+
+      if (dragState.dragging) {
+        const dx = event.clientX - dragState.startX;
+        const dy = event.clientY - dragState.startY;
+        setPanelPos(
+          clampPanelPos(
+            { top: dragState.startTop + dy, left: dragState.startLeft + dx },
+            sizeRef.current
+          )
+        );
+      }
+    };
+
+    const handleMouseUp = () => {
+      resizeRef.current.resizing = false;
+      resizeRef.current.dir = null;
+      dragRef.current.dragging = false;
+    };
+
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [hasDOM]);
+
+  const handleResizeMouseDown =
+    (dir: ResizeDirection) => (event: React.MouseEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      const currentPos = posRef.current;
+      const currentSize = sizeRef.current;
+
+      resizeRef.current = {
+        resizing: true,
+        dir,
+        startX: event.clientX,
+        startY: event.clientY,
+        startWidth: currentSize.width,
+        startHeight: currentSize.height,
+        startTop: currentPos.top,
+        startLeft: currentPos.left,
+      };
+      dragRef.current.dragging = false;
+      onRequestFocus?.();
+    };
+
+  const handleDragMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    event.preventDefault();
+
+    const currentPos = posRef.current;
+    dragRef.current = {
+      dragging: true,
+      startX: event.clientX,
+      startY: event.clientY,
+      startTop: currentPos.top,
+      startLeft: currentPos.left,
+    };
+    resizeRef.current.resizing = false;
+    resizeRef.current.dir = null;
+    onRequestFocus?.();
+  };
+
+  // =========================
+  // 렌더링
+  // =========================
+  const renderTextBody = () => {
+    if (textState.status === "loading") {
+      return <div className="cb-srcdoc-status">본문을 불러오는 중입니다…</div>;
+    }
+    if (textState.status === "error") {
+      return (
+        <div className="cb-srcdoc-status">
+          {textState.message}
+          <button type="button" className="cb-srcdoc-link-btn" onClick={switchToFile}>
+            원문 파일 보기
+          </button>
+        </div>
+      );
+    }
+
+    const text = textState.data;
+    if (!range) {
+      return (
+        <>
+          <div className="cb-srcdoc-notice">
+            본문에서 인용 위치를 찾지 못했습니다. 문서 전체를 표시합니다.
+          </div>
+          <div className="cb-srcdoc-text">{text}</div>
+        </>
+      );
+    }
+
+    const { sectionStart, sectionEnd, highlightStart, highlightEnd } = range;
+    const hasHighlight =
+      highlightStart !== null &&
+      highlightEnd !== null &&
+      highlightStart >= sectionStart &&
+      highlightEnd <= sectionEnd;
+
+    return (
+      <div className="cb-srcdoc-text">
+        {text.slice(0, sectionStart)}
+        <section
+          ref={(el) => {
+            sectionRef.current = el;
+          }}
+          className="cb-srcdoc-section"
+        >
+          {hasHighlight ? (
+            <>
+              {text.slice(sectionStart, highlightStart)}
+              <mark className="cb-srcdoc-mark">{text.slice(highlightStart, highlightEnd)}</mark>
+              {text.slice(highlightEnd, sectionEnd)}
+            </>
+          ) : (
+            text.slice(sectionStart, sectionEnd)
+          )}
+        </section>
+        {text.slice(sectionEnd)}
+      </div>
+    );
+  };
+
+  const renderFileBody = () => {
+    if (!fileState || fileState.status === "loading") {
+      return <div className="cb-srcdoc-status">원문 파일을 준비하는 중입니다…</div>;
+    }
+    if (fileState.status === "error") {
+      return (
+        <div className="cb-srcdoc-status">
+          {fileState.message}
+          <button type="button" className="cb-srcdoc-link-btn" onClick={loadFile}>
+            다시 시도
+          </button>
+        </div>
+      );
+    }
+    return (
+      <iframe
+        className="cb-srcdoc-frame"
+        src={fileState.data}
+        title={source.title || "원문 문서"}
+      />
+    );
+  };
+
+  if (!hasDOM) return null;
+
+  const location = describeSourceLocation(source);
+  const fileUrl = fileState?.status === "ready" ? fileState.data : null;
+
+  return createPortal(
+    <div
+      className="cb-edu-wrapper"
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: zIndex ?? SOURCE_DOC_LAYER_Z,
+        pointerEvents: "none",
+      }}
+    >
+      <div
+        className="cb-srcdoc-panel-container"
+        style={{
+          position: "fixed",
+          top: panelPos.top,
+          left: panelPos.left,
+          pointerEvents: "auto",
+        }}
+      >
+        <div
+          className="cb-srcdoc-panel cb-chatbot-panel"
+          style={{ width: size.width, height: size.height }}
+          onMouseDown={() => onRequestFocus?.()}
+        >
+          <div className="cb-drag-bar" onMouseDown={handleDragMouseDown} />
+
+          <div
+            className="cb-resize-handle cb-resize-handle-corner cb-resize-handle-nw"
+            onMouseDown={handleResizeMouseDown("nw")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-corner cb-resize-handle-ne"
+            onMouseDown={handleResizeMouseDown("ne")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-corner cb-resize-handle-sw"
+            onMouseDown={handleResizeMouseDown("sw")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-corner cb-resize-handle-se"
+            onMouseDown={handleResizeMouseDown("se")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-edge cb-resize-handle-n"
+            onMouseDown={handleResizeMouseDown("n")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-edge cb-resize-handle-s"
+            onMouseDown={handleResizeMouseDown("s")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-edge cb-resize-handle-w"
+            onMouseDown={handleResizeMouseDown("w")}
+          />
+          <div
+            className="cb-resize-handle cb-resize-handle-edge cb-resize-handle-e"
+            onMouseDown={handleResizeMouseDown("e")}
+          />
+
+          <button
+            type="button"
+            className="cb-panel-close-btn"
+            onClick={onClose}
+            aria-label="원문 문서 닫기"
+          >
+            ✕
+          </button>
+
+          <div className="cb-srcdoc-inner">
+            <header className="cb-srcdoc-header">
+              <div className="cb-srcdoc-title" title={source.title || source.docId}>
+                {source.title || source.docId}
+              </div>
+              {location && <div className="cb-srcdoc-location">{location}</div>}
+
+              <div className="cb-srcdoc-tabs" role="tablist">
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={viewMode === "text"}
+                  className={
+                    "cb-srcdoc-tab" + (viewMode === "text" ? " cb-srcdoc-tab-active" : "")
+                  }
+                  onClick={() => setViewMode("text")}
+                >
+                  본문
+                </button>
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={viewMode === "file"}
+                  className={
+                    "cb-srcdoc-tab" + (viewMode === "file" ? " cb-srcdoc-tab-active" : "")
+                  }
+                  onClick={switchToFile}
+                >
+                  원문 파일
+                </button>
+                {viewMode === "file" && fileUrl && (
+                  <a
+                    className="cb-srcdoc-external"
+                    href={fileUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    새 창으로 열기
+                  </a>
+                )}
+              </div>
+            </header>
+
+            <div className="cb-srcdoc-body">
+              {viewMode === "text" ? renderTextBody() : renderFileBody()}
+            </div>
+
+            {onAskFollowUp && (
+              <form className="cb-srcdoc-followup" onSubmit={handleAskFollowUp}>
+                <input
+                  type="text"
+                  className="cb-srcdoc-followup-input"
+                  value={question}
+                  onChange={(e) => setQuestion(e.target.value)}
+                  placeholder={DEFAULT_SOURCE_FOLLOW_UP_QUESTION}
+                  aria-label="이 부분에 대한 추가 질문"
+                />
+                <button type="submit" className="cb-srcdoc-followup-btn">
+                  이 부분 질문하기
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default SourceDocPanel;
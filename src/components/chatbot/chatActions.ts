@@ -0,0 +1,195 @@
+// src/components/chatbot/chatActions.ts
+import { useSyncExternalStore } from "react";
+import type { ChatAction, ChatActionType } from "../../types/chat";
+
+/**
+ * 답변 액션(ChatAction) 레지스트리
+ * - 액션을 실제로 처리할 수 있는 쪽(패널을 가진 컴포넌트)이 타입별 handler를 등록한다.
+ *   예) FloatingChatbotRoot: PLAY_VIDEO / OPEN_EDU_PANEL / OPEN_QUIZ / OPEN_POLICY_DOC
+ *       ChatWindow        : OPEN_REPORT_FORM (신고 모달)
+ * - 결재(START_APPROVAL) / 일정(SHOW_EVENT) / 조직도(OPEN_ORG_NODE)는 해당 패널이 생기면 거기서 등록
+ * - 등록되지 않은 타입이나 필수 값이 빠진 액션은 버튼/자동 실행 모두 건너뛴다.
+ */
+
+export type ChatActionConfirm = {
+  title: string;
+  description?: string;
+  /** 확인 버튼 라벨 (기본: "계속") */
+  confirmLabel?: string;
+};
+
+export type ChatActionHandler<T extends ChatActionType = ChatActionType> = {
+  type: T;
+  /** 답변 아래 버튼 라벨 (서버가 label을 주면 그 값을 우선) */
+  label: (action: ChatAction) => string;
+  /** 필수 값 검사 (false면 무시) */
+  isValid?: (action: ChatAction) => boolean;
+  /** 버튼으로 실행할 때 먼저 보여줄 확인 문구 (null이면 바로 실행) */
+  confirm?: (action: ChatAction) => ChatActionConfirm | null;
+  /** 답변이 도착하면 버튼을 누르지 않아도 바로 실행 */
+  autoRun?: boolean;
+  run: (action: ChatAction) => void;
+};
+
+export type ResolvedChatAction = {
+  action: ChatAction;
+  handler: ChatActionHandler;
+  label: string;
+};
+
+/* =========================
+   store (useSyncExternalStore 호환)
+========================= */
+
+const handlers = new Map<string, ChatActionHandler>();
+const listeners = new Set<() => void>();
+let version = 0;
+
+/** 모르는 타입은 타입별로 한 번만 로그 */
+const warnedUnknownTypes = new Set<string>();
+
+function emit() {
+  version += 1;
+  listeners.forEach((l) => l());
+}
+
+function subscribeChatActions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * handler 등록 (반환값으로 해제)
+ * - 같은 타입을 다시 등록하면 마지막 등록이 우선하고, 해제 시 자기 것만 지운다.
+ */
+export function registerChatActionHandlers(list: ChatActionHandler[]): () => void {
+  for (const h of list) handlers.set(h.type, h);
+  emit();
+
+  return () => {
+    let changed = false;
+    for (const h of list) {
+      if (handlers.get(h.type) === h) {
+        handlers.delete(h.type);
+        changed = true;
+      }
+    }
+    if (changed) emit();
+  };
+}
+
+/** 등록 상태가 바뀌면 다시 렌더링 (버튼 노출 갱신용) */
+export function useChatActionRegistryVersion(): number {
+  return useSyncExternalStore(subscribeChatActions, () => version);
+}
+
+export function resolveChatAction(action?: ChatAction | null): ResolvedChatAction | null {
+  if (!action) return null;
+
+  const handler = handlers.get(action.type);
+  if (!handler) {
+    if (!warnedUnknownTypes.has(action.type)) {
+      warnedUnknownTypes.add(action.type);
+      console.info(`[chatActions] no handler for action type: ${action.type}`);
+    }
+    return null;
+  }
+  if (handler.isValid && !handler.isValid(action)) return null;
+
+  return { action, handler, label: action.label ?? handler.label(action) };
+}
+
+/** 답변 도착 시 autoRun handler만 실행 (확인 문구가 필요한 액션은 버튼으로만) */
+export function runChatActionOnArrival(action?: ChatAction | null): void {
+  const resolved = resolveChatAction(action);
+  if (!resolved?.handler.autoRun) return;
+  if (resolved.handler.confirm?.(resolved.action)) return;
+
+  try {
+    resolved.handler.run(resolved.action);
+  } catch (e: unknown) {
+    console.warn("[chatActions] auto-run failed:", e);
+  }
+}
+
+/**
+ * 챗봇 밖(예: /education 페이지)에서 패널 액션을 바로 실행
+ * - 확인 문구는 건너뛴다 (사용자가 직접 누른 경우에만 호출)
+ * - handler가 없으면(챗봇 루트 미마운트) false
+ */
+export function runChatAction(action: ChatAction): boolean {
+  const resolved = resolveChatAction(action);
+  if (!resolved) return false;
+
+  try {
+    resolved.handler.run(resolved.action);
+    return true;
+  } catch (e: unknown) {
+    console.warn("[chatActions] run failed:", e);
+    return false;
+  }
+}
+
+/* =========================
+   응답 파싱
+========================= */
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is JsonRecord {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function pickString(r: JsonRecord, ...keys: string[]): string | undefined {
+  for (const k of keys) {
+    const v = r[k];
+    if (typeof v === "string" && v.trim()) return v.trim();
+    if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  }
+  return undefined;
+}
+
+function pickNumber(r: JsonRecord, ...keys: string[]): number | undefined {
+  for (const k of keys) {
+    const v = r[k];
+    if (typeof v === "number" && Number.isFinite(v)) return v;
+  }
+  return undefined;
+}
+
+/**
+ * 응답의 meta.action 또는 action → ChatAction
+ * - snake_case / camelCase 모두 허용
+ * - type은 문자열이면 그대로 둔다 (모르는 타입은 레지스트리에서 무시)
+ */
+export function parseChatAction(data: unknown): ChatAction | undefined {
+  if (!isRecord(data)) return undefined;
+
+  const metaObj = data["meta"];
+  const raw = isRecord(metaObj) ? metaObj["action"] : data["action"];
+  if (!isRecord(raw) || typeof raw["type"] !== "string" || !raw["type"].trim()) {
+    return undefined;
+  }
+
+  return {
+    type: raw["type"].trim().toUpperCase() as ChatActionType,
+    label: pickString(raw, "label"),
+    educationId: pickString(raw, "education_id", "educationId"),
+    videoId: pickString(raw, "video_id", "videoId"),
+    resumePositionSeconds: pickNumber(raw, "resume_position_seconds", "resumePositionSeconds"),
+    educationTitle: pickString(raw, "education_title", "educationTitle"),
+    videoTitle: pickString(raw, "video_title", "videoTitle"),
+    progressPercent: pickNumber(raw, "progress_percent", "progressPercent"),
+    quizId: pickString(raw, "quiz_id", "quizId"),
+    docId: pickString(raw, "doc_id", "docId"),
+    page: pickNumber(raw, "page"),
+    articleLabel: pickString(raw, "article_label", "articleLabel"),
+    title: pickString(raw, "title"),
+    approvalType: pickString(raw, "approval_type", "approvalType"),
+    eventId: pickString(raw, "event_id", "eventId"),
+    orgNodeId: pickString(raw, "org_node_id", "orgNodeId"),
+    reportContent: pickString(raw, "report_content", "reportContent"),
+  };
+}
@@ -2,11 +2,15 @@
 import keycloak from "../../keycloak";
 import type {
   ChatAction,
+  ChatAttachment,
+  ChatFeedbackReason,
+  ChatPiiDecision,
   ChatSource,
   ChatRequest,
   FeedbackValue,
   ChatSendResult,
   ChatDomain,
+  ChatRole,
   ChatServiceDomain,
   FaqHomeItem,
   FaqItem,
@@ -17,6 +21,11 @@ import {
   normalizeServiceDomain,
   toChatServiceDomain,
 } from "../../types/chat";
+import { postChatTabSync, subscribeChatTabSync } from "./chatTabSync";
+import { rekeySessionOrganization } from "./chatSessionOrganizer";
+import { readReportIdFromResponse } from "./reportApi";
+import { readFollowUpQuestions } from "./chatFollowUps";
+import { parseChatAction } from "./chatActions";
 
 /**
  * Chat Service (9005) Swagger 스펙 기반 엔드포인트
@@ -51,9 +60,31 @@ const CHAT_MESSAGE_STREAM_TEMPLATE =
   import.meta.env.VITE_CHAT_MESSAGES_STREAM_ENDPOINT?.toString() ??
   "/chat/messages/{messageId}/stream";
 
+/**
+ * (선택) 답변 생성 중단 API 템플릿
+ * - 기본: /chat/messages/{messageId}/cancel
+ * - env로 교체 가능: VITE_CHAT_MESSAGE_CANCEL_TEMPLATE
+ */
+const CHAT_MESSAGE_CANCEL_TEMPLATE =
+  import.meta.env.VITE_CHAT_MESSAGE_CANCEL_TEMPLATE?.toString() ??
+  "/chat/messages/{messageId}/cancel";
+
 /** SSE는 응답이 길어질 수 있어 타임아웃을 별도로 둔다 */
 const SSE_TIMEOUT_MS = 120_000;
 
+/**
+ * SSE 재연결(resume) 설정
+ * - 스트림이 중간에 끊기면 Last-Event-ID 헤더로 이어받기를 시도한다.
+ * - 서버가 retry: 필드를 내려주면 그 값을 기본 대기 시간으로 사용한다.
+ */
+const SSE_RESUME_MAX_ATTEMPTS = 3;
+const SSE_RESUME_BASE_DELAY_MS = 500;
+const SSE_RESUME_MAX_DELAY_MS = 4_000;
+
+/** 재연결 실패 시 완성된 메시지를 히스토리에서 가져오는 재시도 횟수/간격 */
+const FINAL_MESSAGE_FETCH_ATTEMPTS = 3;
+const FINAL_MESSAGE_FETCH_DELAY_MS = 1_000;
+
 function buildMessageStreamUrl(messageId: string): string {
   const enc = encodeURIComponent(messageId);
   const tpl = (CHAT_MESSAGE_STREAM_TEMPLATE || "").trim();
@@ -71,6 +102,17 @@ function buildMessageStreamUrl(messageId: string): string {
   return `${msgBase.replace(/\/$/, "")}/${enc}/stream`;
 }
 
+function buildMessageCancelUrl(messageId: string): string {
+  const enc = encodeURIComponent(messageId);
+  const tpl = (CHAT_MESSAGE_CANCEL_TEMPLATE || "").trim();
+
+  if (tpl.includes("{messageId}")) return tpl.split("{messageId}").join(enc);
+  if (tpl.includes(":messageId")) return tpl.replace(":messageId", enc);
+
+  const msgBase = (CHAT_MESSAGES_ENDPOINT || "").trim() || "/chat/messages";
+  return `${msgBase.replace(/\/$/, "")}/${enc}/cancel`;
+}
+
 /** (선택) 신고 endpoint 후보 (서버 스펙 확정 전까지 env로 제어) */
 const REPORT_ENDPOINTS_RAW: string = String(
   import.meta.env.VITE_REPORT_ENDPOINTS ?? ""
@@ -138,6 +180,15 @@ function hydrateUserMapOnce(userUuid: string) {
   const map = mapsByUser.get(userUuid) ?? new Map<string, string>();
   mapsByUser.set(userUuid, map);
 
+  // 다른 탭에서 만든 바인딩 반영 (sessionStorage는 탭별이라 직접 받아 저장)
+  subscribeChatTabSync(userUuid, (msg) => {
+    if (msg.type !== "bind") return;
+    if (!nonEmptyString(msg.localSessionId) || !isUuidLike(msg.serverSessionId)) return;
+    if (map.get(msg.localSessionId) === msg.serverSessionId) return;
+    map.set(msg.localSessionId, msg.serverSessionId);
+    persistUserMap(userUuid);
+  });
+
   try {
     const raw = sessionStorage.getItem(getStorageKey(userUuid));
     if (!raw) return;
@@ -170,8 +221,19 @@ function persistUserMap(userUuid: string) {
 function setSessionMap(userUuid: string, clientKey: string, serverUuid: string) {
   hydrateUserMapOnce(userUuid);
   const map = mapsByUser.get(userUuid)!;
+  if (map.get(clientKey) === serverUuid) return;
   map.set(clientKey, serverUuid);
   persistUserMap(userUuid);
+
+  // 서버에 생기기 전에 고정/폴더 지정한 세션은 서버 UUID 기준으로 옮긴다
+  rekeySessionOrganization(userUuid, clientKey, serverUuid);
+
+  // 다른 탭도 같은 로컬 세션을 같은 서버 세션으로 이어 보내도록 공유
+  postChatTabSync(userUuid, {
+    type: "bind",
+    localSessionId: clientKey,
+    serverSessionId: serverUuid,
+  });
 }
 
 /**
@@ -307,7 +369,7 @@ async function ensureFreshToken(): Promise<string | null> {
 /**
  * Keycloak tokenParsed.sub(UUID)를 userUuid로 사용
  */
-function getUserUuidFromKeycloak(): string | null {
+export function getUserUuidFromKeycloak(): string | null {
   const parsed = keycloak?.tokenParsed as unknown;
   if (!isRecord(parsed)) return null;
   const sub = parsed["sub"];
@@ -342,10 +404,19 @@ async function fetchWithTimeout(
   const controller = new AbortController();
   const timer = window.setTimeout(() => controller.abort(), timeoutMs);
 
+  // 호출부 signal(사용자 중단)도 함께 반영
+  const external = init.signal;
+  const onExternalAbort = () => controller.abort();
+  if (external) {
+    if (external.aborted) controller.abort();
+    else external.addEventListener("abort", onExternalAbort, { once: true });
+  }
+
   try {
     return await fetch(input, { ...init, signal: controller.signal });
   } finally {
     window.clearTimeout(timer);
+    external?.removeEventListener("abort", onExternalAbort);
   }
 }
 
@@ -500,7 +571,7 @@ type ChatSessionCreateRequest = {
 /**
  * Swagger 스키마: ChatSessionResponse
  */
-type ChatSessionResponse = {
+export type ChatSessionResponse = {
   id: string; // uuid
   title: string;
   domain: string;
@@ -523,6 +594,21 @@ type ChatMessageSendRequest = {
    */
   model?: string | null;
   department?: string | null;
+  /** 전송 전 개인정보 감지 시 사용자 선택 ("MASKED" | "SENT_AS_IS") */
+  piiAction?: string;
+  piiKinds?: string[];
+  /** 질문 첨부 파일 (S3 object key) */
+  attachments?: ChatMessageAttachmentRequest[];
+  /** 현재 분기 경로의 직전 답변 id (서버 문맥 체인, null = 처음부터) */
+  parentMessageId?: string | null;
+};
+
+type ChatMessageAttachmentRequest = {
+  objectKey: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  fileType: string;
 };
 
 /**
@@ -537,6 +623,8 @@ type ChatMessageSendResponse = {
   action?: ChatAction;
   /** RAG 참조 문서 목록 (출처 정보) */
   sources?: ChatSource[];
+  /** 후속 질문 제안 */
+  followUps?: string[];
 };
 
 /**
@@ -545,6 +633,14 @@ type ChatMessageSendResponse = {
 type UpstreamChatFeedbackRequest = {
   score: number;
   comment?: string;
+  /** "별로예요" 상세 사유 코드 (백엔드 미지원 시 무시됨, comment에도 요약 포함) */
+  reasons?: ChatFeedbackReason[];
+  wrongSources?: Array<{
+    docId: string;
+    title?: string;
+    page?: number;
+    articleLabel?: string;
+  }>;
 };
 
 /**
@@ -605,6 +701,96 @@ export async function getChatSessions(): Promise<ChatSessionResponse[]> {
   return [];
 }
 
+/**
+ * 세션 히스토리 메시지 (조회 전용 정규화 형태)
+ * - 검색 인덱스 등 "읽기만 하는" 용도로 사용
+ */
+export type ChatHistoryMessage = {
+  messageId: string | null;
+  role: ChatRole;
+  content: string;
+  createdAt: number;
+};
+
+function toEpochMsOr(v: unknown, fallback: number): number {
+  if (typeof v === "number" && Number.isFinite(v)) return Math.trunc(v);
+  if (typeof v === "string" && v.trim()) {
+    const ms = new Date(v.trim()).getTime();
+    if (Number.isFinite(ms)) return ms;
+  }
+  return fallback;
+}
+
+/**
+ * 세션 메시지 목록 조회 (GET CHAT_SESSION_MESSAGES_URL)
+ * - 응답이 배열/{ messages }/{ items } 어느 형태든 방어적으로 추출
+ * - content가 비어 있는 메시지는 제외
+ */
+export async function getChatSessionMessages(
+  sessionId: string
+): Promise<ChatHistoryMessage[]> {
+  if (!isUuidLike(sessionId)) return [];
+
+  const token = await ensureFreshToken();
+  if (!token) {
+    throw new Error("Not authenticated: Keycloak token is missing.");
+  }
+
+  const res = await fetchWithTimeout(
+    CHAT_SESSION_MESSAGES_URL(sessionId),
+    {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    },
+    DEFAULT_TIMEOUT_MS
+  );
+
+  if (!res.ok) {
+    const bodyText = await res.text().catch(() => "");
+    throw new Error(
+      `Get session messages failed: ${res.status} ${res.statusText}${bodyText ? ` - ${bodyText}` : ""
+      }`
+    );
+  }
+
+  const data: unknown = await res.json().catch(() => null);
+  const arr =
+    isRecord(data) && Array.isArray(data["messages"])
+      ? (data["messages"] as unknown[])
+      : extractArray(data);
+
+  const now = Date.now();
+  const out: ChatHistoryMessage[] = [];
+
+  arr.forEach((it, idx) => {
+    if (!isRecord(it)) return;
+
+    const content = extractTextLikeContent(it);
+    if (!content || !content.trim()) return;
+
+    const roleRaw = (
+      nonEmptyString(it["role"]) ??
+      nonEmptyString(it["sender"]) ??
+      ""
+    ).toLowerCase();
+
+    out.push({
+      messageId:
+        nonEmptyString(it["messageId"]) ??
+        nonEmptyString(it["message_id"]) ??
+        nonEmptyString(it["id"]),
+      role: roleRaw.includes("user") ? "user" : "assistant",
+      content,
+      createdAt: toEpochMsOr(it["createdAt"] ?? it["created_at"], now + idx),
+    });
+  });
+
+  return out;
+}
+
 async function createChatSession(
   payload: ChatSessionCreateRequest,
   token: string
@@ -639,9 +825,41 @@ async function createChatSession(
   return data as ChatSessionResponse;
 }
 
+/**
+ * 전송 전 개인정보 감지 결과 → 요청 필드
+ * - 감지되지 않았으면 필드 자체를 보내지 않는다.
+ * - "그대로 보냄"도 기록해 관리자 로그(hasPiiInput)와 함께 볼 수 있게 한다.
+ */
+function toPiiSendFields(
+  pii: ChatPiiDecision | undefined
+): Pick<ChatMessageSendRequest, "piiAction" | "piiKinds"> {
+  if (!pii || pii.kinds.length === 0) return {};
+  return {
+    piiAction: pii.action === "masked" ? "MASKED" : "SENT_AS_IS",
+    piiKinds: [...pii.kinds],
+  };
+}
+
+/** 첨부 → 요청 필드 (첨부가 없으면 필드 자체를 보내지 않는다) */
+function toAttachmentSendFields(
+  attachments: ChatAttachment[] | undefined
+): Pick<ChatMessageSendRequest, "attachments"> {
+  if (!attachments || attachments.length === 0) return {};
+  return {
+    attachments: attachments.map((a) => ({
+      objectKey: a.objectKey,
+      fileName: a.fileName,
+      contentType: a.contentType,
+      size: a.size,
+      fileType: a.fileType,
+    })),
+  };
+}
+
 async function sendChatMessage(
   payload: ChatMessageSendRequest,
-  token: string
+  token: string,
+  signal?: AbortSignal
 ): Promise<ChatMessageSendResponse> {
   const res = await fetchWithTimeout(
     CHAT_MESSAGES_ENDPOINT,
@@ -653,6 +871,7 @@ async function sendChatMessage(
         Authorization: `Bearer ${token}`,
       },
       body: JSON.stringify(payload),
+      signal,
     },
     DEFAULT_TIMEOUT_MS
   );
@@ -687,51 +906,7 @@ async function sendChatMessage(
       : new Date().toISOString();
 
   // AI 응답의 meta.action 또는 action 필드에서 액션 정보 추출
-  let action: ChatAction | undefined;
-  if (isRecord(data)) {
-    const metaObj = data["meta"];
-    const actionData = isRecord(metaObj)
-      ? metaObj["action"]
-      : data["action"];
-
-    if (isRecord(actionData) && typeof actionData["type"] === "string") {
-      action = {
-        type: actionData["type"] as ChatAction["type"],
-        educationId:
-          nonEmptyString(actionData["education_id"]) ??
-          nonEmptyString(actionData["educationId"]) ??
-          undefined,
-        videoId:
-          nonEmptyString(actionData["video_id"]) ??
-          nonEmptyString(actionData["videoId"]) ??
-          undefined,
-        resumePositionSeconds:
-          typeof actionData["resume_position_seconds"] === "number"
-            ? actionData["resume_position_seconds"]
-            : typeof actionData["resumePositionSeconds"] === "number"
-              ? actionData["resumePositionSeconds"]
-              : undefined,
-        educationTitle:
-          nonEmptyString(actionData["education_title"]) ??
-          nonEmptyString(actionData["educationTitle"]) ??
-          undefined,
-        videoTitle:
-          nonEmptyString(actionData["video_title"]) ??
-          nonEmptyString(actionData["videoTitle"]) ??
-          undefined,
-        progressPercent:
-          typeof actionData["progress_percent"] === "number"
-            ? actionData["progress_percent"]
-            : typeof actionData["progressPercent"] === "number"
-              ? actionData["progressPercent"]
-              : undefined,
-        quizId:
-          nonEmptyString(actionData["quiz_id"]) ??
-          nonEmptyString(actionData["quizId"]) ??
-          undefined,
-      };
-    }
-  }
+  const action = parseChatAction(data);
 
   // sources (RAG 참조 문서) 파싱
   let sources: ChatSource[] | undefined;
@@ -768,14 +943,43 @@ async function sendChatMessage(
     }
   }
 
-  return { messageId, role, content, createdAt, action, sources };
+  const followUps = readFollowUpQuestions(data);
+
+  return { messageId, role, content, createdAt, action, sources, followUps };
+}
+
+/**
+ * 질문 전송 요청(POST /chat/messages)을 보내기 전 단계(토큰 갱신/세션 생성)에서 실패
+ * - 서버가 질문을 받았을 리 없으므로 네트워크 문제였다면 자동으로 다시 보내도 안전하다.
+ */
+export class ChatSendNotStartedError extends Error {
+  readonly original: unknown;
+
+  constructor(original: unknown) {
+    super(original instanceof Error ? original.message : String(original ?? ""));
+    this.name = "ChatSendNotStartedError";
+    this.original = original;
+  }
+}
+
+/** 질문 전송 전 단계 실행 (실패는 ChatSendNotStartedError로 감싼다) */
+async function beforeMessageSend<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (e: unknown) {
+    throw new ChatSendNotStartedError(e);
+  }
 }
 
 /**
  * 채팅 전송 (Chat Service 9005 실제 API)
+ * - options.signal: 사용자 "생성 중단" (POST 응답 대기 중에도 요청을 끊는다)
  */
-export async function sendChatToAI(req: ChatRequest): Promise<ChatSendResult> {
-  const token = await ensureFreshToken();
+export async function sendChatToAI(
+  req: ChatRequest,
+  options?: ChatStreamOptions
+): Promise<ChatSendResult> {
+  const token = await beforeMessageSend(() => ensureFreshToken());
   if (!token) {
     throw new Error("Not authenticated: Keycloak token is missing.");
   }
@@ -814,14 +1018,16 @@ export async function sendChatToAI(req: ChatRequest): Promise<ChatSendResult> {
   if (!serverSessionId) {
     const title = makeSessionTitleFromUserText(lastUser);
     const department = getDepartmentFromKeycloak();
-    const created = await createChatSession(
-      {
-        userUuid,
-        title,
-        domain: String(serviceDomain),
-        department: department ?? undefined,
-      },
-      token
+    const created = await beforeMessageSend(() =>
+      createChatSession(
+        {
+          userUuid,
+          title,
+          domain: String(serviceDomain),
+          department: department ?? undefined,
+        },
+        token
+      )
     );
 
     serverSessionId = created.id;
@@ -838,8 +1044,12 @@ export async function sendChatToAI(req: ChatRequest): Promise<ChatSendResult> {
       content: lastUser,
       model: abModel,
       department: department ?? undefined,
+      ...toPiiSendFields(req.pii),
+      ...toAttachmentSendFields(req.attachments),
+      ...(req.parentMessageId !== undefined ? { parentMessageId: req.parentMessageId } : {}),
     },
-    token
+    token,
+    options?.signal
   );
 
   return {
@@ -850,6 +1060,7 @@ export async function sendChatToAI(req: ChatRequest): Promise<ChatSendResult> {
     createdAt: sent.createdAt,
     action: sent.action,
     sources: sent.sources,
+    followUps: sent.followUps,
   };
 }
 
@@ -861,6 +1072,9 @@ export interface ChatFeedbackRequest {
   messageId: string;
   feedback: FeedbackValue;
   comment?: string;
+  /** "별로예요" 상세 피드백 */
+  reasons?: ChatFeedbackReason[];
+  wrongSources?: ChatSource[];
 }
 
 function toScore(feedback: FeedbackValue): number | null {
@@ -890,6 +1104,15 @@ export async function sendFeedbackToAI(req: ChatFeedbackRequest): Promise<void>
     score,
     comment: req.comment ?? "",
   };
+  if (req.reasons?.length) payload.reasons = req.reasons;
+  if (req.wrongSources?.length) {
+    payload.wrongSources = req.wrongSources.map((src) => ({
+      docId: src.docId,
+      title: src.title,
+      page: src.page,
+      articleLabel: src.articleLabel,
+    }));
+  }
 
   const res = await fetchWithTimeout(
     CHAT_MESSAGE_FEEDBACK_URL(req.sessionId, req.messageId),
@@ -915,7 +1138,8 @@ export async function sendFeedbackToAI(req: ChatFeedbackRequest): Promise<void>
 
 export async function retryMessage(
   sessionId: string,
-  messageId: string
+  messageId: string,
+  options?: ChatStreamOptions
 ): Promise<ChatSendResult> {
   const token = await ensureFreshToken();
   if (!token) throw new Error("Not authenticated: Keycloak token is missing.");
@@ -932,6 +1156,7 @@ export async function retryMessage(
         Accept: "application/json",
         Authorization: `Bearer ${token}`,
       },
+      signal: options?.signal,
     },
     DEFAULT_TIMEOUT_MS
   );
@@ -983,49 +1208,7 @@ export async function retryMessage(
       new Date().toISOString();
 
     // AI 응답의 meta.action 또는 action 필드에서 액션 정보 추출 (일반 메시지와 동일)
-    let action: ChatAction | undefined;
-    const metaObj = parsed["meta"];
-    const actionData = isRecord(metaObj)
-      ? metaObj["action"]
-      : parsed["action"];
-
-    if (isRecord(actionData) && typeof actionData["type"] === "string") {
-      action = {
-        type: actionData["type"] as ChatAction["type"],
-        educationId:
-          nonEmptyString(actionData["education_id"]) ??
-          nonEmptyString(actionData["educationId"]) ??
-          undefined,
-        videoId:
-          nonEmptyString(actionData["video_id"]) ??
-          nonEmptyString(actionData["videoId"]) ??
-          undefined,
-        resumePositionSeconds:
-          typeof actionData["resume_position_seconds"] === "number"
-            ? actionData["resume_position_seconds"]
-            : typeof actionData["resumePositionSeconds"] === "number"
-              ? actionData["resumePositionSeconds"]
-              : undefined,
-        educationTitle:
-          nonEmptyString(actionData["education_title"]) ??
-          nonEmptyString(actionData["educationTitle"]) ??
-          undefined,
-        videoTitle:
-          nonEmptyString(actionData["video_title"]) ??
-          nonEmptyString(actionData["videoTitle"]) ??
-          undefined,
-        progressPercent:
-          typeof actionData["progress_percent"] === "number"
-            ? actionData["progress_percent"]
-            : typeof actionData["progressPercent"] === "number"
-              ? actionData["progressPercent"]
-              : undefined,
-        quizId:
-          nonEmptyString(actionData["quiz_id"]) ??
-          nonEmptyString(actionData["quizId"]) ??
-          undefined,
-      };
-    }
+    const action = parseChatAction(parsed);
 
     // sources (RAG 참조 문서) 파싱
     let sources: ChatSource[] | undefined;
@@ -1068,6 +1251,7 @@ export async function retryMessage(
       createdAt,
       action,
       sources,
+      followUps: readFollowUpQuestions(parsed),
     };
   }
 
@@ -1368,7 +1552,9 @@ async function postJsonWithAuth(
  */
 export async function submitReportToServer(
   payload: ReportPayload
-): Promise<{ ok: true } | { ok: false; status: number; message: string }> {
+): Promise<
+  { ok: true; reportId?: string } | { ok: false; status: number; message: string }
+> {
   const token = await ensureFreshToken();
   if (!token) {
     return { ok: false, status: 401, message: "Not authenticated" };
@@ -1389,7 +1575,8 @@ export async function submitReportToServer(
   for (const url of REPORT_ENDPOINTS) {
     try {
       const r = await postJsonWithAuth(url, token, payload, 15_000);
-      if (r.ok) return { ok: true };
+      // 응답에 신고 id가 있으면 "내 신고 내역"에서 바로 찾아갈 수 있게 돌려준다.
+      if (r.ok) return { ok: true, reportId: readReportIdFromResponse(r.text) };
       last = { status: r.status, text: r.text };
     } catch (e: unknown) {
       last = { status: 0, text: e instanceof Error ? e.message : String(e) };
@@ -1408,6 +1595,55 @@ export type ChatStreamHandlers = {
   onFinal?: (final: ChatSendResult) => void; // 최종 결과
 };
 
+export type ChatStreamOptions = {
+  /**
+   * 사용자 "생성 중단" 신호
+   * - abort되면 스트림 구독을 끊고 chat-service에 cancel을 요청한다.
+   * - 그때까지 받은 부분 답변은 stopped=true 인 최종 결과로 onFinal에 전달된다.
+   * - 질문 POST(또는 재시도 POST) 응답 전에 abort되면 AbortError로 끝난다(답변 없음).
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * 답변 생성 중단 (best-effort)
+ * - 이미 완료/없는 메시지(404/409/410)는 성공으로 간주
+ */
+export async function cancelChatMessage(messageId: string): Promise<void> {
+  const token = await ensureFreshToken();
+  if (!token) throw new Error("Not authenticated: Keycloak token is missing.");
+
+  if (!isUuidLike(messageId)) {
+    throw new Error("cancelChatMessage: messageId must be UUID.");
+  }
+
+  const res = await fetchWithTimeout(
+    buildMessageCancelUrl(messageId),
+    {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    },
+    10_000
+  );
+
+  if (res.ok) return;
+  if (res.status === 404 || res.status === 409 || res.status === 410) return;
+
+  const text = await res.text().catch(() => "");
+  throw new Error(
+    `cancelChatMessage failed: ${res.status} ${res.statusText}${text ? ` - ${text}` : ""}`
+  );
+}
+
+function requestServerCancel(messageId: string) {
+  void cancelChatMessage(messageId).catch((e: unknown) => {
+    console.warn("[chatApi] cancelChatMessage failed:", e);
+  });
+}
+
 function extractTextLikeContent(raw: unknown): string | null {
   if (typeof raw === "string") return raw;
   if (!isRecord(raw)) return null;
@@ -1450,22 +1686,60 @@ function extractTextLikeContent(raw: unknown): string | null {
   return null;
 }
 
+/**
+ * SSE 파서의 "prefix 공백" 판별 모드
+ * - 재연결 시에도 같은 모드를 유지해야 띄어쓰기가 흔들리지 않는다.
+ */
+type SsePrefixMode = "unknown" | "stripOneLeadingSpace" | "keepAsIs";
+
+/**
+ * SSE 재연결(resume) 상태
+ * - 한 번의 답변(messageId)에 대해 여러 번의 연결 시도가 이 상태를 공유한다.
+ */
+type SseResumeState = {
+  /** 마지막으로 처리한 이벤트 id (Last-Event-ID 헤더로 전달) */
+  lastEventId: string | null;
+  /** 이미 처리한 이벤트 id (서버가 처음부터 재전송하는 경우 중복 제거) */
+  seenEventIds: Set<string>;
+  /** 서버가 retry: 필드로 알려준 재연결 대기 시간(ms) */
+  retryMs: number | null;
+  /** 답변 완료 여부 ([DONE] 수신, 또는 이벤트 id 없는 서버의 EOF) */
+  completed: boolean;
+  prefixMode: SsePrefixMode;
+};
+
+function createSseResumeState(): SseResumeState {
+  return {
+    lastEventId: null,
+    seenEventIds: new Set<string>(),
+    retryMs: null,
+    completed: false,
+    prefixMode: "unknown",
+  };
+}
+
 async function streamMessageByIdSSE(
   messageId: string,
   token: string,
-  onDelta: (delta: string) => void
+  onDelta: (delta: string) => void,
+  resume: SseResumeState = createSseResumeState(),
+  signal?: AbortSignal
 ): Promise<{ content: string }> {
   const url = buildMessageStreamUrl(messageId);
 
+  const headers: Record<string, string> = {
+    Accept: "text/event-stream",
+    Authorization: `Bearer ${token}`,
+    "Cache-Control": "no-cache",
+  };
+  if (resume.lastEventId) headers["Last-Event-ID"] = resume.lastEventId;
+
   const res = await fetchWithTimeout(
     url,
     {
       method: "GET",
-      headers: {
-        Accept: "text/event-stream",
-        Authorization: `Bearer ${token}`,
-        "Cache-Control": "no-cache",
-      },
+      headers,
+      signal,
     },
     SSE_TIMEOUT_MS
   );
@@ -1486,17 +1760,27 @@ async function streamMessageByIdSSE(
       const txt = extractTextLikeContent(j);
       const out = txt ?? "";
       if (out) onDelta(out);
+      resume.completed = true;
       return { content: out };
     }
 
     const t = await res.text().catch(() => "");
     if (t) onDelta(t);
+    resume.completed = true;
     return { content: t };
   }
 
   const reader = res.body?.getReader();
   if (!reader) throw new Error("SSE response has no body reader");
 
+  // 사용자 중단: 본문 읽기 중에도 즉시 구독을 끊는다.
+  const onAbort = () => {
+    reader.cancel().catch(() => {
+      // ignore
+    });
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+
   const decoder = new TextDecoder("utf-8");
   let buffer = "";
   let acc = "";
@@ -1528,8 +1812,8 @@ async function streamMessageByIdSSE(
   // --- (핵심) data: 뒤의 "관례적 1공백" 존재 여부를 자동 판별 ---
   // prefix가 "data: "인 서버: 모든 data payload가 항상 공백으로 시작(토큰이 공백 없어도)
   // prefix가 "data:"인 서버: payload가 공백/비공백이 섞여 나옴(토큰 선행 공백이 실제 띄어쓰기)
-  type PrefixMode = "unknown" | "stripOneLeadingSpace" | "keepAsIs";
-  let prefixMode: PrefixMode = "unknown";
+  // 재연결 시에는 직전 연결에서 판별한 모드를 그대로 이어서 사용
+  let prefixMode: SsePrefixMode = resume.prefixMode;
   const prebuffer: string[] = [];
   const PREBUFFER_LIMIT = 20;
 
@@ -1558,6 +1842,7 @@ async function streamMessageByIdSSE(
       // 하나라도 "공백으로 시작하지 않는 delta"가 나오면 → data:(공백 없음) 스타일로 판단
       if (!rawDelta.startsWith(" ")) {
         prefixMode = "keepAsIs";
+        resume.prefixMode = prefixMode;
         flushPrebuffer();
         return;
       }
@@ -1565,6 +1850,7 @@ async function streamMessageByIdSSE(
       // 일정 샘플 동안 계속 공백으로 시작하면 → data: (관례적 1공백) 스타일로 판단
       if (prebuffer.length >= PREBUFFER_LIMIT) {
         prefixMode = "stripOneLeadingSpace";
+        resume.prefixMode = prefixMode;
         flushPrebuffer();
       }
       return;
@@ -1588,6 +1874,7 @@ async function streamMessageByIdSSE(
 
       const lines = rawEvent.split("\n");
       let eventName = "";
+      let eventId: string | null = null;
       const dataLines: string[] = [];
 
       for (const line of lines) {
@@ -1605,8 +1892,27 @@ async function streamMessageByIdSSE(
           // 여기서 공백이 잘려서 '띄어쓰기 없는' 스트림 출력이 된다.
           const v = line.slice("data:".length); // 공백 포함 원문 보존
           dataLines.push(v);
+          continue;
+        }
+
+        // 재연결(resume)용 필드: id:, retry:
+        if (line.startsWith("id:")) {
+          const v = line.slice("id:".length);
+          eventId = v.startsWith(" ") ? v.slice(1) : v;
+          continue;
+        }
+
+        if (line.startsWith("retry:")) {
+          const ms = Number(line.slice("retry:".length).trim());
+          if (Number.isFinite(ms) && ms >= 0) resume.retryMs = ms;
         }
-        // 기타 필드(id:, retry:) 등은 무시
+      }
+
+      // 이미 처리한 이벤트(서버가 재연결 시 처음부터 다시 보낸 경우)는 건너뜀
+      if (eventId) {
+        if (resume.seenEventIds.has(eventId)) continue;
+        resume.seenEventIds.add(eventId);
+        resume.lastEventId = eventId;
       }
 
       // data 라인이 0개면 의미 있는 이벤트가 아님
@@ -1620,6 +1926,7 @@ async function streamMessageByIdSSE(
       // 서버 스펙: token 이벤트에서 [DONE]
       if (dataControl === "[DONE]") {
         done = true;
+        resume.completed = true;
         break;
       }
 
@@ -1645,42 +1952,186 @@ async function streamMessageByIdSSE(
     }
   };
 
-  while (true) {
-    const r = await reader.read();
-    if (r.done) break;
+  // 스트림이 짧아서 prefix 판별이 끝나지 않은 채 종료될 수 있음 → 안전하게 flush
+  // (연결이 중간에 끊긴 경우에도 이미 받은 델타는 화면에 반영되어야 재연결 시 중복이 없다)
+  const flushPendingPrebuffer = () => {
+    if (prebuffer.length === 0) return;
+    if (prefixMode === "unknown") {
+      // 끝까지 "공백 시작"만 봤다면 data: <payload> 스타일일 확률이 높음
+      prefixMode = "stripOneLeadingSpace";
+      resume.prefixMode = prefixMode;
+    }
+    flushPrebuffer();
+  };
 
-    const chunk = r.value ? decoder.decode(r.value, { stream: true }) : "";
-    if (!chunk) continue;
+  try {
+    while (true) {
+      const r = await reader.read();
+      if (r.done) break;
 
-    buffer += chunk;
-    flushEvents();
+      const chunk = r.value ? decoder.decode(r.value, { stream: true }) : "";
+      if (!chunk) continue;
 
-    if (done) {
-      try {
-        await reader.cancel();
-      } catch {
-        // ignore
+      buffer += chunk;
+      flushEvents();
+
+      if (done) {
+        try {
+          await reader.cancel();
+        } catch {
+          // ignore
+        }
+        break;
       }
-      break;
     }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    flushPendingPrebuffer();
   }
 
+  // 중단으로 끊긴 경우는 완료로 취급하지 않는다.
+  if (signal?.aborted) return { content: acc };
+
   // tail 처리: trim 금지(공백/개행만 남아도 이벤트가 될 수 있음)
   if (!done && buffer.length > 0) {
     buffer += "\n\n";
     flushEvents();
   }
 
-  // 스트림이 짧아서 prefix 판별이 끝나지 않은 채 종료될 수 있음 → 안전하게 flush
-  if (prebuffer.length > 0) {
-    if (prefixMode === "unknown") {
-      // 끝까지 "공백 시작"만 봤다면 data: <payload> 스타일일 확률이 높음
-      prefixMode = "stripOneLeadingSpace";
+  flushPendingPrebuffer();
+
+  // EOF만으로는 완료인지 알 수 없다: 프록시/LB가 끊어도 깨끗한 EOF로 보인다.
+  // - 이벤트 id를 한 번도 받지 않은 서버(구버전)는 [DONE] 없이 EOF로 끝내므로 완료로 간주
+  // - id를 받은 적이 있으면 [DONE]을 받을 때까지 Last-Event-ID로 이어받는다
+  if (resume.lastEventId === null) resume.completed = true;
+
+  return { content: acc };
+}
+
+function sleepMs(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((r) => {
+    if (signal?.aborted) {
+      r();
+      return;
+    }
+    const t = window.setTimeout(done, ms);
+    function done() {
+      window.clearTimeout(t);
+      signal?.removeEventListener("abort", done);
+      r();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * 히스토리(CHAT_SESSION_MESSAGES_URL)에서 완성된 assistant 메시지 본문 조회
+ * - 스트림 재연결이 모두 실패했을 때의 마지막 fallback
+ * - 아직 생성 중이면 content가 비어 있을 수 있어 몇 번 재시도한다.
+ */
+async function fetchFinalMessageContent(
+  sessionId: string,
+  messageId: string
+): Promise<string | null> {
+  if (!isUuidLike(sessionId)) return null;
+
+  for (let attempt = 0; attempt < FINAL_MESSAGE_FETCH_ATTEMPTS; attempt += 1) {
+    if (attempt > 0) await sleepMs(FINAL_MESSAGE_FETCH_DELAY_MS);
+
+    try {
+      const messages = await getChatSessionMessages(sessionId);
+      const found = messages.find((m) => m.messageId === messageId);
+      if (found) return found.content;
+    } catch (e: unknown) {
+      console.warn("[chatApi] fetchFinalMessageContent failed:", e);
     }
-    flushPrebuffer();
   }
 
-  return { content: acc };
+  return null;
+}
+
+/**
+ * 끊겨도 이어받는 SSE 스트림
+ * - 연결이 중간에 끊기면 Last-Event-ID로 재연결(지수 backoff)
+ * - 서버가 이벤트 id 없이 처음부터 다시 보내면, 이미 onDelta로 내보낸 길이만큼 건너뜀
+ * - 재연결이 모두 실패하면 히스토리에서 완성된 메시지를 가져와 남은 부분만 onDelta로 보냄
+ * - 그래도 실패하면 throw (호출부 fallback 처리)
+ * - signal이 abort되면 재연결하지 않고 지금까지의 부분 답변을 stopped로 반환
+ */
+async function streamMessageWithResume(
+  sessionId: string,
+  messageId: string,
+  token: string,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<{ content: string; stopped: boolean }> {
+  const resume = createSseResumeState();
+
+  // 지금까지 화면(onDelta)에 내보낸 전체 텍스트
+  let emitted = "";
+  // id 없는 서버가 처음부터 재전송할 때 건너뛸 글자 수
+  let replaySkip = 0;
+
+  const emit = (delta: string) => {
+    let d = delta;
+    if (replaySkip > 0) {
+      if (d.length <= replaySkip) {
+        replaySkip -= d.length;
+        return;
+      }
+      d = d.slice(replaySkip);
+      replaySkip = 0;
+    }
+    if (!d) return;
+    emitted += d;
+    onDelta(d);
+  };
+
+  let lastError: unknown = null;
+  let currentToken = token;
+
+  for (let attempt = 0; attempt <= SSE_RESUME_MAX_ATTEMPTS; attempt += 1) {
+    if (signal?.aborted) return { content: emitted, stopped: true };
+
+    if (attempt > 0) {
+      const base = resume.retryMs ?? SSE_RESUME_BASE_DELAY_MS;
+      const delay = Math.min(SSE_RESUME_MAX_DELAY_MS, base * 2 ** (attempt - 1));
+      console.info(
+        `[chatApi] SSE reconnect #${attempt} in ${delay}ms (lastEventId=${resume.lastEventId ?? "-"})`
+      );
+      await sleepMs(delay, signal);
+      if (signal?.aborted) return { content: emitted, stopped: true };
+
+      currentToken = (await ensureFreshToken()) ?? currentToken;
+
+      // 이벤트 id를 받은 적이 없으면 Last-Event-ID로 이어받을 수 없으므로
+      // 서버가 처음부터 다시 보낸다고 가정하고 이미 보여준 만큼 건너뛴다.
+      replaySkip = resume.lastEventId ? 0 : emitted.length;
+    }
+
+    try {
+      await streamMessageByIdSSE(messageId, currentToken, emit, resume, signal);
+      if (signal?.aborted) return { content: emitted, stopped: true };
+      if (resume.completed) return { content: emitted, stopped: false };
+    } catch (err: unknown) {
+      if (signal?.aborted) return { content: emitted, stopped: true };
+      lastError = err;
+      console.warn(`[chatApi] SSE stream interrupted (attempt ${attempt + 1})`, err);
+    }
+  }
+
+  // 재연결 실패 → 완성된 메시지를 히스토리에서 조회
+  const finalContent = await fetchFinalMessageContent(sessionId, messageId);
+  if (finalContent) {
+    if (finalContent.startsWith(emitted)) {
+      const rest = finalContent.slice(emitted.length);
+      if (rest) onDelta(rest);
+    }
+    // prefix가 다르면 onFinal의 최종 content로 교체된다.
+    return { content: finalContent, stopped: false };
+  }
+
+  throw lastError ?? new Error("SSE stream could not be resumed");
 }
 
 /**
@@ -1691,9 +2142,12 @@ async function streamMessageByIdSSE(
  */
 export async function sendChatToAIStream(
   req: ChatRequest,
-  handlers: ChatStreamHandlers
+  handlers: ChatStreamHandlers,
+  options?: ChatStreamOptions
 ): Promise<ChatSendResult> {
-  const token = await ensureFreshToken();
+  const signal = options?.signal;
+
+  const token = await beforeMessageSend(() => ensureFreshToken());
   if (!token) throw new Error("Not authenticated: Keycloak token is missing.");
 
   const userUuid = getUserUuidFromKeycloak();
@@ -1726,9 +2180,11 @@ export async function sendChatToAIStream(
     const serviceDomain = toChatServiceDomain(uiDomain, tokenDomain ?? "POLICY");
     const department = getDepartmentFromKeycloak();
 
-    const created = await createChatSession(
-      { userUuid, title, domain: String(serviceDomain), department: department ?? undefined },
-      token
+    const created = await beforeMessageSend(() =>
+      createChatSession(
+        { userUuid, title, domain: String(serviceDomain), department: department ?? undefined },
+        token
+      )
     );
     serverSessionId = created.id;
     setSessionMap(userUuid, clientSessionKey, created.id);
@@ -1738,43 +2194,69 @@ export async function sendChatToAIStream(
   const abModel = (req as unknown as { model?: string | null }).model ?? null;
   const department = getDepartmentFromKeycloak();
 
-  // 2) 먼저 POST /chat/messages 로 messageId 확보
+  // 2) 먼저 POST /chat/messages 로 messageId 확보 (중단하면 POST 대기도 끊는다)
   const sent = await sendChatMessage(
     {
       sessionId: serverSessionId,
       content: lastUser,
       model: abModel,
       department: department ?? undefined,
+      ...toPiiSendFields(req.pii),
+      ...toAttachmentSendFields(req.attachments),
+      ...(req.parentMessageId !== undefined ? { parentMessageId: req.parentMessageId } : {}),
     },
-    token
+    token,
+    signal
   );
 
-  // 3) 그 다음 GET /chat/messages/{messageId}/stream 으로 SSE 구독
+  // 3) 그 다음 GET /chat/messages/{messageId}/stream 으로 SSE 구독 (끊기면 이어받기)
   let streamed = "";
+  let rendered = "";
+  let stopped = Boolean(signal?.aborted);
+  const onDelta = (delta: string) => {
+    rendered += delta;
+    handlers.onDelta(delta);
+  };
+
   try {
-    const r = await streamMessageByIdSSE(
-      sent.messageId,
-      token,
-      handlers.onDelta
-    );
-    streamed = r.content;
+    if (!stopped) {
+      const r = await streamMessageWithResume(
+        serverSessionId,
+        sent.messageId,
+        token,
+        onDelta,
+        signal
+      );
+      streamed = r.content;
+      stopped = r.stopped;
+    }
   } catch (err: unknown) {
     console.warn(
       "[chatApi] SSE stream failed; falling back to non-stream response",
       err
     );
     // SSE가 실패하거나 서버가 스트림을 안 주는 경우: UX를 위해 최소 1회 델타로라도 반영
-    const fallback = sent.content || "응답이 비어 있습니다.";
-    handlers.onDelta(fallback);
+    // (이미 일부가 화면에 나갔다면 중복으로 붙이지 않고 최종 content로만 교체)
+    const fallback = sent.content || rendered || "응답이 비어 있습니다.";
+    if (!rendered) onDelta(fallback);
     streamed = fallback;
   }
 
+  // 사용자가 중단한 경우: 서버 생성도 멈추고, 받은 만큼만 최종 답변으로 남긴다.
+  if (stopped) requestServerCancel(sent.messageId);
+
   const final: ChatSendResult = {
     sessionId: serverSessionId,
     messageId: sent.messageId,
     role: "assistant",
-    content: streamed || sent.content || "응답이 비어 있습니다.",
+    content: stopped
+      ? rendered
+      : streamed || sent.content || "응답이 비어 있습니다.",
     createdAt: sent.createdAt || new Date().toISOString(),
+    action: stopped ? undefined : sent.action,
+    sources: stopped ? undefined : sent.sources,
+    stopped: stopped || undefined,
+    followUps: stopped ? undefined : sent.followUps,
   };
 
   handlers.onFinal?.(final);
@@ -1789,8 +2271,11 @@ export async function sendChatToAIStream(
 export async function retryMessageStream(
   sessionId: string,
   messageId: string,
-  handlers: ChatStreamHandlers
+  handlers: ChatStreamHandlers,
+  options?: ChatStreamOptions
 ): Promise<ChatSendResult> {
+  const signal = options?.signal;
+
   const token = await ensureFreshToken();
   if (!token) throw new Error("Not authenticated: Keycloak token is missing.");
 
@@ -1799,32 +2284,56 @@ export async function retryMessageStream(
   }
 
   // 1) 먼저 retryMessage를 호출하여 새 messageId 확보
-  const retryResult = await retryMessage(sessionId, messageId);
+  const retryResult = await retryMessage(sessionId, messageId, { signal });
   const newMessageId = retryResult.messageId;
 
-  // 2) 새 messageId로 스트리밍 시작
+  // 2) 새 messageId로 스트리밍 시작 (끊기면 이어받기)
   let streamed = "";
+  let rendered = "";
+  let stopped = Boolean(signal?.aborted);
+  const onDelta = (delta: string) => {
+    rendered += delta;
+    handlers.onDelta(delta);
+  };
+
   try {
-    const r = await streamMessageByIdSSE(newMessageId, token, handlers.onDelta);
-    streamed = r.content;
+    if (!stopped) {
+      const r = await streamMessageWithResume(
+        retryResult.sessionId ?? sessionId,
+        newMessageId,
+        token,
+        onDelta,
+        signal
+      );
+      streamed = r.content;
+      stopped = r.stopped;
+    }
   } catch (err: unknown) {
     console.warn(
       "[chatApi] retryMessageStream SSE failed; falling back to non-stream response",
       err
     );
     // SSE가 실패하거나 서버가 스트림을 안 주는 경우: UX를 위해 최소 1회 델타로라도 반영
-    const fallback = retryResult.content || "응답이 비어 있습니다.";
-    handlers.onDelta(fallback);
+    // (이미 일부가 화면에 나갔다면 중복으로 붙이지 않고 최종 content로만 교체)
+    const fallback = retryResult.content || rendered || "응답이 비어 있습니다.";
+    if (!rendered) onDelta(fallback);
     streamed = fallback;
   }
 
+  if (stopped) requestServerCancel(newMessageId);
+
   const final: ChatSendResult = {
     sessionId: retryResult.sessionId ?? sessionId,
     messageId: newMessageId,
     role: "assistant",
-    content: streamed || retryResult.content || "응답이 비어 있습니다.",
+    content: stopped
+      ? rendered
+      : streamed || retryResult.content || "응답이 비어 있습니다.",
     createdAt: retryResult.createdAt || new Date().toISOString(),
-    action: retryResult.action,
+    action: stopped ? undefined : retryResult.action,
+    sources: stopped ? undefined : retryResult.sources,
+    stopped: stopped || undefined,
+    followUps: stopped ? undefined : retryResult.followUps,
   };
 
   handlers.onFinal?.(final);
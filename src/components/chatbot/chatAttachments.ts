@@ -0,0 +1,226 @@
+// src/components/chatbot/chatAttachments.ts
+import type { ChatAttachment } from "../../types/chat";
+import {
+  presignDownload,
+  presignUpload,
+  type PresignFileType,
+} from "./infraPresignApi";
+import { putWithProxyFallback, type PutProgress } from "./s3Transfer";
+
+/**
+ * 챗봇 질문 첨부 (이미지 / 문서)
+ * - 업로드: presign(upload) → direct PUT (실패 시 proxy PUT)
+ * - 요청에는 object key만 싣고, 말풍선 미리보기/열기는 presign(download)로 변환
+ * - 방금 올린 이미지는 로컬 blob URL로 먼저 보여준다(presign 왕복 없이)
+ *   → 첨부를 빼거나 보낸 말풍선이 사라지면 releaseChatAttachmentPreview로 해제
+ * - 서버 히스토리의 첨부 메타데이터는 parseChatAttachments로 복원
+ */
+
+export type ChatAttachmentRule = {
+  label: string;
+  maxBytes: number;
+  /** 허용 MIME (브라우저가 type을 비워 주는 경우 확장자로 판별) */
+  mimeTypes: string[];
+  extensions: string[];
+};
+
+/** PresignFileType별 허용 규칙 (null = 챗봇 첨부 불가) */
+export const CHAT_ATTACHMENT_RULES: Record<PresignFileType, ChatAttachmentRule | null> = {
+  image: {
+    label: "이미지",
+    maxBytes: 10 * 1024 * 1024,
+    mimeTypes: ["image/png", "image/jpeg", "image/gif", "image/webp"],
+    extensions: ["png", "jpg", "jpeg", "gif", "webp"],
+  },
+  docs: {
+    label: "문서",
+    maxBytes: 20 * 1024 * 1024,
+    mimeTypes: [
+      "application/pdf",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "application/vnd.ms-powerpoint",
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+      "application/x-hwp",
+      "application/haansofthwp",
+      "application/vnd.hancom.hwpx",
+      "text/plain",
+      "text/csv",
+    ],
+    extensions: ["pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx", "hwp", "hwpx", "txt", "csv"],
+  },
+  // 영상은 교육 콘텐츠 전용 (질문 첨부로는 받지 않음)
+  video: null,
+};
+
+export const MAX_CHAT_ATTACHMENTS = 5;
+
+/** 파일 선택 창의 accept 값 */
+export const CHAT_ATTACHMENT_ACCEPT = Object.values(CHAT_ATTACHMENT_RULES)
+  .flatMap((rule) => (rule ? [...rule.mimeTypes, ...rule.extensions.map((e) => `.${e}`)] : []))
+  .join(",");
+
+export function formatAttachmentBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+function extensionOf(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : "";
+}
+
+function matchRule(file: File): Exclude<PresignFileType, "video"> | null {
+  const mime = (file.type || "").toLowerCase();
+  const ext = extensionOf(file.name);
+
+  for (const type of ["image", "docs"] as const) {
+    const rule = CHAT_ATTACHMENT_RULES[type];
+    if (!rule) continue;
+    if (mime && rule.mimeTypes.includes(mime)) return type;
+    if (ext && rule.extensions.includes(ext)) return type;
+  }
+  return null;
+}
+
+export type ChatAttachmentCheck =
+  | { ok: true; fileType: Exclude<PresignFileType, "video"> }
+  | { ok: false; reason: string };
+
+/** 종류/용량 검사 (업로드 전에 한 번) */
+export function checkChatAttachment(file: File): ChatAttachmentCheck {
+  const fileType = matchRule(file);
+  if (!fileType) {
+    return {
+      ok: false,
+      reason: `${file.name}: 이미지(PNG/JPG/GIF/WEBP)나 문서(PDF/Office/한글/TXT)만 첨부할 수 있어요.`,
+    };
+  }
+
+  const rule = CHAT_ATTACHMENT_RULES[fileType];
+  if (rule && file.size > rule.maxBytes) {
+    return {
+      ok: false,
+      reason: `${file.name}: ${rule.label}는 ${formatAttachmentBytes(rule.maxBytes)}까지 첨부할 수 있어요.`,
+    };
+  }
+  if (file.size === 0) {
+    return { ok: false, reason: `${file.name}: 빈 파일은 첨부할 수 없어요.` };
+  }
+
+  return { ok: true, fileType };
+}
+
+/* =========================
+   업로드 / 열기
+========================= */
+
+/** 방금 올린 이미지의 로컬 미리보기 (objectKey → blob URL) */
+const localPreviewUrls = new Map<string, string>();
+
+export async function uploadChatAttachment(
+  file: File,
+  fileType: Exclude<PresignFileType, "video">,
+  opts?: { signal?: AbortSignal; onProgress?: (p: PutProgress) => void }
+): Promise<ChatAttachment> {
+  const contentType = file.type || "application/octet-stream";
+  const presigned = await presignUpload(
+    { type: fileType, fileName: file.name, contentType },
+    { signal: opts?.signal }
+  );
+
+  await putWithProxyFallback(presigned.url, presigned.proxyPutUrl, file, {
+    contentType,
+    signal: opts?.signal,
+    onProgress: opts?.onProgress,
+  });
+
+  if (fileType === "image" && typeof URL.createObjectURL === "function") {
+    localPreviewUrls.set(presigned.objectKey, URL.createObjectURL(file));
+  }
+
+  return {
+    fileName: file.name,
+    objectKey: presigned.objectKey,
+    contentType,
+    size: file.size,
+    fileType,
+  };
+}
+
+/** 썸네일/열기용 URL (로컬 미리보기가 있으면 그대로 사용) */
+export async function resolveChatAttachmentUrl(att: ChatAttachment): Promise<string> {
+  const local = localPreviewUrls.get(att.objectKey);
+  if (local) return local;
+
+  const { url } = await presignDownload(att.objectKey, { type: att.fileType });
+  return url;
+}
+
+/** 이미지 썸네일이 동기로 바로 보일 수 있는지 (로컬 미리보기) */
+export function getLocalChatAttachmentPreview(att: ChatAttachment): string | null {
+  return localPreviewUrls.get(att.objectKey) ?? null;
+}
+
+/** 로컬 미리보기 blob URL 해제 (이후에는 presign download로 연다) */
+export function releaseChatAttachmentPreview(objectKey: string): void {
+  const url = localPreviewUrls.get(objectKey);
+  if (!url) return;
+  localPreviewUrls.delete(objectKey);
+  if (typeof URL.revokeObjectURL === "function") URL.revokeObjectURL(url);
+}
+
+/* =========================
+   서버 히스토리 복원
+========================= */
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is JsonRecord {
+  return typeof v === "object" && v !== null;
+}
+
+function nonEmptyString(v: unknown): string | null {
+  return typeof v === "string" && v.trim().length > 0 ? v.trim() : null;
+}
+
+function parseChatAttachment(v: unknown): ChatAttachment | null {
+  if (!isRecord(v)) return null;
+
+  const objectKey = nonEmptyString(v["objectKey"]) ?? nonEmptyString(v["object_key"]);
+  if (!objectKey) return null;
+
+  const fileName =
+    nonEmptyString(v["fileName"]) ??
+    nonEmptyString(v["file_name"]) ??
+    objectKey.split("/").pop() ??
+    objectKey;
+  const contentType =
+    nonEmptyString(v["contentType"]) ??
+    nonEmptyString(v["content_type"]) ??
+    "application/octet-stream";
+  const size = typeof v["size"] === "number" && Number.isFinite(v["size"]) ? v["size"] : 0;
+
+  const rawType = (nonEmptyString(v["fileType"]) ?? nonEmptyString(v["file_type"]) ?? "").toLowerCase();
+  const fileType: ChatAttachment["fileType"] =
+    rawType === "image" || rawType === "docs"
+      ? rawType
+      : contentType.toLowerCase().startsWith("image/")
+        ? "image"
+        : "docs";
+
+  return { fileName, objectKey, contentType, size, fileType };
+}
+
+/** 서버 히스토리 메시지의 attachments 필드 → ChatAttachment[] (없거나 비면 undefined) */
+export function parseChatAttachments(v: unknown): ChatAttachment[] | undefined {
+  if (!Array.isArray(v)) return undefined;
+  const parsed = v.flatMap((it) => {
+    const att = parseChatAttachment(it);
+    return att ? [att] : [];
+  });
+  return parsed.length > 0 ? parsed : undefined;
+}
@@ -0,0 +1,404 @@
+// src/components/chatbot/chatBranches.ts
+import type {
+  ChatBranchPoint,
+  ChatBranchVariant,
+  ChatMessage,
+  ChatSession,
+} from "../../types/chat";
+
+/**
+ * 대화 분기(branch) 유틸
+ * - session.messages는 항상 "현재 선택된 경로"
+ * - 질문 수정/다시 시도 시 분기 지점 이후(tail)를 variant로 보관하고 새 tail을 시작
+ * - 전환 시 현재 tail(하위 분기 포함)을 보관하고 선택한 variant의 tail을 펼친다.
+ * - 분기 구조는 서버 세션별로 localStorage에 보관하고, 전송 시에는 현재 경로만 문맥으로 쓰도록 서버에 알린다.
+ */
+
+/** 메시지 하나에 붙는 분기 표시 정보 ("2/3") */
+export type ChatBranchInfo = {
+  afterMessageId: string | null;
+  index: number;
+  count: number;
+};
+
+function anchorIndex(messages: ChatMessage[], afterMessageId: string | null): number {
+  if (afterMessageId === null) return -1;
+  return messages.findIndex((m) => m.id === afterMessageId);
+}
+
+/** 분기 지점들을 prefix(공유 구간)와 tail(잘려 나가는 구간) 소속으로 나눈다 */
+function splitBranches(
+  branches: ChatBranchPoint[],
+  tailIds: Set<string>
+): { kept: ChatBranchPoint[]; nested: ChatBranchPoint[] } {
+  const kept: ChatBranchPoint[] = [];
+  const nested: ChatBranchPoint[] = [];
+  for (const b of branches) {
+    if (b.afterMessageId !== null && tailIds.has(b.afterMessageId)) nested.push(b);
+    else kept.push(b);
+  }
+  return { kept, nested };
+}
+
+function toVariant(messages: ChatMessage[], branches: ChatBranchPoint[]): ChatBranchVariant {
+  return branches.length > 0 ? { messages, branches } : { messages };
+}
+
+/**
+ * afterMessageId 뒤에서 대화를 분기
+ * - 현재 tail은 기존/새 분기 지점의 variant로 보관, messages는 afterMessageId까지로 잘림
+ * - 이후 호출자가 새 tail(질문/답변)을 messages 뒤에 붙이면 그것이 새 variant가 된다.
+ * - tail이 비어 있거나 afterMessageId를 찾지 못하면 그대로 반환
+ */
+export function forkSessionAt(session: ChatSession, afterMessageId: string | null): ChatSession {
+  const idx = anchorIndex(session.messages, afterMessageId);
+  if (afterMessageId !== null && idx < 0) return session;
+
+  const prefix = session.messages.slice(0, idx + 1);
+  const tail = session.messages.slice(idx + 1);
+  if (tail.length === 0) return session;
+
+  const { kept, nested } = splitBranches(
+    session.branches ?? [],
+    new Set(tail.map((m) => m.id))
+  );
+
+  const existing = kept.find((b) => b.afterMessageId === afterMessageId);
+  const others = kept.filter((b) => b !== existing);
+
+  const point: ChatBranchPoint = existing
+    ? {
+        ...existing,
+        variants: [
+          ...existing.variants.map((v, i) =>
+            i === existing.activeIndex ? toVariant(tail, nested) : v
+          ),
+          { messages: [] },
+        ],
+        activeIndex: existing.variants.length,
+      }
+    : {
+        afterMessageId,
+        variants: [toVariant(tail, nested), { messages: [] }],
+        activeIndex: 1,
+      };
+
+  return { ...session, messages: prefix, branches: [...others, point] };
+}
+
+/**
+ * 분기 전환 ("‹ 2/3 ›")
+ * - 현재 tail을 보관하고 nextIndex variant의 tail/하위 분기를 펼친다.
+ */
+export function switchSessionBranch(
+  session: ChatSession,
+  afterMessageId: string | null,
+  nextIndex: number
+): ChatSession {
+  const point = session.branches?.find((b) => b.afterMessageId === afterMessageId);
+  if (!point) return session;
+  if (nextIndex === point.activeIndex) return session;
+  if (nextIndex < 0 || nextIndex >= point.variants.length) return session;
+
+  const idx = anchorIndex(session.messages, afterMessageId);
+  if (afterMessageId !== null && idx < 0) return session;
+
+  const prefix = session.messages.slice(0, idx + 1);
+  const tail = session.messages.slice(idx + 1);
+
+  const { kept, nested } = splitBranches(
+    (session.branches ?? []).filter((b) => b !== point),
+    new Set(tail.map((m) => m.id))
+  );
+
+  const target = point.variants[nextIndex];
+  const nextPoint: ChatBranchPoint = {
+    ...point,
+    variants: point.variants.map((v, i) => {
+      if (i === point.activeIndex) return toVariant(tail, nested);
+      if (i === nextIndex) return { messages: [] };
+      return v;
+    }),
+    activeIndex: nextIndex,
+  };
+
+  return {
+    ...session,
+    messages: [...prefix, ...target.messages],
+    branches: [...kept, nextPoint, ...(target.branches ?? [])],
+  };
+}
+
+/**
+ * 방금 만든(활성) variant를 버리고 직전 variant로 복귀
+ * - 다시 시도가 실패해 다른 방식으로 재전송할 때, 빈/부분 답변 분기를 남기지 않기 위함
+ */
+export function discardActiveBranch(
+  session: ChatSession,
+  afterMessageId: string | null
+): ChatSession {
+  const point = session.branches?.find((b) => b.afterMessageId === afterMessageId);
+  if (!point || point.variants.length < 2) return session;
+
+  const idx = anchorIndex(session.messages, afterMessageId);
+  if (afterMessageId !== null && idx < 0) return session;
+
+  const prefix = session.messages.slice(0, idx + 1);
+  const tail = session.messages.slice(idx + 1);
+  const tailIds = new Set(tail.map((m) => m.id));
+
+  const others = (session.branches ?? []).filter(
+    (b) => b !== point && (b.afterMessageId === null || !tailIds.has(b.afterMessageId))
+  );
+
+  const remaining = point.variants.filter((_, i) => i !== point.activeIndex);
+  const restoreIndex = Math.min(point.activeIndex, remaining.length) - 1;
+  const restored = remaining[Math.max(0, restoreIndex)];
+
+  const nextPoint: ChatBranchPoint | null =
+    remaining.length > 1
+      ? {
+          ...point,
+          variants: remaining.map((v) => (v === restored ? { messages: [] } : v)),
+          activeIndex: Math.max(0, restoreIndex),
+        }
+      : null;
+
+  return {
+    ...session,
+    messages: [...prefix, ...restored.messages],
+    branches: [...others, ...(nextPoint ? [nextPoint] : []), ...(restored.branches ?? [])],
+  };
+}
+
+/**
+ * 현재 경로에서 각 분기 tail의 첫 메시지 → 분기 표시 정보
+ */
+export function getBranchInfoByMessageId(session: ChatSession | null): Map<string, ChatBranchInfo> {
+  const out = new Map<string, ChatBranchInfo>();
+  if (!session?.branches?.length) return out;
+
+  for (const b of session.branches) {
+    const idx = anchorIndex(session.messages, b.afterMessageId);
+    if (b.afterMessageId !== null && idx < 0) continue;
+    const first = session.messages[idx + 1];
+    if (!first) continue;
+    out.set(first.id, {
+      afterMessageId: b.afterMessageId,
+      index: b.activeIndex,
+      count: b.variants.length,
+    });
+  }
+
+  return out;
+}
+
+/**
+ * 서버 히스토리 → 분기 복원
+ * - 서버는 다시 시도한 답변을 같은 질문 뒤에 연속된 assistant 메시지로 저장한다.
+ * - 연속 assistant 묶음은 마지막 답변을 현재 경로로, 이전 답변들을 variant로 접는다.
+ *   (각 답변의 serverId가 그대로 남아 피드백 대상이 어긋나지 않는다.)
+ */
+export function foldServerRetryBranches(messages: ChatMessage[]): {
+  messages: ChatMessage[];
+  branches: ChatBranchPoint[];
+} {
+  const path: ChatMessage[] = [];
+  const branches: ChatBranchPoint[] = [];
+
+  let i = 0;
+  while (i < messages.length) {
+    const m = messages[i];
+    path.push(m);
+    i += 1;
+
+    if (m.role !== "user") continue;
+
+    const answers: ChatMessage[] = [];
+    while (i < messages.length && messages[i].role === "assistant") {
+      answers.push(messages[i]);
+      i += 1;
+    }
+    if (answers.length === 0) continue;
+
+    path.push(answers[answers.length - 1]);
+    if (answers.length > 1) {
+      branches.push({
+        afterMessageId: m.id,
+        variants: [
+          ...answers.slice(0, -1).map((a) => ({ messages: [a] })),
+          { messages: [] },
+        ],
+        activeIndex: answers.length - 1,
+      });
+    }
+  }
+
+  return { messages: path, branches };
+}
+
+/**
+ * 현재 경로에서 새 질문 바로 앞 답변의 서버 id
+ * - 서버는 이 답변부터 질문/답변 체인을 거슬러 올라가 문맥을 만든다 → 다른 분기의 메시지는 문맥에서 빠진다.
+ * - 서버 id가 있는 앞선 답변이 없으면 null (대화 처음부터)
+ */
+export function getContextParentServerId(messages: ChatMessage[]): string | null {
+  for (let i = messages.length - 1; i >= 0; i -= 1) {
+    const m = messages[i];
+    if (m.role === "assistant" && m.serverId && !m.deliveryStatus) return m.serverId;
+  }
+  return null;
+}
+
+/* =========================
+   분기 구조 보관 (사용자별 localStorage)
+   - 서버 히스토리는 한 줄이라 새로고침/다른 탭에서 열면 질문 수정 분기를 알 수 없으므로
+     서버 세션 단위로 현재 경로 + 분기 지점(각 분기의 선택 variant 포함)을 이 브라우저에 남긴다.
+========================= */
+
+const STORAGE_PREFIX = "ctrlf-chat-branches:v1";
+/** 보관할 세션 수 (오래된 것부터 정리) */
+const MAX_STORED = 30;
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is JsonRecord {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+export type StoredBranchTree = {
+  messages: ChatMessage[];
+  branches: ChatBranchPoint[];
+  savedAt: number;
+};
+
+function parseTree(v: unknown): StoredBranchTree | null {
+  if (!isRecord(v)) return null;
+  const { messages, branches, savedAt } = v;
+  if (!Array.isArray(messages) || !Array.isArray(branches) || typeof savedAt !== "number") {
+    return null;
+  }
+  return {
+    messages: messages as ChatMessage[],
+    branches: branches as ChatBranchPoint[],
+    savedAt,
+  };
+}
+
+function readTrees(userUuid: string): Record<string, StoredBranchTree> {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_PREFIX}:${userUuid}`);
+    if (!raw) return {};
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) return {};
+
+    const out: Record<string, StoredBranchTree> = {};
+    for (const [serverSessionId, v] of Object.entries(parsed)) {
+      const tree = parseTree(v);
+      if (tree) out[serverSessionId] = tree;
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+function writeTrees(userUuid: string, all: Record<string, StoredBranchTree>): void {
+  const entries = Object.entries(all)
+    .sort((a, b) => b[1].savedAt - a[1].savedAt)
+    .slice(0, MAX_STORED);
+
+  try {
+    if (entries.length === 0) {
+      localStorage.removeItem(`${STORAGE_PREFIX}:${userUuid}`);
+    } else {
+      localStorage.setItem(
+        `${STORAGE_PREFIX}:${userUuid}`,
+        JSON.stringify(Object.fromEntries(entries))
+      );
+    }
+  } catch {
+    // ignore (용량 초과/프라이빗 모드)
+  }
+}
+
+/** 전송 대기/스트리밍 중인 메시지가 있으면 아직 저장하지 않는다 (끝난 뒤 다시 저장) */
+export function isBranchTreeSettled(session: ChatSession): boolean {
+  return !session.messages.some(
+    (m) => m.deliveryStatus || (m.role === "assistant" && m.content.trim() === "")
+  );
+}
+
+/**
+ * 세션 분기 구조 저장
+ * - 서버 세션이 없으면 저장하지 않음, 분기가 없어지면(한 줄 대화) 보관본 삭제
+ */
+export function saveBranchTree(userUuid: string | null, session: ChatSession): void {
+  if (!userUuid || !session.serverId) return;
+
+  const all = readTrees(userUuid);
+  if (session.branches?.length) {
+    all[session.serverId] = {
+      messages: session.messages,
+      branches: session.branches,
+      savedAt: Date.now(),
+    };
+  } else if (all[session.serverId]) {
+    delete all[session.serverId];
+  } else {
+    return;
+  }
+  writeTrees(userUuid, all);
+}
+
+export function removeBranchTrees(
+  userUuid: string | null,
+  serverSessionIds: Array<string | undefined>
+): void {
+  if (!userUuid) return;
+  const all = readTrees(userUuid);
+  let changed = false;
+  for (const id of serverSessionIds) {
+    if (id && all[id]) {
+      delete all[id];
+      changed = true;
+    }
+  }
+  if (changed) writeTrees(userUuid, all);
+}
+
+function collectServerIds(messages: ChatMessage[], branches: ChatBranchPoint[], out: Set<string>) {
+  for (const m of messages) if (m.serverId) out.add(m.serverId);
+  for (const b of branches) {
+    for (const v of b.variants) collectServerIds(v.messages, v.branches ?? [], out);
+  }
+}
+
+/**
+ * 서버 히스토리 → 보관해 둔 분기 구조 복원
+ * - 보관본에 있는 마지막 서버 메시지 이후의 서버 메시지(다른 기기에서 이어 간 대화)는 현재 경로 뒤에 붙인다.
+ * - 보관본과 겹치는 서버 메시지가 없으면 null (호출부는 foldServerRetryBranches로 복원)
+ */
+export function restoreBranchTree(
+  userUuid: string | null,
+  serverSessionId: string,
+  serverMessages: ChatMessage[]
+): { messages: ChatMessage[]; branches: ChatBranchPoint[] } | null {
+  if (!userUuid) return null;
+  const stored = readTrees(userUuid)[serverSessionId];
+  if (!stored) return null;
+
+  const known = new Set<string>();
+  collectServerIds(stored.messages, stored.branches, known);
+
+  let lastKnown = -1;
+  serverMessages.forEach((m, i) => {
+    if (m.serverId && known.has(m.serverId)) lastKnown = i;
+  });
+  if (lastKnown < 0) return null;
+
+  return {
+    messages: [...stored.messages, ...serverMessages.slice(lastKnown + 1)],
+    branches: stored.branches,
+  };
+}
@@ -0,0 +1,53 @@
+// src/components/chatbot/chatCitations.ts
+
+/**
+ * 답변 본문 인라인 인용 마커
+ * - 본문의 [1] / [1, 2] / [^1] / 【1】 를 sources[n-1]에 매핑
+ * - 모델/서버가 넣은 마커만 인용으로 표시한다. 마커가 없는 답변에 추측으로 마커를 붙이지 않고,
+ *   출처는 "관련 문서" 목록으로만 보여 준다 (근거가 아닌 것을 근거처럼 보이지 않게)
+ */
+
+export type CitationMarker = {
+  /** 마커 시작 위치 */
+  pos: number;
+  /** 마커 끝 위치(exclusive) */
+  end: number;
+  /** 1-based 출처 번호 목록 */
+  numbers: number[];
+};
+
+const CITATION_RE = /\[\^?(\d{1,2}(?:\s*,\s*\d{1,2})*)\]|【(\d{1,2})】/g;
+
+/**
+ * from 이후 첫 번째 "유효한" 인용 마커
+ * - 번호가 1..sourceCount 범위를 벗어나면 일반 텍스트로 취급(배열 표기 등 오탐 방지)
+ */
+export function findNextCitation(
+  src: string,
+  from: number,
+  sourceCount: number
+): CitationMarker | null {
+  if (sourceCount <= 0) return null;
+
+  const re = new RegExp(CITATION_RE.source, "g");
+  re.lastIndex = from;
+
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(src)) !== null) {
+    const raw = m[1] ?? m[2] ?? "";
+    const numbers = raw
+      .split(",")
+      .map((s) => Number(s.trim()))
+      .filter((n) => Number.isInteger(n));
+
+    if (numbers.length > 0 && numbers.every((n) => n >= 1 && n <= sourceCount)) {
+      return { pos: m.index, end: m.index + m[0].length, numbers };
+    }
+  }
+
+  return null;
+}
+
+export function hasInlineCitations(content: string, sourceCount: number): boolean {
+  return findNextCitation(content, 0, sourceCount) !== null;
+}
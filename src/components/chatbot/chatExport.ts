@@ -0,0 +1,464 @@
+// src/components/chatbot/chatExport.ts
+import type {
+  ChatDomain,
+  ChatMessage,
+  ChatRole,
+  ChatSession,
+  ChatSource,
+  FeedbackValue,
+} from "../../types/chat";
+import { chatDomainLabel, normalizeChatDomain } from "../../types/chat";
+
+/**
+ * 채팅 세션 내보내기/가져오기
+ * - Markdown: 결재 문서/메일 붙여넣기용
+ * - HTML: 인쇄(PDF 저장)용 단독 문서
+ * - JSON: 다시 가져오기(import) 가능한 형식
+ * - 모든 형식에 메시지 시각, 도메인, assistant 답변별 출처(title/articleLabel/page/score) 포함
+ */
+
+export type ChatExportFormat = "markdown" | "html" | "json";
+
+/** 내보내기 메뉴 항목: 파일 저장 3종 + 인쇄(PDF 저장) */
+export type ChatExportAction = ChatExportFormat | "print";
+
+export const CHAT_EXPORT_ACTION_OPTIONS: Array<{
+  value: ChatExportAction;
+  label: string;
+}> = [
+  { value: "markdown", label: "Markdown으로 저장" },
+  { value: "html", label: "HTML로 저장" },
+  { value: "json", label: "JSON으로 저장 (가져오기용)" },
+  { value: "print", label: "인쇄 / PDF로 저장" },
+];
+
+/** JSON 내보내기 식별자/버전 (가져오기 시 검증) */
+export const CHAT_EXPORT_JSON_FORMAT = "ctrlf-chat-export";
+export const CHAT_EXPORT_JSON_VERSION = 1;
+
+type ChatExportJsonSource = {
+  docId: string;
+  title?: string;
+  articleLabel?: string;
+  articlePath?: string;
+  page?: number;
+  score?: number;
+  sourceType?: string;
+};
+
+type ChatExportJsonMessage = {
+  role: ChatRole;
+  content: string;
+  createdAt: string;
+  stopped?: boolean;
+  feedback?: Exclude<FeedbackValue, null>;
+  sources?: ChatExportJsonSource[];
+};
+
+export type ChatExportJson = {
+  format: typeof CHAT_EXPORT_JSON_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: {
+    title: string;
+    domain: ChatDomain;
+    createdAt: string;
+    updatedAt: string;
+  };
+  messages: ChatExportJsonMessage[];
+};
+
+/** 가져오기 결과: id는 호출부(ChatbotApp)에서 새로 발급 */
+export type ImportedChatSession = {
+  title: string;
+  domain: ChatDomain;
+  createdAt: number;
+  updatedAt: number;
+  messages: Array<Omit<ChatMessage, "id">>;
+};
+
+export type ChatImportResult =
+  | { ok: true; session: ImportedChatSession }
+  | { ok: false; error: string };
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is JsonRecord {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function nonEmptyString(v: unknown): string | null {
+  if (typeof v !== "string") return null;
+  const t = v.trim();
+  return t ? t : null;
+}
+
+function finiteNumber(v: unknown): number | undefined {
+  return typeof v === "number" && Number.isFinite(v) ? v : undefined;
+}
+
+function two(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/** ms → "YYYY-MM-DD HH:mm" (로컬 시간) */
+function formatTimestamp(ms: number): string {
+  const d = new Date(ms);
+  if (Number.isNaN(d.getTime())) return "-";
+  return `${d.getFullYear()}-${two(d.getMonth() + 1)}-${two(d.getDate())} ${two(
+    d.getHours()
+  )}:${two(d.getMinutes())}`;
+}
+
+function toIso(ms: number): string {
+  const d = new Date(ms);
+  return Number.isNaN(d.getTime()) ? new Date().toISOString() : d.toISOString();
+}
+
+function roleLabel(role: ChatRole): string {
+  return role === "user" ? "질문" : "답변";
+}
+
+/** 신고 안내/접수 같은 UI 보조 말풍선은 대화 기록에서 제외 */
+export function exportableMessages(session: ChatSession): ChatMessage[] {
+  return session.messages.filter(
+    (m) => (m.kind ?? "normal") === "normal" && (m.content.trim() || m.stopped)
+  );
+}
+
+/** 출처 한 줄 요약: 제목 · 조항 · p.페이지 · 관련도 */
+function describeSource(src: ChatSource): string {
+  const parts: string[] = [src.title?.trim() || src.docId];
+  if (src.articleLabel?.trim()) parts.push(src.articleLabel.trim());
+  if (typeof src.page === "number") parts.push(`p.${src.page}`);
+  if (typeof src.score === "number") parts.push(`관련도 ${src.score.toFixed(2)}`);
+  return parts.join(" · ");
+}
+
+// =============================================================================
+// Markdown
+// =============================================================================
+
+export function buildChatExportMarkdown(session: ChatSession, now = Date.now()): string {
+  const lines: string[] = [];
+
+  lines.push(`# ${session.title || "제목 없음"}`, "");
+  lines.push(`- 도메인: ${chatDomainLabel(session.domain)}`);
+  lines.push(`- 시작: ${formatTimestamp(session.createdAt)}`);
+  lines.push(`- 마지막 대화: ${formatTimestamp(session.updatedAt)}`);
+  lines.push(`- 내보낸 시각: ${formatTimestamp(now)}`);
+
+  for (const m of exportableMessages(session)) {
+    lines.push("", "---", "");
+    lines.push(`### ${roleLabel(m.role)} · ${formatTimestamp(m.createdAt)}`, "");
+
+    if (m.content.trim()) lines.push(m.content.trim());
+    if (m.role === "assistant" && m.stopped) {
+      lines.push("", "_(생성이 중단된 답변입니다)_");
+    }
+
+    if (m.role === "assistant" && m.sources && m.sources.length > 0) {
+      lines.push("", "**출처**", "");
+      m.sources.forEach((src, idx) => {
+        lines.push(`${idx + 1}. ${describeSource(src)}`);
+      });
+    }
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+// =============================================================================
+// HTML (인쇄/PDF용)
+// =============================================================================
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const EXPORT_HTML_STYLE = `
+  body { font-family: "Pretendard", "Apple SD Gothic Neo", "Malgun Gothic", sans-serif; color: #111827; margin: 32px; line-height: 1.6; }
+  h1 { font-size: 20px; margin: 0 0 8px; }
+  .meta { font-size: 12px; color: #6b7280; margin: 0 0 24px; padding: 0; list-style: none; }
+  .msg { border-top: 1px solid #e5e7eb; padding: 12px 0; page-break-inside: avoid; }
+  .msg-head { font-size: 12px; color: #6b7280; margin-bottom: 4px; }
+  .msg-role { font-weight: 600; color: #111827; margin-right: 6px; }
+  .msg-user .msg-body { background: #f3f4f6; border-radius: 8px; padding: 8px 12px; }
+  .msg-body { white-space: pre-wrap; word-break: break-word; font-size: 14px; }
+  .msg-stopped { font-size: 12px; color: #9ca3af; font-style: italic; margin-top: 4px; }
+  .sources { margin: 8px 0 0; padding-left: 20px; font-size: 12px; color: #374151; }
+  .sources-title { font-size: 12px; font-weight: 600; margin-top: 8px; }
+  @media print {
+    body { margin: 16mm; }
+    a { color: inherit; text-decoration: none; }
+  }
+`;
+
+export function buildChatExportHtml(session: ChatSession, now = Date.now()): string {
+  const title = escapeHtml(session.title || "제목 없음");
+
+  const body = exportableMessages(session)
+    .map((m) => {
+      const sources =
+        m.role === "assistant" && m.sources && m.sources.length > 0
+          ? `<div class="sources-title">출처</div><ol class="sources">${m.sources
+              .map((src) => `<li>${escapeHtml(describeSource(src))}</li>`)
+              .join("")}</ol>`
+          : "";
+      const stopped =
+        m.role === "assistant" && m.stopped
+          ? `<div class="msg-stopped">생성이 중단된 답변입니다.</div>`
+          : "";
+
+      return `<section class="msg msg-${m.role}">
+  <div class="msg-head"><span class="msg-role">${roleLabel(m.role)}</span>${escapeHtml(
+        formatTimestamp(m.createdAt)
+      )}</div>
+  <div class="msg-body">${escapeHtml(m.content.trim())}</div>${stopped}${sources}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8" />
+<title>${title}</title>
+<style>${EXPORT_HTML_STYLE}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<ul class="meta">
+  <li>도메인: ${escapeHtml(chatDomainLabel(session.domain))}</li>
+  <li>시작: ${formatTimestamp(session.createdAt)}</li>
+  <li>마지막 대화: ${formatTimestamp(session.updatedAt)}</li>
+  <li>내보낸 시각: ${formatTimestamp(now)}</li>
+</ul>
+${body}
+</body>
+</html>
+`;
+}
+
+// =============================================================================
+// JSON (가져오기 가능)
+// =============================================================================
+
+function toJsonSource(src: ChatSource): ChatExportJsonSource {
+  return {
+    docId: src.docId,
+    title: src.title,
+    articleLabel: src.articleLabel,
+    articlePath: src.articlePath,
+    page: src.page,
+    score: src.score,
+    sourceType: src.sourceType,
+  };
+}
+
+export function buildChatExportJson(session: ChatSession, now = Date.now()): ChatExportJson {
+  return {
+    format: CHAT_EXPORT_JSON_FORMAT,
+    version: CHAT_EXPORT_JSON_VERSION,
+    exportedAt: toIso(now),
+    session: {
+      title: session.title,
+      domain: session.domain,
+      createdAt: toIso(session.createdAt),
+      updatedAt: toIso(session.updatedAt),
+    },
+    messages: exportableMessages(session).map((m) => ({
+      role: m.role,
+      content: m.content,
+      createdAt: toIso(m.createdAt),
+      stopped: m.stopped || undefined,
+      feedback: m.feedback ?? undefined,
+      sources:
+        m.role === "assistant" && m.sources && m.sources.length > 0
+          ? m.sources.map(toJsonSource)
+          : undefined,
+    })),
+  };
+}
+
+function parseEpoch(v: unknown, fallback: number): number {
+  if (typeof v === "number" && Number.isFinite(v)) return Math.trunc(v);
+  if (typeof v === "string" && v.trim()) {
+    const ms = new Date(v.trim()).getTime();
+    if (Number.isFinite(ms)) return ms;
+  }
+  return fallback;
+}
+
+function parseSource(v: unknown): ChatSource | null {
+  if (!isRecord(v)) return null;
+  const docId = nonEmptyString(v["docId"]);
+  if (!docId) return null;
+  return {
+    docId,
+    title: nonEmptyString(v["title"]) ?? undefined,
+    articleLabel: nonEmptyString(v["articleLabel"]) ?? undefined,
+    articlePath: nonEmptyString(v["articlePath"]) ?? undefined,
+    page: finiteNumber(v["page"]),
+    score: finiteNumber(v["score"]),
+    sourceType: nonEmptyString(v["sourceType"]) ?? undefined,
+  };
+}
+
+/**
+ * JSON 내보내기 파일 → 세션
+ * - format/version 검증
+ * - 메시지 role/content가 올바르지 않은 항목은 건너뜀
+ */
+export function parseChatExportJson(text: string): ChatImportResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "JSON 파일을 읽을 수 없습니다." };
+  }
+
+  if (!isRecord(raw) || raw["format"] !== CHAT_EXPORT_JSON_FORMAT) {
+    return { ok: false, error: "Ctrl F 채팅 내보내기 파일이 아닙니다." };
+  }
+
+  const version = finiteNumber(raw["version"]);
+  if (!version || version > CHAT_EXPORT_JSON_VERSION) {
+    return { ok: false, error: "지원하지 않는 내보내기 버전입니다." };
+  }
+
+  const session = isRecord(raw["session"]) ? raw["session"] : {};
+  const rawMessages = Array.isArray(raw["messages"]) ? raw["messages"] : [];
+
+  const now = Date.now();
+  const messages: ImportedChatSession["messages"] = [];
+
+  rawMessages.forEach((it, idx) => {
+    if (!isRecord(it)) return;
+    const role = it["role"];
+    if (role !== "user" && role !== "assistant") return;
+
+    const content = typeof it["content"] === "string" ? it["content"] : "";
+    const stopped = it["stopped"] === true;
+    if (!content.trim() && !stopped) return;
+
+    const feedback = it["feedback"];
+    const sources = Array.isArray(it["sources"])
+      ? it["sources"].map(parseSource).filter((s): s is ChatSource => s !== null)
+      : [];
+
+    messages.push({
+      role,
+      content,
+      createdAt: parseEpoch(it["createdAt"], now + idx),
+      stopped: stopped || undefined,
+      feedback: feedback === "up" || feedback === "down" ? feedback : undefined,
+      sources: role === "assistant" && sources.length > 0 ? sources : undefined,
+    });
+  });
+
+  if (messages.length === 0) {
+    return { ok: false, error: "가져올 메시지가 없습니다." };
+  }
+
+  const createdAt = parseEpoch(session["createdAt"], messages[0].createdAt);
+  const updatedAt = parseEpoch(
+    session["updatedAt"],
+    messages[messages.length - 1].createdAt
+  );
+
+  return {
+    ok: true,
+    session: {
+      title: nonEmptyString(session["title"]) ?? "가져온 대화",
+      domain: normalizeChatDomain(session["domain"]) ?? "general",
+      createdAt,
+      updatedAt,
+      messages,
+    },
+  };
+}
+
+// =============================================================================
+// 파일 저장 / 인쇄
+// =============================================================================
+
+const EXPORT_FILE_META: Record<ChatExportFormat, { ext: string; mime: string }> = {
+  markdown: { ext: "md", mime: "text/markdown;charset=utf-8" },
+  html: { ext: "html", mime: "text/html;charset=utf-8" },
+  json: { ext: "json", mime: "application/json;charset=utf-8" },
+};
+
+function buildExportFileName(session: ChatSession, format: ChatExportFormat, now: number): string {
+  const d = new Date(now);
+  const stamp = `${d.getFullYear()}${two(d.getMonth() + 1)}${two(d.getDate())}`;
+  const safeTitle =
+    (session.title || "chat")
+      .replace(/[\\/:*?"<>|\s]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 40) || "chat";
+  return `ctrlf-chat-${safeTitle}-${stamp}.${EXPORT_FILE_META[format].ext}`;
+}
+
+export function buildChatExportContent(
+  session: ChatSession,
+  format: ChatExportFormat,
+  now = Date.now()
+): string {
+  if (format === "markdown") return buildChatExportMarkdown(session, now);
+  if (format === "html") return buildChatExportHtml(session, now);
+  return JSON.stringify(buildChatExportJson(session, now), null, 2);
+}
+
+/** 브라우저 다운로드로 파일 저장 */
+export function downloadChatExport(session: ChatSession, format: ChatExportFormat): void {
+  const now = Date.now();
+  const content = buildChatExportContent(session, format, now);
+  const blob = new Blob([content], { type: EXPORT_FILE_META[format].mime });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = buildExportFileName(session, format, now);
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+
+  // 일부 브라우저는 click 직후 revoke하면 다운로드가 취소됨
+  window.setTimeout(() => URL.revokeObjectURL(url), 1_000);
+}
+
+/**
+ * 인쇄 대화상자 열기(PDF로 저장 가능)
+ * - 팝업 차단을 피하려고 숨김 iframe에 HTML을 넣고 print 호출
+ */
+export function printChatExport(session: ChatSession): void {
+  const iframe = document.createElement("iframe");
+  iframe.setAttribute("aria-hidden", "true");
+  iframe.style.position = "fixed";
+  iframe.style.width = "0";
+  iframe.style.height = "0";
+  iframe.style.border = "0";
+  iframe.style.right = "0";
+  iframe.style.bottom = "0";
+
+  iframe.onload = () => {
+    const win = iframe.contentWindow;
+    if (!win) {
+      iframe.remove();
+      return;
+    }
+    win.addEventListener("afterprint", () => iframe.remove(), { once: true });
+    win.focus();
+    win.print();
+  };
+
+  iframe.srcdoc = buildChatExportHtml(session);
+  document.body.appendChild(iframe);
+}
@@ -0,0 +1,180 @@
+// src/components/chatbot/chatFeedback.ts
+import type {
+  ChatFeedbackDetail,
+  ChatFeedbackReason,
+  ChatSource,
+} from "../../types/chat";
+
+/**
+ * "별로예요" 상세 피드백 유틸
+ * - 사유 카테고리 / 자유 코멘트 / 잘못된 출처 선택
+ * - 서버 스펙은 score + comment만 보장하므로 comment에도 사람이 읽을 요약을 함께 넣는다.
+ * - 서버 히스토리에는 상세 내용이 돌아오지 않아, 다시 열었을 때 보여 주기 위해 사용자별로 localStorage에 보관
+ */
+
+export const CHAT_FEEDBACK_REASON_OPTIONS: Array<{
+  value: ChatFeedbackReason;
+  label: string;
+}> = [
+  { value: "wrong_answer", label: "내용이 틀려요" },
+  { value: "outdated_policy", label: "예전 규정 기준이에요" },
+  { value: "missing_citation", label: "근거가 없어요" },
+  { value: "wrong_source", label: "출처가 잘못됐어요" },
+  { value: "incomplete", label: "답변이 부족해요" },
+  { value: "off_topic", label: "질문과 관계없어요" },
+  { value: "other", label: "기타" },
+];
+
+const REASON_LABELS = new Map(CHAT_FEEDBACK_REASON_OPTIONS.map((o) => [o.value, o.label]));
+
+export function feedbackReasonLabel(reason: ChatFeedbackReason): string {
+  return REASON_LABELS.get(reason) ?? reason;
+}
+
+/** 출처 식별 키 (같은 문서의 다른 조항/페이지를 구분) */
+export function feedbackSourceKey(source: ChatSource): string {
+  return [source.docId, source.articleLabel ?? "", source.page ?? ""].join("|");
+}
+
+export function isEmptyFeedbackDetail(detail: ChatFeedbackDetail | null | undefined): boolean {
+  if (!detail) return true;
+  return (
+    detail.reasons.length === 0 &&
+    !detail.comment?.trim() &&
+    (detail.wrongSourceKeys?.length ?? 0) === 0
+  );
+}
+
+/** 상세 피드백에서 지목한 출처 */
+export function pickWrongSources(
+  detail: ChatFeedbackDetail,
+  sources: ChatSource[] | undefined
+): ChatSource[] {
+  const keys = new Set(detail.wrongSourceKeys ?? []);
+  if (keys.size === 0 || !sources?.length) return [];
+  return sources.filter((s) => keys.has(feedbackSourceKey(s)));
+}
+
+function describeSource(src: ChatSource): string {
+  const title = src.title?.trim() || src.docId;
+  const where = src.articleLabel?.trim() || (src.page != null ? `p.${src.page}` : "");
+  return where ? `${title} (${where})` : title;
+}
+
+/**
+ * 서버 comment 필드용 요약
+ * 예) "[사유] 예전 규정 기준이에요, 출처가 잘못됐어요 / [잘못된 출처] 취업규칙 (제10조) / [의견] ..."
+ */
+export function buildFeedbackCommentText(
+  detail: ChatFeedbackDetail,
+  sources: ChatSource[] | undefined
+): string {
+  const parts: string[] = [];
+
+  if (detail.reasons.length > 0) {
+    parts.push(`[사유] ${detail.reasons.map(feedbackReasonLabel).join(", ")}`);
+  }
+
+  const wrong = pickWrongSources(detail, sources);
+  if (wrong.length > 0) {
+    parts.push(`[잘못된 출처] ${wrong.map(describeSource).join(", ")}`);
+  }
+
+  const comment = detail.comment?.trim();
+  if (comment) parts.push(`[의견] ${comment}`);
+
+  return parts.join(" / ");
+}
+
+/** 한 줄 요약 (말풍선 아래 표시용) */
+export function summarizeFeedbackDetail(detail: ChatFeedbackDetail): string {
+  const parts = detail.reasons.map(feedbackReasonLabel);
+  const wrongCount = detail.wrongSourceKeys?.length ?? 0;
+  if (wrongCount > 0 && !detail.reasons.includes("wrong_source")) {
+    parts.push(`출처 ${wrongCount}건 지목`);
+  }
+  if (detail.comment?.trim()) parts.push("의견 남김");
+  return parts.join(" · ");
+}
+
+/* =========================
+   localStorage 보관
+========================= */
+
+const STORAGE_PREFIX = "ctrlf-chat-feedback-detail:v1";
+const MAX_STORED = 300;
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is JsonRecord {
+  return typeof v === "object" && v !== null;
+}
+
+const REASON_VALUES = new Set<string>(CHAT_FEEDBACK_REASON_OPTIONS.map((o) => o.value));
+
+function parseDetail(v: unknown): ChatFeedbackDetail | null {
+  if (!isRecord(v) || !Array.isArray(v["reasons"])) return null;
+
+  const reasons = v["reasons"].filter(
+    (r): r is ChatFeedbackReason => typeof r === "string" && REASON_VALUES.has(r)
+  );
+  const comment = typeof v["comment"] === "string" ? v["comment"] : undefined;
+  const wrongSourceKeys = Array.isArray(v["wrongSourceKeys"])
+    ? v["wrongSourceKeys"].filter((k): k is string => typeof k === "string")
+    : undefined;
+  const updatedAt = typeof v["updatedAt"] === "number" ? v["updatedAt"] : 0;
+
+  return {
+    reasons,
+    ...(comment ? { comment } : {}),
+    ...(wrongSourceKeys?.length ? { wrongSourceKeys } : {}),
+    updatedAt,
+  };
+}
+
+function readAll(userUuid: string): Record<string, ChatFeedbackDetail> {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_PREFIX}:${userUuid}`);
+    if (!raw) return {};
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) return {};
+
+    const out: Record<string, ChatFeedbackDetail> = {};
+    for (const [id, v] of Object.entries(parsed)) {
+      const d = parseDetail(v);
+      if (d) out[id] = d;
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+/** 서버 메시지 id → 저장된 상세 피드백 */
+export function loadFeedbackDetails(userUuid: string | null): Record<string, ChatFeedbackDetail> {
+  if (!userUuid) return {};
+  return readAll(userUuid);
+}
+
+export function saveFeedbackDetail(
+  userUuid: string | null,
+  serverMessageId: string,
+  detail: ChatFeedbackDetail | null
+): void {
+  if (!userUuid) return;
+
+  const all = readAll(userUuid);
+  if (detail) all[serverMessageId] = detail;
+  else delete all[serverMessageId];
+
+  // 오래된 것부터 정리
+  const entries = Object.entries(all)
+    .sort((a, b) => b[1].updatedAt - a[1].updatedAt)
+    .slice(0, MAX_STORED);
+
+  try {
+    localStorage.setItem(`${STORAGE_PREFIX}:${userUuid}`, JSON.stringify(Object.fromEntries(entries)));
+  } catch {
+    // ignore (용량 초과/프라이빗 모드)
+  }
+}
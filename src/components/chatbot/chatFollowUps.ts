@@ -0,0 +1,183 @@
+// src/components/chatbot/chatFollowUps.ts
+import type { ChatSource, FaqItem } from "../../types/chat";
+
+/**
+ * 답변 아래 후속 질문 칩
+ * - 서버가 내려준 후속 질문(ChatSendResult.followUps)을 우선 사용
+ * - 없으면 답변에 인용된 출처(조항/문서)와 도메인 FAQ 목록으로 2~4개를 만든다.
+ */
+
+export const MAX_FOLLOW_UPS = 4;
+export const MIN_FOLLOW_UPS = 2;
+
+/** 출처 기반 질문은 최대 2개 (나머지는 FAQ로 채워 질문 유형을 섞는다) */
+const MAX_SOURCE_FOLLOW_UPS = 2;
+
+/** 방금 한 질문과 bigram 포함 비율이 이 값 이상인 FAQ는 "같은 질문"으로 보고 제외 */
+const SAME_QUESTION_THRESHOLD = 0.8;
+
+/** FAQ 질문 bigram 중 이 비율 이상이 질문/출처에도 있어야 "관련 FAQ"로 본다 ("~나요?" 같은 어미만 겹치는 경우 제외) */
+const RELATED_FAQ_THRESHOLD = 0.2;
+
+/** 칩에 넣기엔 너무 긴 질문은 제외 */
+const MAX_FOLLOW_UP_LENGTH = 80;
+
+const FOLLOW_UP_KEYS = [
+  "follow_ups",
+  "followUps",
+  "follow_up_questions",
+  "followUpQuestions",
+  "suggested_questions",
+  "suggestedQuestions",
+] as const;
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is JsonRecord {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function nonEmptyString(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
+
+/** 중복 판별용 키 (공백/문장부호 무시) */
+function questionKey(s: string): string {
+  return s.toLowerCase().replace(/[\s?!.,·~"'()[\]]+/g, "");
+}
+
+function toBigrams(s: string): Set<string> {
+  const t = questionKey(s);
+  const out = new Set<string>();
+  for (let i = 0; i < t.length - 1; i += 1) out.add(t.slice(i, i + 2));
+  return out;
+}
+
+/** candidate bigram 중 reference에도 있는 비율 */
+function overlapRatio(candidate: Set<string>, reference: Set<string>): number {
+  if (candidate.size === 0 || reference.size === 0) return 0;
+  let inter = 0;
+  for (const b of candidate) if (reference.has(b)) inter += 1;
+  return inter / candidate.size;
+}
+
+function pushUnique(out: string[], seen: Set<string>, q: string): void {
+  const text = q.replace(/\s+/g, " ").trim();
+  if (!text || text.length > MAX_FOLLOW_UP_LENGTH) return;
+  const key = questionKey(text);
+  if (!key || seen.has(key)) return;
+  seen.add(key);
+  out.push(text);
+}
+
+/**
+ * 서버 응답에서 후속 질문 추출 (없으면 undefined)
+ * - data 또는 data.meta의 follow_ups / suggested_questions 등
+ * - 항목은 문자열 또는 { question | text | title }
+ */
+export function readFollowUpQuestions(data: unknown): string[] | undefined {
+  if (!isRecord(data)) return undefined;
+
+  const containers = [data, data["meta"]].filter(isRecord);
+  for (const c of containers) {
+    for (const k of FOLLOW_UP_KEYS) {
+      const arr = c[k];
+      if (!Array.isArray(arr)) continue;
+
+      const out: string[] = [];
+      const seen = new Set<string>();
+      for (const it of arr) {
+        const q = isRecord(it)
+          ? nonEmptyString(it["question"]) ??
+            nonEmptyString(it["text"]) ??
+            nonEmptyString(it["title"])
+          : nonEmptyString(it);
+        if (q) pushUnique(out, seen, q);
+        if (out.length >= MAX_FOLLOW_UPS) break;
+      }
+      if (out.length > 0) return out;
+    }
+  }
+
+  return undefined;
+}
+
+/** 출처 하나 → 후속 질문 문장 (조항 라벨 우선, 없으면 문서 제목) */
+function questionFromSource(src: ChatSource): string | null {
+  const label = nonEmptyString(src.articleLabel);
+  if (label) return `${label} 내용을 자세히 알려줘`;
+
+  const title = nonEmptyString(src.title);
+  if (title) return `${title}에서 관련 내용을 더 알려줘`;
+
+  return null;
+}
+
+export type FollowUpFallbackInput = {
+  /** 방금 보낸 질문 (같은 질문 재추천 방지 + FAQ 관련도 계산) */
+  question: string;
+  /** 답변에 인용된 출처 */
+  sources?: ChatSource[];
+  /** 해당 도메인 FAQ 목록 */
+  faqItems?: FaqItem[];
+};
+
+/**
+ * 서버 후속 질문이 없을 때의 대체 질문
+ * 1) 관련도 높은 출처의 조항/문서 → "… 내용을 자세히 알려줘"
+ * 2) 질문/출처와 겹치는 표현이 많은 FAQ 순
+ * 3) 그래도 MIN_FOLLOW_UPS보다 적으면 FAQ 목록 순서대로 채움
+ */
+export function buildFollowUpQuestions(input: FollowUpFallbackInput): string[] {
+  const out: string[] = [];
+  const seen = new Set<string>();
+  const askedKey = questionKey(input.question);
+  if (askedKey) seen.add(askedKey);
+
+  const sources = [...(input.sources ?? [])].sort(
+    (a, b) => (b.score ?? 0) - (a.score ?? 0)
+  );
+  for (const src of sources) {
+    if (out.length >= MAX_SOURCE_FOLLOW_UPS) break;
+    const q = questionFromSource(src);
+    if (q) pushUnique(out, seen, q);
+  }
+
+  const faqItems = (input.faqItems ?? []).filter((f) => nonEmptyString(f.question));
+  if (faqItems.length === 0) return out.slice(0, MAX_FOLLOW_UPS);
+
+  const askedBigrams = toBigrams(input.question);
+  const contextBigrams = toBigrams(
+    [
+      input.question,
+      ...sources.map((s) => `${s.title ?? ""} ${s.articleLabel ?? ""}`),
+    ].join(" ")
+  );
+
+  const ranked = faqItems
+    .map((f, idx) => {
+      const bigrams = toBigrams(f.question);
+      return {
+        question: f.question,
+        idx,
+        same: overlapRatio(bigrams, askedBigrams) >= SAME_QUESTION_THRESHOLD,
+        score: overlapRatio(bigrams, contextBigrams),
+      };
+    })
+    .filter((r) => !r.same);
+
+  const related = ranked
+    .filter((r) => r.score >= RELATED_FAQ_THRESHOLD)
+    .sort((a, b) => b.score - a.score || a.idx - b.idx);
+  for (const r of related) {
+    if (out.length >= MAX_FOLLOW_UPS) break;
+    pushUnique(out, seen, r.question);
+  }
+
+  for (const r of ranked) {
+    if (out.length >= MIN_FOLLOW_UPS) break;
+    pushUnique(out, seen, r.question);
+  }
+
+  return out.slice(0, MAX_FOLLOW_UPS);
+}
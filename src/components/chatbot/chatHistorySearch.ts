@@ -0,0 +1,300 @@
+// src/components/chatbot/chatHistorySearch.ts
+import type { ChatDomain, ChatRole, ChatSession } from "../../types/chat";
+import type { ChatHistoryMessage } from "./chatApi";
+
+/**
+ * 채팅 히스토리 전문 검색
+ * - 로컬 세션(메모리) + 서버 세션(히스토리 조회)을 같은 문서 형태로 정규화
+ * - 검색어는 공백 단위 토큰으로 나눠 "모든 토큰 포함(AND)" 매칭
+ * - 결과마다 하이라이트 가능한 스니펫(parts) 생성
+ */
+
+/** 검색 인덱스 단위 문서(메시지 1개) */
+export type ChatSearchDoc = {
+  key: string;
+  source: "local" | "server";
+  /** 로컬 세션 id (서버 전용 세션이면 serverSessionId와 동일) */
+  sessionId: string;
+  serverSessionId?: string;
+  sessionTitle: string;
+  domain: ChatDomain;
+  /** 로컬 메시지 id (로컬 세션 문서에만 존재) */
+  messageId?: string;
+  serverMessageId?: string;
+  role: ChatRole;
+  /** 한 줄로 정리된 본문 (스니펫 원문) */
+  text: string;
+  /** 비교용 소문자 본문 */
+  lower: string;
+  createdAt: number;
+};
+
+export type ChatSearchDateRange = "all" | "7d" | "30d" | "90d";
+
+export type ChatSearchFilters = {
+  domain: ChatDomain | "all";
+  dateRange: ChatSearchDateRange;
+};
+
+export const DEFAULT_CHAT_SEARCH_FILTERS: ChatSearchFilters = {
+  domain: "all",
+  dateRange: "all",
+};
+
+export const CHAT_SEARCH_DATE_RANGE_OPTIONS: Array<{
+  value: ChatSearchDateRange;
+  label: string;
+}> = [
+  { value: "all", label: "전체 기간" },
+  { value: "7d", label: "최근 7일" },
+  { value: "30d", label: "최근 30일" },
+  { value: "90d", label: "최근 90일" },
+];
+
+const DATE_RANGE_MS: Record<Exclude<ChatSearchDateRange, "all">, number> = {
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+  "90d": 90 * 24 * 60 * 60 * 1000,
+};
+
+export type ChatSearchSnippetPart = { text: string; match: boolean };
+
+export type ChatSearchHit = {
+  doc: ChatSearchDoc;
+  snippet: ChatSearchSnippetPart[];
+  score: number;
+};
+
+/** 검색 결과 클릭 → ChatWindow에서 해당 메시지로 이동할 때 쓰는 대상 정보 */
+export type ChatSearchTarget = {
+  sessionId: string;
+  serverSessionId?: string;
+  messageId?: string;
+  serverMessageId?: string;
+  /** 같은 메시지를 다시 눌러도 이동하도록 매번 바뀌는 값 */
+  nonce: number;
+};
+
+/** 검색어 최소 길이 (한 글자 검색은 결과가 너무 많아 제외) */
+export const MIN_CHAT_SEARCH_QUERY_LENGTH = 2;
+
+const SNIPPET_RADIUS = 36;
+const DEFAULT_RESULT_LIMIT = 50;
+
+function toOneLine(s: string): string {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+function toLowerSameLength(s: string): string {
+  // 일부 문자는 toLowerCase 시 길이가 바뀌므로(예: İ) 스니펫 offset이 어긋나지 않게 글자 단위로 보정
+  const lower = s.toLowerCase();
+  if (lower.length === s.length) return lower;
+  return Array.from(s, (ch) => {
+    const l = ch.toLowerCase();
+    return l.length === ch.length ? l : ch;
+  }).join("");
+}
+
+function makeDoc(base: Omit<ChatSearchDoc, "text" | "lower">, content: string): ChatSearchDoc | null {
+  const text = toOneLine(content.normalize("NFC"));
+  if (!text) return null;
+  return { ...base, text, lower: toLowerSameLength(text) };
+}
+
+/** 검색어 → 소문자 토큰(중복 제거, 긴 토큰 우선) */
+export function tokenizeSearchQuery(query: string): string[] {
+  const tokens = toLowerSameLength(toOneLine(query.normalize("NFC")))
+    .split(" ")
+    .filter(Boolean);
+  return Array.from(new Set(tokens)).sort((a, b) => b.length - a.length);
+}
+
+/** 로컬 세션 → 검색 문서 */
+export function buildLocalSearchDocs(sessions: ChatSession[]): ChatSearchDoc[] {
+  const docs: ChatSearchDoc[] = [];
+
+  for (const s of sessions) {
+    for (const m of s.messages) {
+      const doc = makeDoc(
+        {
+          key: `local:${s.id}:${m.id}`,
+          source: "local",
+          sessionId: s.id,
+          serverSessionId: s.serverId,
+          sessionTitle: s.title,
+          domain: s.domain,
+          messageId: m.id,
+          serverMessageId: m.serverId,
+          role: m.role,
+          createdAt: m.createdAt,
+        },
+        m.content ?? ""
+      );
+      if (doc) docs.push(doc);
+    }
+  }
+
+  return docs;
+}
+
+/** 서버 세션 히스토리 → 검색 문서 */
+export function buildServerSearchDocs(
+  meta: { serverSessionId: string; title: string; domain: ChatDomain },
+  messages: ChatHistoryMessage[]
+): ChatSearchDoc[] {
+  const docs: ChatSearchDoc[] = [];
+
+  messages.forEach((m, idx) => {
+    const doc = makeDoc(
+      {
+        key: `server:${meta.serverSessionId}:${m.messageId ?? idx}`,
+        source: "server",
+        sessionId: meta.serverSessionId,
+        serverSessionId: meta.serverSessionId,
+        sessionTitle: meta.title,
+        domain: meta.domain,
+        serverMessageId: m.messageId ?? undefined,
+        role: m.role,
+        createdAt: m.createdAt,
+      },
+      m.content
+    );
+    if (doc) docs.push(doc);
+  });
+
+  return docs;
+}
+
+function findAllRanges(lower: string, tokens: string[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  for (const t of tokens) {
+    let from = 0;
+    while (from <= lower.length - t.length) {
+      const idx = lower.indexOf(t, from);
+      if (idx < 0) break;
+      ranges.push([idx, idx + t.length]);
+      from = idx + t.length;
+    }
+  }
+
+  // 겹치는 구간 병합
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) {
+      last[1] = Math.max(last[1], r[1]);
+    } else {
+      merged.push([r[0], r[1]]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * 첫 매칭 위치 주변으로 잘라낸 스니펫
+ * - 잘린 앞/뒤는 … 처리
+ * - match=true 구간이 하이라이트 대상
+ */
+export function buildSearchSnippet(
+  text: string,
+  lower: string,
+  tokens: string[],
+  radius = SNIPPET_RADIUS
+): ChatSearchSnippetPart[] {
+  const ranges = findAllRanges(lower, tokens);
+  if (!ranges.length) {
+    const head = text.slice(0, radius * 2);
+    return [{ text: head.length < text.length ? `${head}…` : head, match: false }];
+  }
+
+  const start = Math.max(0, ranges[0][0] - radius);
+  const end = Math.min(text.length, ranges[0][1] + radius * 2);
+
+  const parts: ChatSearchSnippetPart[] = [];
+  let cursor = start;
+
+  for (const [s, e] of ranges) {
+    if (e <= start) continue;
+    if (s >= end) break;
+    const ms = Math.max(s, start);
+    const me = Math.min(e, end);
+    if (ms > cursor) parts.push({ text: text.slice(cursor, ms), match: false });
+    parts.push({ text: text.slice(ms, me), match: true });
+    cursor = me;
+  }
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false });
+
+  if (start > 0) parts.unshift({ text: "…", match: false });
+  if (end < text.length) parts.push({ text: "…", match: false });
+
+  return parts;
+}
+
+function countOccurrences(lower: string, token: string): number {
+  let count = 0;
+  let from = 0;
+  while (from <= lower.length - token.length) {
+    const idx = lower.indexOf(token, from);
+    if (idx < 0) break;
+    count += 1;
+    from = idx + token.length;
+  }
+  return count;
+}
+
+/**
+ * 검색 실행
+ * - 모든 토큰이 포함된 문서만 결과로
+ * - 점수: 토큰 등장 횟수 + 전체 구문 일치 가산점 + 사용자 질문 가산점(“내가 물어본 것” 찾기 쉬움)
+ * - 동점이면 최신 메시지 우선
+ */
+export function searchChatDocs(
+  docs: ChatSearchDoc[],
+  query: string,
+  filters: ChatSearchFilters = DEFAULT_CHAT_SEARCH_FILTERS,
+  opts?: { limit?: number; now?: number }
+): ChatSearchHit[] {
+  const tokens = tokenizeSearchQuery(query);
+  if (!tokens.length) return [];
+  if (tokens.join("").length < MIN_CHAT_SEARCH_QUERY_LENGTH) return [];
+
+  const phrase = toLowerSameLength(toOneLine(query.normalize("NFC")));
+  const limit = opts?.limit ?? DEFAULT_RESULT_LIMIT;
+  const now = opts?.now ?? Date.now();
+  const minCreatedAt =
+    filters.dateRange === "all" ? -Infinity : now - DATE_RANGE_MS[filters.dateRange];
+
+  const hits: ChatSearchHit[] = [];
+
+  for (const doc of docs) {
+    if (filters.domain !== "all" && doc.domain !== filters.domain) continue;
+    if (doc.createdAt < minCreatedAt) continue;
+
+    let score = 0;
+    let allMatched = true;
+    for (const t of tokens) {
+      const c = countOccurrences(doc.lower, t);
+      if (c === 0) {
+        allMatched = false;
+        break;
+      }
+      score += Math.min(c, 5);
+    }
+    if (!allMatched) continue;
+
+    if (tokens.length > 1 && doc.lower.includes(phrase)) score += 3;
+    if (doc.role === "user") score += 1;
+
+    hits.push({ doc, score, snippet: [] });
+  }
+
+  hits.sort((a, b) => b.score - a.score || b.doc.createdAt - a.doc.createdAt);
+
+  // 스니펫은 실제로 보여줄 결과에만 생성
+  return hits.slice(0, limit).map((h) => ({
+    ...h,
+    snippet: buildSearchSnippet(h.doc.text, h.doc.lower, tokens),
+  }));
+}
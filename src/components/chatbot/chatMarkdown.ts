@@ -0,0 +1,669 @@
+// src/components/chatbot/chatMarkdown.ts
+import { findNextCitation } from "./chatCitations";
+
+/**
+ * 답변 마크다운 파서 (라이브러리 없이)
+ * - ChatWindow 렌더러(React)와 "서식 유지 복사"(HTML 직렬화)가 같은 해석 결과를 쓰도록 분리
+ * - 스트리밍 중 미완성 구문(닫히지 않은 **, `, [텍스트](, <b> 등)은 텍스트로 두었다가
+ *   닫히는 순간부터 서식으로 바뀐다(깨짐 방지)
+ * - HTML은 허용 목록의 인라인 태그만 서식으로 살리고(속성 제거),
+ *   script/style 등은 내용째 버리며, 나머지 태그는 벗겨서 텍스트만 남긴다.
+ */
+
+export type MdInlineMarkType = "strong" | "em" | "del" | "u" | "sup" | "sub" | "mark";
+
+export type MdInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: MdInlineMarkType; children: MdInline[] }
+  | { type: "link"; href: string; children: MdInline[] }
+  | { type: "br" }
+  | { type: "cite"; numbers: number[] };
+
+export type MdTableAlign = "left" | "center" | "right" | null;
+
+export type MdTable = {
+  align: MdTableAlign[];
+  header: string[];
+  rows: string[][];
+};
+
+export type MdBlock =
+  | { type: "paragraph"; text: string }
+  | { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; text: string }
+  | { type: "list"; ordered: boolean; start: number; items: string[] }
+  | { type: "quote"; text: string }
+  | { type: "code"; lang: string; code: string }
+  | ({ type: "table" } & MdTable)
+  | { type: "hr" };
+
+// =========================
+// 블록
+// =========================
+
+function normalizeNewlines(s: string): string {
+  return s.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
+}
+
+function isBlankLine(line: string): boolean {
+  return line.trim().length === 0;
+}
+
+const ORDERED_LIST_RE = /^\s*(\d+)[.)]\s+/;
+// LLM이 흔히 섞는 bullet들도 같이 허용
+const UNORDERED_LIST_RE = /^\s*([-*•·●])\s+/;
+
+function parseHeadingLine(
+  line: string
+): { level: 1 | 2 | 3 | 4 | 5 | 6; text: string } | null {
+  // "### 제목", "###. 제목" (LLM이 가끔 ###. 형태로 출력) 둘 다 대응
+  const m = /^\s{0,3}(#{1,6})\s*\.?\s+(.*)\s*$/.exec(line);
+  if (!m) return null;
+
+  const level = Math.min(6, Math.max(1, m[1].length)) as 1 | 2 | 3 | 4 | 5 | 6;
+  const text = (m[2] ?? "").trim();
+  if (!text) return null;
+
+  return { level, text };
+}
+
+function isHorizontalRuleLine(line: string): boolean {
+  // --- / *** / ___ (공백 섞인 형태(- - -)도 일부 대응)
+  const s = line.trim();
+  if (!s) return false;
+  return /^(-\s*){3,}$/.test(s) || /^(\*\s*){3,}$/.test(s) || /^(_\s*){3,}$/.test(s);
+}
+
+function parseBlockquoteLine(line: string): string | null {
+  const m = /^\s{0,3}>\s?(.*)$/.exec(line);
+  return m ? m[1] ?? "" : null;
+}
+
+function parseCodeFenceLine(line: string): { lang: string } | null {
+  const m = /^\s{0,3}```\s*([A-Za-z0-9_+#-]+)?\s*$/.exec(line);
+  return m ? { lang: (m[1] ?? "").trim() } : null;
+}
+
+/** 표 구분 행: | --- | :---: | ---: | (스트리밍 중 "|--" 처럼 덜 온 형태도 허용) */
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-*:?\s*)*\|?\s*$/;
+
+function isTableRowLine(line: string): boolean {
+  return line.includes("|") && !isBlankLine(line);
+}
+
+function isTableSeparatorLine(line: string): boolean {
+  return line.includes("|") && TABLE_SEPARATOR_RE.test(line);
+}
+
+/** 표 행 → 셀 (양끝 | 제거, 코드 스팬 안의 | 와 \| 는 구분자로 보지 않음) */
+export function splitTableRow(line: string): string[] {
+  let s = line.trim();
+  if (s.startsWith("|")) s = s.slice(1);
+  if (s.endsWith("|") && !s.endsWith("\\|")) s = s.slice(0, -1);
+
+  const cells: string[] = [];
+  let cur = "";
+  let inCode = false;
+  for (let i = 0; i < s.length; i += 1) {
+    const ch = s[i];
+    if (ch === "\\" && s[i + 1] === "|") {
+      cur += "|";
+      i += 1;
+      continue;
+    }
+    if (ch === "`") inCode = !inCode;
+    if (ch === "|" && !inCode) {
+      cells.push(cur.trim());
+      cur = "";
+      continue;
+    }
+    cur += ch;
+  }
+  cells.push(cur.trim());
+  return cells;
+}
+
+function parseTableAlign(cell: string): MdTableAlign {
+  const left = cell.startsWith(":");
+  const right = cell.endsWith(":") && cell.length > 1;
+  if (left && right) return "center";
+  if (right) return "right";
+  if (left) return "left";
+  return null;
+}
+
+/** 열 수를 헤더에 맞춘다 (스트리밍 중 덜 온 행은 빈 칸으로 채움) */
+function fitRow(cells: string[], width: number): string[] {
+  if (cells.length >= width) return cells.slice(0, width);
+  return [...cells, ...Array.from({ length: width - cells.length }, () => "")];
+}
+
+/**
+ * 마크다운 → 블록 목록
+ * - "빈 줄이 껴 있는 목록(loose list)"도 같은 리스트로 유지해서
+ *   <ol> 번호가 매 항목마다 1로 리셋되는 문제를 방지
+ * - 닫히지 않은 코드 펜스(스트리밍 중)는 끝까지 코드로 본다.
+ */
+export function parseMarkdownBlocks(text: string): MdBlock[] {
+  const src = String(text ?? "");
+  if (!src) return [];
+
+  const lines = normalizeNewlines(src).split("\n");
+  const out: MdBlock[] = [];
+
+  let paraBuf: string[] = [];
+
+  let listBuf: string[] = [];
+  let listKind: "ordered" | "unordered" | null = null;
+  let listStart = 1;
+  // loose list: 목록 중간의 빈 줄이 <ol>을 분리해 번호가 1로 리셋되는 문제 방지
+  let pendingListBlank = false;
+
+  let quoteBuf: string[] = [];
+
+  let inCodeFence = false;
+  let codeFenceLang = "";
+  let codeBuf: string[] = [];
+
+  const flushPara = () => {
+    if (paraBuf.length === 0) return;
+    out.push({ type: "paragraph", text: paraBuf.join("\n") });
+    paraBuf = [];
+  };
+
+  const flushList = () => {
+    if (listBuf.length > 0 && listKind) {
+      const ordered = listKind === "ordered";
+      out.push({
+        type: "list",
+        ordered,
+        start: listStart,
+        items: listBuf.map((l) => l.replace(ordered ? ORDERED_LIST_RE : UNORDERED_LIST_RE, "")),
+      });
+    }
+    listBuf = [];
+    listKind = null;
+    pendingListBlank = false;
+  };
+
+  const flushQuote = () => {
+    if (quoteBuf.length === 0) return;
+    out.push({ type: "quote", text: quoteBuf.join("\n") });
+    quoteBuf = [];
+  };
+
+  const flushCode = () => {
+    if (!inCodeFence) return;
+    out.push({ type: "code", lang: codeFenceLang, code: codeBuf.join("\n") });
+    inCodeFence = false;
+    codeFenceLang = "";
+    codeBuf = [];
+  };
+
+  const flushAll = () => {
+    flushQuote();
+    flushList();
+    flushPara();
+  };
+
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i];
+
+    // 1) fenced code 내부
+    if (inCodeFence) {
+      if (parseCodeFenceLine(line)) flushCode();
+      else codeBuf.push(line);
+      continue;
+    }
+
+    // 2) code fence 시작
+    const fenceStart = parseCodeFenceLine(line);
+    if (fenceStart) {
+      flushAll();
+      inCodeFence = true;
+      codeFenceLang = fenceStart.lang;
+      codeBuf = [];
+      continue;
+    }
+
+    // 3) 빈 줄
+    if (isBlankLine(line)) {
+      // quote 진행 중이면 빈 줄도 유지(인용문 내부 문단 유지)
+      if (quoteBuf.length > 0) {
+        quoteBuf.push("");
+        continue;
+      }
+      // list 진행 중이면 일단 보류(다음 라인이 list이면 같은 리스트로 유지)
+      if (listKind !== null) {
+        pendingListBlank = true;
+        continue;
+      }
+      flushPara();
+      continue;
+    }
+
+    const isOl = ORDERED_LIST_RE.test(line);
+    const isUl = !isOl && UNORDERED_LIST_RE.test(line);
+
+    // 4) list blank 보류 상태 처리
+    if (pendingListBlank && listKind !== null) {
+      const kind = isOl ? "ordered" : isUl ? "unordered" : null;
+      if (kind !== listKind) flushList();
+      else pendingListBlank = false;
+    }
+
+    // 5) 표: 헤더 행 + 구분 행
+    if (isTableRowLine(line) && i + 1 < lines.length && isTableSeparatorLine(lines[i + 1])) {
+      flushAll();
+
+      const header = splitTableRow(line);
+      const align = fitRow(splitTableRow(lines[i + 1]), header.length).map(parseTableAlign);
+      const rows: string[][] = [];
+
+      i += 2;
+      while (i < lines.length && isTableRowLine(lines[i]) && !parseCodeFenceLine(lines[i])) {
+        rows.push(fitRow(splitTableRow(lines[i]), header.length));
+        i += 1;
+      }
+      i -= 1;
+
+      out.push({ type: "table", header, align, rows });
+      continue;
+    }
+
+    // 6) 구분선
+    if (isHorizontalRuleLine(line)) {
+      flushAll();
+      out.push({ type: "hr" });
+      continue;
+    }
+
+    // 7) 인용문
+    const q = parseBlockquoteLine(line);
+    if (q !== null) {
+      flushList();
+      flushPara();
+      quoteBuf.push(q);
+      continue;
+    }
+    flushQuote();
+
+    // 8) 헤딩
+    const heading = parseHeadingLine(line);
+    if (heading) {
+      flushList();
+      flushPara();
+      out.push({ type: "heading", ...heading });
+      continue;
+    }
+
+    // 9) 리스트
+    if (isOl || isUl) {
+      const kind = isOl ? "ordered" : "unordered";
+      flushPara();
+
+      if (listKind !== null && listKind !== kind) flushList();
+      if (listKind === null) {
+        listKind = kind;
+        listStart = isOl ? Number(ORDERED_LIST_RE.exec(line)?.[1] ?? 1) : 1;
+      }
+      listBuf.push(line);
+      pendingListBlank = false;
+      continue;
+    }
+
+    // 10) 일반 문단
+    flushList();
+    paraBuf.push(line);
+  }
+
+  // tail flush
+  flushCode();
+  flushAll();
+
+  return out;
+}
+
+// =========================
+// 인라인
+// =========================
+
+const INLINE_OPENER_RE = /`|\*\*|__|~~|\[|【|<|https?:\/\//g;
+
+/** 서식으로 살리는 HTML 태그 (속성은 모두 버림) */
+const HTML_MARK_TAGS: Record<string, MdInlineMarkType> = {
+  b: "strong",
+  strong: "strong",
+  i: "em",
+  em: "em",
+  u: "u",
+  s: "del",
+  del: "del",
+  strike: "del",
+  sup: "sup",
+  sub: "sub",
+  mark: "mark",
+};
+
+/** 내용까지 통째로 버리는 태그 */
+const HTML_DROP_TAGS = new Set([
+  "script",
+  "style",
+  "iframe",
+  "object",
+  "embed",
+  "noscript",
+  "template",
+  "textarea",
+  "title",
+  "svg",
+  "math",
+]);
+
+const HTML_TAG_RE = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^<>"']|"[^"]*"|'[^']*')*?)(\/?)>/y;
+
+const MD_LINK_RE = /\[([^\]\n]+)\]\(\s*<?([^()\s<>]+(?:\([^()\s]*\))?)>?(?:\s+"[^"\n]*")?\s*\)/y;
+
+const BARE_URL_RE = /https?:\/\/[A-Za-z0-9\-._~:/?#@!$&*+,;=%]+/y;
+
+/**
+ * 링크 주소 정리: http(s)/mailto/tel만 허용 (javascript:, data: 등은 링크로 만들지 않음)
+ */
+export function sanitizeHref(raw: string): string | null {
+  const href = raw.trim().replace(/&amp;/g, "&");
+  if (!href || /\s/.test(href) || Array.from(href).some((c) => c.charCodeAt(0) < 32)) {
+    return null;
+  }
+  if (/^https?:\/\/[^/]/i.test(href)) return href;
+  if (/^(mailto|tel):[^/]/i.test(href)) return href;
+  return null;
+}
+
+function findClosingTag(src: string, from: number, tag: string): { start: number; end: number } | null {
+  const re = new RegExp(`</${tag}\\s*>`, "gi");
+  re.lastIndex = from;
+  const m = re.exec(src);
+  return m ? { start: m.index, end: m.index + m[0].length } : null;
+}
+
+function readHrefAttr(attrs: string): string | null {
+  const m = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i.exec(attrs);
+  return m ? m[1] ?? m[2] ?? m[3] ?? null : null;
+}
+
+type InlineParseResult = { nodes: MdInline[]; end: number } | null;
+
+/**
+ * 인라인 마크다운 → 노드
+ * - citationCount > 0 이면 [n] / [n, m] / 【n】 을 인용 마커로 해석(번호 범위 밖이면 텍스트)
+ */
+export function parseInlineMarkdown(text: string, citationCount = 0, depth = 0): MdInline[] {
+  const src = String(text ?? "");
+  if (!src) return [];
+  // 과도한 재귀 방지(이론상 필요 거의 없지만 안전장치)
+  if (depth > 6) return [{ type: "text", text: src }];
+
+  const out: MdInline[] = [];
+  let buf = "";
+  const flush = () => {
+    if (buf) out.push({ type: "text", text: buf });
+    buf = "";
+  };
+
+  const parseAt = (pos: number, opener: string): InlineParseResult => {
+    if (opener === "`") {
+      const close = src.indexOf("`", pos + 1);
+      if (close <= pos + 1) return null;
+      return { nodes: [{ type: "code", text: src.slice(pos + 1, close) }], end: close + 1 };
+    }
+
+    if (opener === "**" || opener === "__" || opener === "~~") {
+      const close = src.indexOf(opener, pos + 2);
+      if (close <= pos + 2) return null;
+      const children = parseInlineMarkdown(src.slice(pos + 2, close), citationCount, depth + 1);
+      return {
+        nodes: [{ type: opener === "~~" ? "del" : "strong", children }],
+        end: close + 2,
+      };
+    }
+
+    if (opener === "[" || opener === "【") {
+      const cite = citationCount > 0 ? findNextCitation(src, pos, citationCount) : null;
+      if (cite && cite.pos === pos) {
+        return { nodes: [{ type: "cite", numbers: cite.numbers }], end: cite.end };
+      }
+      if (opener === "【") return null;
+
+      MD_LINK_RE.lastIndex = pos;
+      const m = MD_LINK_RE.exec(src);
+      if (!m) return null;
+      const children = parseInlineMarkdown(m[1], citationCount, depth + 1);
+      const href = sanitizeHref(m[2]);
+      return {
+        nodes: href ? [{ type: "link", href, children }] : children,
+        end: pos + m[0].length,
+      };
+    }
+
+    if (opener === "<") {
+      HTML_TAG_RE.lastIndex = pos;
+      const m = HTML_TAG_RE.exec(src);
+      if (!m) return null;
+
+      const closing = m[1] === "/";
+      const tag = m[2].toLowerCase();
+      const tagEnd = pos + m[0].length;
+
+      if (tag === "br") return { nodes: [{ type: "br" }], end: tagEnd };
+      if (closing) return { nodes: [], end: tagEnd };
+
+      if (HTML_DROP_TAGS.has(tag)) {
+        const close = findClosingTag(src, tagEnd, tag);
+        // 스트리밍 중 닫는 태그가 아직 없으면 나머지를 모두 버린다
+        return { nodes: [], end: close ? close.end : src.length };
+      }
+
+      const mark = HTML_MARK_TAGS[tag];
+      const isLink = tag === "a";
+      const isCode = tag === "code";
+      if (m[4] === "/" || (!mark && !isLink && !isCode)) {
+        // 그 밖의 태그는 벗겨서 내용만 남긴다
+        return { nodes: [], end: tagEnd };
+      }
+
+      const close = findClosingTag(src, tagEnd, tag);
+      if (!close) return { nodes: [], end: tagEnd };
+
+      const inner = src.slice(tagEnd, close.start);
+      if (isCode) return { nodes: [{ type: "code", text: inner }], end: close.end };
+
+      const children = parseInlineMarkdown(inner, citationCount, depth + 1);
+      if (isLink) {
+        const href = sanitizeHref(readHrefAttr(m[3]) ?? "");
+        return { nodes: href ? [{ type: "link", href, children }] : children, end: close.end };
+      }
+      return { nodes: [{ type: mark, children }], end: close.end };
+    }
+
+    // bare URL
+    BARE_URL_RE.lastIndex = pos;
+    const m = BARE_URL_RE.exec(src);
+    if (!m) return null;
+    // 문장부호로 끝나면 링크에서 제외 ("…참고하세요: https://a.b/c." )
+    const url = m[0].replace(/[.,;:!?*]+$/, "");
+    const href = sanitizeHref(url);
+    if (!href) return null;
+    return { nodes: [{ type: "link", href, children: [{ type: "text", text: url }] }], end: pos + url.length };
+  };
+
+  const re = new RegExp(INLINE_OPENER_RE.source, "g");
+  let i = 0;
+  while (i < src.length) {
+    re.lastIndex = i;
+    const m = re.exec(src);
+    if (!m) {
+      buf += src.slice(i);
+      break;
+    }
+
+    buf += src.slice(i, m.index);
+    const parsed = parseAt(m.index, m[0]);
+    if (parsed) {
+      flush();
+      out.push(...parsed.nodes);
+      i = parsed.end;
+    } else {
+      // 닫힘이 없으면 그대로 텍스트 (스트리밍 중 미완성 방어)
+      buf += m[0];
+      i = m.index + m[0].length;
+    }
+  }
+  flush();
+
+  return out;
+}
+
+// =========================
+// 복사용 직렬화
+// =========================
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function inlineToHtml(nodes: MdInline[]): string {
+  return nodes
+    .map((n) => {
+      switch (n.type) {
+        case "text":
+          return escapeHtml(n.text);
+        case "code":
+          return `<code>${escapeHtml(n.text)}</code>`;
+        case "br":
+          return "<br>";
+        case "cite":
+          return `<sup>[${n.numbers.join(", ")}]</sup>`;
+        case "link":
+          return `<a href="${escapeHtml(n.href)}">${inlineToHtml(n.children)}</a>`;
+        case "strong":
+        case "em":
+        case "del":
+        case "u":
+        case "sup":
+        case "sub":
+        case "mark":
+          return `<${n.type}>${inlineToHtml(n.children)}</${n.type}>`;
+      }
+    })
+    .join("");
+}
+
+function inlineTextToHtml(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => inlineToHtml(parseInlineMarkdown(line)))
+    .join("<br>");
+}
+
+// 붙여넣는 곳(메일/문서)에 CSS가 없으므로 표 테두리는 인라인 스타일로
+const TABLE_CELL_STYLE = "border:1px solid #d1d5db;padding:4px 8px;";
+
+/** 표 → HTML (블록 복사/메시지 복사 공용) */
+export function tableToHtml(table: MdTable): string {
+  const cell = (tag: "th" | "td", text: string, i: number) => {
+    const align = table.align[i];
+    const style = TABLE_CELL_STYLE + (align ? `text-align:${align};` : "");
+    return `<${tag} style="${style}">${inlineTextToHtml(text)}</${tag}>`;
+  };
+
+  const head = `<tr>${table.header.map((h, i) => cell("th", h, i)).join("")}</tr>`;
+  const body = table.rows
+    .map((r) => `<tr>${r.map((c, i) => cell("td", c, i)).join("")}</tr>`)
+    .join("");
+
+  return `<table style="border-collapse:collapse;"><thead>${head}</thead><tbody>${body}</tbody></table>`;
+}
+
+/** 표 → TSV (스프레드시트 붙여넣기용 text/plain) */
+export function tableToTsv(table: MdTable): string {
+  const clean = (s: string) => s.replace(/<br\s*\/?>/gi, " ").replace(/[\t\n]/g, " ");
+  return [table.header, ...table.rows].map((r) => r.map(clean).join("\t")).join("\n");
+}
+
+/** 마크다운 → HTML 조각 (서식 유지 복사용, 항상 escape된 결과만 만든다) */
+export function markdownToHtml(text: string, depth = 0): string {
+  return parseMarkdownBlocks(text)
+    .map((b) => {
+      switch (b.type) {
+        case "paragraph":
+          return `<p>${inlineTextToHtml(b.text)}</p>`;
+        case "heading":
+          return `<h${b.level}>${inlineTextToHtml(b.text)}</h${b.level}>`;
+        case "list": {
+          const tag = b.ordered ? "ol" : "ul";
+          const start = b.ordered && b.start !== 1 ? ` start="${b.start}"` : "";
+          const items = b.items.map((it) => `<li>${inlineTextToHtml(it)}</li>`).join("");
+          return `<${tag}${start}>${items}</${tag}>`;
+        }
+        case "quote":
+          return depth > 2
+            ? `<blockquote>${inlineTextToHtml(b.text)}</blockquote>`
+            : `<blockquote>${markdownToHtml(b.text, depth + 1)}</blockquote>`;
+        case "code":
+          return `<pre><code>${escapeHtml(b.code)}</code></pre>`;
+        case "table":
+          return tableToHtml(b);
+        case "hr":
+          return "<hr>";
+      }
+    })
+    .join("\n");
+}
+
+/**
+ * 클립보드 복사 (text/html을 함께 넣으면 문서/메일에 붙여넣을 때 서식이 유지된다)
+ * - ClipboardItem 미지원/비보안 컨텍스트면 텍스트만 복사
+ */
+export async function copyToClipboard(plain: string, html?: string): Promise<boolean> {
+  if (typeof window === "undefined") return false;
+
+  const nav = window.navigator;
+  try {
+    if (html && nav.clipboard?.write && typeof ClipboardItem !== "undefined") {
+      await nav.clipboard.write([
+        new ClipboardItem({
+          "text/plain": new Blob([plain], { type: "text/plain" }),
+          "text/html": new Blob([html], { type: "text/html" }),
+        }),
+      ]);
+      return true;
+    }
+    if (nav.clipboard?.writeText) {
+      await nav.clipboard.writeText(plain);
+      return true;
+    }
+  } catch (e: unknown) {
+    console.warn("[chatMarkdown] clipboard write failed, falling back:", e);
+  }
+
+  // http 개발 환경 등 clipboard API를 못 쓰는 경우
+  const ta = document.createElement("textarea");
+  ta.value = plain;
+  ta.setAttribute("readonly", "");
+  ta.style.position = "fixed";
+  ta.style.opacity = "0";
+  document.body.appendChild(ta);
+  ta.select();
+  try {
+    return document.execCommand("copy");
+  } catch {
+    return false;
+  } finally {
+    ta.remove();
+  }
+}
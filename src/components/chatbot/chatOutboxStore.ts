@@ -0,0 +1,102 @@
+// src/components/chatbot/chatOutboxStore.ts
+import type { ChatAttachment, ChatDomain, ChatPiiDecision } from "../../types/chat";
+import { idbRequest, idbTransactionDone, openIdb } from "../../utils/idb";
+
+/**
+ * 챗봇 전송 대기열(outbox) 저장소
+ * - 네트워크 문제로 보내지 못한 사용자 메시지를 IndexedDB에 보관 → 새로고침/재접속 후에도 이어서 전송
+ * - 사용자(userUuid)별로 분리해서 읽는다(같은 브라우저 다른 계정 섞임 방지)
+ * - IndexedDB를 못 쓰는 환경은 메모리에만 보관(탭을 닫으면 사라짐)
+ * - 저장소는 탭끼리 공유되므로 전송 전 getOutboxEntry로 아직 남아 있는지 확인한다.
+ */
+
+const DB_NAME = "ctrlf-chat-outbox";
+const DB_VERSION = 1;
+const STORE = "outbox";
+
+export type ChatOutboxStatus = "pending" | "failed";
+
+export type ChatOutboxEntry = {
+  /** 사용자 메시지 로컬 id (= 말풍선 id) */
+  id: string;
+  userUuid: string;
+  /** 로컬 세션 id */
+  sessionId: string;
+  sessionTitle: string;
+  domain: ChatDomain;
+  /** 실제 전송할 질문 */
+  content: string;
+  /** 말풍선에 표시한 질문 (content와 다를 때만) */
+  displayContent?: string;
+  /** 개인정보 감지 시 사용자 선택 (재전송 때도 함께 기록) */
+  pii?: ChatPiiDecision;
+  /** 질문 첨부 (업로드는 이미 끝났으므로 object key만 보관) */
+  attachments?: ChatAttachment[];
+  status: ChatOutboxStatus;
+  attempts: number;
+  /** 다음 자동 재시도 시각 (epoch ms) */
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+};
+
+const memoryEntries = new Map<string, ChatOutboxEntry>();
+let useMemoryOnly = false;
+
+function openOutboxDb(): Promise<IDBDatabase> {
+  return openIdb(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE)) {
+      const store = db.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("userUuid", "userUuid", { unique: false });
+    }
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>
+): Promise<T | null> {
+  if (useMemoryOnly) return null;
+  try {
+    const db = await openOutboxDb();
+    const tx = db.transaction(STORE, mode);
+    const done = idbTransactionDone(tx);
+    const result = await run(tx.objectStore(STORE));
+    await done;
+    return result;
+  } catch (e: unknown) {
+    console.warn("[chatOutboxStore] IndexedDB unavailable, using memory:", e);
+    useMemoryOnly = true;
+    return null;
+  }
+}
+
+export async function loadOutboxEntries(userUuid: string): Promise<ChatOutboxEntry[]> {
+  const fromDb = await withStore("readonly", (store) =>
+    idbRequest(store.index("userUuid").getAll(userUuid) as IDBRequest<ChatOutboxEntry[]>)
+  );
+
+  const entries =
+    fromDb ?? Array.from(memoryEntries.values()).filter((e) => e.userUuid === userUuid);
+
+  return [...entries].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** 단건 조회 (다른 탭이 이미 전송/삭제했는지 확인용) */
+export async function getOutboxEntry(id: string): Promise<ChatOutboxEntry | null> {
+  const fromDb = await withStore("readonly", (store) =>
+    idbRequest(store.get(id) as IDBRequest<ChatOutboxEntry | undefined>)
+  );
+  if (fromDb !== null) return fromDb ?? null;
+  return memoryEntries.get(id) ?? null;
+}
+
+export async function putOutboxEntry(entry: ChatOutboxEntry): Promise<void> {
+  memoryEntries.set(entry.id, entry);
+  await withStore("readwrite", (store) => idbRequest(store.put(entry)));
+}
+
+export async function deleteOutboxEntry(id: string): Promise<void> {
+  memoryEntries.delete(id);
+  await withStore("readwrite", (store) => idbRequest(store.delete(id)));
+}
@@ -0,0 +1,209 @@
+// src/components/chatbot/chatPii.ts
+import type { ChatPiiKind } from "../../types/chat";
+
+/**
+ * 전송 전 개인정보(PII) 감지/마스킹
+ * - 서버 로그의 hasPiiInput은 이미 전송된 뒤라서, 보내기 전에 브라우저에서 먼저 확인한다.
+ * - 오탐보다 놓치는 쪽이 더 위험하지만, 날짜/금액 같은 일반 숫자까지 잡지 않도록 형식 검증을 곁들인다.
+ *   (주민번호: 생년월일/성별자리, 카드: Luhn, 계좌: 하이픈 형식 또는 "계좌" 문맥)
+ */
+
+export type PiiMatch = {
+  kind: ChatPiiKind;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export const PII_KIND_LABELS: Record<ChatPiiKind, string> = {
+  rrn: "주민등록번호",
+  phone: "전화번호",
+  card: "카드번호",
+  account: "계좌번호",
+  email: "이메일",
+  employeeNo: "사번",
+};
+
+/** 겹칠 때 남길 우선순위 (앞일수록 우선) */
+const KIND_PRIORITY: ChatPiiKind[] = ["rrn", "card", "phone", "account", "employeeNo", "email"];
+
+function digitsOf(s: string): string {
+  return s.replace(/\D/g, "");
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i -= 1) {
+    let d = digits.charCodeAt(i) - 48;
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+type Rule = {
+  kind: ChatPiiKind;
+  pattern: RegExp;
+  /** 매치 안에서 실제 PII 부분 (없으면 전체) */
+  group?: number;
+  validate?: (text: string) => boolean;
+};
+
+const RULES: Rule[] = [
+  {
+    // 생년월일 6자리 + 성별자리(1~8) + 6자리
+    kind: "rrn",
+    pattern: /(?<!\d)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\s?-?\s?[1-8]\d{6}(?!\d)/g,
+  },
+  {
+    kind: "card",
+    pattern: /(?<!\d)(?:\d{4}[-\s]?){3}\d{1,4}(?!\d)|(?<!\d)\d{4}[-\s]?\d{6}[-\s]?\d{5}(?!\d)/g,
+    validate: (t) => {
+      const d = digitsOf(t);
+      return d.length >= 13 && d.length <= 16 && passesLuhn(d);
+    },
+  },
+  {
+    // 휴대전화 (구분자 없어도 감지)
+    kind: "phone",
+    pattern: /(?<!\d)01[016789][-.\s]?\d{3,4}[-.\s]?\d{4}(?!\d)/g,
+  },
+  {
+    // 지역번호/인터넷전화 (구분자가 있을 때만: 일반 숫자 오탐 방지)
+    kind: "phone",
+    pattern: /(?<!\d)\(?0(?:2|3[1-3]|4[1-4]|5[1-5]|6[1-4]|70)\)?[-.\s)]\d{3,4}[-.\s]\d{4}(?!\d)/g,
+  },
+  {
+    // 은행 계좌: 하이픈으로 끊긴 숫자 10~14자리
+    kind: "account",
+    pattern: /(?<![\d-])\d{2,6}(?:-\d{2,6}){1,3}(?![\d-])/g,
+    validate: (t) => {
+      const n = digitsOf(t).length;
+      return n >= 10 && n <= 14;
+    },
+  },
+  {
+    // 하이픈 없는 계좌는 "계좌/통장" 문맥이 있을 때만
+    kind: "account",
+    pattern: /(?:계좌|통장|입금|송금)[^\d\n]{0,12}(\d{10,14})(?!\d)/g,
+    group: 1,
+  },
+  {
+    kind: "employeeNo",
+    pattern:
+      /(?:사번|사원\s?번호|직원\s?번호|employee\s?(?:id|no\.?))\s*[:：]?\s*(?:은|는|이|가)?\s*([A-Za-z]{0,3}-?\d{4,10})(?!\d)/gi,
+    group: 1,
+  },
+  {
+    kind: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+];
+
+/**
+ * 텍스트에서 개인정보 후보 찾기 (시작 위치 순, 겹치면 우선순위 높은 것만)
+ */
+export function detectPii(text: string): PiiMatch[] {
+  if (!text) return [];
+
+  const found: PiiMatch[] = [];
+  for (const rule of RULES) {
+    rule.pattern.lastIndex = 0;
+    for (const m of text.matchAll(rule.pattern)) {
+      const whole = m[0];
+      const part = rule.group ? m[rule.group] : whole;
+      if (!part) continue;
+
+      const start = (m.index ?? 0) + (rule.group ? whole.lastIndexOf(part) : 0);
+      const value = part.trim();
+      if (rule.validate && !rule.validate(value)) continue;
+
+      found.push({ kind: rule.kind, start, end: start + value.length, text: value });
+    }
+  }
+
+  found.sort(
+    (a, b) =>
+      KIND_PRIORITY.indexOf(a.kind) - KIND_PRIORITY.indexOf(b.kind) || a.start - b.start
+  );
+
+  const kept: PiiMatch[] = [];
+  for (const m of found) {
+    if (kept.some((k) => m.start < k.end && k.start < m.end)) continue;
+    kept.push(m);
+  }
+
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+/** 숫자만 가리기 (앞 keepHead / 뒤 keepTail 자리는 남기고 구분자는 유지) */
+function maskDigits(s: string, keepHead: number, keepTail: number): string {
+  const total = digitsOf(s).length;
+  let seen = 0;
+  return s.replace(/\d/g, (d) => {
+    seen += 1;
+    return seen <= keepHead || seen > total - keepTail ? d : "*";
+  });
+}
+
+function maskEmail(s: string): string {
+  const at = s.indexOf("@");
+  if (at < 0) return s;
+  const local = s.slice(0, at);
+  const keep = local.slice(0, Math.min(2, Math.max(1, local.length - 1)));
+  return `${keep}${"*".repeat(Math.max(3, local.length - keep.length))}${s.slice(at)}`;
+}
+
+export function maskPiiValue(kind: ChatPiiKind, value: string): string {
+  switch (kind) {
+    case "rrn":
+      return maskDigits(value, 7, 0);
+    case "phone":
+      return maskDigits(value, 3, 4);
+    case "card":
+      return maskDigits(value, 0, 4);
+    case "account":
+    case "employeeNo":
+      return maskDigits(value, 0, 2);
+    case "email":
+      return maskEmail(value);
+  }
+}
+
+/** 감지된 부분을 가린 전송용 텍스트 */
+export function maskPii(text: string, matches: PiiMatch[] = detectPii(text)): string {
+  let out = "";
+  let cursor = 0;
+  for (const m of matches) {
+    out += text.slice(cursor, m.start) + maskPiiValue(m.kind, m.text);
+    cursor = m.end;
+  }
+  return out + text.slice(cursor);
+}
+
+/** 감지된 종류 (중복 제거, 우선순위 순) */
+export function piiKindsOf(matches: PiiMatch[]): ChatPiiKind[] {
+  const kinds = new Set(matches.map((m) => m.kind));
+  return KIND_PRIORITY.filter((k) => kinds.has(k));
+}
+
+/** 미리보기 강조용: 텍스트를 일반/PII 구간으로 나누기 */
+export function splitByPii(
+  text: string,
+  matches: PiiMatch[]
+): Array<{ text: string; kind: ChatPiiKind | null }> {
+  const parts: Array<{ text: string; kind: ChatPiiKind | null }> = [];
+  let cursor = 0;
+  for (const m of matches) {
+    if (m.start > cursor) parts.push({ text: text.slice(cursor, m.start), kind: null });
+    parts.push({ text: text.slice(m.start, m.end), kind: m.kind });
+    cursor = m.end;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), kind: null });
+  return parts;
+}
@@ -0,0 +1,346 @@
+// src/components/chatbot/chatPreferences.ts
+import { useEffect, useSyncExternalStore } from "react";
+import type { ChatDomain } from "../../types/chat";
+import type { PanelSize } from "../../utils/chat";
+import { getUserUuidFromKeycloak } from "./chatApi";
+import { postChatTabSync, subscribeChatTabSync } from "./chatTabSync";
+
+/**
+ * 챗봇 환경설정 (사용자별)
+ * - 키: Keycloak 사용자(sub) → 같은 브라우저 다른 계정과 섞이지 않게 분리
+ * - 저장 형식에 version을 두고, 읽을 때 이전 버전은 MIGRATIONS로 올려서 사용
+ * - 로그인 정보가 없으면 메모리에만 보관(새로고침 시 기본값)
+ * - useSyncExternalStore 호환: 스냅샷은 변경 시에만 새 객체로 교체
+ * - 적용 위치: FloatingDock(아이콘 위치) / ChatbotApp(패널 크기·위치, 기본 도메인, 스트리밍)
+ *   / ChatWindow(글자 크기, Enter 전송) / EduPanel·QuizPanel(패널 크기·위치)
+ *   / EduDeadlineReminders(필수 교육 마감 알림 시점)
+ */
+
+export const CHAT_PREFERENCES_VERSION = 1;
+
+export type ChatFontSize = "small" | "medium" | "large";
+
+/** 패널을 여는 위치: 아이콘 옆 / 화면 가운데 */
+export type ChatPanelPlacement = "dock" | "center";
+
+/** 새 채팅 기본 도메인으로 고를 수 있는 값 (퀴즈/교육/FAQ는 전용 화면이 있어 제외) */
+export type ChatDefaultDomain = Extract<ChatDomain, "general" | "policy" | "security">;
+
+/** 필수 교육 마감 알림 시점 */
+export type EduReminderOffset = "D7" | "D3" | "D1" | "OVERDUE";
+
+/** 크기를 기억하는 패널 */
+export type ChatPreferencePanel = "chat" | "edu" | "quiz";
+
+export type ChatPreferences = {
+  /** null: 소속(토큰 domain) 기준 자동 */
+  defaultDomain: ChatDefaultDomain | null;
+  /** 답변을 받는 대로 표시 (끄면 완성된 답변을 한 번에 표시) */
+  streaming: boolean;
+  fontSize: ChatFontSize;
+  /** true: Enter 전송 / Shift+Enter 줄바꿈, false: Ctrl(⌘)+Enter 전송 / Enter 줄바꿈 */
+  enterToSend: boolean;
+  panelPlacement: ChatPanelPlacement;
+  /** 마지막으로 조절한 패널 크기를 다음에 열 때 사용 */
+  rememberPanelSize: boolean;
+  panelSizes: Partial<Record<ChatPreferencePanel, PanelSize>>;
+  /** 플로팅 아이콘 위치 (null: 화면 오른쪽 아래 기본 위치) */
+  dockPosition: { x: number; y: number } | null;
+  /** 필수 교육 마감 알림을 띄울 시점 (비우면 알림 끔) */
+  eduReminders: EduReminderOffset[];
+};
+
+export const CHAT_FONT_SIZE_OPTIONS: Array<{ value: ChatFontSize; label: string }> = [
+  { value: "small", label: "작게" },
+  { value: "medium", label: "보통" },
+  { value: "large", label: "크게" },
+];
+
+export const CHAT_DEFAULT_DOMAIN_OPTIONS: Array<{
+  value: ChatDefaultDomain | null;
+  label: string;
+}> = [
+  { value: null, label: "소속 기준 자동" },
+  { value: "general", label: "일반" },
+  { value: "policy", label: "사내 규정" },
+  { value: "security", label: "정보보안" },
+];
+
+export const CHAT_PANEL_PLACEMENT_OPTIONS: Array<{
+  value: ChatPanelPlacement;
+  label: string;
+}> = [
+  { value: "dock", label: "아이콘 옆" },
+  { value: "center", label: "화면 가운데" },
+];
+
+/** days: 마감까지 남은 일수 기준 (OVERDUE는 기한이 지난 뒤) */
+export const EDU_REMINDER_OPTIONS: Array<{
+  value: EduReminderOffset;
+  label: string;
+  days: number | null;
+}> = [
+  { value: "D7", label: "7일 전", days: 7 },
+  { value: "D3", label: "3일 전", days: 3 },
+  { value: "D1", label: "하루 전", days: 1 },
+  { value: "OVERDUE", label: "기한 초과", days: null },
+];
+
+const STORAGE_PREFIX = "ctrlf-chat-prefs";
+const ANONYMOUS_KEY = "__anonymous__";
+
+/** 패널 크기 값의 허용 범위 (잘못 저장된 값 방지) */
+const MIN_SAVED_PANEL_SIDE = 200;
+const MAX_SAVED_PANEL_SIDE = 4000;
+
+export function getDefaultChatPreferences(): ChatPreferences {
+  return {
+    defaultDomain: null,
+    // 배포 설정(VITE_CHAT_STREAMING)이 기본값, 미설정이면 스트리밍 사용
+    streaming:
+      String(import.meta.env.VITE_CHAT_STREAMING ?? "true").toLowerCase() === "true",
+    fontSize: "medium",
+    enterToSend: true,
+    panelPlacement: "dock",
+    rememberPanelSize: true,
+    panelSizes: {},
+    dockPosition: null,
+    eduReminders: ["D7", "D1", "OVERDUE"],
+  };
+}
+
+/* =========================
+   저장 형식 파싱 / 마이그레이션
+========================= */
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is JsonRecord {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/**
+ * 버전별 변환 (key: 변환 전 버전)
+ * - 저장 형식을 바꿀 때 CHAT_PREFERENCES_VERSION을 올리고 여기에 이전 버전 변환을 추가
+ */
+const MIGRATIONS: Record<number, (prefs: JsonRecord) => JsonRecord> = {};
+
+function migrate(version: number, prefs: JsonRecord): JsonRecord {
+  let next = prefs;
+  for (let v = version; v < CHAT_PREFERENCES_VERSION; v += 1) {
+    const step = MIGRATIONS[v];
+    if (step) next = step(next);
+  }
+  return next;
+}
+
+function pickOption<T>(v: unknown, options: Array<{ value: T }>, fallback: T): T {
+  return options.some((o) => o.value === v) ? (v as T) : fallback;
+}
+
+function parsePanelSize(v: unknown): PanelSize | null {
+  if (!isRecord(v)) return null;
+  const { width, height } = v;
+  if (typeof width !== "number" || typeof height !== "number") return null;
+  const ok = (n: number) =>
+    Number.isFinite(n) && n >= MIN_SAVED_PANEL_SIDE && n <= MAX_SAVED_PANEL_SIDE;
+  return ok(width) && ok(height) ? { width: Math.round(width), height: Math.round(height) } : null;
+}
+
+function parseDockPosition(v: unknown): ChatPreferences["dockPosition"] {
+  if (!isRecord(v)) return null;
+  const { x, y } = v;
+  if (typeof x !== "number" || typeof y !== "number") return null;
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+  return { x: Math.round(x), y: Math.round(y) };
+}
+
+function parseEduReminders(v: unknown, fallback: EduReminderOffset[]): EduReminderOffset[] {
+  if (!Array.isArray(v)) return fallback;
+  // 옵션 순서로 정렬 + 중복 제거
+  return EDU_REMINDER_OPTIONS.map((o) => o.value).filter((value) => v.includes(value));
+}
+
+/** 알 수 없는 값은 기본값으로 (다른 버전 빌드가 저장한 값도 아는 필드만 읽는다) */
+function parsePreferences(raw: JsonRecord): ChatPreferences {
+  const d = getDefaultChatPreferences();
+
+  const panelSizes: ChatPreferences["panelSizes"] = {};
+  if (isRecord(raw["panelSizes"])) {
+    for (const panel of ["chat", "edu", "quiz"] as const) {
+      const size = parsePanelSize(raw["panelSizes"][panel]);
+      if (size) panelSizes[panel] = size;
+    }
+  }
+
+  return {
+    defaultDomain: pickOption(raw["defaultDomain"], CHAT_DEFAULT_DOMAIN_OPTIONS, d.defaultDomain),
+    streaming: typeof raw["streaming"] === "boolean" ? raw["streaming"] : d.streaming,
+    fontSize: pickOption(raw["fontSize"], CHAT_FONT_SIZE_OPTIONS, d.fontSize),
+    enterToSend: typeof raw["enterToSend"] === "boolean" ? raw["enterToSend"] : d.enterToSend,
+    panelPlacement: pickOption(
+      raw["panelPlacement"],
+      CHAT_PANEL_PLACEMENT_OPTIONS,
+      d.panelPlacement
+    ),
+    rememberPanelSize:
+      typeof raw["rememberPanelSize"] === "boolean"
+        ? raw["rememberPanelSize"]
+        : d.rememberPanelSize,
+    panelSizes,
+    dockPosition: parseDockPosition(raw["dockPosition"]),
+    eduReminders: parseEduReminders(raw["eduReminders"], d.eduReminders),
+  };
+}
+
+function readPreferences(userUuid: string): ChatPreferences {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_PREFIX}:${userUuid}`);
+    if (!raw) return getDefaultChatPreferences();
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed) || !isRecord(parsed["prefs"])) return getDefaultChatPreferences();
+
+    const version = typeof parsed["version"] === "number" ? parsed["version"] : 0;
+    return parsePreferences(migrate(version, parsed["prefs"]));
+  } catch {
+    return getDefaultChatPreferences();
+  }
+}
+
+function writePreferences(userUuid: string, prefs: ChatPreferences) {
+  try {
+    localStorage.setItem(
+      `${STORAGE_PREFIX}:${userUuid}`,
+      JSON.stringify({ version: CHAT_PREFERENCES_VERSION, prefs })
+    );
+  } catch {
+    // ignore (용량 초과/프라이빗 모드)
+  }
+}
+
+function removePreferences(userUuid: string) {
+  try {
+    localStorage.removeItem(`${STORAGE_PREFIX}:${userUuid}`);
+  } catch {
+    // ignore
+  }
+}
+
+/* =========================
+   store
+========================= */
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+const snapshots = new Map<string, ChatPreferences>();
+
+function emit() {
+  listeners.forEach((l) => l());
+}
+
+function storeKey(userUuid: string | null): string {
+  return userUuid ?? ANONYMOUS_KEY;
+}
+
+/** 현재 사용자 설정 (컴포넌트 밖/이벤트 핸들러에서 읽을 때) */
+export function getChatPreferences(
+  userUuid: string | null = getUserUuidFromKeycloak()
+): ChatPreferences {
+  const key = storeKey(userUuid);
+  let snap = snapshots.get(key);
+  if (!snap) {
+    snap = userUuid ? readPreferences(userUuid) : getDefaultChatPreferences();
+    snapshots.set(key, snap);
+  }
+  return snap;
+}
+
+function subscribeChatPreferences(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function commit(update: (prev: ChatPreferences) => ChatPreferences): void {
+  const userUuid = getUserUuidFromKeycloak();
+  const prev = getChatPreferences(userUuid);
+  const next = update(prev);
+  if (next === prev) return;
+
+  snapshots.set(storeKey(userUuid), next);
+  if (userUuid) {
+    writePreferences(userUuid, next);
+    // 다른 탭은 저장소에서 다시 읽는다
+    postChatTabSync(userUuid, { type: "preferences" });
+  }
+  emit();
+}
+
+export function updateChatPreferences(
+  patch: Partial<Omit<ChatPreferences, "panelSizes">>
+): void {
+  commit((prev) => {
+    const changed = (Object.keys(patch) as Array<keyof typeof patch>).some(
+      (k) => patch[k] !== undefined && patch[k] !== prev[k]
+    );
+    if (!changed) return prev;
+
+    const defined = Object.fromEntries(
+      Object.entries(patch).filter(([, v]) => v !== undefined)
+    ) as Partial<ChatPreferences>;
+    const next: ChatPreferences = { ...prev, ...defined };
+    // 크기 기억을 끄면 저장된 크기도 비운다
+    if (patch.rememberPanelSize === false) next.panelSizes = {};
+    return next;
+  });
+}
+
+/** 기본값으로 되돌리기 (저장된 값 삭제) */
+export function resetChatPreferences(): void {
+  const userUuid = getUserUuidFromKeycloak();
+  if (userUuid) removePreferences(userUuid);
+  commit(() => getDefaultChatPreferences());
+}
+
+/** 사용자가 조절한 패널 크기 저장 (크기 기억이 꺼져 있으면 무시) */
+export function saveChatPanelSize(panel: ChatPreferencePanel, size: PanelSize): void {
+  commit((prev) => {
+    if (!prev.rememberPanelSize) return prev;
+    const saved = parsePanelSize(size);
+    const cur = prev.panelSizes[panel];
+    if (!saved || (cur && cur.width === saved.width && cur.height === saved.height)) {
+      return prev;
+    }
+    return { ...prev, panelSizes: { ...prev.panelSizes, [panel]: saved } };
+  });
+}
+
+/** 다음에 열 때 쓸 패널 크기 (없으면 null → 각 패널 기본 크기) */
+export function getSavedChatPanelSize(panel: ChatPreferencePanel): PanelSize | null {
+  const prefs = getChatPreferences();
+  return prefs.rememberPanelSize ? (prefs.panelSizes[panel] ?? null) : null;
+}
+
+/** 다른 탭에서 바뀐 값 다시 읽기 */
+function reloadChatPreferences(userUuid: string) {
+  snapshots.set(storeKey(userUuid), readPreferences(userUuid));
+  emit();
+}
+
+/**
+ * 현재 사용자 설정 구독 (다른 탭 변경도 반영)
+ */
+export function useChatPreferences(): ChatPreferences {
+  const userUuid = getUserUuidFromKeycloak();
+
+  useEffect(() => {
+    if (!userUuid) return;
+    return subscribeChatTabSync(userUuid, (msg) => {
+      if (msg.type === "preferences") reloadChatPreferences(userUuid);
+    });
+  }, [userUuid]);
+
+  return useSyncExternalStore(subscribeChatPreferences, () => getChatPreferences(userUuid));
+}
@@ -0,0 +1,404 @@
+// src/components/chatbot/chatSessionOrganizer.ts
+import { useEffect, useSyncExternalStore } from "react";
+import type { ChatSessionOrganization } from "../../types/chat";
+import { postChatTabSync, subscribeChatTabSync } from "./chatTabSync";
+
+/**
+ * 사이드바 세션 정리 (상단 고정 / 즐겨찾기 / 폴더)
+ * - 키: 서버 세션 UUID (아직 서버에 없으면 로컬 세션 id → 바인딩 시 rekeySessionOrganization으로 옮김)
+ * - 사용자별로 localStorage에 보관하고, 서버 세션 메타에 값이 있으면 더 최신 쪽을 따른다.
+ * - 상단 고정 세션은 ChatbotApp의 보관 개수 제한(MAX_SESSIONS)에서 빠진다.
+ * - useSyncExternalStore 호환: 스냅샷은 변경 시에만 새 객체로 교체
+ */
+
+export type ChatSessionOrgState = {
+  /** 폴더 이름 (표시 순서) */
+  folders: string[];
+  entries: Record<string, ChatSessionOrganization>;
+};
+
+/** 서버 세션 메타에서 읽은 값 (응답에 있는 필드만) */
+export type ServerSessionOrganization = {
+  pinned?: boolean;
+  favorite?: boolean;
+  /** null: 폴더 밖 */
+  folder?: string | null;
+};
+
+export type ChatSessionOrgPatch = {
+  pinned?: boolean;
+  favorite?: boolean;
+  folder?: string | null;
+};
+
+const STORAGE_PREFIX = "ctrlf-chat-session-org:v1";
+const MAX_ENTRIES = 500;
+const MAX_FOLDER_NAME_LENGTH = 30;
+
+const EMPTY_STATE: ChatSessionOrgState = { folders: [], entries: {} };
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is JsonRecord {
+  return typeof v === "object" && v !== null;
+}
+
+function nonEmptyString(v: unknown): string | null {
+  if (typeof v !== "string") return null;
+  const t = v.trim();
+  return t.length > 0 ? t : null;
+}
+
+export function normalizeFolderName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").slice(0, MAX_FOLDER_NAME_LENGTH);
+}
+
+function parseEntry(v: unknown): ChatSessionOrganization | null {
+  if (!isRecord(v)) return null;
+  const folder = nonEmptyString(v["folder"]);
+  return {
+    ...(v["pinned"] === true ? { pinned: true } : {}),
+    ...(v["favorite"] === true ? { favorite: true } : {}),
+    ...(folder ? { folder } : {}),
+    updatedAt: typeof v["updatedAt"] === "number" ? v["updatedAt"] : 0,
+  };
+}
+
+function isEmptyEntry(e: ChatSessionOrganization): boolean {
+  return !e.pinned && !e.favorite && !e.folder;
+}
+
+function readState(userUuid: string): ChatSessionOrgState {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_PREFIX}:${userUuid}`);
+    if (!raw) return EMPTY_STATE;
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) return EMPTY_STATE;
+
+    const folders = Array.isArray(parsed["folders"])
+      ? parsed["folders"].map(nonEmptyString).filter((f): f is string => !!f)
+      : [];
+
+    const entries: Record<string, ChatSessionOrganization> = {};
+    if (isRecord(parsed["entries"])) {
+      for (const [key, v] of Object.entries(parsed["entries"])) {
+        const e = parseEntry(v);
+        if (e && !isEmptyEntry(e)) entries[key] = e;
+      }
+    }
+
+    // 폴더 목록에 없는 폴더를 가리키는 세션이 있으면 폴더를 살려 둔다
+    for (const e of Object.values(entries)) {
+      if (e.folder && !folders.includes(e.folder)) folders.push(e.folder);
+    }
+
+    return { folders: [...new Set(folders)], entries };
+  } catch {
+    return EMPTY_STATE;
+  }
+}
+
+function writeState(userUuid: string, state: ChatSessionOrgState) {
+  // 오래된 것부터 정리 (고정 세션은 끝까지 남긴다)
+  const kept = Object.entries(state.entries)
+    .sort((a, b) => Number(!!b[1].pinned) - Number(!!a[1].pinned) || b[1].updatedAt - a[1].updatedAt)
+    .slice(0, MAX_ENTRIES);
+
+  try {
+    localStorage.setItem(
+      `${STORAGE_PREFIX}:${userUuid}`,
+      JSON.stringify({ folders: state.folders, entries: Object.fromEntries(kept) })
+    );
+  } catch {
+    // ignore (용량 초과/프라이빗 모드)
+  }
+}
+
+/* =========================
+   store
+========================= */
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+const snapshots = new Map<string, ChatSessionOrgState>();
+
+function emit() {
+  listeners.forEach((l) => l());
+}
+
+export function getSessionOrganization(userUuid: string | null): ChatSessionOrgState {
+  if (!userUuid) return EMPTY_STATE;
+  let snap = snapshots.get(userUuid);
+  if (!snap) {
+    snap = readState(userUuid);
+    snapshots.set(userUuid, snap);
+  }
+  return snap;
+}
+
+export function subscribeSessionOrganization(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function commit(
+  userUuid: string | null,
+  update: (prev: ChatSessionOrgState) => ChatSessionOrgState
+): void {
+  if (!userUuid) return;
+  const prev = getSessionOrganization(userUuid);
+  const next = update(prev);
+  if (next === prev) return;
+
+  snapshots.set(userUuid, next);
+  writeState(userUuid, next);
+  emit();
+
+  // 다른 탭은 저장소에서 다시 읽는다
+  postChatTabSync(userUuid, { type: "organize" });
+}
+
+/** 다른 탭에서 바뀐 값 다시 읽기 */
+function reloadSessionOrganization(userUuid: string) {
+  snapshots.set(userUuid, readState(userUuid));
+  emit();
+}
+
+/** 여러 키(서버 UUID / 로컬 id) 중 먼저 찾은 정리 정보 */
+export function resolveSessionOrganization(
+  state: ChatSessionOrgState,
+  keys: Array<string | null | undefined>
+): ChatSessionOrganization | null {
+  for (const k of keys) {
+    if (k && state.entries[k]) return state.entries[k];
+  }
+  return null;
+}
+
+function applyPatch(
+  prev: ChatSessionOrganization | undefined,
+  patch: ChatSessionOrgPatch,
+  at: number
+): ChatSessionOrganization {
+  const next: ChatSessionOrganization = { ...(prev ?? {}), updatedAt: at };
+  if (patch.pinned !== undefined) {
+    if (patch.pinned) next.pinned = true;
+    else delete next.pinned;
+  }
+  if (patch.favorite !== undefined) {
+    if (patch.favorite) next.favorite = true;
+    else delete next.favorite;
+  }
+  if (patch.folder !== undefined) {
+    const folder = patch.folder ? normalizeFolderName(patch.folder) : "";
+    if (folder) next.folder = folder;
+    else delete next.folder;
+  }
+  return next;
+}
+
+function withEntry(
+  state: ChatSessionOrgState,
+  key: string,
+  entry: ChatSessionOrganization
+): ChatSessionOrgState {
+  const entries = { ...state.entries };
+  if (isEmptyEntry(entry)) delete entries[key];
+  else entries[key] = entry;
+
+  const folders =
+    entry.folder && !state.folders.includes(entry.folder)
+      ? [...state.folders, entry.folder]
+      : state.folders;
+
+  return { folders, entries };
+}
+
+/** 고정/즐겨찾기/폴더 변경 (반환값: 변경 후 정리 정보) */
+export function updateSessionOrganization(
+  userUuid: string | null,
+  key: string,
+  patch: ChatSessionOrgPatch
+): ChatSessionOrganization | null {
+  let result: ChatSessionOrganization | null = null;
+  commit(userUuid, (prev) => {
+    result = applyPatch(prev.entries[key], patch, Date.now());
+    return withEntry(prev, key, result);
+  });
+  return result;
+}
+
+/** 로컬 세션이 서버 세션에 바인딩되면 키를 서버 UUID로 옮긴다 */
+export function rekeySessionOrganization(
+  userUuid: string | null,
+  fromKey: string,
+  toKey: string
+): void {
+  if (fromKey === toKey) return;
+  commit(userUuid, (prev) => {
+    const entry = prev.entries[fromKey];
+    if (!entry || prev.entries[toKey]) return prev;
+    const entries = { ...prev.entries, [toKey]: entry };
+    delete entries[fromKey];
+    return { ...prev, entries };
+  });
+}
+
+export function removeSessionOrganization(
+  userUuid: string | null,
+  keys: Array<string | null | undefined>
+): void {
+  commit(userUuid, (prev) => {
+    const hit = keys.filter((k): k is string => !!k && !!prev.entries[k]);
+    if (hit.length === 0) return prev;
+    const entries = { ...prev.entries };
+    for (const k of hit) delete entries[k];
+    return { ...prev, entries };
+  });
+}
+
+/* =========================
+   폴더
+========================= */
+
+/** 폴더 만들기 (반환값: 정리된 이름, 빈 이름이면 null) */
+export function createSessionFolder(userUuid: string | null, name: string): string | null {
+  const folder = normalizeFolderName(name);
+  if (!folder) return null;
+  commit(userUuid, (prev) =>
+    prev.folders.includes(folder) ? prev : { ...prev, folders: [...prev.folders, folder] }
+  );
+  return folder;
+}
+
+/**
+ * 폴더 이름 바꾸기
+ * - 이미 있는 이름이면 두 폴더를 합친다.
+ * - 반환값: 이름이 바뀐 세션 키 (서버 메타 갱신용)
+ */
+export function renameSessionFolder(userUuid: string | null, from: string, to: string): string[] {
+  const target = normalizeFolderName(to);
+  if (!target || target === from) return [];
+
+  const moved: string[] = [];
+  commit(userUuid, (prev) => {
+    if (!prev.folders.includes(from)) return prev;
+    const now = Date.now();
+
+    const entries = { ...prev.entries };
+    for (const [key, e] of Object.entries(prev.entries)) {
+      if (e.folder !== from) continue;
+      entries[key] = { ...e, folder: target, updatedAt: now };
+      moved.push(key);
+    }
+
+    const folders = prev.folders.includes(target)
+      ? prev.folders.filter((f) => f !== from)
+      : prev.folders.map((f) => (f === from ? target : f));
+
+    return { folders, entries };
+  });
+  return moved;
+}
+
+/**
+ * 폴더 삭제 (안의 세션은 폴더 밖으로)
+ * - 반환값: 폴더에서 빠진 세션 키
+ */
+export function deleteSessionFolder(userUuid: string | null, name: string): string[] {
+  const released: string[] = [];
+  commit(userUuid, (prev) => {
+    if (!prev.folders.includes(name)) return prev;
+    const now = Date.now();
+
+    let next: ChatSessionOrgState = {
+      ...prev,
+      folders: prev.folders.filter((f) => f !== name),
+    };
+    for (const [key, e] of Object.entries(prev.entries)) {
+      if (e.folder !== name) continue;
+      next = withEntry(next, key, applyPatch(e, { folder: null }, now));
+      released.push(key);
+    }
+    return next;
+  });
+  return released;
+}
+
+/* =========================
+   서버 세션 메타 연동
+========================= */
+
+function readBool(v: JsonRecord, keys: string[]): boolean | undefined {
+  for (const k of keys) {
+    const x = v[k];
+    if (typeof x === "boolean") return x;
+    if (x === "Y" || x === "N") return x === "Y";
+  }
+  return undefined;
+}
+
+/** /api/chat/sessions 항목에서 정리 정보 읽기 (필드가 하나도 없으면 null) */
+export function readServerSessionOrganization(v: JsonRecord): ServerSessionOrganization | null {
+  const pinned = readBool(v, ["pinned", "isPinned"]);
+  const favorite = readBool(v, ["favorite", "isFavorite", "starred"]);
+
+  let folder: string | null | undefined;
+  for (const k of ["folder", "folderName"]) {
+    if (!(k in v)) continue;
+    folder = nonEmptyString(v[k]);
+    break;
+  }
+
+  if (pinned === undefined && favorite === undefined && folder === undefined) return null;
+  return {
+    ...(pinned !== undefined ? { pinned } : {}),
+    ...(favorite !== undefined ? { favorite } : {}),
+    ...(folder !== undefined ? { folder } : {}),
+  };
+}
+
+/**
+ * 서버 목록 동기화 결과 반영
+ * - 이 브라우저에서 더 나중에 바꾼 값은 유지 (서버 저장이 아직 안 끝났을 수 있음)
+ */
+export function mergeServerSessionOrganization(
+  userUuid: string | null,
+  items: Array<{ serverSessionId: string; organization: ServerSessionOrganization; updatedAt: number }>
+): void {
+  if (items.length === 0) return;
+  commit(userUuid, (prev) => {
+    let next = prev;
+    for (const it of items) {
+      const local = next.entries[it.serverSessionId];
+      if (local && local.updatedAt > it.updatedAt) continue;
+
+      const merged = applyPatch(local, it.organization, it.updatedAt);
+      const same =
+        !!merged.pinned === !!local?.pinned &&
+        !!merged.favorite === !!local?.favorite &&
+        merged.folder === local?.folder;
+      if (!same) next = withEntry(next, it.serverSessionId, merged);
+    }
+    return next;
+  });
+}
+
+/**
+ * 현재 사용자 정리 정보 구독 (다른 탭 변경도 반영)
+ */
+export function useChatSessionOrganization(userUuid: string | null): ChatSessionOrgState {
+  useEffect(() => {
+    if (!userUuid) return;
+    return subscribeChatTabSync(userUuid, (msg) => {
+      if (msg.type === "organize") reloadSessionOrganization(userUuid);
+    });
+  }, [userUuid]);
+
+  return useSyncExternalStore(subscribeSessionOrganization, () =>
+    getSessionOrganization(userUuid)
+  );
+}
@@ -0,0 +1,165 @@
+// src/components/chatbot/chatSlashCommands.ts
+
+/**
+ * 채팅 입력창 슬래시 명령어
+ * - "/"로 시작하는 입력을 명령어 + 인자로 해석 (도메인 버튼/FAQ 칩을 거치지 않는 빠른 실행)
+ * - 실제 동작은 ChatWindow가 기존 핸들러(onChangeDomain/onOpenQuizPanel/onFaqQuickSend 등)에 연결
+ */
+
+export type ChatSlashCommandId =
+  | "policy"
+  | "security"
+  | "general"
+  | "edu"
+  | "quiz"
+  | "faq"
+  | "report"
+  | "reports"
+  | "export"
+  | "new";
+
+export type ChatSlashCommand = {
+  id: ChatSlashCommandId;
+  /** 입력 이름 ("/policy") */
+  name: string;
+  /** 한글 별칭 ("/규정") */
+  aliases: string[];
+  description: string;
+  /** 인자 안내 (없으면 인자 없는 명령) */
+  argHint?: string;
+};
+
+export const CHAT_SLASH_COMMANDS: ChatSlashCommand[] = [
+  { id: "policy", name: "policy", aliases: ["규정", "사규"], description: "규정 안내로 전환" },
+  { id: "security", name: "security", aliases: ["보안"], description: "정보보안 질문으로 전환" },
+  { id: "general", name: "general", aliases: ["일반"], description: "일반 질문으로 전환" },
+  { id: "edu", name: "edu", aliases: ["교육"], description: "교육 패널 열기" },
+  {
+    id: "quiz",
+    name: "quiz",
+    aliases: ["퀴즈"],
+    description: "퀴즈 패널 열기 (교육을 고르면 해당 퀴즈로)",
+    argHint: "<교육명>",
+  },
+  {
+    id: "faq",
+    name: "faq",
+    aliases: ["자주묻는질문"],
+    description: "FAQ 검색 후 바로 답변 받기",
+    argHint: "<키워드>",
+  },
+  {
+    id: "report",
+    name: "report",
+    aliases: ["신고"],
+    description: "신고 작성 창 열기",
+    argHint: "[내용]",
+  },
+  { id: "reports", name: "reports", aliases: ["신고내역"], description: "내 신고 내역 보기" },
+  {
+    id: "export",
+    name: "export",
+    aliases: ["내보내기"],
+    description: "현재 대화 내보내기",
+    argHint: "[markdown|html|json|print]",
+  },
+  { id: "new", name: "new", aliases: ["새채팅"], description: "새 채팅 시작" },
+];
+
+export type ParsedSlashInput = {
+  /** "/" 뒤 명령어 부분 (소문자) */
+  name: string;
+  /** 정확히 일치하는 명령 (없으면 null) */
+  command: ChatSlashCommand | null;
+  /** 명령어 뒤 인자 (앞뒤 공백 제거) */
+  arg: string;
+  /** 명령어 뒤에 공백을 입력했는지 (= 인자 입력 단계) */
+  hasArg: boolean;
+};
+
+function matchesName(cmd: ChatSlashCommand, name: string): boolean {
+  return cmd.name === name || cmd.aliases.includes(name);
+}
+
+/**
+ * 입력 해석 ("/"로 시작하지 않거나 여러 줄이면 null)
+ */
+export function parseSlashInput(
+  input: string,
+  commands: ChatSlashCommand[] = CHAT_SLASH_COMMANDS
+): ParsedSlashInput | null {
+  if (!input.startsWith("/") || input.includes("\n")) return null;
+
+  const body = input.slice(1);
+  const space = body.search(/\s/);
+  const name = (space < 0 ? body : body.slice(0, space)).toLowerCase();
+  const arg = space < 0 ? "" : body.slice(space + 1).trim();
+
+  return {
+    name,
+    command: commands.find((c) => matchesName(c, name)) ?? null,
+    arg,
+    hasArg: space >= 0,
+  };
+}
+
+/**
+ * 명령어 자동완성 후보
+ * - 이름/별칭 prefix 일치 → 포함 일치 순
+ */
+export function matchSlashCommands(
+  name: string,
+  commands: ChatSlashCommand[] = CHAT_SLASH_COMMANDS
+): ChatSlashCommand[] {
+  const q = name.trim().toLowerCase();
+  if (!q) return commands;
+
+  const prefix: ChatSlashCommand[] = [];
+  const partial: ChatSlashCommand[] = [];
+
+  for (const c of commands) {
+    const keys = [c.name, ...c.aliases];
+    if (keys.some((k) => k.startsWith(q))) prefix.push(c);
+    else if (keys.some((k) => k.includes(q))) partial.push(c);
+  }
+
+  return [...prefix, ...partial];
+}
+
+/** 인자 자동완성 후보 (FAQ 질문, 퀴즈 교육, 내보내기 형식 등) */
+export type ChatSlashArgOption = {
+  key: string;
+  label: string;
+  /** 실행 시 넘길 값 (FAQ id / 교육 id / 내보내기 형식) */
+  value: string;
+  description?: string;
+};
+
+function compact(s: string): string {
+  return s.replace(/\s+/g, "").toLowerCase();
+}
+
+/**
+ * 인자 후보 필터 (공백 무시 포함 일치, 앞부분 일치 우선)
+ */
+export function filterSlashArgOptions(
+  options: ChatSlashArgOption[],
+  keyword: string,
+  limit = 8
+): ChatSlashArgOption[] {
+  const q = compact(keyword);
+  if (!q) return options.slice(0, limit);
+
+  const ranked: Array<{ opt: ChatSlashArgOption; rank: number }> = [];
+  for (const opt of options) {
+    const label = compact(opt.label);
+    const value = compact(opt.value);
+    if (label.startsWith(q) || value.startsWith(q)) ranked.push({ opt, rank: 0 });
+    else if (label.includes(q)) ranked.push({ opt, rank: 1 });
+  }
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map((r) => r.opt);
+}
@@ -0,0 +1,187 @@
+// src/components/chatbot/chatSourceDocument.ts
+import type { ChatSource } from "../../types/chat";
+import { presignDownload } from "./infraPresignApi";
+import { getDocument } from "./ragDocumentsApi";
+
+/**
+ * 답변 출처(ChatSource) → 원문 문서 열기 / 문서 뷰어 패널 지원
+ * - RAG 문서 메타(sourceUrl, s3://...) 조회 → presign(download) URL 발급
+ * - PDF 뷰어가 지원하는 #page=N 으로 해당 페이지부터 열리게 한다.
+ */
+
+/** 출처 위치 표시용 라벨: "제10조 (연차휴가) · p.3" */
+export function describeSourceLocation(source: ChatSource): string {
+  const parts: string[] = [];
+  if (source.articleLabel?.trim()) parts.push(source.articleLabel.trim());
+  else if (source.articlePath?.trim()) parts.push(source.articlePath.trim());
+  if (typeof source.page === "number") parts.push(`p.${source.page}`);
+  return parts.join(" · ");
+}
+
+export async function resolveSourceDocumentUrl(source: ChatSource): Promise<string> {
+  const info = await getDocument(source.docId);
+  const fileUrl = (info?.sourceUrl ?? "").trim();
+  if (!fileUrl) {
+    throw new Error(`[chatSourceDocument] sourceUrl missing: ${source.docId}`);
+  }
+
+  const { url } = await presignDownload(fileUrl, { type: "docs" });
+  return typeof source.page === "number" && source.page > 0
+    ? `${url}#page=${source.page}`
+    : url;
+}
+
+// ====== 문서 뷰어 패널: 인용 위치 찾기 ======
+
+/** 문서 본문에서 인용 구간 위치 (offset은 원문 text 기준, end는 exclusive) */
+export type SourceSectionRange = {
+  /** 스크롤/강조 대상 구간(조항 또는 페이지) */
+  sectionStart: number;
+  sectionEnd: number;
+  /** snippet 일치 구간(못 찾으면 null) */
+  highlightStart: number | null;
+  highlightEnd: number | null;
+};
+
+/** snippet 앞부분만으로도 위치를 특정할 수 있도록 비교 길이를 단계적으로 줄인다 */
+const SNIPPET_PROBE_LENGTHS = [80, 40, 20];
+
+const ARTICLE_HEADING_RE = /^\s*제\s*\d+\s*조(?:\s*의\s*\d+)?/;
+
+function compactWithIndexMap(text: string): { compact: string; map: number[] } {
+  let compact = "";
+  const map: number[] = [];
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (/\s/.test(ch)) continue;
+    compact += ch;
+    map.push(i);
+  }
+  return { compact, map };
+}
+
+/** 공백/줄바꿈 차이를 무시하고 snippet 위치를 찾는다 */
+function findSnippetRange(text: string, snippet: string): [number, number] | null {
+  const target = snippet.replace(/\s+/g, "").replace(/(\.\.\.|…)+$/g, "");
+  if (target.length < 4) return null;
+
+  const { compact, map } = compactWithIndexMap(text);
+
+  for (const len of SNIPPET_PROBE_LENGTHS) {
+    const probe = target.slice(0, len);
+    if (probe.length < Math.min(len, target.length)) continue;
+    const idx = compact.indexOf(probe);
+    if (idx < 0) continue;
+
+    // 앞부분이 맞으면 snippet 전체 길이만큼 최대한 이어서 비교
+    let matched = probe.length;
+    while (
+      matched < target.length &&
+      idx + matched < compact.length &&
+      compact[idx + matched] === target[matched]
+    ) {
+      matched += 1;
+    }
+    return [map[idx], map[idx + matched - 1] + 1];
+  }
+
+  return null;
+}
+
+/** "제10조 (연차휴가)" → 해당 조항 제목 줄부터 다음 조항 제목 직전까지 */
+function findArticleRange(text: string, articleLabel?: string): [number, number] | null {
+  const m = /제\s*(\d+)\s*조(?:\s*의\s*(\d+))?/.exec(articleLabel ?? "");
+  if (!m) return null;
+
+  const keyRe = m[2]
+    ? new RegExp(`^\\s*제\\s*${m[1]}\\s*조\\s*의\\s*${m[2]}(?!\\d)`)
+    : new RegExp(`^\\s*제\\s*${m[1]}\\s*조(?!\\s*의\\s*\\d)`);
+
+  const lines = text.split("\n");
+  let offset = 0;
+  let start = -1;
+
+  for (const line of lines) {
+    if (start < 0) {
+      if (keyRe.test(line)) start = offset;
+    } else if (ARTICLE_HEADING_RE.test(line)) {
+      return [start, offset];
+    }
+    offset += line.length + 1;
+  }
+
+  return start < 0 ? null : [start, text.length];
+}
+
+/** 텍스트 추출 결과에 페이지 구분(\f)이 있으면 page N 구간 */
+function findPageRange(text: string, page?: number): [number, number] | null {
+  if (typeof page !== "number" || page < 1 || !text.includes("\f")) return null;
+
+  const pages = text.split("\f");
+  if (page > pages.length) return null;
+
+  let start = 0;
+  for (let i = 0; i < page - 1; i += 1) start += pages[i].length + 1;
+  return [start, start + pages[page - 1].length];
+}
+
+/**
+ * 인용 위치 결정
+ * - 우선순위: snippet 일치 > 조항 라벨 > 페이지
+ * - snippet이 조항 안에 있으면 조항 전체를 구간으로, snippet을 강조로 사용
+ */
+export function locateSourceSection(text: string, source: ChatSource): SourceSectionRange | null {
+  if (!text) return null;
+
+  const hit = source.snippet ? findSnippetRange(text, source.snippet) : null;
+  const article = findArticleRange(text, source.articleLabel);
+  const page = findPageRange(text, source.page);
+
+  const section =
+    article && (!hit || (hit[0] >= article[0] && hit[1] <= article[1]))
+      ? article
+      : hit ?? page;
+
+  if (!section) return null;
+
+  return {
+    sectionStart: section[0],
+    sectionEnd: section[1],
+    highlightStart: hit ? hit[0] : null,
+    highlightEnd: hit ? hit[1] : null,
+  };
+}
+
+// ====== 문서 뷰어 패널 → 챗봇 후속 질문 ======
+
+/** 문서 뷰어에서 "이 부분 질문하기" 요청 (같은 내용이어도 다시 보내도록 nonce 포함) */
+export type SourceFollowUpRequest = {
+  text: string;
+  nonce: number;
+};
+
+/** 후속 질문에 인용할 구간 최대 길이 */
+const FOLLOW_UP_QUOTE_MAX = 400;
+
+export const DEFAULT_SOURCE_FOLLOW_UP_QUESTION = "이 부분을 쉽게 설명해 주세요.";
+
+/**
+ * 후속 질문 본문
+ * - 어떤 문서의 어느 조항인지 + 인용문(>)을 앞에 붙여 RAG 검색이 같은 근거를 찾도록 한다.
+ */
+export function buildSourceFollowUpText(
+  source: ChatSource,
+  quote: string,
+  question: string
+): string {
+  const title = source.title?.trim() || "문서";
+  const location = describeSourceLocation(source);
+  const head = location ? `[${title} · ${location}]` : `[${title}]`;
+
+  const oneLine = quote.replace(/\s+/g, " ").trim();
+  const clipped =
+    oneLine.length > FOLLOW_UP_QUOTE_MAX ? `${oneLine.slice(0, FOLLOW_UP_QUOTE_MAX)}…` : oneLine;
+
+  const ask = question.trim() || DEFAULT_SOURCE_FOLLOW_UP_QUESTION;
+  return clipped ? `${head}\n> ${clipped}\n\n${ask}` : `${head}\n\n${ask}`;
+}
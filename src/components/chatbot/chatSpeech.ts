@@ -0,0 +1,364 @@
+// src/components/chatbot/chatSpeech.ts
+import { parseInlineMarkdown, parseMarkdownBlocks, type MdInline } from "./chatMarkdown";
+
+/**
+ * 음성 입력(STT) / 읽어주기(TTS) provider
+ * - 기본은 브라우저 Web Speech API (SpeechRecognition / speechSynthesis)
+ * - 서버 STT/TTS로 바꿀 때는 같은 인터페이스 구현체를 setSpeechProviders로 등록
+ * - 지원하지 않는 브라우저에서는 isSupported()가 false → UI에서 버튼을 숨긴다.
+ */
+
+export const DEFAULT_SPEECH_LANG = "ko-KR";
+
+export type SpeechErrorCode =
+  | "not-allowed" // 마이크 권한 거부
+  | "no-speech" // 아무 말도 인식되지 않음
+  | "audio-capture" // 마이크 없음
+  | "network"
+  | "unsupported"
+  | "unknown";
+
+export const SPEECH_ERROR_MESSAGES: Record<SpeechErrorCode, string> = {
+  "not-allowed": "마이크 권한이 필요해요. 브라우저 설정에서 허용해 주세요.",
+  "no-speech": "음성이 인식되지 않았어요. 다시 말씀해 주세요.",
+  "audio-capture": "사용할 수 있는 마이크를 찾지 못했어요.",
+  network: "네트워크 문제로 음성 인식에 실패했어요.",
+  unsupported: "이 브라우저에서는 음성 기능을 지원하지 않아요.",
+  unknown: "음성 처리 중 문제가 발생했어요.",
+};
+
+export type SpeechToTextHandlers = {
+  /** 지금까지 인식된 전체 문장 (isFinal=false면 중간 결과) */
+  onTranscript: (transcript: string, isFinal: boolean) => void;
+  onError?: (code: SpeechErrorCode) => void;
+  /** 정상 종료/오류 모두 마지막에 1회 */
+  onEnd?: () => void;
+};
+
+export type SpeechToTextSession = {
+  /** 지금까지 말한 내용까지 인식하고 종료 */
+  stop: () => void;
+  /** 결과 없이 즉시 종료 */
+  abort: () => void;
+};
+
+export interface SpeechToTextProvider {
+  readonly id: string;
+  isSupported: () => boolean;
+  start: (lang: string, handlers: SpeechToTextHandlers) => SpeechToTextSession;
+}
+
+export type TextToSpeechHandlers = {
+  onEnd?: () => void;
+  onError?: (code: SpeechErrorCode) => void;
+};
+
+export type TextToSpeechPlayback = {
+  cancel: () => void;
+};
+
+export interface TextToSpeechProvider {
+  readonly id: string;
+  isSupported: () => boolean;
+  speak: (text: string, lang: string, handlers: TextToSpeechHandlers) => TextToSpeechPlayback;
+}
+
+/* =========================
+   Web Speech API (브라우저 기본 구현)
+========================= */
+
+// lib.dom에 SpeechRecognition 타입이 없어 필요한 부분만 선언
+type WebSpeechAlternative = { transcript: string };
+type WebSpeechResult = { isFinal: boolean; length: number; [index: number]: WebSpeechAlternative };
+type WebSpeechResultEvent = {
+  results: { length: number; [index: number]: WebSpeechResult };
+};
+type WebSpeechErrorEvent = { error?: string };
+
+type WebSpeechRecognition = {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((e: WebSpeechResultEvent) => void) | null;
+  onerror: ((e: WebSpeechErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+};
+
+type WebSpeechRecognitionCtor = new () => WebSpeechRecognition;
+
+function getRecognitionCtor(): WebSpeechRecognitionCtor | null {
+  if (typeof window === "undefined") return null;
+  const w = window as unknown as {
+    SpeechRecognition?: WebSpeechRecognitionCtor;
+    webkitSpeechRecognition?: WebSpeechRecognitionCtor;
+  };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null;
+}
+
+function toSpeechErrorCode(raw: unknown): SpeechErrorCode {
+  switch (raw) {
+    case "not-allowed":
+    case "service-not-allowed":
+      return "not-allowed";
+    case "no-speech":
+      return "no-speech";
+    case "audio-capture":
+      return "audio-capture";
+    case "network":
+      return "network";
+    default:
+      return "unknown";
+  }
+}
+
+export const webSpeechToTextProvider: SpeechToTextProvider = {
+  id: "web-speech",
+  isSupported: () => getRecognitionCtor() !== null,
+  start: (lang, handlers) => {
+    const Ctor = getRecognitionCtor();
+    if (!Ctor) {
+      handlers.onError?.("unsupported");
+      handlers.onEnd?.();
+      return { stop: () => undefined, abort: () => undefined };
+    }
+
+    const rec = new Ctor();
+    rec.lang = lang;
+    rec.continuous = true;
+    rec.interimResults = true;
+
+    let ended = false;
+    const finish = () => {
+      if (ended) return;
+      ended = true;
+      handlers.onEnd?.();
+    };
+
+    rec.onresult = (e) => {
+      let transcript = "";
+      let allFinal = true;
+      for (let i = 0; i < e.results.length; i += 1) {
+        const r = e.results[i];
+        transcript += r[0]?.transcript ?? "";
+        if (!r.isFinal) allFinal = false;
+      }
+      handlers.onTranscript(transcript.trim(), allFinal);
+    };
+    // abort()로 끝낸 경우("aborted")는 사용자가 취소한 것이므로 오류로 알리지 않는다.
+    rec.onerror = (e) => {
+      if (e.error === "aborted") return;
+      handlers.onError?.(toSpeechErrorCode(e.error));
+    };
+    rec.onend = finish;
+
+    try {
+      rec.start();
+    } catch (err: unknown) {
+      console.warn("[chatSpeech] SpeechRecognition start failed:", err);
+      handlers.onError?.("unknown");
+      finish();
+    }
+
+    return {
+      stop: () => rec.stop(),
+      abort: () => rec.abort(),
+    };
+  },
+};
+
+/** 브라우저별로 긴 발화가 중간에 끊기는 문제가 있어 문장 단위로 나눠 순서대로 읽는다. */
+const MAX_UTTERANCE_CHARS = 180;
+
+function splitForUtterance(text: string): string[] {
+  const sentences = text.match(/[^.!?。\n]+[.!?。]?/g) ?? [text];
+  const chunks: string[] = [];
+  let buf = "";
+
+  for (const raw of sentences) {
+    const s = raw.trim();
+    if (!s) continue;
+    if (buf && buf.length + s.length + 1 > MAX_UTTERANCE_CHARS) {
+      chunks.push(buf);
+      buf = "";
+    }
+    if (s.length > MAX_UTTERANCE_CHARS) {
+      for (let i = 0; i < s.length; i += MAX_UTTERANCE_CHARS) {
+        chunks.push(s.slice(i, i + MAX_UTTERANCE_CHARS));
+      }
+      continue;
+    }
+    buf = buf ? `${buf} ${s}` : s;
+  }
+  if (buf) chunks.push(buf);
+  return chunks;
+}
+
+function pickVoice(lang: string): SpeechSynthesisVoice | null {
+  const voices = window.speechSynthesis.getVoices();
+  const prefix = lang.split("-")[0].toLowerCase();
+  return (
+    voices.find((v) => v.lang.toLowerCase() === lang.toLowerCase()) ??
+    voices.find((v) => v.lang.toLowerCase().startsWith(prefix)) ??
+    null
+  );
+}
+
+export const webTextToSpeechProvider: TextToSpeechProvider = {
+  id: "web-speech",
+  isSupported: () =>
+    typeof window !== "undefined" &&
+    "speechSynthesis" in window &&
+    typeof window.SpeechSynthesisUtterance === "function",
+  speak: (text, lang, handlers) => {
+    const synth = window.speechSynthesis;
+    const chunks = splitForUtterance(text);
+    let cancelled = false;
+
+    // 한 번에 하나만 읽는다 (다른 답변 읽기 중이면 중단)
+    synth.cancel();
+
+    if (chunks.length === 0) {
+      handlers.onEnd?.();
+      return { cancel: () => undefined };
+    }
+
+    const voice = pickVoice(lang);
+    chunks.forEach((chunk, idx) => {
+      const u = new SpeechSynthesisUtterance(chunk);
+      u.lang = lang;
+      if (voice) u.voice = voice;
+      if (idx === chunks.length - 1) {
+        u.onend = () => {
+          if (!cancelled) handlers.onEnd?.();
+        };
+      }
+      u.onerror = (e) => {
+        if (cancelled || e.error === "interrupted" || e.error === "canceled") return;
+        cancelled = true;
+        synth.cancel();
+        handlers.onError?.("unknown");
+        handlers.onEnd?.();
+      };
+      synth.speak(u);
+    });
+
+    return {
+      cancel: () => {
+        if (cancelled) return;
+        cancelled = true;
+        synth.cancel();
+        handlers.onEnd?.();
+      },
+    };
+  },
+};
+
+/* =========================
+   provider 등록 (서버 STT/TTS 교체용)
+========================= */
+
+let sttProvider: SpeechToTextProvider = webSpeechToTextProvider;
+let ttsProvider: TextToSpeechProvider = webTextToSpeechProvider;
+
+export function setSpeechProviders(next: {
+  stt?: SpeechToTextProvider;
+  tts?: TextToSpeechProvider;
+}): void {
+  if (next.stt) sttProvider = next.stt;
+  if (next.tts) ttsProvider = next.tts;
+}
+
+export function getSpeechToTextProvider(): SpeechToTextProvider {
+  return sttProvider;
+}
+
+export function getTextToSpeechProvider(): TextToSpeechProvider {
+  return ttsProvider;
+}
+
+/* =========================
+   읽어주기용 텍스트
+========================= */
+
+function inlineToSpeech(nodes: MdInline[]): string {
+  return nodes
+    .map((n) => {
+      switch (n.type) {
+        case "text":
+        case "code":
+          return n.text;
+        case "br":
+          return " ";
+        case "cite":
+          return "";
+        default:
+          return inlineToSpeech(n.children);
+      }
+    })
+    .join("");
+}
+
+/** 인용 마커 [n]은 출처 개수와 상관없이 읽지 않는다 */
+const SPEECH_CITATION_LIMIT = 99;
+
+function speakInline(text: string): string {
+  return inlineToSpeech(parseInlineMarkdown(text, SPEECH_CITATION_LIMIT));
+}
+
+/**
+ * 답변 마크다운 → 읽어주기 텍스트
+ * - 서식 기호/인용 마커/링크 주소는 읽지 않음
+ * - 코드블록은 내용 대신 "코드 생략"으로 안내
+ * - 표는 행 단위로 "머리글 값" 순서로 읽음
+ */
+export function toSpeechText(markdown: string): string {
+  const parts: string[] = [];
+  const pushLine = (s: string) => {
+    const t = s.replace(/\s+/g, " ").trim();
+    if (t) parts.push(/[.!?。]$/.test(t) ? t : `${t}.`);
+  };
+
+  const walk = (src: string, depth: number) => {
+    for (const b of parseMarkdownBlocks(src)) {
+      switch (b.type) {
+        case "paragraph":
+          b.text.split("\n").forEach((line) => pushLine(speakInline(line)));
+          break;
+        case "heading":
+          pushLine(speakInline(b.text));
+          break;
+        case "list":
+          b.items.forEach((item) => pushLine(speakInline(item)));
+          break;
+        case "quote":
+          if (depth < 2) walk(b.text, depth + 1);
+          else pushLine(b.text);
+          break;
+        case "code":
+          pushLine("코드 생략");
+          break;
+        case "table":
+          b.rows.forEach((row) =>
+            pushLine(
+              row
+                .map((cell, i) => {
+                  const head = speakInline(b.header[i] ?? "");
+                  const value = speakInline(cell);
+                  return head ? `${head} ${value}` : value;
+                })
+                .join(", ")
+            )
+          );
+          break;
+        case "hr":
+          break;
+      }
+    }
+  };
+
+  walk(markdown, 0);
+  return parts.join(" ");
+}
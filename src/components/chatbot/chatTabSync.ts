@@ -0,0 +1,263 @@
+// src/components/chatbot/chatTabSync.ts
+import type { ChatSession } from "../../types/chat";
+
+/**
+ * 챗봇 탭 간 동기화 (BroadcastChannel)
+ * - 같은 브라우저에서 포털을 여러 탭으로 열어도 세션/메시지/이름 변경/삭제/서버 세션 바인딩이 실시간으로 맞춰진다.
+ * - 받는 탭은 상태만 반영하고 절대 전송하지 않는다(중복 전송 방지) — 전송 대기열은 보낸 탭이 소유
+ * - 사용자(userUuid)별로 걸러서 받는다(같은 브라우저 다른 계정 섞임 방지)
+ * - BroadcastChannel을 못 쓰는 환경에서는 아무 일도 하지 않는다(탭별 독립 동작)
+ */
+
+const CHANNEL_NAME = "ctrlf-chat-sync";
+const PROTOCOL_VERSION = 1;
+
+/**
+ * 제목 변경 순서 (last-writer-wins)
+ * - 시각이 같으면 tabId로 결정 → 모든 탭이 같은 제목으로 수렴
+ */
+export type ChatTitleStamp = { at: number; tabId: string };
+
+export type ChatTabSyncMessage =
+  /** 세션 스냅샷 (전송 대기/스트리밍 중인 메시지는 제외) */
+  | { type: "session"; session: ChatSession }
+  /** 제목 변경 (sessionId가 null이면 서버 전용 세션) */
+  | {
+      type: "rename";
+      sessionId: string | null;
+      serverSessionId?: string;
+      title: string;
+      stamp: ChatTitleStamp;
+    }
+  /** 세션 삭제 (서버 삭제까지 끝난 뒤) */
+  | { type: "delete"; sessionId: string | null; serverSessionId?: string }
+  /** 로컬 세션 → 서버 세션 UUID 바인딩 */
+  | { type: "bind"; localSessionId: string; serverSessionId: string }
+  /** 새로 연 탭이 다른 탭의 세션 스냅샷을 요청 */
+  | { type: "snapshot-request" }
+  /** 사이드바 정리(고정/즐겨찾기/폴더) 변경 → 저장소에서 다시 읽기 */
+  | { type: "organize" }
+  /** 챗봇 환경설정 변경 → 저장소에서 다시 읽기 */
+  | { type: "preferences" };
+
+type Envelope = {
+  v: number;
+  tabId: string;
+  userUuid: string;
+  message: ChatTabSyncMessage;
+};
+
+type Listener = (message: ChatTabSyncMessage, fromTabId: string) => void;
+
+function makeTabId(): string {
+  try {
+    if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+      return crypto.randomUUID();
+    }
+  } catch {
+    // ignore
+  }
+  return `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** 현재 탭 식별자 (페이지 수명 동안 고정) */
+export const CHAT_TAB_ID = makeTabId();
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is JsonRecord {
+  return typeof v === "object" && v !== null;
+}
+
+function nonEmptyString(v: unknown): string | null {
+  if (typeof v !== "string") return null;
+  const t = v.trim();
+  return t.length > 0 ? t : null;
+}
+
+const TAB_SYNC_TYPES = new Set<ChatTabSyncMessage["type"]>([
+  "session",
+  "rename",
+  "delete",
+  "bind",
+  "snapshot-request",
+  "organize",
+  "preferences",
+]);
+
+/** 다른 탭(다른 빌드 버전일 수도 있음)에서 온 데이터는 최소한만 검증 */
+function parseEnvelope(raw: unknown): Envelope | null {
+  if (!isRecord(raw) || raw["v"] !== PROTOCOL_VERSION) return null;
+
+  const tabId = nonEmptyString(raw["tabId"]);
+  const userUuid = nonEmptyString(raw["userUuid"]);
+  const message = raw["message"];
+  if (!tabId || !userUuid || !isRecord(message)) return null;
+
+  const type = message["type"];
+  if (typeof type !== "string" || !TAB_SYNC_TYPES.has(type as ChatTabSyncMessage["type"])) {
+    return null;
+  }
+
+  if (type === "session") {
+    const s = message["session"];
+    if (!isRecord(s) || !nonEmptyString(s["id"]) || !Array.isArray(s["messages"])) return null;
+  }
+
+  return { v: PROTOCOL_VERSION, tabId, userUuid, message: message as ChatTabSyncMessage };
+}
+
+let channel: BroadcastChannel | null = null;
+let channelUnavailable = false;
+const listeners = new Map<string, Set<Listener>>();
+
+function getChannel(): BroadcastChannel | null {
+  if (channel || channelUnavailable) return channel;
+
+  if (typeof BroadcastChannel === "undefined") {
+    channelUnavailable = true;
+    return null;
+  }
+
+  try {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  } catch (e: unknown) {
+    console.warn("[chatTabSync] BroadcastChannel unavailable:", e);
+    channelUnavailable = true;
+    return null;
+  }
+
+  channel.onmessage = (ev: MessageEvent) => {
+    const env = parseEnvelope(ev.data);
+    if (!env || env.tabId === CHAT_TAB_ID) return;
+
+    const set = listeners.get(env.userUuid);
+    if (!set) return;
+
+    for (const listener of [...set]) {
+      try {
+        listener(env.message, env.tabId);
+      } catch (err: unknown) {
+        console.warn("[chatTabSync] listener failed:", err);
+      }
+    }
+  };
+
+  return channel;
+}
+
+/** 다른 탭에 알림 (자기 탭에는 전달되지 않음) */
+export function postChatTabSync(userUuid: string | null, message: ChatTabSyncMessage): void {
+  if (!userUuid) return;
+  const ch = getChannel();
+  if (!ch) return;
+
+  const env: Envelope = { v: PROTOCOL_VERSION, tabId: CHAT_TAB_ID, userUuid, message };
+  try {
+    ch.postMessage(env);
+  } catch (e: unknown) {
+    // 구조화 복제 불가 데이터 등: 동기화만 건너뛴다
+    console.warn("[chatTabSync] postMessage failed:", e);
+  }
+}
+
+/** 다른 탭의 알림 구독 (반환값: 구독 해제) */
+export function subscribeChatTabSync(userUuid: string | null, listener: Listener): () => void {
+  if (!userUuid || !getChannel()) return () => undefined;
+
+  const set = listeners.get(userUuid) ?? new Set<Listener>();
+  set.add(listener);
+  listeners.set(userUuid, set);
+
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(userUuid);
+  };
+}
+
+/* =========================
+   제목 충돌 해소
+========================= */
+
+const titleStamps = new Map<string, ChatTitleStamp>();
+
+export function createTitleStamp(): ChatTitleStamp {
+  return { at: Date.now(), tabId: CHAT_TAB_ID };
+}
+
+function compareTitleStamp(a: ChatTitleStamp, b: ChatTitleStamp): number {
+  if (a.at !== b.at) return a.at - b.at;
+  if (a.tabId === b.tabId) return 0;
+  return a.tabId < b.tabId ? -1 : 1;
+}
+
+/**
+ * 이 제목 변경을 반영해도 되는지 (더 나중 변경이 이미 반영됐으면 false)
+ * - 로컬 세션 id / 서버 세션 id 어느 쪽으로 들어와도 같은 세션으로 본다.
+ * - 같은 stamp는 다시 받아도 true (한 탭의 여러 구독자가 각각 확인)
+ */
+export function acceptTitleStamp(
+  keys: Array<string | null | undefined>,
+  stamp: ChatTitleStamp
+): boolean {
+  const ids = keys.filter((k): k is string => !!k);
+  if (ids.length === 0) return false;
+
+  for (const id of ids) {
+    const prev = titleStamps.get(id);
+    if (prev && compareTitleStamp(stamp, prev) < 0) return false;
+  }
+
+  for (const id of ids) titleStamps.set(id, stamp);
+  return true;
+}
+
+/* =========================
+   세션 스냅샷 병합
+========================= */
+
+const DEFAULT_SESSION_TITLE = "새 채팅";
+
+/**
+ * 다른 탭에 보낼 세션 스냅샷
+ * - 전송 대기열 메시지(deliveryStatus)는 보낸 탭만 소유 → 다른 탭에서 재전송 버튼이 생기지 않도록 제외
+ * - 메시지가 없는 세션(각 탭의 빈 "새 채팅")은 보내지 않는다.
+ */
+export function toShareableSession(session: ChatSession): ChatSession | null {
+  const messages = session.messages.filter((m) => !m.deliveryStatus);
+  if (messages.length === 0) return null;
+  return messages.length === session.messages.length ? session : { ...session, messages };
+}
+
+/**
+ * 다른 탭의 스냅샷을 로컬 세션에 병합
+ * - 메시지: updatedAt이 더 최신일 때만 교체 (같으면 그대로 → 되돌려 보내기 반복 방지)
+ * - 제목: 로컬이 기본 제목일 때만 따라간다(이름 변경은 rename 메시지의 stamp로 결정)
+ * - 이 탭의 전송 대기 메시지는 뒤에 그대로 남긴다.
+ * - 변경이 없으면 local을 그대로 반환
+ */
+export function mergeRemoteSession(local: ChatSession, remote: ChatSession): ChatSession {
+  const takeMessages = remote.updatedAt > local.updatedAt;
+  const takeTitle =
+    local.title === DEFAULT_SESSION_TITLE && remote.title !== DEFAULT_SESSION_TITLE;
+
+  if (!takeMessages && !takeTitle) return local;
+
+  const next: ChatSession = { ...local };
+  if (takeTitle) next.title = remote.title;
+
+  if (takeMessages) {
+    const remoteIds = new Set(remote.messages.map((m) => m.id));
+    const queued = local.messages.filter((m) => m.deliveryStatus && !remoteIds.has(m.id));
+
+    next.messages = [...remote.messages, ...queued];
+    next.updatedAt = remote.updatedAt;
+    next.domain = remote.domain;
+    next.serverId = local.serverId ?? remote.serverId;
+
+    if (remote.branches?.length) next.branches = remote.branches;
+    else delete next.branches;
+  }
+
+  return next;
+}
@@ -0,0 +1,163 @@
+// src/components/chatbot/creatorScriptDetail.ts
+import type {
+  CreatorScriptChapter,
+  CreatorScriptDetail,
+  CreatorScriptScene,
+} from "./creatorStudioTypes";
+
+type AnyRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is AnyRecord {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function asRecord(v: unknown): AnyRecord | null {
+  return isRecord(v) ? v : null;
+}
+
+function toNum(v: unknown, fallback = 0): number {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string" && v.trim() !== "") {
+    const n = Number(v);
+    if (Number.isFinite(n)) return n;
+  }
+  return fallback;
+}
+
+function readFirstStr(obj: AnyRecord | null, keys: string[], fallback = ""): string {
+  if (!obj) return fallback;
+  for (const k of keys) {
+    const v = obj[k];
+    if (typeof v === "string" && v.trim().length > 0) return v;
+  }
+  return fallback;
+}
+
+function readFirstNum(obj: AnyRecord | null, keys: string[], fallback = 0): number {
+  if (!obj) return fallback;
+  for (const k of keys) {
+    const v = obj[k];
+    const n = toNum(v, Number.NaN);
+    if (Number.isFinite(n)) return n;
+  }
+  return fallback;
+}
+
+function unwrapDto(raw: unknown): AnyRecord | null {
+  const obj = asRecord(raw);
+  if (!obj) return null;
+  // 서버 구현 편차 흡수: {data:{...}} / {result:{...}} / {...}
+  const inner = asRecord(obj.data) ?? asRecord(obj.result);
+  if (inner) return { ...obj, ...inner };
+  return obj;
+}
+
+/**
+ * GET/PUT /scripts/{scriptId} 응답 → CreatorScriptDetail
+ * - snake_case / {data|result} 래핑 등 서버 구현 편차 흡수
+ * - scene에 chapter 정보(derived)를 채워 둔다
+ */
+export function normalizeScriptDetail(raw: unknown): CreatorScriptDetail {
+  const dto = unwrapDto(raw);
+  if (!dto) {
+    throw new Error("스크립트 응답 형식이 올바르지 않습니다.");
+  }
+
+  const scriptId = readFirstStr(dto, ["scriptId", "script_id", "id"], "");
+  const title = readFirstStr(dto, ["title"], "");
+  const totalDurationSec = readFirstNum(dto, ["totalDurationSec", "total_duration_sec"], 0);
+
+  const educationId = readFirstStr(dto, ["educationId", "education_id"], "");
+  const videoId = readFirstStr(dto, ["videoId", "video_id"], "");
+
+  const version =
+    typeof dto.version === "number" && Number.isFinite(dto.version) ? dto.version : undefined;
+
+  const llmModel = readFirstStr(dto, ["llmModel", "llm_model"], "");
+  const rawPayload = (dto.rawPayload ?? dto.raw_payload ?? dto.script ?? undefined) as unknown;
+
+  const chaptersRaw = dto.chapters;
+  const chaptersArr = Array.isArray(chaptersRaw) ? chaptersRaw : [];
+
+  const chapters: CreatorScriptChapter[] = chaptersArr.map((c, idx) => {
+    const ch = asRecord(c);
+
+    const chapterId =
+      readFirstStr(ch, ["chapterId", "chapter_id", "id"], "") || `chapter-${idx + 1}`;
+    const index = readFirstNum(ch, ["index", "chapterIndex", "chapter_order", "order"], idx + 1);
+    const chTitle =
+      readFirstStr(ch, ["title", "chapterTitle", "chapter_title"], "") || `챕터 ${index}`;
+    const durationSec = readFirstNum(ch, ["durationSec", "duration_sec"], 0);
+
+    const scenesRaw = ch ? (ch.scenes ?? ch.items) : undefined;
+    const scenesArr = Array.isArray(scenesRaw) ? scenesRaw : [];
+
+    const scenes: CreatorScriptScene[] = scenesArr.map((s, sIdx) => {
+      const sc = asRecord(s);
+
+      const sceneId =
+        readFirstStr(sc, ["sceneId", "scene_id", "id"], "") || `scene-${idx + 1}-${sIdx + 1}`;
+      const sIndex = readFirstNum(sc, ["index", "sceneIndex", "scene_order", "order"], sIdx + 1);
+
+      const purpose = readFirstStr(sc, ["purpose"], "");
+      const narration = readFirstStr(sc, ["narration"], "");
+      const caption = readFirstStr(sc, ["caption"], "");
+      const visual = readFirstStr(sc, ["visual"], "");
+
+      const sDurationSec = readFirstNum(sc, ["durationSec", "duration_sec"], 0);
+
+      const sourceChunkIndexesRaw =
+        sc?.sourceChunkIndexes ?? sc?.source_chunk_indexes ?? sc?.sourceChunkIndex ?? sc?.source_refs;
+      const sourceChunkIndexes = Array.isArray(sourceChunkIndexesRaw)
+        ? sourceChunkIndexesRaw
+            .map((x) => toNum(x, Number.NaN))
+            .filter((n) => Number.isFinite(n))
+        : [];
+
+      const confidenceScoreRaw = sc?.confidenceScore ?? sc?.confidence_score;
+      const confidenceScore =
+        typeof confidenceScoreRaw === "number" && Number.isFinite(confidenceScoreRaw)
+          ? confidenceScoreRaw
+          : confidenceScoreRaw == null
+            ? null
+            : undefined;
+
+      return {
+        sceneId,
+        index: sIndex,
+        purpose,
+        narration,
+        caption,
+        visual: visual || undefined,
+        durationSec: sDurationSec,
+        sourceChunkIndexes,
+        confidenceScore,
+
+        // derived
+        chapterId,
+        chapterTitle: chTitle,
+        chapterIndex: index,
+      };
+    });
+
+    return {
+      chapterId,
+      index,
+      title: chTitle,
+      durationSec,
+      scenes,
+    };
+  });
+
+  return {
+    scriptId: scriptId || "(unknown)",
+    educationId: educationId || null,
+    videoId: videoId || null,
+    title: title || "(untitled)",
+    totalDurationSec,
+    version,
+    llmModel: llmModel || undefined,
+    rawPayload,
+    chapters,
+  };
+}
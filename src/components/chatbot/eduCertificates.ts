@@ -0,0 +1,117 @@
+// src/components/chatbot/eduCertificates.ts
+import { issueEducationCertificate, type EducationCertificate } from "./educationServiceApi";
+
+/**
+ * 교육 수료증
+ * - 이수 완료(eduCompleted) 시 교육 ID만 보내 발급 요청: 수료자 이름/부서/퀴즈 점수는 서버가 채운다
+ * - 진위 확인 코드는 서버가 발급하고, 관리자는 코드로 조회해 확인한다
+ * - 출력: 인쇄용 HTML 페이지를 새 창으로 열고 브라우저 인쇄(PDF로 저장)로 내려받는다
+ */
+
+const ISSUER_NAME = String(import.meta.env.VITE_CERTIFICATE_ISSUER ?? "CTRL+F 교육센터");
+
+const inFlight = new Map<string, Promise<EducationCertificate>>();
+
+/** 수료증 발급 (같은 교육은 동시에 한 번만 요청, 서버는 기존 수료증이 있으면 그대로 반환) */
+export function ensureEducationCertificate(educationId: string): Promise<EducationCertificate> {
+  const existed = inFlight.get(educationId);
+  if (existed) return existed;
+
+  const p = issueEducationCertificate(educationId).finally(() => {
+    inFlight.delete(educationId);
+  });
+
+  inFlight.set(educationId, p);
+  return p;
+}
+
+/* =========================
+   인쇄용 페이지
+========================= */
+
+export function formatCertificateDate(iso?: string): string {
+  if (!iso) return "-";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return `${d.getFullYear()}년 ${d.getMonth() + 1}월 ${d.getDate()}일`;
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function buildCertificateHtml(cert: EducationCertificate): string {
+  const rows: Array<[string, string]> = [
+    ["성명", cert.employeeName],
+    ["소속", cert.department ?? "-"],
+    ["교육명", cert.educationTitle],
+    ["수료일", formatCertificateDate(cert.completedAt ?? cert.issuedAt)],
+  ];
+  if (cert.quizBestScore !== null) rows.push(["평가 점수", `${cert.quizBestScore}점`]);
+
+  const rowHtml = rows
+    .map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`)
+    .join("");
+
+  return `<!doctype html>
+<html lang="ko">
+<head>
+<meta charset="utf-8" />
+<title>수료증 - ${escapeHtml(cert.educationTitle)}</title>
+<style>
+  @page { size: A4; margin: 18mm; }
+  body { margin: 0; font-family: "Pretendard", "Noto Sans KR", sans-serif; color: #111827; background: #f3f4f6; }
+  .sheet { box-sizing: border-box; width: 210mm; min-height: 297mm; margin: 24px auto; padding: 28mm 22mm; background: #fff; border: 6px double #111827; }
+  h1 { margin: 0 0 12mm; text-align: center; font-size: 34pt; letter-spacing: 0.6em; }
+  table { width: 100%; border-collapse: collapse; font-size: 13pt; }
+  th { width: 28%; padding: 8px 0; text-align: left; color: #4b5563; font-weight: 500; }
+  td { padding: 8px 0; font-weight: 600; }
+  .statement { margin: 18mm 0; font-size: 14pt; line-height: 1.9; text-align: center; }
+  .issued { text-align: center; font-size: 13pt; }
+  .issuer { margin-top: 8mm; text-align: center; font-size: 18pt; font-weight: 700; }
+  .verify { margin-top: 20mm; font-size: 10pt; color: #6b7280; text-align: center; }
+  .verify code { font-size: 12pt; color: #111827; letter-spacing: 0.08em; }
+  .toolbar { text-align: center; margin: 16px 0 0; }
+  .toolbar button { padding: 8px 18px; border-radius: 999px; border: none; background: #111827; color: #fff; font-size: 14px; cursor: pointer; }
+  @media print {
+    body { background: #fff; }
+    .sheet { margin: 0; width: auto; min-height: auto; }
+    .toolbar { display: none; }
+  }
+</style>
+</head>
+<body>
+<div class="toolbar"><button type="button" onclick="window.print()">인쇄 / PDF로 저장</button></div>
+<main class="sheet">
+  <h1>수료증</h1>
+  <table>${rowHtml}</table>
+  <p class="statement">위 사람은 본 교육 과정을 성실히 이수하였으므로<br />이 증서를 수여합니다.</p>
+  <p class="issued">${escapeHtml(formatCertificateDate(cert.issuedAt ?? cert.completedAt))}</p>
+  <p class="issuer">${escapeHtml(ISSUER_NAME)}</p>
+  <p class="verify">진위 확인 코드 <code>${escapeHtml(cert.code)}</code><br />발급 기관 관리자에게 코드로 진위를 확인할 수 있습니다.</p>
+</main>
+</body>
+</html>`;
+}
+
+/**
+ * 인쇄용 수료증을 새 창으로 연다 (클릭 핸들러에서 호출해야 팝업 차단을 피한다)
+ * @returns 창을 열지 못하면 false
+ */
+export function openCertificatePrintView(cert: EducationCertificate): boolean {
+  if (typeof window === "undefined" || typeof URL.createObjectURL !== "function") return false;
+
+  const url = URL.createObjectURL(
+    new Blob([buildCertificateHtml(cert)], { type: "text/html;charset=utf-8" })
+  );
+  const win = window.open(url, "_blank");
+
+  // 새 창이 문서를 읽을 시간을 두고 정리
+  window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  return Boolean(win);
+}
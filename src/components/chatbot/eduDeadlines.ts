@@ -0,0 +1,245 @@
+// src/components/chatbot/eduDeadlines.ts
+import { useEffect, useState } from "react";
+import { getUserUuidFromKeycloak } from "./chatApi";
+import {
+  EDU_REMINDER_OPTIONS,
+  type EduReminderOffset,
+} from "./chatPreferences";
+import { getMyEducations, type EducationItem } from "./educationServiceApi";
+import { useStableEvent } from "./useStableEvent";
+
+/**
+ * 필수 교육 이수 기한
+ * - 기한(dueAt)은 교육 × 대상 부서 단위로 서버가 관리하고, /edus/me는 내 부서 기준 기한을 내려준다
+ * - 배지: D-n / D-Day / 기한 초과 (EducationPage, EduPanel, 대시보드 공통)
+ * - 알림: 사용자가 고른 시점(D-7, D-3, D-1, 기한 초과)에 한 번씩, 기한 초과는 하루 한 번
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 이 일수 이하로 남으면 배지를 강조 */
+const URGENT_DAYS = 7;
+
+export type EduDeadlineBadge = {
+  text: string;
+  urgent: boolean;
+};
+
+export type EduDeadline = {
+  educationId: string;
+  title: string;
+  dueAt: string;
+  /** 남은 일수 (로컬 날짜 기준, 0 = 기한 당일, 음수 = 기한 초과) */
+  daysLeft: number;
+  overdue: boolean;
+  badge: EduDeadlineBadge;
+};
+
+function parseTime(iso: string | undefined): number | null {
+  if (!iso) return null;
+  const t = new Date(iso).getTime();
+  return Number.isNaN(t) ? null : t;
+}
+
+function startOfLocalDay(t: number): number {
+  const d = new Date(t);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+}
+
+/** 오늘부터 기한 날짜까지의 일수 (시각은 보지 않음, 서머타임으로 하루가 23/25시간이어도 반올림으로 맞춤) */
+function calendarDaysUntil(due: number, now: number): number {
+  return Math.round((startOfLocalDay(due) - startOfLocalDay(now)) / DAY_MS);
+}
+
+function badgeForDays(days: number): EduDeadlineBadge {
+  if (days < 0) return { text: "기한 초과", urgent: true };
+  if (days === 0) return { text: "D-Day", urgent: true };
+  return { text: `D-${days}`, urgent: days <= URGENT_DAYS };
+}
+
+/** 기한 배지 (기한이 없거나 잘못된 값이면 null) */
+export function getDeadlineBadge(dueAt: string | undefined, now: number): EduDeadlineBadge | null {
+  const due = parseTime(dueAt);
+  if (due === null) return null;
+  return badgeForDays(calendarDaysUntil(due, now));
+}
+
+/** 미이수 필수 교육의 기한 정보 (필수가 아니거나 이수했거나 기한이 없으면 null) */
+export function getMandatoryDeadline(item: EducationItem, now: number): EduDeadline | null {
+  if (!item.required || item.completed || !item.dueAt) return null;
+
+  const due = parseTime(item.dueAt);
+  if (due === null) return null;
+  const daysLeft = calendarDaysUntil(due, now);
+
+  return {
+    educationId: item.id,
+    title: item.title,
+    dueAt: item.dueAt,
+    daysLeft,
+    overdue: daysLeft < 0,
+    badge: badgeForDays(daysLeft),
+  };
+}
+
+/** 미이수 필수 교육 기한 목록 (기한이 빠른 순) */
+export function listMandatoryDeadlines(items: EducationItem[], now: number): EduDeadline[] {
+  return items
+    .map((it) => getMandatoryDeadline(it, now))
+    .filter((d): d is EduDeadline => d !== null)
+    .sort((a, b) => (parseTime(a.dueAt) ?? 0) - (parseTime(b.dueAt) ?? 0));
+}
+
+/* =========================
+   알림 시점 판단
+========================= */
+
+export type EduReminder = {
+  /** 표시 기록 키 (같은 키는 다시 띄우지 않음) */
+  key: string;
+  offset: EduReminderOffset;
+  deadline: EduDeadline;
+};
+
+function localDateKey(now: number): string {
+  const d = new Date(now);
+  return `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+}
+
+/**
+ * 지금 띄울 알림 시점
+ * - 기한 전: 남은 일수가 들어가는 가장 가까운 시점 하나만 (D-1에 처음 보면 D-7은 건너뜀)
+ * - 기한 후: OVERDUE
+ */
+function pickReminderOffset(
+  deadline: EduDeadline,
+  offsets: EduReminderOffset[]
+): EduReminderOffset | null {
+  if (deadline.overdue) return offsets.includes("OVERDUE") ? "OVERDUE" : null;
+
+  let picked: { value: EduReminderOffset; days: number } | null = null;
+  for (const o of EDU_REMINDER_OPTIONS) {
+    if (o.days === null || !offsets.includes(o.value)) continue;
+    if (deadline.daysLeft > o.days) continue;
+    if (!picked || o.days < picked.days) picked = { value: o.value, days: o.days };
+  }
+  return picked?.value ?? null;
+}
+
+function reminderKey(deadline: EduDeadline, offset: EduReminderOffset, now: number): string {
+  const base = `${deadline.educationId}|${deadline.dueAt}|${offset}`;
+  // 기한 초과는 이수할 때까지 하루 한 번
+  return offset === "OVERDUE" ? `${base}|${localDateKey(now)}` : base;
+}
+
+/* =========================
+   표시 기록 (사용자별 localStorage)
+========================= */
+
+const SHOWN_STORAGE_PREFIX = "ctrlf-edu-reminders";
+/** 오래된 표시 기록 정리 기준 */
+const SHOWN_TTL_MS = 90 * DAY_MS;
+
+function shownStorageKey(): string | null {
+  const userUuid = getUserUuidFromKeycloak();
+  return userUuid ? `${SHOWN_STORAGE_PREFIX}:${userUuid}` : null;
+}
+
+function readShown(): Record<string, number> {
+  const key = shownStorageKey();
+  if (!key) return {};
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(key) ?? "{}");
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, v]) => typeof v === "number")
+    ) as Record<string, number>;
+  } catch {
+    return {};
+  }
+}
+
+/** 아직 띄우지 않은 알림 */
+export function collectDueEduReminders(
+  items: EducationItem[],
+  offsets: EduReminderOffset[],
+  now: number
+): EduReminder[] {
+  if (offsets.length === 0) return [];
+  const shown = readShown();
+
+  return listMandatoryDeadlines(items, now).flatMap((deadline) => {
+    const offset = pickReminderOffset(deadline, offsets);
+    if (!offset) return [];
+    const key = reminderKey(deadline, offset, now);
+    return shown[key] ? [] : [{ key, offset, deadline }];
+  });
+}
+
+export function markEduRemindersShown(keys: string[], now: number): void {
+  const storageKey = shownStorageKey();
+  if (!storageKey || keys.length === 0) return;
+
+  const next = Object.fromEntries(
+    Object.entries(readShown()).filter(([, at]) => now - at < SHOWN_TTL_MS)
+  );
+  for (const k of keys) next[k] = now;
+
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(next));
+  } catch {
+    // ignore (용량 초과/프라이빗 모드)
+  }
+}
+
+/* =========================
+   hook
+========================= */
+
+export type MyEducationsState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "ready"; items: EducationItem[]; loadedAt: number };
+
+/**
+ * 내 교육 목록 (기한 배지/알림용)
+ * - refreshMs마다 다시 조회, 실패하면 이전 목록 유지
+ * - onLoaded: 조회가 끝날 때마다 호출 (알림 판단처럼 조회 시점에 한 번만 해야 하는 일)
+ */
+export function useMyEducationsForDeadlines(
+  refreshMs: number,
+  onLoaded?: (items: EducationItem[], loadedAt: number) => void
+): MyEducationsState {
+  const [state, setState] = useState<MyEducationsState>({ status: "loading" });
+  const handleLoaded = useStableEvent((items: EducationItem[], loadedAt: number) =>
+    onLoaded?.(items, loadedAt)
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const items = await getMyEducations(undefined, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+        const loadedAt = Date.now();
+        setState({ status: "ready", items, loadedAt });
+        handleLoaded(items, loadedAt);
+      } catch (e: unknown) {
+        if (controller.signal.aborted) return;
+        console.warn("[eduDeadlines] getMyEducations failed:", e);
+        setState((prev) => (prev.status === "ready" ? prev : { status: "error" }));
+      }
+    };
+
+    void load();
+    const timer = window.setInterval(() => void load(), refreshMs);
+
+    return () => {
+      controller.abort();
+      window.clearInterval(timer);
+    };
+  }, [refreshMs, handleLoaded]);
+
+  return state;
+}
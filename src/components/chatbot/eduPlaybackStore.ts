@@ -0,0 +1,56 @@
+// src/components/chatbot/eduPlaybackStore.ts
+import { useSyncExternalStore } from "react";
+
+/**
+ * 교육 영상 재생 위치 저장소 (EduPanel 인스턴스마다 하나)
+ * - timeupdate가 초당 여러 번 오므로 EduPanel state에 두지 않고 여기에 쓴다
+ *   → 구독하는 시크바/스크립트 영역만 다시 그려진다
+ * - maxWatchedSec은 EduPanel seek-guard가 쓰는 값(maxWatchedTimeRef)을 그대로 옮겨 담는다
+ * - useSyncExternalStore 호환: 스냅샷은 변경 시에만 새 객체로 교체
+ */
+
+export type EduPlaybackPosition = {
+  currentSec: number;
+  /** 지금까지 시청한 최대 지점 (seek-guard 기준) */
+  maxWatchedSec: number;
+};
+
+type Listener = () => void;
+
+export type EduPlaybackStore = {
+  get: () => EduPlaybackPosition;
+  set: (next: Partial<EduPlaybackPosition>) => void;
+  subscribe: (listener: Listener) => () => void;
+};
+
+const INITIAL_POSITION: EduPlaybackPosition = { currentSec: 0, maxWatchedSec: 0 };
+
+export function createEduPlaybackStore(): EduPlaybackStore {
+  let snapshot = INITIAL_POSITION;
+  const listeners = new Set<Listener>();
+
+  return {
+    get: () => snapshot,
+    set: (next) => {
+      const merged = { ...snapshot, ...next };
+      if (
+        merged.currentSec === snapshot.currentSec &&
+        merged.maxWatchedSec === snapshot.maxWatchedSec
+      ) {
+        return;
+      }
+      snapshot = merged;
+      listeners.forEach((l) => l());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export function useEduPlaybackPosition(store: EduPlaybackStore): EduPlaybackPosition {
+  return useSyncExternalStore(store.subscribe, store.get);
+}
@@ -0,0 +1,515 @@
+// src/components/chatbot/eduProgressJournal.ts
+import { HttpError } from "../common/api/authHttp";
+import { idbRequest, idbTransactionDone, openIdb } from "../../utils/idb";
+import { getUserUuidFromKeycloak } from "./chatApi";
+import {
+  beaconEduVideoProgress,
+  getEducationVideos,
+  postEduVideoProgress,
+  type EduProgressPayload,
+  type EduProgressResponse,
+} from "./educationServiceApi";
+
+/**
+ * 교육 영상 시청 진행률 journal
+ * - 진행률 delta(EduProgressPayload)를 먼저 IndexedDB에 적고, 쌓인 순서대로 서버에 보낸다.
+ *   네트워크가 끊기면 남겨 두었다가 online 이벤트/다음 tick/다음 접속 때 이어서 전송
+ * - 페이지 언로드 때는 남은 항목을 sendBeacon으로 한 번 더 보낸다(반영 여부는 알 수 없음)
+ * - 항목마다 "반영되면 서버 totalWatchSeconds가 얼마가 되는지"(expectedTotal)를 적어 두고,
+ *   이미 반영됐을 수 있는 항목(재시도/beacon)은 서버 값과 비교해 중복 전송을 건너뛴다
+ * - 여러 탭이 같은 journal을 동시에 보내지 않도록 Web Locks로 한 탭만 flush
+ * - 사용자(userUuid)별로 분리, IndexedDB를 못 쓰는 환경은 메모리에만 보관
+ */
+
+const DB_NAME = "ctrlf-edu-progress";
+const DB_VERSION = 1;
+const STORE = "journal";
+
+const FLUSH_LOCK_NAME = "ctrlf-edu-progress-flush";
+
+/** 전송 실패 후 자동 재시도 간격 */
+const RETRY_DELAY_MS = 30_000;
+/** 다른 탭이 journal을 보내는 중이면 이만큼 뒤에 다시 확인 */
+const LOCK_RETRY_MS = 3_000;
+/** 서버 누적 시청 시간 기준값을 다시 받아 오는 주기 (다른 기기/탭에서 늘어난 시간 반영) */
+const KNOWN_TOTAL_TTL_MS = 60_000;
+
+export type EduProgressJournalEntry = {
+  id: string;
+  userUuid: string;
+  educationId: string;
+  videoId: string;
+  position: number;
+  /** 시청 시간 delta (초) */
+  watchTime: number;
+  /** 이 delta까지 반영됐을 때의 서버 totalWatchSeconds (서버 기준값을 못 받았으면 없음) */
+  expectedTotal?: number;
+  /** 순서 보장용 (같은 ms에 쌓여도 단조 증가) */
+  createdAt: number;
+  attempts: number;
+  /** 언로드 때 beacon으로 보냄 (반영 여부 미확인) */
+  beaconSentAt?: number;
+  lastError?: string;
+};
+
+export type EduProgressSendResult =
+  | { status: "sent"; response: EduProgressResponse | null }
+  /** 지금은 못 보냈지만 journal에 남아 있음 (나중에 자동 전송) */
+  | { status: "queued" };
+
+type Waiter = {
+  resolve: (r: EduProgressSendResult) => void;
+  reject: (e: unknown) => void;
+};
+
+const memoryEntries = new Map<string, EduProgressJournalEntry>();
+let useMemoryOnly = false;
+
+/** 사용자·영상별 마지막으로 확인한 서버 totalWatchSeconds (`${userUuid}:${educationId}:${videoId}`) */
+const knownTotals = new Map<string, { total: number; at: number }>();
+
+/** 이 탭에서 만든 항목 (beacon은 이 탭 몫만 보낸다, 다른 탭 항목은 그 탭/다음 flush가 처리) */
+const ownEntryIds = new Set<string>();
+/** runFlush가 지금 keepalive로 보내고 있는 항목 (beacon으로 또 보내면 두 번 반영될 수 있음) */
+const inFlightIds = new Set<string>();
+
+const waiters = new Map<string, Waiter>();
+
+let lastCreatedAt = 0;
+let flushing: Promise<void> | null = null;
+let flushAgain = false;
+let retryTimer: number | null = null;
+
+function currentUserUuid(): string {
+  return getUserUuidFromKeycloak() ?? "anonymous";
+}
+
+function videoKey(userUuid: string, educationId: string, videoId: string): string {
+  return `${userUuid}:${educationId}:${videoId}`;
+}
+
+function makeId(createdAt: number): string {
+  return `edup-${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function nextCreatedAt(): number {
+  lastCreatedAt = Math.max(Date.now(), lastCreatedAt + 1);
+  return lastCreatedAt;
+}
+
+/* =========================
+   storage
+========================= */
+
+function openJournalDb(): Promise<IDBDatabase> {
+  return openIdb(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE)) {
+      const store = db.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("userUuid", "userUuid", { unique: false });
+    }
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>
+): Promise<T | null> {
+  if (useMemoryOnly) return null;
+  try {
+    const db = await openJournalDb();
+    const tx = db.transaction(STORE, mode);
+    const done = idbTransactionDone(tx);
+    const result = await run(tx.objectStore(STORE));
+    await done;
+    return result;
+  } catch (e: unknown) {
+    console.warn("[eduProgressJournal] IndexedDB unavailable, using memory:", e);
+    useMemoryOnly = true;
+    return null;
+  }
+}
+
+async function loadEntries(userUuid: string): Promise<EduProgressJournalEntry[]> {
+  const fromDb = await withStore("readonly", (store) =>
+    idbRequest(
+      store.index("userUuid").getAll(userUuid) as IDBRequest<EduProgressJournalEntry[]>
+    )
+  );
+
+  if (fromDb) {
+    // 이전 접속/다른 탭에서 쌓인 항목도 메모리에 맞춰 둔다 (언로드 beacon용)
+    for (const e of fromDb) memoryEntries.set(e.id, e);
+  }
+
+  const entries =
+    fromDb ?? Array.from(memoryEntries.values()).filter((e) => e.userUuid === userUuid);
+
+  return [...entries].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** 다른 탭이 이미 보냈는지 확인 */
+async function hasEntry(id: string): Promise<boolean> {
+  const fromDb = await withStore("readonly", (store) =>
+    idbRequest(store.get(id) as IDBRequest<EduProgressJournalEntry | undefined>)
+  );
+  if (fromDb !== null) return Boolean(fromDb);
+  return memoryEntries.has(id);
+}
+
+async function putEntry(entry: EduProgressJournalEntry): Promise<void> {
+  memoryEntries.set(entry.id, entry);
+  await withStore("readwrite", (store) => idbRequest(store.put(entry)));
+}
+
+async function deleteEntry(id: string): Promise<void> {
+  memoryEntries.delete(id);
+  ownEntryIds.delete(id);
+  await withStore("readwrite", (store) => idbRequest(store.delete(id)));
+}
+
+/* =========================
+   flush
+========================= */
+
+function settle(id: string, result: EduProgressSendResult) {
+  const w = waiters.get(id);
+  if (!w) return;
+  waiters.delete(id);
+  w.resolve(result);
+}
+
+function fail(id: string, e: unknown) {
+  const w = waiters.get(id);
+  if (!w) return;
+  waiters.delete(id);
+  w.reject(e);
+}
+
+/** 다시 보내도 성공할 수 없는 응답 (잘못된 요청/없는 영상 등) */
+function isPermanentFailure(e: unknown): boolean {
+  if (!(e instanceof HttpError)) return false;
+  return e.status >= 400 && e.status < 500 && ![401, 408, 429].includes(e.status);
+}
+
+function scheduleRetry(delayMs: number) {
+  if (typeof window === "undefined" || retryTimer !== null) return;
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null;
+    void flushEduProgressJournal();
+  }, delayMs);
+}
+
+/**
+ * Web Locks로 한 탭만 실행 (useChatOutbox와 같은 방식)
+ * - 잠금을 못 얻으면(다른 탭이 전송 중) false
+ * - Web Locks 미지원 브라우저는 그냥 실행
+ */
+async function runExclusive(run: () => Promise<boolean>): Promise<boolean | null> {
+  const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+  if (!locks) return run();
+
+  return locks.request(FLUSH_LOCK_NAME, { ifAvailable: true }, async (lock) => {
+    if (!lock) return null;
+    return run();
+  });
+}
+
+function setKnownTotal(key: string, total: number) {
+  knownTotals.set(key, { total, at: Date.now() });
+}
+
+function isKnownTotalFresh(key: string): boolean {
+  const known = knownTotals.get(key);
+  return known !== undefined && Date.now() - known.at < KNOWN_TOTAL_TTL_MS;
+}
+
+/** 교육 단위로 영상 목록을 받아 서버 totalWatchSeconds 갱신 (요청한 시점의 사용자 기준) */
+async function refreshKnownTotals(educationId: string): Promise<void> {
+  const userUuid = currentUserUuid();
+  const videos = await getEducationVideos(educationId);
+  for (const v of videos) {
+    if (typeof v.totalWatchSeconds === "number") {
+      setKnownTotal(videoKey(userUuid, educationId, v.id), v.totalWatchSeconds);
+    }
+  }
+}
+
+/**
+ * 같은 영상에서 이 항목 바로 앞까지 반영됐을 때의 예상 누적 시간
+ * - 앞선 항목이 남아 있으면 그 expectedTotal, 없으면 마지막으로 확인한 서버 값
+ */
+function projectedBase(entry: EduProgressJournalEntry): number | undefined {
+  let prev: EduProgressJournalEntry | undefined;
+  for (const e of memoryEntries.values()) {
+    if (
+      e.userUuid !== entry.userUuid ||
+      e.educationId !== entry.educationId ||
+      e.videoId !== entry.videoId ||
+      e.createdAt >= entry.createdAt
+    ) {
+      continue;
+    }
+    if (!prev || e.createdAt > prev.createdAt) prev = e;
+  }
+  if (prev) return prev.expectedTotal;
+  return knownTotals.get(videoKey(entry.userUuid, entry.educationId, entry.videoId))?.total;
+}
+
+/** 아직 보낸 적 없는 항목의 expectedTotal을 지금 기준값으로 다시 계산 */
+function withExpectedTotal(entry: EduProgressJournalEntry): EduProgressJournalEntry {
+  const base = projectedBase(entry);
+  return base === undefined ? entry : { ...entry, expectedTotal: base + entry.watchTime };
+}
+
+/** @returns 끝까지 보냈으면 true, 네트워크 문제로 멈췄으면 false */
+async function runFlush(): Promise<boolean> {
+  const entries = await loadEntries(currentUserUuid());
+  const refreshed = new Set<string>();
+
+  const refreshOnce = async (educationId: string) => {
+    if (refreshed.has(educationId)) return;
+    await refreshKnownTotals(educationId);
+    refreshed.add(educationId);
+  };
+
+  for (const entry of entries) {
+    if (!(await hasEntry(entry.id))) {
+      // 다른 탭이 이미 보냈다: 메모리에서도 빼서 언로드 beacon으로 다시 나가지 않게 한다
+      memoryEntries.delete(entry.id);
+      ownEntryIds.delete(entry.id);
+      settle(entry.id, { status: "sent", response: null });
+      continue;
+    }
+
+    const key = videoKey(entry.userUuid, entry.educationId, entry.videoId);
+    const sentBefore = entry.attempts > 0 || Boolean(entry.beaconSentAt);
+
+    try {
+      // 한 번이라도 나갔던 항목은 이미 반영됐을 수 있으므로 서버 누적 시청 시간을 새로 받아 확인,
+      // 처음 보내는 항목은 기준값이 없거나 오래됐을 때만 받아 온다
+      if (sentBefore || !isKnownTotalFresh(key)) await refreshOnce(entry.educationId);
+
+      const serverTotal = knownTotals.get(key)?.total;
+      if (
+        sentBefore &&
+        entry.expectedTotal !== undefined &&
+        serverTotal !== undefined &&
+        serverTotal >= entry.expectedTotal
+      ) {
+        await deleteEntry(entry.id);
+        settle(entry.id, { status: "sent", response: null });
+        continue;
+      }
+
+      // 아직 반영되지 않은 항목: 지금 서버 값 기준으로 expectedTotal을 다시 맞추고(rebase) 보낸다
+      const attempt: EduProgressJournalEntry = {
+        ...entry,
+        attempts: entry.attempts + 1,
+        expectedTotal:
+          serverTotal !== undefined ? serverTotal + entry.watchTime : entry.expectedTotal,
+      };
+      await putEntry(attempt);
+
+      // 탭이 닫혀도 요청이 끝까지 가도록 keepalive
+      inFlightIds.add(entry.id);
+      const res = await postEduVideoProgress(
+        entry.educationId,
+        entry.videoId,
+        { position: entry.position, watchTime: entry.watchTime },
+        { keepalive: true }
+      ).finally(() => inFlightIds.delete(entry.id));
+
+      await deleteEntry(entry.id);
+
+      const nextTotal = res?.totalWatchSeconds ?? attempt.expectedTotal;
+      if (nextTotal !== undefined) setKnownTotal(key, nextTotal);
+
+      settle(entry.id, { status: "sent", response: res });
+    } catch (e: unknown) {
+      if (isPermanentFailure(e)) {
+        console.warn("[eduProgressJournal] dropping rejected progress:", e);
+        await deleteEntry(entry.id);
+        fail(entry.id, e);
+        continue;
+      }
+
+      console.warn("[eduProgressJournal] flush paused:", e);
+      const stored = memoryEntries.get(entry.id) ?? entry;
+      await putEntry({ ...stored, lastError: e instanceof Error ? e.message : String(e) });
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 쌓인 진행률을 순서대로 전송 (탭 안에서도, 탭 사이에서도 동시에 한 번만 돈다)
+ * - 전송 못 한 항목의 대기자는 "queued"로 풀어 준다.
+ * - 다른 탭이 보내는 중이면 그 탭이 이 탭의 항목까지 보내고, 여기서는 잠시 뒤 다시 확인
+ */
+export function flushEduProgressJournal(): Promise<void> {
+  if (flushing) {
+    flushAgain = true;
+    return flushing;
+  }
+
+  flushing = (async () => {
+    let completed: boolean | null = true;
+    do {
+      flushAgain = false;
+      try {
+        completed = await runExclusive(runFlush);
+      } catch (e: unknown) {
+        console.warn("[eduProgressJournal] flush failed:", e);
+        completed = false;
+      }
+    } while (completed && flushAgain);
+
+    waiters.forEach((w) => w.resolve({ status: "queued" }));
+    waiters.clear();
+
+    if (completed === null) scheduleRetry(LOCK_RETRY_MS);
+    else if (!completed) scheduleRetry(RETRY_DELAY_MS);
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
+
+function createEntry(
+  educationId: string,
+  videoId: string,
+  payload: EduProgressPayload
+): EduProgressJournalEntry {
+  const createdAt = nextCreatedAt();
+  return {
+    id: makeId(createdAt),
+    userUuid: currentUserUuid(),
+    educationId,
+    videoId,
+    position: payload.position,
+    watchTime: payload.watchTime,
+    createdAt,
+    attempts: 0,
+  };
+}
+
+/**
+ * 진행률 전송 (journal 경유)
+ * - 호출 즉시 메모리에 적히므로 호출부는 누적 시청 시간을 바로 비워도 된다.
+ * - 영상의 서버 누적 시청 시간을 아직 모르면 먼저 받아 와서 expectedTotal을 찍는다.
+ * - signal은 결과 대기만 끊는다(journal 항목은 계속 전송 대상).
+ */
+export async function sendEduProgress(
+  educationId: string,
+  videoId: string,
+  payload: EduProgressPayload,
+  opts?: { signal?: AbortSignal }
+): Promise<EduProgressSendResult> {
+  const entry = withExpectedTotal(createEntry(educationId, videoId, payload));
+  memoryEntries.set(entry.id, entry);
+  ownEntryIds.add(entry.id);
+
+  const result = new Promise<EduProgressSendResult>((resolve, reject) => {
+    waiters.set(entry.id, { resolve, reject });
+  });
+
+  if (entry.expectedTotal === undefined) {
+    try {
+      await refreshKnownTotals(educationId);
+    } catch (e: unknown) {
+      // 기준값은 flush 때 다시 받아 온다
+      console.warn("[eduProgressJournal] baseline fetch failed:", e);
+    }
+  }
+
+  // 기준값을 받는 사이 beacon/flush가 먼저 처리했으면 그 상태를 따른다
+  const current = memoryEntries.get(entry.id);
+  if (current) {
+    await putEntry(
+      current.attempts === 0 && !current.beaconSentAt ? withExpectedTotal(current) : current
+    );
+  }
+  void flushEduProgressJournal();
+
+  const signal = opts?.signal;
+  if (!signal) return result;
+
+  return await new Promise<EduProgressSendResult>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException("Aborted", "AbortError"));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    result.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * 페이지 언로드용: 남은 항목(+ 마지막 delta)을 sendBeacon으로 전송
+ * - 동기 함수 (pagehide 핸들러에서 호출)
+ * - beacon을 보낸 항목도 journal에는 남겨 두고, 다음 flush 때 서버 누적 시간으로 중복 여부를 판단한다.
+ *   (서버 기준값을 한 번도 못 받은 영상의 항목은 판단할 수 없어 다시 보낸다)
+ * - 이 탭이 만든 항목만 보내고, flush가 keepalive로 보내는 중인 항목은 건너뛴다(두 요청이 모두 반영되는 것 방지)
+ */
+export function beaconEduProgress(last?: {
+  educationId: string;
+  videoId: string;
+  payload: EduProgressPayload;
+}): void {
+  if (last && last.payload.watchTime >= 1) {
+    const entry = withExpectedTotal(createEntry(last.educationId, last.videoId, last.payload));
+    memoryEntries.set(entry.id, entry);
+    ownEntryIds.add(entry.id);
+  }
+
+  const userUuid = currentUserUuid();
+  const pending = Array.from(memoryEntries.values())
+    .filter(
+      (e) =>
+        e.userUuid === userUuid &&
+        !e.beaconSentAt &&
+        ownEntryIds.has(e.id) &&
+        !inFlightIds.has(e.id)
+    )
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  for (const pendingEntry of pending) {
+    // 보낸 적 없는 항목은 앞선 항목/서버 기준값으로 다시 맞춘다
+    // (putEntry가 메모리를 바로 갱신하므로 다음 항목은 이 값에 이어서 계산됨)
+    const entry = pendingEntry.attempts === 0 ? withExpectedTotal(pendingEntry) : pendingEntry;
+
+    const sent = beaconEduVideoProgress(entry.educationId, entry.videoId, {
+      position: entry.position,
+      watchTime: entry.watchTime,
+    });
+
+    // 페이지가 닫히는 중이라 IndexedDB 기록은 끝나지 못할 수도 있다
+    void putEntry({
+      ...entry,
+      beaconSentAt: sent ? Date.now() : undefined,
+    });
+  }
+}
+
+/**
+ * 자동 동기화 시작 (online 이벤트 + 즉시 한 번)
+ * @returns 해제 함수
+ */
+export function startEduProgressJournalSync(): () => void {
+  if (typeof window === "undefined") return () => {};
+
+  const onOnline = () => {
+    void flushEduProgressJournal();
+  };
+
+  window.addEventListener("online", onOnline);
+  void flushEduProgressJournal();
+
+  return () => {
+    window.removeEventListener("online", onOnline);
+  };
+}
@@ -0,0 +1,162 @@
+// src/components/chatbot/eduVideoScript.ts
+import { getScript, lookupScript } from "./creatorApi";
+import { normalizeScriptDetail } from "./creatorScriptDetail";
+import type { CreatorScriptDetail } from "./creatorStudioTypes";
+
+/**
+ * 교육 영상 시청용 스크립트 트랙
+ * - 제작자가 만든 스크립트(챕터/씬 narration·caption·durationSec)를 자막 cue / 챕터 구간으로 변환
+ * - 씬 narration을 문장 단위로 나누고, 씬 길이를 글자 수 비율로 나눠 cue 시간을 만든다
+ * - 스크립트 총 길이와 실제 영상 길이가 다르면 영상 길이에 맞춰 비례 보정
+ */
+
+export type EduScriptCue = {
+  id: string;
+  startSec: number;
+  endSec: number;
+  text: string;
+  chapterIndex: number;
+};
+
+export type EduScriptChapter = {
+  title: string;
+  startSec: number;
+  endSec: number;
+};
+
+export type EduScriptTrack = {
+  scriptId: string;
+  totalSec: number;
+  chapters: EduScriptChapter[];
+  cues: EduScriptCue[];
+};
+
+/** durationSec가 비어 있는 씬의 길이 추정 (한국어 낭독 기준 대략 초당 6자) */
+const CHARS_PER_SEC = 6;
+const MIN_SCENE_SEC = 2;
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?。！？])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function sceneDuration(durationSec: number, text: string): number {
+  if (Number.isFinite(durationSec) && durationSec > 0) return durationSec;
+  return Math.max(MIN_SCENE_SEC, text.length / CHARS_PER_SEC);
+}
+
+export function buildEduScriptTrack(detail: CreatorScriptDetail): EduScriptTrack {
+  const chapters: EduScriptChapter[] = [];
+  const cues: EduScriptCue[] = [];
+  let cursor = 0;
+
+  const sortedChapters = detail.chapters.slice().sort((a, b) => a.index - b.index);
+
+  sortedChapters.forEach((ch, chapterIndex) => {
+    const chapterStart = cursor;
+    const scenes = ch.scenes.slice().sort((a, b) => a.index - b.index);
+
+    for (const sc of scenes) {
+      const text = (sc.narration || sc.caption || "").trim();
+      const duration = sceneDuration(sc.durationSec, text);
+      const sentences = splitSentences(text);
+      const totalChars = sentences.reduce((acc, s) => acc + s.length, 0);
+
+      let at = cursor;
+      sentences.forEach((sentence, i) => {
+        const share = totalChars > 0 ? sentence.length / totalChars : 1 / sentences.length;
+        const end = i === sentences.length - 1 ? cursor + duration : at + duration * share;
+        cues.push({
+          id: `${sc.sceneId}-${i}`,
+          startSec: at,
+          endSec: end,
+          text: sentence,
+          chapterIndex,
+        });
+        at = end;
+      });
+
+      cursor += duration;
+    }
+
+    chapters.push({ title: ch.title, startSec: chapterStart, endSec: cursor });
+  });
+
+  return { scriptId: detail.scriptId, totalSec: cursor, chapters, cues };
+}
+
+/** 실제 영상 길이에 맞춰 시간 보정 (길이를 모르면 그대로) */
+export function scaleEduScriptTrack(track: EduScriptTrack, videoDurationSec: number): EduScriptTrack {
+  if (!(videoDurationSec > 0) || !(track.totalSec > 0)) return track;
+
+  const k = videoDurationSec / track.totalSec;
+  if (Math.abs(k - 1) < 0.01) return track;
+
+  return {
+    ...track,
+    totalSec: videoDurationSec,
+    chapters: track.chapters.map((c) => ({ ...c, startSec: c.startSec * k, endSec: c.endSec * k })),
+    cues: track.cues.map((c) => ({ ...c, startSec: c.startSec * k, endSec: c.endSec * k })),
+  };
+}
+
+/** 현재 시간에 해당하는 cue 위치 (없으면 -1) */
+export function findCueIndexAt(cues: EduScriptCue[], timeSec: number): number {
+  let lo = 0;
+  let hi = cues.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const c = cues[mid];
+    if (timeSec < c.startSec) hi = mid - 1;
+    else if (timeSec >= c.endSec) lo = mid + 1;
+    else return mid;
+  }
+  return -1;
+}
+
+function formatVttTime(sec: number): string {
+  const ms = Math.max(0, Math.round(sec * 1000));
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.floor((ms % 3_600_000) / 60_000);
+  const s = Math.floor((ms % 60_000) / 1000);
+  const rest = ms % 1000;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:${String(s).padStart(
+    2,
+    "0"
+  )}.${String(rest).padStart(3, "0")}`;
+}
+
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** <track>용 WebVTT 문서 */
+export function buildWebVtt(cues: EduScriptCue[]): string {
+  const body = cues
+    .map(
+      (c, i) =>
+        `${i + 1}\n${formatVttTime(c.startSec)} --> ${formatVttTime(c.endSec)}\n${escapeVttText(
+          c.text
+        )}`
+    )
+    .join("\n\n");
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * 영상에 연결된 스크립트 조회 (scripts/lookup → scripts/{id})
+ * - 스크립트가 없는 영상(업로드 영상 등)은 null
+ */
+export async function loadEduScriptTrack(params: {
+  educationId: string;
+  videoId: string;
+}): Promise<EduScriptTrack | null> {
+  const scriptId = await lookupScript(params);
+  if (!scriptId) return null;
+
+  const detail = normalizeScriptDetail(await getScript(scriptId));
+  const track = buildEduScriptTrack(detail);
+  return track.cues.length > 0 ? track : null;
+}
@@ -493,7 +493,16 @@ export type EducationItem = {
   title: string;
   description?: string;
   eduType?: string;
+  /** 교육 카테고리 코드 (예: SEXUAL_HARASSMENT_PREVENTION, JOB_DUTY) */
+  category?: string;
+  /** 법정 필수 교육 여부 */
+  required?: boolean;
   createdAt?: string;
+  /** 수강 기간 (ISO) */
+  startAt?: string;
+  endAt?: string;
+  /** 이수 기한 (부서별 기한이 있으면 서버가 내 부서 기준으로 내려줌, 없으면 endAt) */
+  dueAt?: string;
 
   completed?: boolean;
 
@@ -732,6 +741,22 @@ export async function getMyEducations(
       const watchStatus =
         typeof it.watchStatus === "string" ? it.watchStatus : undefined;
 
+      const eduType = typeof it.eduType === "string" ? it.eduType : undefined;
+
+      // required가 없으면 eduType(MANDATORY)로 판별
+      const required =
+        toBoolOrNull(it.required) ??
+        toBoolOrNull(it.isMandatory) ??
+        toBoolOrNull(it.mandatory) ??
+        (eduType ? eduType.toUpperCase() === "MANDATORY" : undefined);
+
+      const pickStr = (...vals: unknown[]): string | undefined => {
+        for (const v of vals) {
+          if (typeof v === "string" && v.trim()) return v.trim();
+        }
+        return undefined;
+      };
+
       const completed =
         toBoolOrNull(it.eduCompleted) ??
         toBoolOrNull(it.isCompleted) ??
@@ -775,8 +800,21 @@ export async function getMyEducations(
         title,
         description:
           typeof it.description === "string" ? it.description : undefined,
-        eduType: typeof it.eduType === "string" ? it.eduType : undefined,
+        eduType,
+        category: pickStr(it.category, it.categoryCode),
+        required,
         createdAt: typeof it.createdAt === "string" ? it.createdAt : undefined,
+        startAt: pickStr(it.startAt, it.startDate),
+        endAt: pickStr(it.endAt, it.endDate, it.deadline, it.dueDate),
+        dueAt: pickStr(
+          it.dueAt,
+          it.myDueAt,
+          it.deptDueAt,
+          it.endAt,
+          it.endDate,
+          it.deadline,
+          it.dueDate
+        ),
         completed,
         progressPercent,
         watchStatus,
@@ -881,6 +919,41 @@ export async function postEduVideoProgress(
   };
 }
 
+/**
+ * 페이지 언로드용 진행률 전송 (navigator.sendBeacon)
+ * - beacon은 Authorization 헤더를 못 실으므로 RFC 6750 form body(access_token)로 보낸다.
+ * - 브라우저가 전송 큐에 넣었는지만 알 수 있다(서버 반영 여부는 모름).
+ */
+export function beaconEduVideoProgress(
+  educationId: string | number,
+  videoId: string | number,
+  payload: EduProgressPayload
+): boolean {
+  if (typeof navigator === "undefined" || typeof navigator.sendBeacon !== "function") {
+    return false;
+  }
+
+  const token = getCurrentAccessTokenOrNull();
+  if (!token) return false;
+
+  const url = `${EDU_BASE}/edu/${encodeURIComponent(
+    String(educationId)
+  )}/video/${encodeURIComponent(String(videoId))}/progress`;
+
+  const body = new URLSearchParams({
+    access_token: token,
+    position: String(payload.position),
+    watchTime: String(payload.watchTime),
+  });
+
+  try {
+    return navigator.sendBeacon(url, body);
+  } catch (e: unknown) {
+    logDebug("POST /edu/:id/video/:id/progress (beacon) failed", e);
+    return false;
+  }
+}
+
 export async function completeEducation(
   educationId: string | number,
   init?: Pick<RequestInit, "signal">
@@ -895,6 +968,118 @@ export async function completeEducation(
   );
 }
 
+/* =========================
+ * Certificate (수료증)
+ * ========================= */
+
+export type EducationCertificate = {
+  certificateId: string;
+  /** 진위 확인 코드 (서버 발급) */
+  code: string;
+  educationId: string;
+  educationTitle: string;
+  employeeName: string;
+  department?: string;
+  completedAt?: string;
+  issuedAt?: string;
+  quizBestScore: number | null;
+  /** 관리자가 취소한 수료증 */
+  revoked: boolean;
+};
+
+function normalizeCertificate(raw: unknown): EducationCertificate | null {
+  const dto = unwrapRecord(raw, ["data", "result", "certificate"]);
+  if (!dto) return null;
+
+  const code = toStrOrNull(dto.code ?? dto.verificationCode ?? dto.verification_code);
+  const educationId = toId(dto.educationId ?? dto.education_id);
+  if (!code || !educationId) return null;
+
+  const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+
+  return {
+    certificateId: toId(dto.certificateId ?? dto.id) || code,
+    code,
+    educationId,
+    educationTitle: str(dto.educationTitle ?? dto.title) ?? `교육 ${educationId}`,
+    employeeName: str(dto.employeeName ?? dto.userName ?? dto.name) ?? "-",
+    department: str(dto.department ?? dto.departmentName),
+    completedAt: str(dto.completedAt ?? dto.completed_at),
+    issuedAt: str(dto.issuedAt ?? dto.issued_at ?? dto.createdAt),
+    quizBestScore: toNumOrNull(dto.quizBestScore ?? dto.bestScore),
+    revoked: toBoolOrNull(dto.revoked) ?? false,
+  };
+}
+
+/**
+ * 설계안: POST /edu/{id}/certificate
+ * - 이수 완료 교육에 대해 수료증 발급 (이미 있으면 기존 수료증 반환)
+ * - 수료자 이름/부서는 서버가 토큰으로, 퀴즈 점수는 서버 기록으로 채운다 (클라이언트 값은 받지 않음)
+ */
+export async function issueEducationCertificate(
+  educationId: string | number,
+  init?: Pick<RequestInit, "signal">
+): Promise<EducationCertificate> {
+  const url = `${EDU_BASE}/edu/${encodeURIComponent(
+    String(educationId)
+  )}/certificate`;
+  const raw = await eduFetch<unknown>(
+    url,
+    { method: "POST", signal: init?.signal },
+    "POST /edu/:id/certificate"
+  );
+
+  const cert = normalizeCertificate(raw);
+  if (!cert) {
+    throw new Error("[EDU_API] POST /edu/:id/certificate: 응답 형식이 올바르지 않습니다.");
+  }
+  return cert;
+}
+
+/** 설계안: GET /certificates/me */
+export async function getMyCertificates(
+  init?: Pick<RequestInit, "signal">
+): Promise<EducationCertificate[]> {
+  const raw = await eduFetch<unknown>(
+    `${EDU_BASE}/certificates/me`,
+    { method: "GET", signal: init?.signal },
+    "GET /certificates/me"
+  );
+
+  const list = extractArrayOrThrow<Record<string, unknown>>(
+    raw,
+    ["certificates", "items", "list", "data", "result"],
+    (x): x is Record<string, unknown> => isRecord(x),
+    "GET /certificates/me"
+  );
+
+  return list
+    .map((it) => normalizeCertificate(it))
+    .filter((v): v is EducationCertificate => v !== null);
+}
+
+/**
+ * 설계안: GET /admin/certificates/verify/{code} (관리자)
+ * - 없는 코드는 null
+ */
+export async function verifyEducationCertificate(
+  code: string,
+  init?: Pick<RequestInit, "signal">
+): Promise<EducationCertificate | null> {
+  const url = `${EDU_BASE}/admin/certificates/verify/${encodeURIComponent(code)}`;
+  try {
+    const raw = await eduFetch<unknown>(
+      url,
+      { method: "GET", signal: init?.signal },
+      "GET /admin/certificates/verify/:code"
+    );
+    return normalizeCertificate(raw);
+  } catch (e) {
+    if (e instanceof HttpError && e.status === 404) return null;
+    throw e;
+  }
+}
+
 /* =========================
  * Quiz
  * ========================= */
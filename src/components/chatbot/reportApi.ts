@@ -0,0 +1,340 @@
+// src/components/chatbot/reportApi.ts
+import { fetchJson } from "../common/api/authHttp";
+import {
+  presignDownload,
+  presignUpload,
+  type PresignFileType,
+} from "./infraPresignApi";
+import { putWithProxyFallback, type PutProgress } from "./s3Transfer";
+
+/**
+ * 신고 추적 API
+ * - 직원: 내 신고 목록/상세, 추가 답글
+ * - COMPLAINT_MANAGER: 신고 처리함 목록, 상태 변경, 답변(첨부 포함)
+ *
+ * 신고 "제출"은 chatApi.submitReportToServer가 담당하고,
+ * 여기서는 제출 이후의 처리 상태/스레드만 다룬다.
+ */
+
+type EnvLike = Record<string, string | undefined>;
+const ENV = import.meta.env as unknown as EnvLike;
+
+const REPORTS_BASE = String(ENV.VITE_REPORTS_BASE ?? "/api/reports").replace(
+  /\/$/,
+  ""
+);
+const REPORTS_MANAGE_BASE = String(
+  ENV.VITE_REPORTS_MANAGE_BASE ?? "/api/admin/reports"
+).replace(/\/$/, "");
+
+export type ReportStatus = "RECEIVED" | "IN_REVIEW" | "RESOLVED";
+
+export const REPORT_STATUSES: ReportStatus[] = ["RECEIVED", "IN_REVIEW", "RESOLVED"];
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  RECEIVED: "접수됨",
+  IN_REVIEW: "검토 중",
+  RESOLVED: "처리 완료",
+};
+
+/** 누가 보는 화면인지 (직원 본인 / 신고 담당자) */
+export type ReportScope = "mine" | "inbox";
+
+export type ReportAttachment = {
+  fileName: string;
+  /** s3://bucket/key 또는 bucket/key (열 때 presign download) */
+  fileUrl: string;
+  contentType?: string;
+  size?: number;
+};
+
+export type ReportReply = {
+  id: string;
+  /** REPORTER: 신고자 추가 답글, MANAGER: 담당자 답변 */
+  authorRole: "REPORTER" | "MANAGER";
+  authorName?: string;
+  content: string;
+  attachments: ReportAttachment[];
+  createdAt: string; // ISO-8601
+};
+
+export type ReportSummary = {
+  id: string;
+  status: ReportStatus;
+  content: string;
+  createdAt: string; // ISO-8601
+  updatedAt?: string;
+  sessionId?: string;
+  reporterName?: string;
+  replyCount: number;
+};
+
+export type ReportDetail = ReportSummary & {
+  attachments: ReportAttachment[];
+  replies: ReportReply[];
+};
+
+export type ReportReplyInput = {
+  content: string;
+  attachments?: ReportAttachment[];
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function nonEmptyString(v: unknown): string | undefined {
+  if (typeof v === "string" && v.trim()) return v.trim();
+  if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  return undefined;
+}
+
+function toIsoString(v: unknown): string | undefined {
+  if (typeof v === "number" && Number.isFinite(v)) return new Date(v).toISOString();
+  return nonEmptyString(v);
+}
+
+function unwrapData(raw: unknown): unknown {
+  if (isRecord(raw) && "data" in raw && raw.data !== undefined) return raw.data;
+  return raw;
+}
+
+function unwrapList(raw: unknown): unknown[] {
+  const data = unwrapData(raw);
+  if (Array.isArray(data)) return data;
+  if (isRecord(data)) {
+    for (const k of ["items", "content", "reports", "list"]) {
+      const v = data[k];
+      if (Array.isArray(v)) return v;
+    }
+  }
+  return [];
+}
+
+export function normalizeReportStatus(v: unknown): ReportStatus {
+  const s = String(v ?? "").trim().toUpperCase();
+  if (s === "IN_REVIEW" || s === "REVIEWING" || s === "IN_PROGRESS") return "IN_REVIEW";
+  if (s === "RESOLVED" || s === "DONE" || s === "CLOSED") return "RESOLVED";
+  return "RECEIVED";
+}
+
+function normalizeAttachment(v: unknown): ReportAttachment | null {
+  if (!isRecord(v)) return null;
+  const fileUrl = nonEmptyString(v.fileUrl) ?? nonEmptyString(v.objectKey) ?? nonEmptyString(v.url);
+  if (!fileUrl) return null;
+
+  const size = typeof v.size === "number" && Number.isFinite(v.size) ? v.size : undefined;
+  return {
+    fileName:
+      nonEmptyString(v.fileName) ?? nonEmptyString(v.name) ?? fileUrl.split("/").pop() ?? fileUrl,
+    fileUrl,
+    contentType: nonEmptyString(v.contentType),
+    size,
+  };
+}
+
+function normalizeAttachments(v: unknown): ReportAttachment[] {
+  if (!Array.isArray(v)) return [];
+  return v.map(normalizeAttachment).filter((a): a is ReportAttachment => a !== null);
+}
+
+function normalizeReply(v: unknown): ReportReply | null {
+  if (!isRecord(v)) return null;
+  const id = nonEmptyString(v.id) ?? nonEmptyString(v.replyId);
+  const content = typeof v.content === "string" ? v.content : "";
+  if (!id) return null;
+
+  const role = String(v.authorRole ?? v.role ?? "").trim().toUpperCase();
+  return {
+    id,
+    authorRole: role === "REPORTER" || role === "EMPLOYEE" ? "REPORTER" : "MANAGER",
+    authorName: nonEmptyString(v.authorName),
+    content,
+    attachments: normalizeAttachments(v.attachments),
+    createdAt: toIsoString(v.createdAt) ?? new Date().toISOString(),
+  };
+}
+
+function normalizeSummary(v: unknown): ReportSummary | null {
+  if (!isRecord(v)) return null;
+  const id = nonEmptyString(v.id) ?? nonEmptyString(v.reportId);
+  if (!id) return null;
+
+  const replies = Array.isArray(v.replies) ? v.replies : null;
+  const replyCount =
+    typeof v.replyCount === "number" && Number.isFinite(v.replyCount)
+      ? v.replyCount
+      : replies?.length ?? 0;
+
+  return {
+    id,
+    status: normalizeReportStatus(v.status),
+    content: typeof v.content === "string" ? v.content : "",
+    createdAt: toIsoString(v.createdAt) ?? new Date().toISOString(),
+    updatedAt: toIsoString(v.updatedAt),
+    sessionId: nonEmptyString(v.sessionId),
+    reporterName: nonEmptyString(v.reporterName),
+    replyCount,
+  };
+}
+
+function normalizeDetail(raw: unknown): ReportDetail {
+  const data = unwrapData(raw);
+  const summary = normalizeSummary(data);
+  if (!summary || !isRecord(data)) {
+    throw new Error("[reportApi] 신고 상세 응답 형식이 올바르지 않습니다.");
+  }
+
+  const replies = Array.isArray(data.replies)
+    ? data.replies.map(normalizeReply).filter((r): r is ReportReply => r !== null)
+    : [];
+
+  return {
+    ...summary,
+    replyCount: Math.max(summary.replyCount, replies.length),
+    attachments: normalizeAttachments(data.attachments),
+    replies,
+  };
+}
+
+/** 신고 제출 응답에서 신고 id 추출 (없으면 undefined) */
+export function readReportIdFromResponse(text: string): string | undefined {
+  if (!text.trim()) return undefined;
+  try {
+    const data = unwrapData(JSON.parse(text) as unknown);
+    if (!isRecord(data)) return undefined;
+    return nonEmptyString(data.reportId) ?? nonEmptyString(data.id);
+  } catch {
+    return undefined;
+  }
+}
+
+function baseOf(scope: ReportScope): string {
+  return scope === "inbox" ? REPORTS_MANAGE_BASE : REPORTS_BASE;
+}
+
+function jsonBody(method: string, body: unknown): RequestInit {
+  return {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * 내 신고 내역 (최신순)
+ * GET /api/reports/me
+ */
+export async function listMyReports(): Promise<ReportSummary[]> {
+  const raw = await fetchJson<unknown>(`${REPORTS_BASE}/me`);
+  return sortByCreatedDesc(
+    unwrapList(raw).map(normalizeSummary).filter((r): r is ReportSummary => r !== null)
+  );
+}
+
+/**
+ * 신고 처리함 (COMPLAINT_MANAGER)
+ * GET /api/admin/reports?status=RECEIVED
+ */
+export async function listReportInbox(status?: ReportStatus): Promise<ReportSummary[]> {
+  const qs = status ? `?${new URLSearchParams({ status }).toString()}` : "";
+  const raw = await fetchJson<unknown>(`${REPORTS_MANAGE_BASE}${qs}`);
+  return sortByCreatedDesc(
+    unwrapList(raw).map(normalizeSummary).filter((r): r is ReportSummary => r !== null)
+  );
+}
+
+export async function getReportDetail(
+  scope: ReportScope,
+  reportId: string
+): Promise<ReportDetail> {
+  const raw = await fetchJson<unknown>(
+    `${baseOf(scope)}/${encodeURIComponent(reportId)}`
+  );
+  return normalizeDetail(raw);
+}
+
+/**
+ * 처리 상태 변경 (COMPLAINT_MANAGER)
+ * PATCH /api/admin/reports/{id}/status
+ */
+export async function updateReportStatus(
+  reportId: string,
+  status: ReportStatus
+): Promise<void> {
+  await fetchJson<unknown>(
+    `${REPORTS_MANAGE_BASE}/${encodeURIComponent(reportId)}/status`,
+    jsonBody("PATCH", { status })
+  );
+}
+
+/**
+ * 답글 작성
+ * - mine : 신고자 추가 설명
+ * - inbox: 담당자 답변
+ * 응답에 reply가 없으면 null (호출 측에서 상세를 다시 조회)
+ */
+export async function postReportReply(
+  scope: ReportScope,
+  reportId: string,
+  input: ReportReplyInput
+): Promise<ReportReply | null> {
+  const raw = await fetchJson<unknown>(
+    `${baseOf(scope)}/${encodeURIComponent(reportId)}/replies`,
+    jsonBody("POST", {
+      content: input.content,
+      attachments: (input.attachments ?? []).map((a) => ({
+        fileName: a.fileName,
+        fileUrl: a.fileUrl,
+        contentType: a.contentType,
+        size: a.size,
+      })),
+    })
+  );
+  return normalizeReply(unwrapData(raw));
+}
+
+function presignTypeOf(contentType: string): PresignFileType {
+  return contentType.startsWith("image/") ? "image" : "docs";
+}
+
+/**
+ * 첨부 업로드: presign(upload) → direct PUT (실패 시 proxy PUT)
+ */
+export async function uploadReportAttachment(
+  file: File,
+  opts?: { signal?: AbortSignal; onProgress?: (p: PutProgress) => void }
+): Promise<ReportAttachment> {
+  const contentType = file.type || "application/octet-stream";
+  const presigned = await presignUpload(
+    { type: presignTypeOf(contentType), fileName: file.name, contentType },
+    { signal: opts?.signal }
+  );
+
+  await putWithProxyFallback(presigned.url, presigned.proxyPutUrl, file, {
+    contentType,
+    signal: opts?.signal,
+    onProgress: opts?.onProgress,
+  });
+
+  return {
+    fileName: file.name,
+    fileUrl: presigned.objectKey,
+    contentType,
+    size: file.size,
+  };
+}
+
+/** 첨부 열기용 presign(download) URL */
+export async function resolveReportAttachmentUrl(att: ReportAttachment): Promise<string> {
+  const { url } = await presignDownload(att.fileUrl, {
+    type: presignTypeOf(att.contentType ?? ""),
+  });
+  return url;
+}
+
+function sortByCreatedDesc(list: ReportSummary[]): ReportSummary[] {
+  return [...list].sort(
+    (a, b) => (Date.parse(b.createdAt) || 0) - (Date.parse(a.createdAt) || 0)
+  );
+}
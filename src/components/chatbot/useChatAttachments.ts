@@ -0,0 +1,149 @@
+// src/components/chatbot/useChatAttachments.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ChatAttachment } from "../../types/chat";
+import {
+  MAX_CHAT_ATTACHMENTS,
+  checkChatAttachment,
+  releaseChatAttachmentPreview,
+  uploadChatAttachment,
+} from "./chatAttachments";
+
+export type PendingChatAttachment = {
+  id: string;
+  fileName: string;
+  size: number;
+  fileType: ChatAttachment["fileType"];
+  status: "uploading" | "done" | "error";
+  /** 업로드 진행률 (0~100, 알 수 없으면 null) */
+  percent: number | null;
+  attachment?: ChatAttachment;
+  error?: string;
+};
+
+function makeId(): string {
+  return `att-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 입력창 첨부 목록
+ * - 파일을 고르면(붙여넣기 포함) 검사 후 바로 업로드 시작
+ * - 제거하면 진행 중인 업로드는 취소하고 로컬 미리보기도 해제
+ * - take(): 업로드가 끝난 첨부를 꺼내고 목록을 비운다(전송 시)
+ *   → 보낸 이미지의 미리보기는 말풍선 썸네일이 표시한 뒤 해제한다
+ */
+export function useChatAttachments() {
+  const [items, setItems] = useState<PendingChatAttachment[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const countRef = useRef(0);
+  const itemsRef = useRef<PendingChatAttachment[]>([]);
+
+  useEffect(() => {
+    countRef.current = items.length;
+    itemsRef.current = items;
+  }, [items]);
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((c) => c.abort());
+      controllers.clear();
+      // 보내지 않은 채 입력창이 사라지면 미리보기도 함께 해제
+      itemsRef.current.forEach((it) => {
+        if (it.attachment) releaseChatAttachmentPreview(it.attachment.objectKey);
+      });
+    };
+  }, []);
+
+  const patch = useCallback((id: string, next: Partial<PendingChatAttachment>) => {
+    setItems((prev) => prev.map((it) => (it.id === id ? { ...it, ...next } : it)));
+  }, []);
+
+  const add = useCallback(
+    (files: File[]) => {
+      if (files.length === 0) return;
+
+      const room = MAX_CHAT_ATTACHMENTS - countRef.current;
+      const problems: string[] = [];
+      if (files.length > room) {
+        problems.push(`첨부는 최대 ${MAX_CHAT_ATTACHMENTS}개까지 가능해요.`);
+      }
+
+      const accepted: PendingChatAttachment[] = [];
+      for (const file of files.slice(0, Math.max(0, room))) {
+        const check = checkChatAttachment(file);
+        if (!check.ok) {
+          problems.push(check.reason);
+          continue;
+        }
+
+        const id = makeId();
+        const controller = new AbortController();
+        controllersRef.current.set(id, controller);
+        accepted.push({
+          id,
+          fileName: file.name,
+          size: file.size,
+          fileType: check.fileType,
+          status: "uploading",
+          percent: 0,
+        });
+
+        void uploadChatAttachment(file, check.fileType, {
+          signal: controller.signal,
+          onProgress: (p) => patch(id, { percent: p.percent }),
+        })
+          .then((attachment) => {
+            // 업로드가 끝나기 전에 제거됐으면(또는 언마운트) 미리보기만 남지 않게 해제
+            if (controller.signal.aborted) {
+              releaseChatAttachmentPreview(attachment.objectKey);
+              return;
+            }
+            patch(id, { status: "done", percent: 100, attachment });
+          })
+          .catch((e: unknown) => {
+            if (controller.signal.aborted) return;
+            console.warn("[useChatAttachments] upload failed:", e);
+            patch(id, { status: "error", error: "업로드에 실패했어요." });
+          })
+          .finally(() => {
+            controllersRef.current.delete(id);
+          });
+      }
+
+      countRef.current += accepted.length;
+      setNotice(problems.length > 0 ? problems.join("\n") : null);
+      if (accepted.length > 0) setItems((prev) => [...prev, ...accepted]);
+    },
+    [patch]
+  );
+
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+    const removed = itemsRef.current.find((it) => it.id === id);
+    if (removed?.attachment) releaseChatAttachmentPreview(removed.attachment.objectKey);
+    setItems((prev) => prev.filter((it) => it.id !== id));
+    setNotice(null);
+  }, []);
+
+  const take = useCallback((): ChatAttachment[] => {
+    const ready = items.flatMap((it) => (it.attachment ? [it.attachment] : []));
+    setItems([]);
+    setNotice(null);
+    return ready;
+  }, [items]);
+
+  const uploading = items.some((it) => it.status === "uploading");
+  const readyCount = items.filter((it) => it.status === "done").length;
+
+  return {
+    items,
+    notice,
+    uploading,
+    readyCount,
+    add,
+    remove,
+    take,
+  };
+}
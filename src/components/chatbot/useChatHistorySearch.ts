@@ -0,0 +1,191 @@
+// src/components/chatbot/useChatHistorySearch.ts
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ChatSession } from "../../types/chat";
+import { fromChatServiceDomain } from "../../types/chat";
+import { getChatSessionMessages, getChatSessions } from "./chatApi";
+import {
+  buildLocalSearchDocs,
+  buildServerSearchDocs,
+  MIN_CHAT_SEARCH_QUERY_LENGTH,
+  searchChatDocs,
+  type ChatSearchDoc,
+  type ChatSearchFilters,
+  type ChatSearchHit,
+} from "./chatHistorySearch";
+
+/** 입력 중 매 키마다 검색하지 않도록 debounce */
+const SEARCH_DEBOUNCE_MS = 250;
+
+/** 서버 인덱스 재사용 시간 (이후 검색 시 다시 수집) */
+const SERVER_INDEX_TTL_MS = 5 * 60 * 1000;
+
+/** 서버 인덱스 수집 실패 후 재시도까지 대기 */
+const SERVER_INDEX_RETRY_MS = 30 * 1000;
+
+/** 한 번에 인덱싱할 서버 세션 수 상한 (최근 updatedAt 순) */
+const MAX_SERVER_SESSIONS_TO_INDEX = 50;
+
+type ServerIndexStatus = "idle" | "loading" | "ready" | "error";
+
+type ServerIndexState = {
+  status: ServerIndexStatus;
+  docsBySession: Record<string, ChatSearchDoc[]>;
+  indexed: number;
+  total: number;
+  builtAt: number;
+};
+
+const INITIAL_SERVER_INDEX: ServerIndexState = {
+  status: "idle",
+  docsBySession: {},
+  indexed: 0,
+  total: 0,
+  builtAt: 0,
+};
+
+function toEpochMs(v: unknown): number {
+  if (typeof v !== "string" || !v.trim()) return 0;
+  const ms = new Date(v).getTime();
+  return Number.isFinite(ms) ? ms : 0;
+}
+
+export type ChatHistorySearchResult = {
+  /** debounce가 끝난 실제 검색어 */
+  query: string;
+  hits: ChatSearchHit[];
+  isActive: boolean;
+  isIndexing: boolean;
+  indexedServerSessions: number;
+  totalServerSessions: number;
+  serverIndexFailed: boolean;
+};
+
+/**
+ * 채팅 히스토리 전문 검색 훅
+ * - 로컬 세션은 매 렌더 최신 상태로 인덱싱
+ * - 서버 세션은 검색이 처음 활성화될 때 getChatSessions → 세션별 메시지 조회로 수집(TTL 동안 재사용)
+ * - 로컬에 이미 메시지가 로드된 세션은 로컬 문서를 우선(서버 문서 중복 제외)
+ */
+export function useChatHistorySearch(params: {
+  sessions: ChatSession[];
+  query: string;
+  filters: ChatSearchFilters;
+  enabled?: boolean;
+}): ChatHistorySearchResult {
+  const { sessions, query, filters } = params;
+  const enabled = params.enabled ?? true;
+
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+  useEffect(() => {
+    const t = window.setTimeout(() => setDebouncedQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(t);
+  }, [query]);
+
+  const isActive =
+    enabled && debouncedQuery.trim().length >= MIN_CHAT_SEARCH_QUERY_LENGTH;
+
+  const [serverIndex, setServerIndex] = useState<ServerIndexState>(INITIAL_SERVER_INDEX);
+  const buildingRef = useRef(false);
+  const aliveRef = useRef(true);
+
+  useEffect(() => {
+    aliveRef.current = true;
+    return () => {
+      aliveRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isActive) return;
+    if (buildingRef.current) return;
+    const age = Date.now() - serverIndex.builtAt;
+    if (serverIndex.status === "ready" && age < SERVER_INDEX_TTL_MS) return;
+    if (serverIndex.status === "error" && age < SERVER_INDEX_RETRY_MS) return;
+
+    buildingRef.current = true;
+
+    void (async () => {
+      try {
+        const list = await getChatSessions();
+        const targets = [...list]
+          .sort((a, b) => toEpochMs(b.updatedAt) - toEpochMs(a.updatedAt))
+          .slice(0, MAX_SERVER_SESSIONS_TO_INDEX);
+
+        if (!aliveRef.current) return;
+        setServerIndex((prev) => ({
+          ...prev,
+          status: "loading",
+          indexed: 0,
+          total: targets.length,
+        }));
+
+        const docsBySession: Record<string, ChatSearchDoc[]> = {};
+
+        // 서버 부하를 고려해 순차 조회 (세션 하나 실패해도 나머지는 계속)
+        for (const s of targets) {
+          try {
+            const messages = await getChatSessionMessages(s.id);
+            docsBySession[s.id] = buildServerSearchDocs(
+              {
+                serverSessionId: s.id,
+                title: s.title || "새 채팅",
+                domain: fromChatServiceDomain(s.domain, "general"),
+              },
+              messages
+            );
+          } catch (e: unknown) {
+            console.warn("[useChatHistorySearch] session messages failed:", s.id, e);
+          }
+
+          if (!aliveRef.current) return;
+          setServerIndex((prev) => ({
+            ...prev,
+            docsBySession: { ...docsBySession },
+            indexed: prev.indexed + 1,
+          }));
+        }
+
+        setServerIndex((prev) => ({ ...prev, status: "ready", builtAt: Date.now() }));
+      } catch (e: unknown) {
+        console.warn("[useChatHistorySearch] server index failed:", e);
+        if (aliveRef.current) {
+          setServerIndex((prev) => ({ ...prev, status: "error", builtAt: Date.now() }));
+        }
+      } finally {
+        buildingRef.current = false;
+      }
+    })();
+  }, [isActive, serverIndex.status, serverIndex.builtAt]);
+
+  const localDocs = useMemo(() => buildLocalSearchDocs(sessions), [sessions]);
+
+  const hits = useMemo(() => {
+    if (!isActive) return [];
+
+    // 로컬에 메시지가 있는 서버 세션은 로컬 문서가 더 최신
+    const coveredServerIds = new Set<string>();
+    for (const s of sessions) {
+      if (s.messages.length === 0) continue;
+      if (s.serverId) coveredServerIds.add(s.serverId);
+      coveredServerIds.add(s.id);
+    }
+
+    const docs: ChatSearchDoc[] = [...localDocs];
+    for (const [serverSessionId, serverDocs] of Object.entries(serverIndex.docsBySession)) {
+      if (coveredServerIds.has(serverSessionId)) continue;
+      docs.push(...serverDocs);
+    }
+
+    return searchChatDocs(docs, debouncedQuery, filters);
+  }, [isActive, sessions, localDocs, serverIndex.docsBySession, debouncedQuery, filters]);
+
+  return {
+    query: debouncedQuery,
+    hits,
+    isActive,
+    isIndexing: serverIndex.status === "loading",
+    indexedServerSessions: serverIndex.indexed,
+    totalServerSessions: serverIndex.total,
+    serverIndexFailed: serverIndex.status === "error",
+  };
+}
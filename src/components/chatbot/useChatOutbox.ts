@@ -0,0 +1,350 @@
+// src/components/chatbot/useChatOutbox.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  deleteOutboxEntry,
+  getOutboxEntry,
+  loadOutboxEntries,
+  putOutboxEntry,
+  type ChatOutboxEntry,
+} from "./chatOutboxStore";
+import { ChatSendNotStartedError } from "./chatApi";
+
+/** 자동 재시도 간격: 2s → 4s → 8s … 최대 60s (±20% 지터) */
+const RETRY_BASE_MS = 2_000;
+const RETRY_MAX_MS = 60_000;
+
+/** 이 횟수까지 실패하면 자동 재시도를 멈추고 "전송 실패"로 표시 */
+const MAX_AUTO_ATTEMPTS = 8;
+
+/** 다른 탭이 대기열을 보내는 중이면 이만큼 뒤에 다시 확인 */
+const LOCK_RETRY_MS = 3_000;
+
+function backoffDelay(attempts: number): number {
+  const raw = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  const jitter = raw * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(raw + jitter);
+}
+
+function isBrowserOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine !== false;
+}
+
+/**
+ * 여러 탭이 같은 대기열(IndexedDB)을 동시에 보내지 않도록 Web Locks로 한 탭만 flush
+ * - 잠금을 못 얻으면(다른 탭이 전송 중) false → 다음 예약 때 다시 시도
+ * - Web Locks 미지원 브라우저는 그냥 실행
+ */
+async function runExclusive(name: string, run: () => Promise<void>): Promise<boolean> {
+  const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+  if (!locks) {
+    await run();
+    return true;
+  }
+
+  return locks.request(name, { ifAvailable: true }, async (lock) => {
+    if (!lock) return false;
+    await run();
+    return true;
+  });
+}
+
+function errorText(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err ?? "");
+}
+
+function isNetworkFailure(err: unknown): boolean {
+  if (err instanceof TypeError) return true;
+  if (err instanceof DOMException && (err.name === "AbortError" || err.name === "TimeoutError")) {
+    return true;
+  }
+  return /failed to fetch|networkerror|network error|load failed/.test(errorText(err).toLowerCase());
+}
+
+/**
+ * 자동으로 다시 보내도 안전한 전송 실패인지 (질문이 서버에 닿지 않은 것이 확실한 경우만)
+ * - 오프라인
+ * - 질문 전송 요청을 보내기 전(토큰 갱신/세션 생성)의 네트워크 실패
+ * - 질문 전송 요청 중의 실패는 TypeError라도(응답 도중 연결 끊김 등) 서버가 이미 받았을 수 있어
+ *   자동으로 다시 보내지 않는다 → "전송 실패"로 남겨 사용자가 직접 재시도
+ */
+export function isRetryableSendError(err: unknown): boolean {
+  if (!isBrowserOnline()) return true;
+  return err instanceof ChatSendNotStartedError && isNetworkFailure(err.original);
+}
+
+export type EnqueueOutboxParams = Omit<
+  ChatOutboxEntry,
+  "userUuid" | "status" | "attempts" | "nextAttemptAt"
+>;
+
+/**
+ * 챗봇 전송 대기열 훅
+ * - enqueue된 메시지를 IndexedDB에 보관하고, 연결이 돌아오면 backoff로 순서대로 재전송
+ * - 같은 세션의 메시지는 생성 순서를 지킨다(앞 메시지가 대기 중이면 뒤 메시지도 대기)
+ * - 여러 탭이 열려 있어도 한 번에 한 탭만 보낸다(Web Locks + 저장소 재확인)
+ * - 실제 전송/세션 상태 반영은 deliver 콜백(ChatbotApp)이 담당
+ *   - true: 전송 완료, false: 더 이상 보낼 대상이 없음(세션 삭제 등) → 둘 다 대기열에서 제거
+ *   - throw: 실패 → 재시도 또는 실패 처리
+ */
+export function useChatOutbox(params: {
+  userUuid: string | null;
+  /** 전송 중(스트리밍 등)에는 대기열 전송을 미룬다 */
+  paused: boolean;
+  deliver: (entry: ChatOutboxEntry) => Promise<boolean>;
+  /** 저장소에서 복원한 항목 (새로고침 이후 세션/말풍선 복원용) */
+  onRestore: (entries: ChatOutboxEntry[]) => void;
+  /** 항목 상태 변경 (null이면 대기열에서 제거됨) */
+  onStatusChange: (id: string, entry: ChatOutboxEntry | null) => void;
+}) {
+  const { userUuid, paused } = params;
+
+  const [isOnline, setIsOnline] = useState<boolean>(isBrowserOnline);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  const entriesRef = useRef<Map<string, ChatOutboxEntry>>(new Map());
+  const flushingRef = useRef(false);
+  const timerRef = useRef<number | null>(null);
+  const aliveRef = useRef(true);
+
+  const deliverRef = useRef(params.deliver);
+  const onRestoreRef = useRef(params.onRestore);
+  const onStatusChangeRef = useRef(params.onStatusChange);
+  const pausedRef = useRef(paused);
+  const userUuidRef = useRef(userUuid);
+  useEffect(() => {
+    deliverRef.current = params.deliver;
+    onRestoreRef.current = params.onRestore;
+    onStatusChangeRef.current = params.onStatusChange;
+    pausedRef.current = paused;
+    userUuidRef.current = userUuid;
+  });
+
+  const syncCount = useCallback(() => {
+    let n = 0;
+    for (const e of entriesRef.current.values()) if (e.status === "pending") n += 1;
+    setPendingCount(n);
+  }, []);
+
+  const flushRef = useRef<() => Promise<void>>(async () => undefined);
+
+  const scheduleNext = useCallback((minDelayMs = 0) => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (!aliveRef.current) return;
+
+    let earliest = Infinity;
+    for (const e of entriesRef.current.values()) {
+      if (e.status === "pending") earliest = Math.min(earliest, e.nextAttemptAt);
+    }
+    if (!Number.isFinite(earliest)) return;
+
+    timerRef.current = window.setTimeout(() => {
+      timerRef.current = null;
+      void flushRef.current();
+    }, Math.max(minDelayMs, earliest - Date.now()));
+  }, []);
+
+  const updateEntry = useCallback(async (next: ChatOutboxEntry) => {
+    entriesRef.current.set(next.id, next);
+    onStatusChangeRef.current(next.id, next);
+    await putOutboxEntry(next);
+  }, []);
+
+  const removeEntry = useCallback(async (id: string) => {
+    entriesRef.current.delete(id);
+    onStatusChangeRef.current(id, null);
+    await deleteOutboxEntry(id);
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || pausedRef.current) return;
+    if (!isBrowserOnline()) return;
+
+    const uid = userUuidRef.current;
+    if (!uid) return;
+
+    flushingRef.current = true;
+    let acquired = true;
+    try {
+      acquired = await runExclusive(`ctrlf-chat-outbox-flush:${uid}`, async () => {
+        const blockedSessions = new Set<string>();
+        const ordered = [...entriesRef.current.values()].sort(
+          (a, b) => a.createdAt - b.createdAt
+        );
+
+        for (const entry of ordered) {
+          if (!aliveRef.current || pausedRef.current) break;
+          if (entry.status !== "pending") continue;
+          if (blockedSessions.has(entry.sessionId)) continue;
+          if (entry.nextAttemptAt > Date.now()) {
+            blockedSessions.add(entry.sessionId);
+            continue;
+          }
+
+          // 다른 탭이 이미 보냈거나 지운 항목은 여기서도 정리(중복 전송 방지)
+          if (!(await getOutboxEntry(entry.id))) {
+            entriesRef.current.delete(entry.id);
+            onStatusChangeRef.current(entry.id, null);
+            continue;
+          }
+
+          try {
+            await deliverRef.current(entry);
+            await removeEntry(entry.id);
+          } catch (e: unknown) {
+            console.warn("[useChatOutbox] deliver failed:", entry.id, e);
+            const attempts = entry.attempts + 1;
+            const keepRetrying = isRetryableSendError(e) && attempts < MAX_AUTO_ATTEMPTS;
+
+            await updateEntry({
+              ...entry,
+              attempts,
+              status: keepRetrying ? "pending" : "failed",
+              nextAttemptAt: Date.now() + backoffDelay(attempts),
+              lastError: errorText(e),
+            });
+
+            blockedSessions.add(entry.sessionId);
+            if (!isBrowserOnline()) break;
+          }
+        }
+      });
+    } finally {
+      flushingRef.current = false;
+      if (aliveRef.current) {
+        syncCount();
+        scheduleNext(acquired ? 0 : LOCK_RETRY_MS);
+      }
+    }
+  }, [removeEntry, updateEntry, scheduleNext, syncCount]);
+
+  useEffect(() => {
+    flushRef.current = flush;
+  }, [flush]);
+
+  useEffect(() => {
+    aliveRef.current = true;
+    return () => {
+      aliveRef.current = false;
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  // 사용자별 저장분 복원 → 바로 한 번 전송 시도
+  useEffect(() => {
+    if (!userUuid) return;
+    let cancelled = false;
+
+    void (async () => {
+      const stored = await loadOutboxEntries(userUuid);
+      if (cancelled || !aliveRef.current) return;
+
+      const now = Date.now();
+      const restored = stored.map((e) =>
+        e.status === "pending" ? { ...e, nextAttemptAt: now } : e
+      );
+
+      for (const e of restored) entriesRef.current.set(e.id, e);
+      if (restored.length > 0) onRestoreRef.current(restored);
+
+      syncCount();
+      void flushRef.current();
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userUuid, syncCount]);
+
+  // 연결 복구 시 대기 중인 항목은 backoff를 건너뛰고 즉시 재시도
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      const now = Date.now();
+      for (const [id, e] of entriesRef.current) {
+        if (e.status === "pending") entriesRef.current.set(id, { ...e, nextAttemptAt: now });
+      }
+      void flushRef.current();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  // 전송이 끝나면(paused 해제) 밀린 항목 처리
+  useEffect(() => {
+    if (paused) return;
+    const t = window.setTimeout(() => void flushRef.current(), 0);
+    return () => window.clearTimeout(t);
+  }, [paused]);
+
+  const enqueue = useCallback(
+    (p: EnqueueOutboxParams) => {
+      const uid = userUuidRef.current;
+      if (!uid) return null;
+
+      const entry: ChatOutboxEntry = {
+        ...p,
+        userUuid: uid,
+        status: "pending",
+        attempts: 0,
+        // 오프라인이면 online 이벤트가 깨우므로 첫 재시도는 backoff 한 단계 뒤
+        nextAttemptAt: Date.now() + backoffDelay(1),
+      };
+
+      void (async () => {
+        await updateEntry(entry);
+        syncCount();
+        scheduleNext();
+      })();
+
+      return entry;
+    },
+    [updateEntry, syncCount, scheduleNext]
+  );
+
+  /** "다시 시도": 실패 항목도 대기 상태로 되돌리고 즉시 전송 */
+  const retryNow = useCallback(
+    (id: string) => {
+      const e = entriesRef.current.get(id);
+      if (!e) return;
+
+      void (async () => {
+        await updateEntry({ ...e, status: "pending", attempts: 0, nextAttemptAt: Date.now() });
+        syncCount();
+        await flushRef.current();
+      })();
+    },
+    [updateEntry, syncCount]
+  );
+
+  const discard = useCallback(
+    (id: string) => {
+      if (!entriesRef.current.has(id)) return;
+      void (async () => {
+        await removeEntry(id);
+        syncCount();
+        scheduleNext();
+      })();
+    },
+    [removeEntry, syncCount, scheduleNext]
+  );
+
+  /** 이 세션에 아직 대기 중인 메시지가 있으면 새 메시지도 순서대로 대기열로 */
+  const hasPendingForSession = useCallback((sessionId: string) => {
+    for (const e of entriesRef.current.values()) {
+      if (e.sessionId === sessionId && e.status === "pending") return true;
+    }
+    return false;
+  }, []);
+
+  return { isOnline, pendingCount, enqueue, retryNow, discard, hasPendingForSession };
+}
@@ -0,0 +1,121 @@
+// src/components/chatbot/useChatSpeech.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  DEFAULT_SPEECH_LANG,
+  SPEECH_ERROR_MESSAGES,
+  getSpeechToTextProvider,
+  getTextToSpeechProvider,
+  toSpeechText,
+  type SpeechToTextSession,
+  type TextToSpeechPlayback,
+} from "./chatSpeech";
+import { useStableEvent } from "./useStableEvent";
+
+/** 받아쓴 문장을 기존 입력 뒤에 이어 붙인다 */
+function joinDictation(base: string, transcript: string): string {
+  if (!transcript) return base;
+  if (!base) return transcript;
+  return /\s$/.test(base) ? `${base}${transcript}` : `${base} ${transcript}`;
+}
+
+/**
+ * 누르고 말하기(push-to-talk) 받아쓰기
+ * - start(기존 입력) → 말하는 동안 onText(기존 입력 + 인식 중 문장) 반복 호출
+ * - stop()은 말한 데까지 인식 후 종료, 언마운트 시 즉시 중단
+ */
+export function useDictation(opts: {
+  onText: (text: string) => void;
+  onError: (message: string) => void;
+  lang?: string;
+}) {
+  const lang = opts.lang ?? DEFAULT_SPEECH_LANG;
+  const emitText = useStableEvent(opts.onText);
+  const emitError = useStableEvent(opts.onError);
+
+  const [supported] = useState(() => getSpeechToTextProvider().isSupported());
+  const [listening, setListening] = useState(false);
+  const sessionRef = useRef<SpeechToTextSession | null>(null);
+
+  useEffect(() => {
+    return () => {
+      sessionRef.current?.abort();
+      sessionRef.current = null;
+    };
+  }, []);
+
+  const start = useCallback(
+    (baseText: string) => {
+      if (!supported || sessionRef.current) return;
+
+      let ended = false;
+      setListening(true);
+      const session = getSpeechToTextProvider().start(lang, {
+        onTranscript: (transcript) => emitText(joinDictation(baseText, transcript)),
+        onError: (code) => emitError(SPEECH_ERROR_MESSAGES[code]),
+        onEnd: () => {
+          ended = true;
+          sessionRef.current = null;
+          setListening(false);
+        },
+      });
+      // onEnd가 start 안에서 동기로 불린 경우(시작 실패)는 등록하지 않는다.
+      if (!ended) sessionRef.current = session;
+    },
+    [supported, lang, emitText, emitError]
+  );
+
+  const stop = useCallback(() => {
+    sessionRef.current?.stop();
+  }, []);
+
+  return { supported, listening, start, stop };
+}
+
+/**
+ * 답변 읽어주기
+ * - 한 번에 하나의 메시지만 읽고, 같은 메시지를 다시 누르면 중지
+ */
+export function useReadAloud(opts: { onError: (message: string) => void; lang?: string }) {
+  const lang = opts.lang ?? DEFAULT_SPEECH_LANG;
+  const emitError = useStableEvent(opts.onError);
+
+  const [supported] = useState(() => getTextToSpeechProvider().isSupported());
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+  const playbackRef = useRef<TextToSpeechPlayback | null>(null);
+
+  const stop = useCallback(() => {
+    playbackRef.current?.cancel();
+    playbackRef.current = null;
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const toggle = useCallback(
+    (messageId: string, markdown: string) => {
+      if (!supported) return;
+      if (speakingId === messageId) {
+        stop();
+        return;
+      }
+
+      stop();
+      const text = toSpeechText(markdown);
+      if (!text) return;
+
+      let ended = false;
+      setSpeakingId(messageId);
+      const playback = getTextToSpeechProvider().speak(text, lang, {
+        onEnd: () => {
+          ended = true;
+          playbackRef.current = null;
+          setSpeakingId((prev) => (prev === messageId ? null : prev));
+        },
+        onError: (code) => emitError(SPEECH_ERROR_MESSAGES[code]),
+      });
+      if (!ended) playbackRef.current = playback;
+    },
+    [supported, speakingId, stop, lang, emitError]
+  );
+
+  return { supported, speakingId, toggle, stop };
+}
@@ -83,6 +83,19 @@ export interface DeptEducationRow {
   completionRate: number;
 }
 
+/** 필수 교육 × 부서 이수 기한 현황 */
+export interface MandatoryDeadlineRow {
+  id: string;
+  educationId: string;
+  title: string;
+  deptName: string;
+  dueAt: string | null;
+  targetCount: number;
+  nonCompleterCount: number;
+  overdueCount: number;
+  lastNudgedAt: string | null;
+}
+
 /**
  * 퀴즈 탭용 타입들
  */
@@ -47,6 +47,30 @@ export interface DepartmentCompletionResponse {
   }>;
 }
 
+/**
+ * 필수 교육 부서별 이수 기한 현황 응답 타입
+ * - 기한은 교육 × 대상 부서 단위
+ */
+export interface MandatoryDeadlineResponse {
+  items: Array<{
+    educationId: string;
+    title: string;
+    department: string;
+    dueAt: string | null; // 이수 기한 (ISO 8601, 미설정이면 null)
+    targetCount: number; // 대상자 수
+    nonCompleterCount: number; // 미이수자 수
+    overdueCount: number; // 기한 초과 미이수자 수
+    lastNudgedAt?: string | null; // 마지막 독려 알림 발송 시각
+  }>;
+}
+
+/**
+ * 미이수자 독려 알림 응답 타입
+ */
+export interface NudgeLearnersResponse {
+  notifiedCount: number; // 알림을 받은 인원
+}
+
 /**
  * 교육 대시보드 요약 통계 조회
  */
@@ -109,3 +133,63 @@ export async function getDepartmentCompletion(
   );
 }
 
+
+/**
+ * 필수 교육 부서별 이수 기한 현황 조회
+ *
+ * 백엔드 엔드포인트 (구현 필요):
+ * - GET /admin/dashboard/education/mandatory-deadlines?department=
+ */
+export async function getMandatoryDeadlines(
+  department?: string
+): Promise<MandatoryDeadlineResponse> {
+  const query = buildQueryString({ department });
+  return fetchJson<MandatoryDeadlineResponse>(
+    `${API_BASE}/admin/dashboard/education/mandatory-deadlines${query}`
+  );
+}
+
+/**
+ * 부서별 이수 기한 설정
+ *
+ * 백엔드 엔드포인트 (구현 필요):
+ * - PUT /admin/edus/{educationId}/deadlines  { department, dueAt }
+ */
+export async function updateMandatoryDeadline(
+  educationId: string,
+  department: string,
+  dueAt: string
+): Promise<void> {
+  await fetchJson<unknown>(
+    `${API_BASE}/admin/edus/${encodeURIComponent(educationId)}/deadlines`,
+    {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ department, dueAt }),
+    }
+  );
+}
+
+/**
+ * 기한 초과 미이수자 독려 알림 발송
+ *
+ * 백엔드 엔드포인트 (구현 필요):
+ * - POST /admin/edus/{educationId}/nudge  { department, overdueOnly }
+ */
+export async function nudgeOverdueLearners(
+  educationId: string,
+  department: string
+): Promise<NudgeLearnersResponse> {
+  return fetchJson<NudgeLearnersResponse>(
+    `${API_BASE}/admin/edus/${encodeURIComponent(educationId)}/nudge`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ department, overdueOnly: true }),
+    }
+  );
+}
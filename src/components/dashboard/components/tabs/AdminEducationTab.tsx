@@ -15,13 +15,39 @@ import type {
   JobCourseSummary,
   DeptEducationRow,
   KpiCard,
+  MandatoryDeadlineRow,
 } from "../../adminDashboardTypes";
 import {
   getEducationSummary,
   getMandatoryCompletion,
   getJobCompletion,
   getDepartmentCompletion,
+  getMandatoryDeadlines,
+  updateMandatoryDeadline,
+  nudgeOverdueLearners,
 } from "../../api/educationApi";
+import { formatDateTime } from "../../../chatbot/creatorStudioUtils";
+
+/** 독려 알림 발송 상태 (행 id 기준) */
+type NudgeState =
+  | { status: "sending" }
+  | { status: "sent"; notifiedCount: number; sentAt: string }
+  | { status: "error" };
+
+/** Date → date input 값 (로컬 날짜) */
+function formatDateInput(d: Date): string {
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+/** ISO → date input 값 (로컬 날짜) */
+function toDateInputValue(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return formatDateInput(d);
+}
 
 interface AdminEducationTabProps {
   period: PeriodFilter;
@@ -49,6 +75,13 @@ const AdminEducationTab: React.FC<AdminEducationTabProps> = ({
   >([]);
   const [jobCourses, setJobCourses] = useState<JobCourseSummary[]>([]);
   const [deptRows, setDeptRows] = useState<DeptEducationRow[]>([]);
+  const [deadlineRows, setDeadlineRows] = useState<MandatoryDeadlineRow[]>([]);
+  const [deadlineError, setDeadlineError] = useState<string | null>(null);
+  const [overdueOnly, setOverdueOnly] = useState(true);
+  const [nudgeStates, setNudgeStates] = useState<Record<string, NudgeState>>({});
+  const [savingDeadlineId, setSavingDeadlineId] = useState<string | null>(null);
+  /** 저장 전 이수 기한 입력값 (행 id 기준, yyyy-mm-dd) */
+  const [deadlineDrafts, setDeadlineDrafts] = useState<Record<string, string>>({});
 
   const filterValue: CommonFilterState = {
     period,
@@ -139,10 +172,102 @@ const AdminEducationTab: React.FC<AdminEducationTabProps> = ({
     }
   }, [period, selectedDept, selectedDeptLabel]);
 
+  // 필수 교육 이수 기한 현황 (다른 통계와 별도로 조회: 실패해도 나머지는 표시)
+  const fetchDeadlines = useCallback(async () => {
+    setDeadlineError(null);
+    try {
+      const department = selectedDept === "ALL" ? undefined : selectedDeptLabel;
+      const res = await getMandatoryDeadlines(department);
+      setDeadlineRows(
+        (res.items || []).map((item) => ({
+          id: `${item.educationId}-${item.department}`,
+          educationId: item.educationId,
+          title: item.title,
+          deptName: item.department,
+          dueAt: item.dueAt ?? null,
+          targetCount: item.targetCount,
+          nonCompleterCount: item.nonCompleterCount,
+          overdueCount: item.overdueCount,
+          lastNudgedAt: item.lastNudgedAt ?? null,
+        }))
+      );
+      setNudgeStates({});
+      setDeadlineDrafts({});
+    } catch (err) {
+      console.error("[AdminEducationTab] 이수 기한 조회 실패:", err);
+      setDeadlineRows([]);
+      setDeadlineError("필수 교육 이수 기한을 불러오지 못했습니다.");
+    }
+  }, [selectedDept, selectedDeptLabel]);
+
   // 필터 변경 시 데이터 재조회
   useEffect(() => {
     fetchData();
-  }, [fetchData]);
+    fetchDeadlines();
+  }, [fetchData, fetchDeadlines]);
+
+  const discardDeadlineDraft = (rowId: string) => {
+    setDeadlineDrafts((prev) => {
+      const next = { ...prev };
+      delete next[rowId];
+      return next;
+    });
+  };
+
+  // 입력 중에는 draft만 바꾸고, 저장 버튼/Enter로 한 번만 저장
+  const handleDeadlineSave = async (row: MandatoryDeadlineRow) => {
+    const value = deadlineDrafts[row.id];
+    if (value === undefined) return;
+    if (!value || value === toDateInputValue(row.dueAt)) {
+      discardDeadlineDraft(row.id);
+      return;
+    }
+    // yyyy-mm-dd 문자열 비교 = 날짜 비교
+    if (value < formatDateInput(new Date())) {
+      setDeadlineError(`${row.deptName} · ${row.title}: 이수 기한은 오늘 이후 날짜로 정해 주세요.`);
+      return;
+    }
+    // 선택한 날짜의 끝(로컬 23:59:59)까지 이수 기한
+    const dueAt = new Date(`${value}T23:59:59`).toISOString();
+
+    setDeadlineError(null);
+    setSavingDeadlineId(row.id);
+    try {
+      await updateMandatoryDeadline(row.educationId, row.deptName, dueAt);
+      // 기한이 바뀌면 기한 초과 인원도 바뀌므로 다시 조회
+      await fetchDeadlines();
+    } catch (err) {
+      console.error("[AdminEducationTab] 이수 기한 저장 실패:", err);
+      setDeadlineError(`${row.deptName} · ${row.title} 이수 기한을 저장하지 못했습니다.`);
+    } finally {
+      setSavingDeadlineId(null);
+    }
+  };
+
+  const handleNudge = async (row: MandatoryDeadlineRow) => {
+    // 같은 인원에게 중복으로 보내지 않도록 마지막 발송 시각과 함께 확인
+    const confirmed = window.confirm(
+      `${row.deptName} · ${row.title}\n기한이 지난 미이수자 ${row.overdueCount}명에게 독려 알림을 보낼까요?` +
+        (row.lastNudgedAt ? `\n\n마지막 발송: ${formatDateTime(row.lastNudgedAt)}` : "")
+    );
+    if (!confirmed) return;
+
+    setNudgeStates((prev) => ({ ...prev, [row.id]: { status: "sending" } }));
+    try {
+      const res = await nudgeOverdueLearners(row.educationId, row.deptName);
+      setNudgeStates((prev) => ({
+        ...prev,
+        [row.id]: {
+          status: "sent",
+          notifiedCount: res.notifiedCount,
+          sentAt: new Date().toISOString(),
+        },
+      }));
+    } catch (err) {
+      console.error("[AdminEducationTab] 독려 알림 발송 실패:", err);
+      setNudgeStates((prev) => ({ ...prev, [row.id]: { status: "error" } }));
+    }
+  };
 
   // KPI 데이터 업데이트
   const kpiItems: KpiCard[] = summary
@@ -170,6 +295,12 @@ const AdminEducationTab: React.FC<AdminEducationTabProps> = ({
       ]
     : educationKpis;
 
+  const visibleDeadlineRows = (
+    overdueOnly ? deadlineRows.filter((row) => row.overdueCount > 0) : deadlineRows
+  )
+    .slice()
+    .sort((a, b) => b.overdueCount - a.overdueCount);
+
   const visibleDeptRows =
     selectedDept === "ALL"
       ? deptRows
@@ -184,6 +315,7 @@ const AdminEducationTab: React.FC<AdminEducationTabProps> = ({
         departments={DEPARTMENT_OPTIONS}
         onRefresh={() => {
           fetchData();
+          fetchDeadlines();
         }}
       />
       {loading && (
@@ -285,6 +417,143 @@ const AdminEducationTab: React.FC<AdminEducationTabProps> = ({
           </table>
         </div>
       </section>
+
+      <section className="cb-admin-section">
+        <div className="cb-admin-section-header">
+          <h3 className="cb-admin-section-title">필수 교육 이수 기한 현황</h3>
+          <span className="cb-admin-section-sub">
+            부서별 이수 기한을 바꾸거나, 기한이 지난 미이수자에게 독려 알림을 보낼 수
+            있습니다.
+          </span>
+        </div>
+        <div className="cb-admin-deadline-toolbar">
+          <button
+            type="button"
+            className={"cb-admin-chip" + (overdueOnly ? " cb-admin-chip--active" : "")}
+            aria-pressed={overdueOnly}
+            onClick={() => setOverdueOnly((v) => !v)}
+          >
+            기한 초과만
+          </button>
+        </div>
+        {deadlineError && (
+          <div className="cb-admin-deadline-error" role="alert">
+            {deadlineError}
+          </div>
+        )}
+        <div className="cb-admin-table-wrapper">
+          <table className="cb-admin-table">
+            <thead>
+              <tr>
+                <th>교육</th>
+                <th>부서</th>
+                <th>이수 기한</th>
+                <th>미이수자 수</th>
+                <th>기한 초과</th>
+                <th>독려</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleDeadlineRows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="cb-admin-deadline-empty">
+                    {overdueOnly ? "기한이 지난 미이수자가 없습니다." : "필수 교육이 없습니다."}
+                  </td>
+                </tr>
+              ) : (
+                visibleDeadlineRows.map((row) => {
+                  const nudge = nudgeStates[row.id];
+                  const draft = deadlineDrafts[row.id];
+                  const deadlineDirty =
+                    draft !== undefined && draft !== toDateInputValue(row.dueAt);
+                  const savingDeadline = savingDeadlineId === row.id;
+                  const lastNudgedAt =
+                    nudge?.status === "sent" ? nudge.sentAt : row.lastNudgedAt;
+                  return (
+                    <tr key={row.id}>
+                      <td>{row.title}</td>
+                      <td>{row.deptName}</td>
+                      <td>
+                        <div className="cb-admin-deadline-edit">
+                          <input
+                            type="date"
+                            className="cb-admin-deadline-input"
+                            value={draft ?? toDateInputValue(row.dueAt)}
+                            min={formatDateInput(new Date())}
+                            disabled={savingDeadline}
+                            aria-label={`${row.deptName} ${row.title} 이수 기한`}
+                            onChange={(e) =>
+                              setDeadlineDrafts((prev) => ({ ...prev, [row.id]: e.target.value }))
+                            }
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") void handleDeadlineSave(row);
+                              if (e.key === "Escape") discardDeadlineDraft(row.id);
+                            }}
+                          />
+                          {(deadlineDirty || savingDeadline) && (
+                            <>
+                              <button
+                                type="button"
+                                className="cb-admin-chip cb-admin-chip--active"
+                                disabled={savingDeadline}
+                                onClick={() => void handleDeadlineSave(row)}
+                              >
+                                {savingDeadline ? "저장 중…" : "저장"}
+                              </button>
+                              {!savingDeadline && (
+                                <button
+                                  type="button"
+                                  className="cb-admin-chip"
+                                  onClick={() => discardDeadlineDraft(row.id)}
+                                >
+                                  취소
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </td>
+                      <td>
+                        {row.nonCompleterCount} / {row.targetCount}
+                      </td>
+                      <td className={row.overdueCount > 0 ? "cb-admin-deadline-overdue" : ""}>
+                        {row.overdueCount}명
+                      </td>
+                      <td>
+                        <div className="cb-admin-deadline-nudge">
+                          <button
+                            type="button"
+                            className="cb-admin-chip"
+                            disabled={
+                              row.overdueCount === 0 ||
+                              nudge?.status === "sending" ||
+                              nudge?.status === "sent"
+                            }
+                            onClick={() => void handleNudge(row)}
+                          >
+                            {nudge?.status === "sending"
+                              ? "발송 중…"
+                              : nudge?.status === "sent"
+                              ? `${nudge.notifiedCount}명 발송됨`
+                              : nudge?.status === "error"
+                              ? "다시 보내기"
+                              : "독려 알림"}
+                          </button>
+                          {lastNudgedAt && (
+                            <span className="cb-admin-deadline-nudged">
+                              마지막 발송 {formatDateTime(lastNudgedAt)}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
     </div>
   );
 };
@@ -0,0 +1,137 @@
+// src/pages/CertificateVerifyPage.tsx
+import React, { useRef, useState } from "react";
+import { Navigate } from "react-router-dom";
+import "./CertificateVerifyPage.css";
+import { can } from "../auth/roles";
+import { getKeycloakUserRole } from "../auth/keycloakRole";
+import {
+  verifyEducationCertificate,
+  type EducationCertificate,
+} from "../components/chatbot/educationServiceApi";
+import { formatCertificateDate } from "../components/chatbot/eduCertificates";
+
+type VerifyState =
+  | { status: "idle" }
+  | { status: "loading"; code: string }
+  | { status: "found"; code: string; certificate: EducationCertificate }
+  | { status: "notFound"; code: string }
+  | { status: "error"; code: string };
+
+/** 확인 코드 정규화 (공백 제거 + 대문자) */
+function normalizeCode(input: string): string {
+  return input.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * 수료증 진위 확인 (관리자)
+ * - 수료증 하단의 확인 코드로 발급 내역을 조회
+ * - 유효 / 취소됨 / 없음을 구분해서 보여준다
+ */
+const CertificateVerifyPage: React.FC = () => {
+  const allowed = can(getKeycloakUserRole(), "VERIFY_CERTIFICATES");
+
+  const [input, setInput] = useState("");
+  const [state, setState] = useState<VerifyState>({ status: "idle" });
+  const abortRef = useRef<AbortController | null>(null);
+
+  if (!allowed) return <Navigate to="/dashboard" replace />;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const code = normalizeCode(input);
+    if (!code) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setState({ status: "loading", code });
+    try {
+      const certificate = await verifyEducationCertificate(code, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setState(certificate ? { status: "found", code, certificate } : { status: "notFound", code });
+    } catch (err: unknown) {
+      if (controller.signal.aborted) return;
+      console.warn("[CertificateVerifyPage] verify failed:", err);
+      setState({ status: "error", code });
+    }
+  };
+
+  return (
+    <main className="cert-verify-main">
+      <div className="cert-verify-inner">
+        <h1 className="cert-verify-title">수료증 확인</h1>
+
+        <form className="cert-verify-form" onSubmit={(e) => void handleSubmit(e)}>
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="수료증 하단의 확인 코드를 입력하세요"
+            aria-label="확인 코드"
+            autoComplete="off"
+            spellCheck={false}
+          />
+          <button type="submit" disabled={!normalizeCode(input) || state.status === "loading"}>
+            {state.status === "loading" ? "확인 중…" : "확인"}
+          </button>
+        </form>
+
+        {state.status === "notFound" && (
+          <div className="cert-verify-result is-missing" role="status">
+            <strong>확인되지 않은 코드</strong>
+            <p>
+              <code>{state.code}</code>로 발급된 수료증이 없어요. 코드를 다시 확인해 주세요.
+            </p>
+          </div>
+        )}
+
+        {state.status === "error" && (
+          <div className="cert-verify-result is-missing" role="alert">
+            <strong>조회 실패</strong>
+            <p>수료증을 조회하지 못했어요. 잠시 후 다시 시도해 주세요.</p>
+          </div>
+        )}
+
+        {state.status === "found" && (
+          <div
+            className={
+              "cert-verify-result " + (state.certificate.revoked ? "is-revoked" : "is-valid")
+            }
+            role="status"
+          >
+            <strong>{state.certificate.revoked ? "취소된 수료증" : "유효한 수료증"}</strong>
+            <dl className="cert-verify-detail">
+              <dt>성명</dt>
+              <dd>{state.certificate.employeeName}</dd>
+              <dt>소속</dt>
+              <dd>{state.certificate.department ?? "-"}</dd>
+              <dt>교육명</dt>
+              <dd>{state.certificate.educationTitle}</dd>
+              <dt>수료일</dt>
+              <dd>
+                {formatCertificateDate(
+                  state.certificate.completedAt ?? state.certificate.issuedAt
+                )}
+              </dd>
+              <dt>발급일</dt>
+              <dd>{formatCertificateDate(state.certificate.issuedAt)}</dd>
+              <dt>평가 점수</dt>
+              <dd>
+                {state.certificate.quizBestScore !== null
+                  ? `${state.certificate.quizBestScore}점`
+                  : "-"}
+              </dd>
+              <dt>확인 코드</dt>
+              <dd>
+                <code>{state.certificate.code}</code>
+              </dd>
+            </dl>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default CertificateVerifyPage;
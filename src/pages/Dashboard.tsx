@@ -1,6 +1,12 @@
 // src/pages/Dashboard.tsx
 import React from "react";
+import { Link } from "react-router-dom";
 import "./Dashboard.css";
+import {
+  listMandatoryDeadlines,
+  useMyEducationsForDeadlines,
+} from "../components/chatbot/eduDeadlines";
+import { formatDateTime } from "../components/chatbot/creatorStudioUtils";
 
 type InboxItem = {
   id: number;
@@ -67,11 +73,57 @@ const noticeItems: string[] = [
   "20년 하반기 직원 운임 시간 안내다",
 ];
 
+/** 대시보드 필수 교육 기한 재조회 주기 */
+const DEADLINE_REFRESH_MS = 30 * 60 * 1000;
+/** 띠에 보여줄 최대 교육 수 */
+const DEADLINE_VISIBLE_COUNT = 4;
+
+/** 미이수 필수 교육 기한 띠 (없으면 표시 안 함) */
+const MandatoryDeadlineStrip: React.FC = () => {
+  const state = useMyEducationsForDeadlines(DEADLINE_REFRESH_MS);
+  if (state.status !== "ready") return null;
+
+  const deadlines = listMandatoryDeadlines(state.items, state.loadedAt);
+  if (deadlines.length === 0) return null;
+
+  const overdueCount = deadlines.filter((d) => d.overdue).length;
+
+  return (
+    <section className="dashboard-deadline-strip" aria-label="필수 교육 이수 기한">
+      <div className="dashboard-deadline-head">
+        <strong>필수 교육 {deadlines.length}건 미이수</strong>
+        {overdueCount > 0 && (
+          <span className="dashboard-deadline-overdue">기한 초과 {overdueCount}건</span>
+        )}
+      </div>
+      <ul className="dashboard-deadline-list">
+        {deadlines.slice(0, DEADLINE_VISIBLE_COUNT).map((d) => (
+          <li
+            key={d.educationId}
+            className="dashboard-deadline-item"
+            title={`이수 기한 ${formatDateTime(d.dueAt)}`}
+          >
+            <span className={`dashboard-deadline-badge${d.badge.urgent ? " urgent" : ""}`}>
+              {d.badge.text}
+            </span>
+            <span className="dashboard-deadline-title">{d.title}</span>
+          </li>
+        ))}
+      </ul>
+      <Link to="/education" className="dashboard-deadline-link">
+        교육 보기
+      </Link>
+    </section>
+  );
+};
+
 const DashboardPage: React.FC = () => {
   return (
     <>
       {/* 본문 그리드만 렌더링 (헤더/사이드바는 Layout에서 처리) */}
       <main className="dashboard-main">
+        <MandatoryDeadlineStrip />
+
         <div className="dashboard-grid">
           {/* 1행 1열 - Welcome 카드 */}
           <section className="card hero-card">
@@ -1,185 +1,462 @@
 // src/pages/EducationPage.tsx
-import React, { useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import "./EducationPage.css";
+import {
+  getEducationVideos,
+  getMyEducations,
+  type EducationItem,
+  type EducationVideoItem,
+} from "../components/chatbot/educationServiceApi";
+import { runChatAction } from "../components/chatbot/chatActions";
+import { getDeadlineBadge } from "../components/chatbot/eduDeadlines";
+import {
+  categoryLabel,
+  formatDateTime,
+  formatDuration,
+} from "../components/chatbot/creatorStudioUtils";
 
-type EducationVideo = {
-  id: string;
-  title: string;
-};
+/**
+ * 교육 포털 (/education)
+ * - 챗봇 EduPanel과 같은 API(getMyEducations / getEducationVideos) 사용
+ * - 카테고리 / 교육 유형 필터, 필수·직무 배지, 진도율, 수강 마감일
+ * - 이어보기: 보던 영상을 챗봇 교육 패널 플레이어로 이어서 재생 (PLAY_VIDEO 액션)
+ */
+
+type EduKind = "MANDATORY" | "JOB" | "ETC";
 
-type EducationCategory = {
-  id: string;
-  label: string;
-  videos: EducationVideo[];
+const KIND_LABEL: Record<EduKind, string> = {
+  MANDATORY: "법정 필수",
+  JOB: "직무",
+  ETC: "기타",
 };
 
-const CATEGORIES: EducationCategory[] = [
-  {
-    id: "job",
-    label: "직무",
-    videos: [
-      { id: "job-1", title: "직무 교육 1" },
-      { id: "job-2", title: "직무 교육 2" },
-      { id: "job-3", title: "직무 교육 3" },
-      { id: "job-4", title: "직무 교육 4" },
-    ],
-  },
-  {
-    id: "harassment",
-    label: "성희롱예방",
-    videos: [
-      { id: "harassment-1", title: "성희롱예방 교육 1" },
-      { id: "harassment-2", title: "성희롱예방 교육 2" },
-      { id: "harassment-3", title: "성희롱예방 교육 3" },
-      { id: "harassment-4", title: "성희롱예방 교육 4" },
-    ],
-  },
-  {
-    id: "privacy",
-    label: "개인정보보호",
-    videos: [
-      { id: "privacy-1", title: "개인정보보호 교육 1" },
-      { id: "privacy-2", title: "개인정보보호 교육 2" },
-      { id: "privacy-3", title: "개인정보보호 교육 3" },
-      { id: "privacy-4", title: "개인정보보호 교육 4" },
-    ],
-  },
-  {
-    id: "bullying",
-    label: "괴롭힘",
-    videos: [
-      { id: "bullying-1", title: "괴롭힘 예방 교육 1" },
-      { id: "bullying-2", title: "괴롭힘 예방 교육 2" },
-      { id: "bullying-3", title: "괴롭힘 예방 교육 3" },
-      { id: "bullying-4", title: "괴롭힘 예방 교육 4" },
-    ],
-  },
-  {
-    id: "disability",
-    label: "장애인 인식개선",
-    videos: [
-      { id: "disability-1", title: "장애인 인식개선 교육 1" },
-      { id: "disability-2", title: "장애인 인식개선 교육 2" },
-      { id: "disability-3", title: "장애인 인식개선 교육 3" },
-      { id: "disability-4", title: "장애인 인식개선 교육 4" },
-    ],
-  },
+const KIND_FILTERS: Array<{ value: EduKind | "ALL"; label: string }> = [
+  { value: "ALL", label: "전체" },
+  { value: "MANDATORY", label: KIND_LABEL.MANDATORY },
+  { value: "JOB", label: KIND_LABEL.JOB },
+  { value: "ETC", label: KIND_LABEL.ETC },
 ];
 
+const NO_CATEGORY = "__none__";
 const VISIBLE_COUNT = 3;
 
+type LoadState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | {
+      status: "ready";
+      items: EducationItem[];
+      /** videos가 비어 온 진행 중 교육의 영상 목록 (이어보기용) */
+      videosByEdu: Record<string, EducationVideoItem[]>;
+      loadedAt: number;
+    };
+
+type ResumeEntry = {
+  education: EducationItem;
+  video: EducationVideoItem;
+};
+
+function eduKind(item: EducationItem): EduKind {
+  if (item.required) return "MANDATORY";
+  const t = (item.eduType ?? "").toUpperCase();
+  if (t === "MANDATORY") return "MANDATORY";
+  if (t === "JOB") return "JOB";
+  return "ETC";
+}
+
+function clampPercent(v?: number): number {
+  if (typeof v !== "number" || !Number.isFinite(v)) return 0;
+  return Math.max(0, Math.min(100, Math.round(v)));
+}
+
+function isInProgress(item: EducationItem): boolean {
+  if (item.completed) return false;
+  return clampPercent(item.progressPercent) > 0;
+}
+
+/** 다음에 볼 영상: 미완료 영상 중 첫 번째 (모두 완료면 첫 영상) */
+function pickNextVideo(videos: EducationVideoItem[]): EducationVideoItem | null {
+  return videos.find((v) => !v.completed) ?? videos[0] ?? null;
+}
+
 const EducationPage: React.FC = () => {
+  const [state, setState] = useState<LoadState>({ status: "loading" });
+  const [reloadKey, setReloadKey] = useState(0);
+  const [kindFilter, setKindFilter] = useState<EduKind | "ALL">("ALL");
+  const [categoryFilter, setCategoryFilter] = useState<string>("ALL");
   const [positions, setPositions] = useState<Record<string, number>>({});
+  const [notice, setNotice] = useState<string | null>(null);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    void (async () => {
+      try {
+        const items = await getMyEducations(undefined, { signal: controller.signal });
+
+        // 진행 중인데 목록에 영상이 없으면 영상 목록을 따로 받아 이어보기 후보를 채운다
+        const needVideos = items.filter((it) => isInProgress(it) && !it.videos?.length);
+        const settled = await Promise.allSettled(
+          needVideos.map((it) => getEducationVideos(it.id, { signal: controller.signal }))
+        );
+        if (controller.signal.aborted) return;
+
+        const videosByEdu: Record<string, EducationVideoItem[]> = {};
+        settled.forEach((r, i) => {
+          if (r.status === "fulfilled") videosByEdu[needVideos[i].id] = r.value;
+        });
+
+        setState({ status: "ready", items, videosByEdu, loadedAt: Date.now() });
+      } catch (e: unknown) {
+        if (controller.signal.aborted) return;
+        console.warn("[EducationPage] load failed:", e);
+        setState({ status: "error", message: "교육 목록을 불러오지 못했어요." });
+      }
+    })();
+
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const handleRetry = () => {
+    setState({ status: "loading" });
+    setReloadKey((k) => k + 1);
+  };
 
-  const handlePrev = (categoryId: string) => {
+  const items = useMemo(() => (state.status === "ready" ? state.items : []), [state]);
+
+  const categoryOptions = useMemo(() => {
+    const seen = new Set<string>();
+    for (const it of items) seen.add(it.category ?? NO_CATEGORY);
+    return Array.from(seen).map((value) => ({
+      value,
+      label: value === NO_CATEGORY ? "기타" : categoryLabel(value),
+    }));
+  }, [items]);
+
+  const filtered = useMemo(
+    () =>
+      items.filter((it) => {
+        if (kindFilter !== "ALL" && eduKind(it) !== kindFilter) return false;
+        if (categoryFilter !== "ALL" && (it.category ?? NO_CATEGORY) !== categoryFilter) return false;
+        return true;
+      }),
+    [items, kindFilter, categoryFilter]
+  );
+
+  // 카테고리별 섹션 (미완료 → 마감 임박 순)
+  const sections = useMemo(() => {
+    const byCategory = new Map<string, EducationItem[]>();
+    for (const it of filtered) {
+      const key = it.category ?? NO_CATEGORY;
+      byCategory.set(key, [...(byCategory.get(key) ?? []), it]);
+    }
+
+    const endTime = (it: EducationItem) => {
+      const t = it.dueAt ? new Date(it.dueAt).getTime() : NaN;
+      return Number.isNaN(t) ? Number.POSITIVE_INFINITY : t;
+    };
+
+    return Array.from(byCategory.entries()).map(([id, list]) => ({
+      id,
+      label: id === NO_CATEGORY ? "기타" : categoryLabel(id),
+      items: [...list].sort((a, b) => {
+        if (Boolean(a.completed) !== Boolean(b.completed)) return a.completed ? 1 : -1;
+        return endTime(a) - endTime(b);
+      }),
+    }));
+  }, [filtered]);
+
+  const resumeEntries = useMemo((): ResumeEntry[] => {
+    if (state.status !== "ready") return [];
+    return filtered.flatMap((education) => {
+      if (!isInProgress(education)) return [];
+      const videos = education.videos ?? state.videosByEdu[education.id] ?? [];
+      return videos
+        .filter((v) => !v.completed && (v.resumePositionSeconds ?? 0) > 0)
+        .map((video) => ({ education, video }));
+    });
+  }, [state, filtered]);
+
+  const playVideo = (education: EducationItem, video: EducationVideoItem) => {
+    const ok = runChatAction({
+      type: "PLAY_VIDEO",
+      educationId: education.id,
+      videoId: video.id,
+      resumePositionSeconds: video.resumePositionSeconds,
+      educationTitle: education.title,
+      videoTitle: video.title,
+    });
+    setNotice(ok ? null : "교육 플레이어를 열 수 없어요. 잠시 후 다시 시도해 주세요.");
+  };
+
+  /** 코스 카드 재생: 다음에 볼 영상을 이어보기 위치부터 */
+  const handleStartCourse = async (education: EducationItem) => {
+    if (state.status !== "ready") return;
+    setOpeningId(education.id);
+    try {
+      let videos = education.videos ?? state.videosByEdu[education.id];
+      if (!videos?.length) videos = await getEducationVideos(education.id);
+
+      const next = pickNextVideo(videos);
+      if (!next) {
+        setNotice(`'${education.title}'에 등록된 영상이 없어요.`);
+        return;
+      }
+      playVideo(education, next);
+    } catch (e: unknown) {
+      console.warn("[EducationPage] videos load failed:", e);
+      setNotice("영상 목록을 불러오지 못했어요.");
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const handlePrev = (sectionId: string) => {
     setPositions((prev) => {
-      const current = prev[categoryId] ?? 0;
-      const next = Math.max(0, current - 1);
-      return { ...prev, [categoryId]: next };
+      const current = prev[sectionId] ?? 0;
+      return { ...prev, [sectionId]: Math.max(0, current - 1) };
     });
   };
 
-  const handleNext = (categoryId: string, total: number) => {
+  const handleNext = (sectionId: string, total: number) => {
     setPositions((prev) => {
-      const current = prev[categoryId] ?? 0;
+      const current = prev[sectionId] ?? 0;
       const maxStart = Math.max(0, total - VISIBLE_COUNT);
-      const next = Math.min(maxStart, current + 1);
-      return { ...prev, [categoryId]: next };
+      return { ...prev, [sectionId]: Math.min(maxStart, current + 1) };
     });
   };
 
-  return (
-    <div className="education-wrapper">
-      {/* 타이틀 + 카드 영역을 하나로 묶어서 가운데 정렬 */}
-      <div className="education-inner">
-        <h1 className="education-title">교육</h1>
+  const renderCarousel = (
+    sectionId: string,
+    label: string,
+    total: number,
+    children: (start: number, end: number) => React.ReactNode
+  ) => {
+    const start = Math.min(positions[sectionId] ?? 0, Math.max(0, total - VISIBLE_COUNT));
+    const end = start + VISIBLE_COUNT;
+    const canPrev = start > 0;
+    const canNext = end < total;
 
-        <div className="education-main-card">
-          <div className="education-scrollable">
-            {CATEGORIES.map((category) => {
-              const start = positions[category.id] ?? 0;
-              const end = start + VISIBLE_COUNT;
-              const visibleVideos = category.videos.slice(start, end);
+    return (
+      <section key={sectionId} className="education-section" aria-label={label}>
+        <div className="education-section-row">
+          {/* 왼쪽 화살표 */}
+          <button
+            type="button"
+            className={`education-carousel-arrow left ${canPrev ? "active" : "disabled"}`}
+            onClick={() => canPrev && handlePrev(sectionId)}
+            disabled={!canPrev}
+            aria-label={`${label} 이전`}
+          >
+            <span className="education-carousel-arrow-icon">◀</span>
+          </button>
+
+          <div className="education-section-body">
+            <h2 className="education-section-title">
+              {label} <span className="education-section-count">{total}</span>
+            </h2>
+            <div className="education-video-row">{children(start, end)}</div>
+          </div>
+
+          {/* 오른쪽 화살표 */}
+          <button
+            type="button"
+            className={`education-carousel-arrow right ${canNext ? "active" : "disabled"}`}
+            onClick={() => canNext && handleNext(sectionId, total)}
+            disabled={!canNext}
+            aria-label={`${label} 다음`}
+          >
+            <span className="education-carousel-arrow-icon">▶</span>
+          </button>
+        </div>
+      </section>
+    );
+  };
+
+  const renderProgress = (percent: number) => (
+    <div
+      className="education-progress"
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={percent}
+    >
+      <div className="education-progress-bar" style={{ width: `${percent}%` }} />
+    </div>
+  );
+
+  const renderBody = () => {
+    if (state.status === "loading") {
+      return <p className="education-status">교육 목록을 불러오는 중…</p>;
+    }
+
+    if (state.status === "error") {
+      return (
+        <div className="education-status" role="alert">
+          <p>{state.message}</p>
+          <button type="button" className="education-retry" onClick={handleRetry}>
+            다시 시도
+          </button>
+        </div>
+      );
+    }
+
+    if (items.length === 0) {
+      return <p className="education-status">배정된 교육이 없어요.</p>;
+    }
+
+    return (
+      <>
+        {resumeEntries.length > 0 &&
+          renderCarousel("__resume__", "이어보기", resumeEntries.length, (start, end) =>
+            resumeEntries.slice(start, end).map(({ education, video }) => (
+              <article
+                key={`${education.id}:${video.id}`}
+                className="education-video-card"
+                aria-label={video.title}
+              >
+                <div className="education-video-thumbnail">
+                  <button
+                    type="button"
+                    className="education-play-button"
+                    onClick={() => playVideo(education, video)}
+                    aria-label={`${video.title} 이어보기`}
+                  >
+                    <span className="education-play-icon" />
+                  </button>
+                </div>
+                {renderProgress(clampPercent(video.progressPercent))}
+                <p className="education-video-title">{video.title}</p>
+                <p className="education-video-meta">
+                  {education.title} · {formatDuration(video.resumePositionSeconds)}부터
+                </p>
+              </article>
+            ))
+          )}
 
-              const canPrev = start > 0;
-              const canNext = end < category.videos.length;
+        {sections.length === 0 && (
+          <p className="education-status">조건에 맞는 교육이 없어요.</p>
+        )}
+
+        {sections.map((section) =>
+          renderCarousel(section.id, section.label, section.items.length, (start, end) =>
+            section.items.slice(start, end).map((education) => {
+              const kind = eduKind(education);
+              const percent = education.completed ? 100 : clampPercent(education.progressPercent);
+              // 이수한 교육은 기한 배지 생략
+              const deadline = education.completed
+                ? null
+                : getDeadlineBadge(education.dueAt, state.loadedAt);
+              const opening = openingId === education.id;
 
               return (
-                <section
-                  key={category.id}
-                  className="education-section"
-                  aria-label={category.label}
+                <article
+                  key={education.id}
+                  className="education-video-card"
+                  aria-label={education.title}
                 >
-                  <div className="education-section-row">
-                    {/* 왼쪽 화살표 */}
+                  <div className="education-video-thumbnail">
+                    <div className="education-badges">
+                      <span className={`education-badge kind-${kind.toLowerCase()}`}>
+                        {KIND_LABEL[kind]}
+                      </span>
+                      {education.completed && (
+                        <span className="education-badge done">이수 완료</span>
+                      )}
+                    </div>
                     <button
                       type="button"
-                      className={`education-carousel-arrow left ${
-                        canPrev ? "active" : "disabled"
-                      }`}
-                      onClick={() => canPrev && handlePrev(category.id)}
-                      disabled={!canPrev}
-                      aria-label={`${category.label} 이전 영상`}
+                      className="education-play-button"
+                      onClick={() => void handleStartCourse(education)}
+                      disabled={opening}
+                      aria-label={`${education.title} ${percent > 0 ? "이어서 학습" : "학습 시작"}`}
                     >
-                      <span className="education-carousel-arrow-icon">◀</span>
+                      <span className="education-play-icon" />
                     </button>
+                  </div>
+                  {renderProgress(percent)}
+                  <p className="education-video-title">{education.title}</p>
+                  <p className="education-video-meta">
+                    진도 {percent}%
+                    {education.dueAt && (
+                      <>
+                        {" "}· 기한 {formatDateTime(education.dueAt)}
+                        {deadline && (
+                          <span className={`education-deadline${deadline.urgent ? " urgent" : ""}`}>
+                            {deadline.text}
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </p>
+                </article>
+              );
+            })
+          )
+        )}
+      </>
+    );
+  };
 
-                    <div className="education-section-body">
-                      <h2 className="education-section-title">
-                        {category.label}
-                      </h2>
-
-                      <div className="education-video-row">
-                        {visibleVideos.map((video) => (
-                          <article
-                            key={video.id}
-                            className="education-video-card"
-                            aria-label={video.title}
-                          >
-                            <button
-                              type="button"
-                              className="education-video-close"
-                              aria-label="영상 제거"
-                            >
-                              ×
-                            </button>
-                            <div className="education-video-thumbnail">
-                              <button
-                                type="button"
-                                className="education-play-button"
-                                aria-label={`${video.title} 재생`}
-                              >
-                                <span className="education-play-icon" />
-                              </button>
-                            </div>
-                            <p className="education-video-title">
-                              {video.title}
-                            </p>
-                          </article>
-                        ))}
-                      </div>
-                    </div>
+  return (
+    <div className="education-wrapper">
+      {/* 타이틀 + 카드 영역을 하나로 묶어서 가운데 정렬 */}
+      <div className="education-inner">
+        <h1 className="education-title">교육</h1>
 
-                    {/* 오른쪽 화살표 */}
+        <div className="education-main-card">
+          {state.status === "ready" && items.length > 0 && (
+            <div className="education-filters">
+              <div className="education-filter-group" role="group" aria-label="교육 유형">
+                {KIND_FILTERS.map((f) => (
+                  <button
+                    key={f.value}
+                    type="button"
+                    className={`education-chip${kindFilter === f.value ? " selected" : ""}`}
+                    aria-pressed={kindFilter === f.value}
+                    onClick={() => setKindFilter(f.value)}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+              {categoryOptions.length > 1 && (
+                <div className="education-filter-group" role="group" aria-label="카테고리">
+                  <button
+                    type="button"
+                    className={`education-chip${categoryFilter === "ALL" ? " selected" : ""}`}
+                    aria-pressed={categoryFilter === "ALL"}
+                    onClick={() => setCategoryFilter("ALL")}
+                  >
+                    전체 카테고리
+                  </button>
+                  {categoryOptions.map((o) => (
                     <button
+                      key={o.value}
                       type="button"
-                      className={`education-carousel-arrow right ${
-                        canNext ? "active" : "disabled"
-                      }`}
-                      onClick={() =>
-                        canNext &&
-                        handleNext(category.id, category.videos.length)
-                      }
-                      disabled={!canNext}
-                      aria-label={`${category.label} 다음 영상`}
+                      className={`education-chip${categoryFilter === o.value ? " selected" : ""}`}
+                      aria-pressed={categoryFilter === o.value}
+                      onClick={() => setCategoryFilter(o.value)}
                     >
-                      <span className="education-carousel-arrow-icon">▶</span>
+                      {o.label}
                     </button>
-                  </div>
-                </section>
-              );
-            })}
-          </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {notice && (
+            <div className="education-notice" role="status">
+              <span>{notice}</span>
+              <button type="button" onClick={() => setNotice(null)} aria-label="알림 닫기">
+                ×
+              </button>
+            </div>
+          )}
+
+          <div className="education-scrollable">{renderBody()}</div>
         </div>
       </div>
     </div>
@@ -1,9 +1,20 @@
 // src/pages/MyPage.tsx
-import React from "react";
+import React, { useEffect, useState } from "react";
 import type { KeycloakTokenParsed } from "keycloak-js";
 import keycloak from "../keycloak";
 import "./MyPage.css";
 import profileIcon from "../assets/profile-icon.png";
+import {
+  getMyCertificates,
+  getMyEducations,
+  type EducationCertificate,
+  type EducationItem,
+} from "../components/chatbot/educationServiceApi";
+import {
+  ensureEducationCertificate,
+  formatCertificateDate,
+  openCertificatePrintView,
+} from "../components/chatbot/eduCertificates";
 
 // 토큰에 있는 커스텀 클레임 타입 확장
 interface CtrlfTokenParsed extends KeycloakTokenParsed {
@@ -12,6 +23,172 @@ interface CtrlfTokenParsed extends KeycloakTokenParsed {
   position?: string;
 }
 
+type CertificatesState =
+  | { status: "loading" }
+  | { status: "error" }
+  | {
+      status: "ready";
+      certificates: EducationCertificate[];
+      /** 이수했지만 아직 수료증이 없는 교육 */
+      pending: EducationItem[];
+    };
+
+/**
+ * 내 수료증
+ * - 발급된 수료증: 인쇄(PDF 저장) / 확인 코드 복사
+ * - 이수 완료했지만 발급이 안 된 교육은 여기서 발급
+ */
+const MyCertificatesSection: React.FC = () => {
+  const [state, setState] = useState<CertificatesState>({ status: "loading" });
+  const [reloadKey, setReloadKey] = useState(0);
+  const [issuingId, setIssuingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    void (async () => {
+      try {
+        const [certificates, completed] = await Promise.all([
+          getMyCertificates({ signal: controller.signal }),
+          getMyEducations({ completed: true }, { signal: controller.signal }),
+        ]);
+        if (controller.signal.aborted) return;
+
+        const issued = new Set(certificates.map((c) => c.educationId));
+        setState({
+          status: "ready",
+          certificates,
+          pending: completed.filter((e) => e.completed && !issued.has(e.id)),
+        });
+      } catch (e: unknown) {
+        if (controller.signal.aborted) return;
+        console.warn("[MyPage] certificates load failed:", e);
+        setState({ status: "error" });
+      }
+    })();
+
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const handleIssue = async (education: EducationItem) => {
+    setIssuingId(education.id);
+    setNotice(null);
+    try {
+      const cert = await ensureEducationCertificate(education.id);
+      setState((prev) =>
+        prev.status === "ready"
+          ? {
+              status: "ready",
+              certificates: [cert, ...prev.certificates.filter((c) => c.code !== cert.code)],
+              pending: prev.pending.filter((e) => e.id !== education.id),
+            }
+          : prev
+      );
+    } catch (e: unknown) {
+      console.warn("[MyPage] certificate issue failed:", e);
+      setNotice("수료증을 발급하지 못했어요. 잠시 후 다시 시도해 주세요.");
+    } finally {
+      setIssuingId(null);
+    }
+  };
+
+  const handleOpen = (cert: EducationCertificate) => {
+    if (!openCertificatePrintView(cert)) {
+      setNotice("팝업이 차단되어 수료증을 열 수 없어요. 팝업 허용 후 다시 시도해 주세요.");
+    }
+  };
+
+  const handleCopyCode = (cert: EducationCertificate) => {
+    void navigator.clipboard
+      ?.writeText(cert.code)
+      .then(() => setNotice(`확인 코드 ${cert.code}를 복사했어요.`))
+      .catch(() => setNotice("확인 코드를 복사하지 못했어요."));
+  };
+
+  return (
+    <section className="mypage-certs" aria-labelledby="mypage-certs-title">
+      <h2 id="mypage-certs-title" className="mypage-certs-title">
+        내 수료증
+      </h2>
+
+      {notice && (
+        <p className="mypage-certs-notice" role="status">
+          {notice}
+        </p>
+      )}
+
+      {state.status === "loading" && <p className="mypage-certs-empty">불러오는 중…</p>}
+
+      {state.status === "error" && (
+        <div className="mypage-certs-empty" role="alert">
+          수료증 목록을 불러오지 못했어요.{" "}
+          <button
+            type="button"
+            className="mypage-certs-link"
+            onClick={() => {
+              setState({ status: "loading" });
+              setReloadKey((k) => k + 1);
+            }}
+          >
+            다시 시도
+          </button>
+        </div>
+      )}
+
+      {state.status === "ready" && (
+        <>
+          {state.certificates.length === 0 && state.pending.length === 0 && (
+            <p className="mypage-certs-empty">아직 이수한 교육이 없어요.</p>
+          )}
+
+          <ul className="mypage-certs-list">
+            {state.certificates.map((cert) => (
+              <li key={cert.code} className="mypage-cert-item">
+                <div className="mypage-cert-main">
+                  <span className="mypage-cert-course">{cert.educationTitle}</span>
+                  <span className="mypage-cert-meta">
+                    수료 {formatCertificateDate(cert.completedAt ?? cert.issuedAt)}
+                    {cert.quizBestScore !== null && ` · 평가 ${cert.quizBestScore}점`}
+                    {cert.revoked && " · 취소됨"}
+                  </span>
+                  <code className="mypage-cert-code">{cert.code}</code>
+                </div>
+                <div className="mypage-cert-actions">
+                  <button type="button" onClick={() => handleOpen(cert)} disabled={cert.revoked}>
+                    보기·인쇄
+                  </button>
+                  <button type="button" onClick={() => handleCopyCode(cert)}>
+                    코드 복사
+                  </button>
+                </div>
+              </li>
+            ))}
+
+            {state.pending.map((edu) => (
+              <li key={edu.id} className="mypage-cert-item is-pending">
+                <div className="mypage-cert-main">
+                  <span className="mypage-cert-course">{edu.title}</span>
+                  <span className="mypage-cert-meta">이수 완료 · 수료증 미발급</span>
+                </div>
+                <div className="mypage-cert-actions">
+                  <button
+                    type="button"
+                    onClick={() => void handleIssue(edu)}
+                    disabled={issuingId === edu.id}
+                  >
+                    {issuingId === edu.id ? "발급 중…" : "수료증 발급"}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
+
 const MyPage: React.FC = () => {
   const token = (keycloak.tokenParsed || {}) as CtrlfTokenParsed;
 
@@ -60,6 +237,8 @@ const MyPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <MyCertificatesSection />
     </main>
   );
 };
@@ -35,6 +35,34 @@ export type ChatServiceDomain =
 // 피드백 값 타입 (좋아요 / 별로예요 / 없음)
 export type FeedbackValue = "up" | "down" | null;
 
+/**
+ * "별로예요" 상세 사유
+ * - wrong_answer      : 답변 내용이 틀림
+ * - outdated_policy   : 개정 전(오래된) 규정 기준
+ * - missing_citation  : 근거/출처가 없음
+ * - wrong_source      : 엉뚱한 문서를 근거로 듦
+ * - incomplete        : 답변이 불충분함
+ * - off_topic         : 질문과 관련 없음
+ * - other             : 기타
+ */
+export type ChatFeedbackReason =
+  | "wrong_answer"
+  | "outdated_policy"
+  | "missing_citation"
+  | "wrong_source"
+  | "incomplete"
+  | "off_topic"
+  | "other";
+
+/** "별로예요" 상세 피드백 (선택 입력, 나중에 수정 가능) */
+export interface ChatFeedbackDetail {
+  reasons: ChatFeedbackReason[];
+  comment?: string;
+  /** 잘못된 출처로 지목한 ChatSource 키 (chatFeedback.feedbackSourceKey) */
+  wrongSourceKeys?: string[];
+  updatedAt: number;
+}
+
 /**
  * 메시지 용도 구분
  * - normal           : 일반 Q/A
@@ -63,6 +91,9 @@ export interface ChatMessage {
   /** 사용자가 남긴 피드백 */
   feedback?: FeedbackValue;
 
+  /** "별로예요" 상세 피드백 (사유/코멘트/잘못된 출처) */
+  feedbackDetail?: ChatFeedbackDetail;
+
   /**
    * 서버 메시지 UUID
    * - 피드백/재시도 등 서버 API 호출에 사용
@@ -72,6 +103,53 @@ export interface ChatMessage {
 
   /** RAG 참조 문서 목록 (출처 정보) - assistant 메시지에만 존재 */
   sources?: ChatSource[];
+
+  /** 사용자가 생성을 중단한 답변(부분 답변)인지 - "중단됨" 표시용 */
+  stopped?: boolean;
+
+  /**
+   * 전송 대기열 상태 (user 메시지에만)
+   * - pending: 네트워크 문제로 대기 중(자동 재시도), failed: 자동 재시도 중단
+   * - 서버에 전달되면 제거
+   */
+  deliveryStatus?: ChatMessageDeliveryStatus;
+
+  /** 신고 접수 말풍선(reportReceipt)에 연결된 서버 신고 id - "신고 내역 보기"용 */
+  reportId?: string;
+
+  /** 답변 아래 후속 질문 칩 (2~4개) - assistant 메시지에만 존재 */
+  followUps?: string[];
+
+  /** 답변에 포함된 액션 (chatActions 레지스트리에 handler가 있으면 버튼으로 표시) */
+  action?: ChatAction;
+
+  /** 질문에 첨부한 이미지/문서 - user 메시지에만 존재 */
+  attachments?: ChatAttachment[];
+}
+
+export type ChatMessageDeliveryStatus = "pending" | "failed";
+
+/**
+ * 대화 분기의 대안 하나
+ * - 분기 지점 이후 메시지(tail)와 그 안에서 생긴 하위 분기 지점을 함께 보관
+ * - 현재 펼쳐진(active) variant는 ChatSession.messages에 있으므로 여기서는 비워 둔다.
+ */
+export interface ChatBranchVariant {
+  messages: ChatMessage[];
+  branches?: ChatBranchPoint[];
+}
+
+/**
+ * 대화 분기 지점 (질문 수정 / 다시 시도 시 생성)
+ * - afterMessageId 메시지까지는 모든 variant가 공유
+ */
+export interface ChatBranchPoint {
+  /** 분기 직전 메시지 로컬 id (첫 메시지부터 갈라지면 null) */
+  afterMessageId: string | null;
+  /** 대안 목록 (생성 순) */
+  variants: ChatBranchVariant[];
+  /** 현재 messages에 펼쳐진 variant index */
+  activeIndex: number;
 }
 
 /** 세션 엔티티 */
@@ -97,6 +175,23 @@ export interface ChatSession {
    * - 이후 피드백/재시도 등에서 사용
    */
   serverId?: string;
+
+  /**
+   * 대화 분기 지점 (messages 경로 위에 있는 것만)
+   * - messages는 항상 "현재 선택된 경로"이고, 다른 대안은 여기에 보관
+   */
+  branches?: ChatBranchPoint[];
+}
+
+/** 사이드바 세션 정리 정보 (상단 고정 / 즐겨찾기 / 폴더) */
+export interface ChatSessionOrganization {
+  /** 상단 고정 (보관 개수 제한에서 제외) */
+  pinned?: boolean;
+  favorite?: boolean;
+  /** 폴더 이름 (없으면 폴더 밖) */
+  folder?: string;
+  /** 마지막 변경 시각 (서버 값과 선후 비교용) */
+  updatedAt: number;
 }
 
 // 사이드바에서 사용하는 요약용 세션 타입
@@ -115,6 +210,27 @@ export interface ChatMessagePayload {
   content: string;
 }
 
+/**
+ * 질문 첨부 파일 (presign 업로드 완료 후)
+ * - objectKey: S3 object key (열기/미리보기는 presign download로 변환)
+ */
+export interface ChatAttachment {
+  fileName: string;
+  objectKey: string;
+  contentType: string;
+  size: number;
+  fileType: "image" | "docs";
+}
+
+// 전송 전 브라우저에서 감지하는 개인정보 종류
+export type ChatPiiKind = "rrn" | "phone" | "card" | "account" | "email" | "employeeNo";
+
+/** 개인정보가 감지된 질문에 대한 사용자 선택 (가려서 보냄 / 그대로 보냄) */
+export interface ChatPiiDecision {
+  action: "masked" | "sent_as_is";
+  kinds: ChatPiiKind[];
+}
+
 // 백엔드로 보내는 채팅 요청 포맷(프론트 내부 포맷)
 // - sessionId는 "클라이언트 로컬 세션 키"로 사용 가능
 // - serverSessionId는 이미 서버 UUID를 알고 있는 경우 함께 전달
@@ -133,6 +249,18 @@ export interface ChatRequest {
    * - null/undefined: 기본값(openai) 사용
    */
   model?: "openai" | "sroberta" | null;
+
+  /** 전송 전 개인정보 감지 결과 (감지된 경우에만) */
+  pii?: ChatPiiDecision;
+
+  /** 마지막 user 메시지에 첨부한 파일 (object key로 전달) */
+  attachments?: ChatAttachment[];
+
+  /**
+   * 현재 분기 경로에서 이 질문 바로 앞 답변의 서버 id (null = 대화 처음부터)
+   * - 서버는 이 답변부터 체인을 거슬러 문맥을 만든다 (다른 분기는 문맥에서 제외)
+   */
+  parentMessageId?: string | null;
 }
 
 // =============================================================================
@@ -140,7 +268,15 @@ export interface ChatRequest {
 // =============================================================================
 
 /** 프론트엔드에서 실행할 액션 타입 */
-export type ChatActionType = "PLAY_VIDEO" | "OPEN_EDU_PANEL" | "OPEN_QUIZ";
+export type ChatActionType =
+  | "PLAY_VIDEO"
+  | "OPEN_EDU_PANEL"
+  | "OPEN_QUIZ"
+  | "OPEN_POLICY_DOC"
+  | "START_APPROVAL"
+  | "OPEN_REPORT_FORM"
+  | "SHOW_EVENT"
+  | "OPEN_ORG_NODE";
 
 // =============================================================================
 // ChatSource: AI 응답에 포함된 RAG 참조 문서 (출처) 정보
@@ -186,6 +322,24 @@ export interface ChatAction {
   progressPercent?: number;
   /** 퀴즈 ID (퀴즈 시작 시 선택) */
   quizId?: string;
+  /** 버튼 라벨 (없으면 액션 handler의 기본 라벨) */
+  label?: string;
+  /** 문서 ID (OPEN_POLICY_DOC) */
+  docId?: string;
+  /** 문서 페이지 (OPEN_POLICY_DOC) */
+  page?: number;
+  /** 조항 라벨 (OPEN_POLICY_DOC) */
+  articleLabel?: string;
+  /** 문서/결재/일정 제목 (UI 표시용) */
+  title?: string;
+  /** 결재 양식 유형 (START_APPROVAL) */
+  approvalType?: string;
+  /** 일정 ID (SHOW_EVENT) */
+  eventId?: string;
+  /** 조직도 노드 ID (OPEN_ORG_NODE) */
+  orgNodeId?: string;
+  /** 신고 양식에 미리 채울 내용 (OPEN_REPORT_FORM) */
+  reportContent?: string;
 }
 
 /**
@@ -210,6 +364,10 @@ export interface ChatSendResult {
   action?: ChatAction;
   /** RAG 참조 문서 목록 (출처 정보) */
   sources?: ChatSource[];
+  /** 사용자가 생성을 중단하여 부분 답변으로 끝났는지 (스트리밍 전용) */
+  stopped?: boolean;
+  /** 서버가 제안한 후속 질문 (없으면 프론트에서 출처/FAQ로 생성) */
+  followUps?: string[];
 }
 
 // 신고 모달에서 넘어가는 신고 데이터
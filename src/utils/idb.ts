@@ -0,0 +1,72 @@
+// src/utils/idb.ts
+
+/**
+ * IndexedDB 최소 헬퍼
+ * - 요청/트랜잭션을 Promise로 감싸는 정도만 제공 (스키마는 사용하는 쪽에서 upgrade로 정의)
+ * - IndexedDB를 쓸 수 없는 환경(사파리 프라이빗 모드 등)에서는 openIdb가 reject → 호출부에서 메모리 fallback
+ */
+
+export function isIdbAvailable(): boolean {
+  try {
+    return typeof indexedDB !== "undefined" && indexedDB !== null;
+  } catch {
+    return false;
+  }
+}
+
+export function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+/** 트랜잭션 완료(commit)까지 대기 */
+export function idbTransactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+    tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed"));
+  });
+}
+
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * DB 열기 (같은 이름은 한 번만 열어 재사용)
+ * - 다른 탭이 버전을 올리면 현재 연결을 닫고 다음 호출에서 다시 연다.
+ */
+export function openIdb(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> {
+  const cached = dbPromises.get(name);
+  if (cached) return cached;
+
+  if (!isIdbAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+
+  const p = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(name, version);
+    req.onupgradeneeded = (ev) => {
+      upgrade(req.result, ev.oldVersion);
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      db.onversionchange = () => {
+        db.close();
+        dbPromises.delete(name);
+      };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error ?? new Error(`IndexedDB open failed: ${name}`));
+    req.onblocked = () => reject(new Error(`IndexedDB open blocked: ${name}`));
+  });
+
+  // 실패한 open은 캐시하지 않음(다음 호출에서 재시도)
+  p.catch(() => dbPromises.delete(name));
+  dbPromises.set(name, p);
+  return p;
+}